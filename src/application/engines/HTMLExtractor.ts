@@ -1,5 +1,6 @@
-import { Page } from 'playwright';
+import { Frame, Page } from 'playwright';
 import { IHTMLExtractor } from '../interfaces/IHTMLExtractor';
+import { PageScope } from '../../infrastructure/executors/PageScope';
 
 /**
  * Playwright-based implementation of HTML extraction.
@@ -12,14 +13,29 @@ import { IHTMLExtractor } from '../interfaces/IHTMLExtractor';
  * extraction backend, not just Playwright.
  */
 export class HTMLExtractor implements IHTMLExtractor {
-  constructor(private readonly page: Page) {}
+  /**
+   * @param source Page to extract from, or a scope to follow into the tab
+   *   and frame it switched to
+   */
+  constructor(private readonly source: Page | PageScope) {}
+
+  /**
+   * The frame to extract from: the scope's active frame, or the main frame
+   * of its active tab.
+   */
+  private get frame(): Frame {
+    if (this.source instanceof PageScope) {
+      return this.source.frame ?? this.source.page.mainFrame();
+    }
+    return this.source.mainFrame();
+  }
 
   /**
    * Extracts full HTML content from the page.
    * @returns Complete HTML as string
    */
   public async extractHTML(): Promise<string> {
-    return await this.page.content();
+    return await this.frame.content();
   }
 
   /**
@@ -28,7 +44,7 @@ export class HTMLExtractor implements IHTMLExtractor {
    * @returns Simplified HTML as string
    */
   public async extractSimplified(): Promise<string> {
-    return await this.page.evaluate(() => {
+    return await this.frame.evaluate(() => {
       const clone = document.body.cloneNode(true) as HTMLElement;
 
       // Remove script tags
@@ -60,7 +76,7 @@ export class HTMLExtractor implements IHTMLExtractor {
    * @returns HTML of visible elements
    */
   public async extractVisible(): Promise<string> {
-    return await this.page.evaluate(() => {
+    return await this.frame.evaluate(() => {
       const isVisible = (el: Element): boolean => {
         const style = window.getComputedStyle(el);
         return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
@@ -97,7 +113,7 @@ export class HTMLExtractor implements IHTMLExtractor {
    * @returns HTML of interactive elements
    */
   public async extractInteractive(): Promise<string> {
-    return await this.page.evaluate(() => {
+    return await this.frame.evaluate(() => {
       const interactiveTags = new Set(['BUTTON', 'A', 'INPUT', 'TEXTAREA', 'SELECT', 'FORM']);
 
       const isInteractive = (el: Element): boolean => {
@@ -142,7 +158,7 @@ export class HTMLExtractor implements IHTMLExtractor {
    * @returns HTML with semantic attributes
    */
   public async extractSemantic(): Promise<string> {
-    return await this.page.evaluate(() => {
+    return await this.frame.evaluate(() => {
       const clone = document.body.cloneNode(true) as HTMLElement;
 
       // Remove non-semantic attributes to reduce noise
@@ -156,6 +172,8 @@ export class HTMLExtractor implements IHTMLExtractor {
           'aria-labelledby',
           'role',
           'placeholder',
+          'alt',
+          'title',
           'type',
           'href',
         ];
@@ -4,6 +4,7 @@ import { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
 import { OxtestPromptBuilder } from '../../infrastructure/llm/OxtestPromptBuilder';
 import { Subtask } from '../../domain/entities/Subtask';
 import { OxtestCommand } from '../../domain/entities/OxtestCommand';
+import { parseRoleSelector } from '../../domain/entities/SelectorSpec';
 import { LanguageDetectionService } from '../services/LanguageDetectionService';
 
 /**
@@ -466,8 +467,22 @@ export class IterativeDecompositionEngine {
         }
         break;
 
-      case 'xpath':
+      case 'alt':
+      case 'title':
+        // Check if the attribute exists
+        if (!html.includes(`${strategy}="${value}"`)) {
+          issues.push(`${strategy} attribute "${value}" not found in HTML`);
+        }
+        break;
+
       case 'role':
+        // Options such as [name=...] are computed, so only the role itself can be checked
+        if (!html.includes(parseRoleSelector(value).role)) {
+          issues.push(`role selector "${value}" not found in HTML`);
+        }
+        break;
+
+      case 'xpath':
       case 'testid':
         // For these strategies, we do basic existence checks
         if (!html.includes(value)) {
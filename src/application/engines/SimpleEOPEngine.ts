@@ -11,7 +11,8 @@ import type { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
 import type { LanguageDetectionService } from '../services/LanguageDetectionService';
 import { Subtask } from '../../domain/entities/Subtask';
 import { OxtestCommand } from '../../domain/entities/OxtestCommand';
-import type { Page } from 'playwright';
+import type { Frame, Page } from 'playwright';
+import type { PageScope } from '../../infrastructure/executors/PageScope';
 
 export interface SimpleEOPOptions {
   verbose?: boolean;
@@ -30,7 +31,7 @@ export class SimpleEOPEngine {
     private promptBuilder: OxtestPromptBuilder,
     private oxtestParser: OxtestParser,
     private languageDetector: LanguageDetectionService,
-    private page: Page,
+    private scope: PageScope,
     private options: SimpleEOPOptions = {}
   ) {}
 
@@ -42,6 +43,16 @@ export class SimpleEOPEngine {
     return this.options.model ?? 'gpt-4o';
   }
 
+  /** The active tab, shared with the HTML extractor */
+  private get page(): Page {
+    return this.scope.page;
+  }
+
+  /** Where elements are looked up: the active frame, or the active tab */
+  private get root(): Page | Frame {
+    return this.scope.frame ?? this.scope.page;
+  }
+
   /**
    * Decompose with Execute-Observe-Plan pattern
    */
@@ -193,6 +204,37 @@ export class SimpleEOPEngine {
           }
           break;
 
+        // Follow popups and iframes so the next HTML comes from them
+        case 'switchFrame':
+          if (command.params.frame === 'main') {
+            this.scope.switchToMainFrame();
+          } else if (command.selector) {
+            await this.scope.switchFrame(
+              this.root.locator(
+                this.buildPlaywrightSelector(command.selector.strategy, command.selector.value)
+              )
+            );
+          }
+          break;
+
+        case 'expectPopup':
+          await this.scope.expectPopup(
+            5000,
+            command.params.as !== undefined ? String(command.params.as) : undefined
+          );
+          break;
+
+        case 'switchTab':
+          await this.scope.switchTab({
+            index: command.params.index !== undefined ? Number(command.params.index) : undefined,
+            name: command.params.name !== undefined ? String(command.params.name) : undefined,
+          });
+          break;
+
+        case 'closeTab':
+          await this.scope.closeTab();
+          break;
+
         // Skip other commands for now
         default:
           return true;
@@ -212,7 +254,7 @@ export class SimpleEOPEngine {
    */
   private async clickElement(strategy: string, value: string): Promise<void> {
     const selector = this.buildPlaywrightSelector(strategy, value);
-    await this.page.click(selector, { timeout: 5000 });
+    await this.root.click(selector, { timeout: 5000 });
     await this.page.waitForLoadState('networkidle', { timeout: 2000 }).catch(() => {});
   }
 
@@ -225,7 +267,7 @@ export class SimpleEOPEngine {
     text: string
   ): Promise<void> {
     const selector = this.buildPlaywrightSelector(strategy, selectorValue);
-    await this.page.fill(selector, text, { timeout: 5000 });
+    await this.root.fill(selector, text, { timeout: 5000 });
   }
 
   /**
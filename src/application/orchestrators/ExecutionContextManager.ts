@@ -153,6 +153,23 @@ export class ExecutionContextManager {
     };
   }
 
+  /**
+   * Removes a variable from the execution context.
+   *
+   * Used to unbind procedure parameters once a call returns.
+   * Removing a variable that doesn't exist is a no-op.
+   *
+   * @param key Variable name to remove
+   */
+  public removeVariable(key: string): void {
+    const variables = { ...this.context.variables };
+    delete variables[key];
+    this.context = {
+      ...this.context,
+      variables,
+    };
+  }
+
   /**
    * Gets a variable from the execution context.
    *
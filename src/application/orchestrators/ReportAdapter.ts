@@ -1,8 +1,14 @@
 import { Subtask } from '../../domain/entities/Subtask';
 import { TaskStatus } from '../../domain/enums/TaskStatus';
+import { StepPolicy } from '../../domain/interfaces/StepPolicy';
 import { ExecutionReport, SubtaskReport } from '../../presentation/reporters/IReporter';
 import { TaskExecutionResult, SubtaskExecutionResult } from './TestOrchestrator';
 
+/**
+ * Files recorded while a subtask ran, linked from its report.
+ */
+export type SubtaskArtifacts = Pick<SubtaskReport, 'stepScreenshots' | 'attachments'>;
+
 /**
  * Adapter to convert TestOrchestrator execution results to ExecutionReport format
  * for consumption by reporters.
@@ -108,20 +114,35 @@ export class ReportAdapter {
    * @param subtasks - Array of Subtask entities with execution state
    * @param startTime - When execution started
    * @param endTime - When execution ended
+   * @param parameters - Data row each subtask ran with, by index, for data-driven tests
+   * @param artifacts - Step screenshots and files each subtask recorded, by index
+   * @param policy - Step policy the test ran with
    * @returns ExecutionReport for reporters
    */
   public static subtasksToExecutionReport(
     testName: string,
     subtasks: Subtask[],
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    parameters?: ReadonlyArray<Readonly<Record<string, string>>>,
+    artifacts?: ReadonlyArray<SubtaskArtifacts>,
+    policy?: StepPolicy
   ): ExecutionReport {
     const duration = endTime.getTime() - startTime.getTime();
 
     // Convert all subtasks to reports
-    const subtaskReports: SubtaskReport[] = subtasks.map(subtask =>
-      this.subtaskEntityToReport(subtask)
-    );
+    const subtaskReports: SubtaskReport[] = subtasks.map((subtask, index) => {
+      return {
+        ...this.subtaskEntityToReport(subtask),
+        ...(parameters?.[index] && { parameters: parameters[index] }),
+        ...(artifacts?.[index]?.stepScreenshots?.length && {
+          stepScreenshots: artifacts[index].stepScreenshots,
+        }),
+        ...(artifacts?.[index]?.attachments?.length && {
+          attachments: artifacts[index].attachments,
+        }),
+      };
+    });
 
     // Calculate statistics
     const passed = subtaskReports.filter(sr => sr.status === TaskStatus.Completed).length;
@@ -142,6 +163,7 @@ export class ReportAdapter {
       blocked,
       subtaskReports,
       success,
+      ...(policy && { policy }),
     };
   }
 }
@@ -1,9 +1,20 @@
 import { Task } from '../../domain/entities/Task';
 import { Subtask } from '../../domain/entities/Subtask';
 import { OxtestCommand } from '../../domain/entities/OxtestCommand';
-import { PlaywrightExecutor } from '../../infrastructure/executors/PlaywrightExecutor';
+import {
+  CallBlock,
+  ForEachBlock,
+  OxtestNode,
+  isBlock,
+  parseListValue,
+} from '../../domain/entities/OxtestBlock';
+import {
+  PlaywrightExecutor,
+  ExecutionResult,
+} from '../../infrastructure/executors/PlaywrightExecutor';
 import { ExecutionContextManager } from './ExecutionContextManager';
 import { ExecutionContext } from '../../domain/interfaces';
+import { VariableInterpolator } from '../services/VariableInterpolator';
 
 /**
  * Result of subtask execution.
@@ -27,11 +38,25 @@ export interface TaskExecutionResult {
   error?: string;
 }
 
+/**
+ * Progress of a run through a command tree.
+ */
+interface NodeProgress {
+  commandsExecuted: number;
+  failedCommand?: OxtestCommand;
+  error?: string;
+  /** Time limit in milliseconds, checked before each command */
+  timeout?: number;
+  startTime?: number;
+}
+
 /**
  * Orchestrates sequential execution of tasks and subtasks.
  * Manages execution flow, context, and error handling.
  */
 export class TestOrchestrator {
+  private readonly interpolator = new VariableInterpolator();
+
   constructor(
     private readonly executor: PlaywrightExecutor,
     private readonly contextManager: ExecutionContextManager
@@ -40,42 +65,36 @@ export class TestOrchestrator {
   /**
    * Executes a single subtask sequentially.
    * @param subtask Subtask to execute
+   * @param timeout Optional time limit in milliseconds; a command that is
+   *   already running is allowed to finish, but no further command starts
    * @returns Execution result
    */
-  public async executeSubtask(subtask: Subtask): Promise<SubtaskExecutionResult> {
+  public async executeSubtask(subtask: Subtask, timeout?: number): Promise<SubtaskExecutionResult> {
     const startTime = Date.now();
-    let commandsExecuted = 0;
+    const progress: NodeProgress = { commandsExecuted: 0, timeout, startTime };
 
     try {
-      for (const command of subtask.commands) {
-        const result = await this.executor.execute(command);
-        commandsExecuted++;
-
-        if (!result.success) {
-          return {
-            success: false,
-            subtaskId: subtask.id,
-            commandsExecuted,
-            duration: Date.now() - startTime,
-            error: result.error || `Command failed: ${command.type}`,
-          };
-        }
-
-        // Update context after successful command
-        this.updateContext(command);
+      if (!(await this.executeNodes(subtask.nodes, progress))) {
+        return {
+          success: false,
+          subtaskId: subtask.id,
+          commandsExecuted: progress.commandsExecuted,
+          duration: Date.now() - startTime,
+          error: progress.error,
+        };
       }
 
       return {
         success: true,
         subtaskId: subtask.id,
-        commandsExecuted,
+        commandsExecuted: progress.commandsExecuted,
         duration: Date.now() - startTime,
       };
     } catch (error) {
       return {
         success: false,
         subtaskId: subtask.id,
-        commandsExecuted,
+        commandsExecuted: progress.commandsExecuted,
         duration: Date.now() - startTime,
         error: (error as Error).message,
       };
@@ -181,7 +200,7 @@ export class TestOrchestrator {
   ): Promise<{ success: boolean; error?: string }> {
     for (const command of commands) {
       try {
-        const result = await this.executor.execute(command);
+        const result = await this.runCommand(command);
 
         if (!result.success) {
           return {
@@ -189,9 +208,6 @@ export class TestOrchestrator {
             error: result.error || `Command failed: ${command.type}`,
           };
         }
-
-        // Update context after successful command
-        this.updateContext(command);
       } catch (error) {
         return {
           success: false,
@@ -203,11 +219,161 @@ export class TestOrchestrator {
     return { success: true };
   }
 
+  /**
+   * Executes a tree of commands and control flow blocks, stopping at the
+   * first failed command.
+   * @param nodes Commands and blocks to execute
+   * @param progress Counts executed commands and records the failure
+   * @returns True if every executed command succeeded
+   * @throws UndefinedVariableError if a referenced variable is not set
+   */
+  private async executeNodes(
+    nodes: readonly OxtestNode[],
+    progress: NodeProgress
+  ): Promise<boolean> {
+    for (const node of nodes) {
+      if (!isBlock(node)) {
+        if (
+          progress.timeout !== undefined &&
+          Date.now() - progress.startTime! >= progress.timeout
+        ) {
+          progress.failedCommand = node;
+          progress.error = `Timed out after ${progress.timeout}ms`;
+          return false;
+        }
+
+        const result = await this.runCommand(node);
+        progress.commandsExecuted++;
+
+        if (!result.success) {
+          progress.failedCommand = node;
+          progress.error = result.error || `Command failed: ${node.type}`;
+          return false;
+        }
+        continue;
+      }
+
+      const variables = this.contextManager.getContext().variables;
+
+      if (node.kind === 'if') {
+        const condition = this.interpolator.interpolateCondition(node.condition, variables);
+        const holds = await this.executor.evaluateCondition(condition);
+        if (!(await this.executeNodes(holds ? node.thenBody : node.elseBody, progress))) {
+          return false;
+        }
+      } else if (node.kind === 'repeat') {
+        for (let i = 0; i < node.times; i++) {
+          if (!(await this.executeNodes(node.body, progress))) {
+            return false;
+          }
+        }
+      } else if (node.kind === 'call') {
+        if (!(await this.executeCall(node, variables, progress))) {
+          return false;
+        }
+      } else {
+        for (const item of this.resolveList(node, variables)) {
+          this.contextManager.setVariable(node.itemVariable, item);
+          if (!(await this.executeNodes(node.body, progress))) {
+            return false;
+          }
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Runs a procedure with its parameters bound to the call arguments.
+   * Arguments are resolved in the caller's scope; variables shadowed by
+   * parameters are restored when the call returns.
+   * @param call The call block
+   * @param variables Variables of the caller
+   * @param progress Counts executed commands and records the failure
+   * @returns True if every executed command succeeded
+   * @throws UndefinedVariableError if an argument references an unset variable
+   */
+  private async executeCall(
+    call: CallBlock,
+    variables: Record<string, string>,
+    progress: NodeProgress
+  ): Promise<boolean> {
+    const args = Object.entries(call.args).map(
+      ([name, value]) => [name, this.interpolator.interpolateString(value, variables)] as const
+    );
+    const shadowed = args.map(([name]) => [name, this.contextManager.getVariable(name)] as const);
+
+    for (const [name, value] of args) {
+      this.contextManager.setVariable(name, value);
+    }
+
+    try {
+      return await this.executeNodes(call.procedure.body, progress);
+    } finally {
+      for (const [name, previous] of shadowed) {
+        if (previous === undefined) {
+          this.contextManager.removeVariable(name);
+        } else {
+          this.contextManager.setVariable(name, previous);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolves the items a for_each block iterates over.
+   * @param block The for_each block
+   * @param variables Variables captured during execution
+   * @returns List items
+   * @throws UndefinedVariableError if the list variable is not set
+   */
+  private resolveList(block: ForEachBlock, variables: Record<string, string>): readonly string[] {
+    if (block.values) {
+      return block.values;
+    }
+    return parseListValue(
+      this.interpolator.interpolateString(`\${${block.listVariable}}`, variables)
+    );
+  }
+
+  /**
+   * Resolves variable references in a command, executes it and
+   * updates the context when it succeeds. The browser's cookies are
+   * synced after every step, failed ones included.
+   * @param command Command to execute
+   * @returns Executor result
+   * @throws UndefinedVariableError if a referenced variable is not set
+   */
+  private async runCommand(command: OxtestCommand): Promise<ExecutionResult> {
+    const resolved = this.interpolator.interpolate(
+      command,
+      this.contextManager.getContext().variables
+    );
+    const result = await this.executor.execute(resolved);
+
+    if (result.cookies) {
+      this.contextManager.updateCookies(result.cookies);
+    }
+
+    if (result.success) {
+      this.updateContext(resolved, result);
+    }
+
+    return result;
+  }
+
   /**
    * Updates execution context based on command execution.
    * @param command Executed command
+   * @param result Result of the execution
    */
-  private updateContext(command: OxtestCommand): void {
+  private updateContext(command: OxtestCommand, result: ExecutionResult): void {
+    // Store values captured by store_* commands
+    for (const [name, value] of Object.entries(result.variables || {})) {
+      this.contextManager.setVariable(name, value);
+    }
+
     // Store navigation URLs
     if (command.type === 'navigate' && command.params.url) {
       this.contextManager.setVariable('lastUrl', command.params.url as string);
@@ -242,38 +408,30 @@ export class TestOrchestrator {
    */
   public async executeSubtaskWithStateTracking(subtask: Subtask): Promise<SubtaskExecutionResult> {
     const startTime = Date.now();
-    let commandsExecuted = 0;
+    const progress: NodeProgress = { commandsExecuted: 0 };
 
     try {
       // Transition to InProgress (validates state machine)
       subtask.markInProgress();
 
-      // Execute all commands
-      for (const command of subtask.commands) {
-        const result = await this.executor.execute(command);
-        commandsExecuted++;
-
-        if (!result.success) {
-          // Mark as failed with error details
-          subtask.markFailed(new Error(result.error || `Command failed: ${command.type}`), {
-            metadata: {
-              commandsExecuted,
-              subtaskId: subtask.id,
-              failedCommand: command.type,
-            },
-          });
-
-          return {
-            success: false,
+      // Execute all commands, following control flow blocks
+      if (!(await this.executeNodes(subtask.nodes, progress))) {
+        // Mark as failed with error details
+        subtask.markFailed(new Error(progress.error), {
+          metadata: {
+            commandsExecuted: progress.commandsExecuted,
             subtaskId: subtask.id,
-            commandsExecuted,
-            duration: Date.now() - startTime,
-            error: result.error || `Command failed: ${command.type}`,
-          };
-        }
+            failedCommand: progress.failedCommand?.type,
+          },
+        });
 
-        // Update context after successful command
-        this.updateContext(command);
+        return {
+          success: false,
+          subtaskId: subtask.id,
+          commandsExecuted: progress.commandsExecuted,
+          duration: Date.now() - startTime,
+          error: progress.error,
+        };
       }
 
       // Mark as completed with success result
@@ -281,7 +439,7 @@ export class TestOrchestrator {
         success: true,
         timestamp: new Date(),
         metadata: {
-          commandsExecuted,
+          commandsExecuted: progress.commandsExecuted,
           subtaskId: subtask.id,
         },
       });
@@ -289,7 +447,7 @@ export class TestOrchestrator {
       return {
         success: true,
         subtaskId: subtask.id,
-        commandsExecuted,
+        commandsExecuted: progress.commandsExecuted,
         duration: Date.now() - startTime,
       };
     } catch (error) {
@@ -297,7 +455,7 @@ export class TestOrchestrator {
       const errorObj = error as Error;
       subtask.markFailed(errorObj, {
         metadata: {
-          commandsExecuted,
+          commandsExecuted: progress.commandsExecuted,
           subtaskId: subtask.id,
         },
       });
@@ -305,7 +463,7 @@ export class TestOrchestrator {
       return {
         success: false,
         subtaskId: subtask.id,
-        commandsExecuted,
+        commandsExecuted: progress.commandsExecuted,
         duration: Date.now() - startTime,
         error: errorObj.message,
       };
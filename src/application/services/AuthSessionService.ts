@@ -0,0 +1,133 @@
+/**
+ * AuthSessionService - Logs in once and reuses the session
+ *
+ * Runs a login flow (.ox.test file) in a fresh browser context and saves the
+ * context's storage state (cookies, local storage) to disk. Tests that
+ * declare `@auth <login flow>` start their context from that file instead
+ * of logging in again. The state is refreshed by running the flow again
+ * when it is older than the maximum age or one of its cookies has expired.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Subtask } from '../../domain/entities/Subtask';
+import { PlaywrightExecutor } from '../../infrastructure/executors/PlaywrightExecutor';
+import { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
+import { ExecutionContextManager } from '../orchestrators/ExecutionContextManager';
+import { TestOrchestrator } from '../orchestrators/TestOrchestrator';
+
+/**
+ * How long a saved session is used before logging in again (1 hour).
+ */
+export const DEFAULT_AUTH_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * Options for AuthSessionService.
+ */
+export interface AuthSessionOptions {
+  /** Directory the storage state files are written to */
+  stateDir: string;
+
+  /** Milliseconds after which a saved session is refreshed */
+  maxAge?: number;
+
+  /** Enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * Cookie fields of a Playwright storage state file that decide expiry.
+ */
+interface StoredState {
+  cookies?: { name: string; expires: number }[];
+}
+
+/**
+ * Provides storage state files for login flows, running a flow only when
+ * its saved session is missing or stale.
+ */
+export class AuthSessionService {
+  private readonly parser = new OxtestParser();
+
+  constructor(
+    private readonly executor: PlaywrightExecutor,
+    private readonly orchestrator: TestOrchestrator,
+    private readonly contextManager: ExecutionContextManager,
+    private readonly options: AuthSessionOptions
+  ) {}
+
+  /**
+   * Returns the storage state file for a login flow, running the flow
+   * first when there is no fresh session. Leaves the executor in the
+   * context the flow ran in; callers start a new context from the file.
+   *
+   * @param loginFile Path to the login flow
+   * @throws Error if the login flow fails
+   */
+  public async storageStateFor(loginFile: string): Promise<string> {
+    const statePath = this.statePath(loginFile);
+    if (await this.isFresh(statePath)) {
+      return statePath;
+    }
+
+    if (this.options.verbose) {
+      console.log(`   🔐 Logging in with ${path.basename(loginFile)}...`);
+    }
+    await this.login(loginFile, statePath);
+    return statePath;
+  }
+
+  /**
+   * Path of the storage state file for a login flow. The file name carries
+   * a hash of the flow's absolute path so flows with the same name in
+   * different folders keep separate sessions.
+   */
+  public statePath(loginFile: string): string {
+    const hash = createHash('sha256').update(path.resolve(loginFile)).digest('hex').slice(0, 8);
+    return path.join(this.options.stateDir, `${path.basename(loginFile, '.ox.test')}-${hash}.json`);
+  }
+
+  /**
+   * Whether a saved session can still be used: the file exists, is younger
+   * than the maximum age and none of its cookies has expired.
+   *
+   * @param statePath Storage state file
+   * @param now Current time in milliseconds
+   */
+  public async isFresh(statePath: string, now: number = Date.now()): Promise<boolean> {
+    let state: StoredState;
+    try {
+      const stat = await fs.stat(statePath);
+      if (now - stat.mtimeMs > (this.options.maxAge ?? DEFAULT_AUTH_MAX_AGE)) {
+        return false;
+      }
+      state = JSON.parse(await fs.readFile(statePath, 'utf-8')) as StoredState;
+    } catch {
+      return false;
+    }
+
+    // Playwright writes expires in seconds; -1 marks a session cookie
+    return (state.cookies ?? []).every(
+      cookie => cookie.expires === -1 || cookie.expires * 1000 > now
+    );
+  }
+
+  private async login(loginFile: string, statePath: string): Promise<void> {
+    const { metadata, nodes } = await this.parser.parseDocument(loginFile);
+    if (metadata.auth) {
+      throw new Error(`Login flow ${loginFile} cannot itself use @auth`);
+    }
+
+    await this.executor.newContext();
+    this.contextManager.reset();
+    const subtask = Subtask.fromNodes('auth', `Login: ${path.basename(loginFile)}`, [...nodes]);
+    const result = await this.orchestrator.executeSubtask(subtask, metadata.timeout);
+    if (!result.success) {
+      throw new Error(`Login flow ${loginFile} failed: ${result.error}`);
+    }
+
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await this.executor.saveStorageState(statePath);
+  }
+}
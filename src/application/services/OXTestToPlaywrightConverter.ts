@@ -11,6 +11,70 @@
 
 import { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
 import { OxtestCommand } from '../../domain/entities/OxtestCommand';
+import { CommandType } from '../../domain/enums/CommandType';
+import { parseJsonPath } from '../../infrastructure/executors/JsonPath';
+import {
+  BlockCondition,
+  CallBlock,
+  ForEachBlock,
+  OxtestBlock,
+  OxtestNode,
+  Procedure,
+  collectBlocks,
+  flattenCommands,
+  isBlock,
+} from '../../domain/entities/OxtestBlock';
+import { SelectorSpec, parseRoleSelector } from '../../domain/entities/SelectorSpec';
+import { DialogPolicy } from '../../domain/interfaces/TaskMetadata';
+import { VariableInterpolator } from './VariableInterpolator';
+import { globToRegExp } from '../../infrastructure/executors/NetworkRecorder';
+import { sourcePath } from '../../infrastructure/executors/PlaywrightExecutor';
+
+/**
+ * Commands that check the traffic recorded by the trafficOf helper
+ */
+const NETWORK_ASSERTIONS: readonly CommandType[] = [
+  'assertRequest',
+  'assertResponse',
+  'waitResponse',
+];
+
+/**
+ * Commands that use the downloads recorded by the downloadsOf helper
+ */
+const DOWNLOAD_COMMANDS: readonly CommandType[] = ['expectDownload', 'assertDownload'];
+
+/**
+ * Commands that switch tabs, using the helpers around popupsOf
+ */
+const TAB_COMMANDS: readonly CommandType[] = ['expectPopup', 'switchTab', 'closeTab'];
+
+/**
+ * Commands that answer or check dialogs, using the helpers around dialogsOf
+ */
+const DIALOG_COMMANDS: readonly CommandType[] = ['acceptDialog', 'dismissDialog', 'assertDialog'];
+
+/**
+ * Commands that send API requests or check their responses, using the
+ * helpers around sendHttp
+ */
+const HTTP_COMMANDS: readonly CommandType[] = ['http', 'assertHttp'];
+
+/**
+ * Helpers a generated test needs, so they are only emitted when used
+ */
+interface HelperUsage {
+  /** Procedures take the page as a parameter */
+  readonly procedures: boolean;
+  readonly traffic: boolean;
+  readonly downloads: boolean;
+  readonly tabs: boolean;
+  readonly frames: boolean;
+  readonly dialogs: boolean;
+  readonly http: boolean;
+  /** http steps read a JSON body from a file */
+  readonly jsonFiles: boolean;
+}
 
 /**
  * Options for conversion
@@ -27,6 +91,9 @@ export interface ConversionOptions {
 
   /** Add extra assertions */
   extraAssertions?: boolean;
+
+  /** Path of the .ox.test file, used to resolve includes and the files commands name */
+  sourcePath?: string;
 }
 
 /**
@@ -49,6 +116,18 @@ export interface ConversionResult {
 export class OXTestToPlaywrightConverter {
   private readonly parser: OxtestParser;
 
+  /** Variables captured by store_* commands in the test being converted */
+  private storedVariables: Set<string> = new Set();
+
+  /** Parameters of the procedure whose helper is being generated */
+  private procedureParams: ReadonlySet<string> = new Set();
+
+  /**
+   * What element locators start from in the function being generated:
+   * `frame` once it switches frames, otherwise `page`
+   */
+  private locatorRoot = 'page';
+
   constructor() {
     this.parser = new OxtestParser();
   }
@@ -65,17 +144,62 @@ export class OXTestToPlaywrightConverter {
 
     try {
       // Parse OXTest
-      const commands = await this.parser.parseContent(oxtestContent);
+      const { metadata, nodes } = options.sourcePath
+        ? await this.parser.parseSourceDocument(oxtestContent, options.sourcePath)
+        : this.parser.parseContentDocument(oxtestContent);
+      const commands = flattenCommands(nodes);
+      const blocks = collectBlocks(nodes);
 
       if (commands.length === 0) {
         warnings.push('No commands found in OXTest');
       }
 
+      this.storedVariables = this.collectStoredVariables(commands, blocks);
+      const procedures = this.collectProcedures(blocks);
+
       // Generate Playwright code
-      const imports = this.generateImports();
-      const testFunction = this.generateTestFunction(commands, options);
+      const usage: HelperUsage = {
+        procedures: procedures.length > 0,
+        traffic: commands.some(c => NETWORK_ASSERTIONS.includes(c.type)),
+        downloads: commands.some(c => DOWNLOAD_COMMANDS.includes(c.type)),
+        tabs: commands.some(c => TAB_COMMANDS.includes(c.type)),
+        frames: commands.some(c => c.type === 'switchFrame'),
+        // Dialogs are dismissed without a handler, so accepting them needs one
+        dialogs:
+          commands.some(c => DIALOG_COMMANDS.includes(c.type)) || metadata.dialogs === 'accept',
+        http: commands.some(c => HTTP_COMMANDS.includes(c.type)),
+        jsonFiles: commands.some(c => c.type === 'http' && c.params.json_file !== undefined),
+      };
+      const sections = [this.generateImports(usage)];
+      if (blocks.some(block => block.kind === 'forEach' && block.listVariable !== undefined)) {
+        sections.push(this.generateListHelper());
+      }
+      if (usage.traffic) {
+        sections.push(this.generateTrafficHelper());
+      }
+      if (usage.downloads) {
+        sections.push(this.generateDownloadHelpers());
+      }
+      if (usage.tabs) {
+        sections.push(this.generateTabHelpers());
+      }
+      if (usage.dialogs) {
+        sections.push(this.generateDialogHelpers(metadata.dialogs ?? 'dismiss'));
+      }
+      if (usage.http) {
+        sections.push(this.generateHttpHelpers());
+      }
+      sections.push(...procedures.map(procedure => this.generateProcedure(procedure)));
+      sections.push(
+        this.generateTestFunction(
+          nodes,
+          options,
+          blocks.some(b => b.kind === 'call'),
+          usage
+        )
+      );
 
-      const code = `${imports}\n\n${testFunction}`;
+      const code = sections.join('\n\n');
 
       if (options.verbose) {
         console.log(`   ✅ Converted ${commands.length} OXTest commands to Playwright`);
@@ -101,16 +225,250 @@ export class OXTestToPlaywrightConverter {
   /**
    * Generates import statements
    */
-  private generateImports(): string {
-    return `import { test, expect } from '@playwright/test';`;
+  private generateImports(usage: HelperUsage): string {
+    const names = ['test', 'expect'];
+    if (Object.values(usage).some(Boolean)) {
+      names.push('Page');
+    }
+    if (usage.traffic) {
+      names.push('Request', 'Response');
+    }
+    if (usage.downloads) {
+      names.push('Download');
+    }
+    if (usage.tabs || usage.dialogs || usage.http) {
+      names.push('BrowserContext');
+    }
+    if (usage.frames) {
+      names.push('FrameLocator');
+    }
+    const imports = [`import { ${names.join(', ')} } from '@playwright/test';`];
+    const fsNames = [
+      ...(usage.jsonFiles ? ['readFileSync'] : []),
+      ...(usage.downloads ? ['statSync'] : []),
+    ];
+    if (fsNames.length > 0) {
+      imports.push(`import { ${fsNames.join(', ')} } from 'fs';`);
+    }
+    return imports.join('\n');
+  }
+
+  /**
+   * Generates the helper that splits list variables for for_each loops
+   */
+  private generateListHelper(): string {
+    return [
+      'function toList(value: string): string[] {',
+      '  const trimmed = value.trim();',
+      "  if (trimmed === '') return [];",
+      "  if (trimmed.startsWith('[')) return (JSON.parse(trimmed) as unknown[]).map(String);",
+      "  return trimmed.split(',').map(item => item.trim());",
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Generates the helper that records a page's traffic for network assertions
+   */
+  private generateTrafficHelper(): string {
+    return [
+      'const traffic = new WeakMap<Page, { requests: Request[]; responses: Response[] }>();',
+      '',
+      'function trafficOf(page: Page): { requests: Request[]; responses: Response[] } {',
+      '  let recorded = traffic.get(page);',
+      '  if (!recorded) {',
+      '    const entry = { requests: [] as Request[], responses: [] as Response[] };',
+      "    page.on('request', request => entry.requests.push(request));",
+      "    page.on('response', response => entry.responses.push(response));",
+      '    traffic.set(page, entry);',
+      '    recorded = entry;',
+      '  }',
+      '  return recorded;',
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Generates the helpers that record a page's downloads, hand them out in
+   * order for expect_download and look them up for assert_download
+   */
+  private generateDownloadHelpers(): string {
+    return [
+      'const downloads = new WeakMap<Page, { started: Download[]; expected: number }>();',
+      '',
+      'function downloadsOf(page: Page): { started: Download[]; expected: number } {',
+      '  let recorded = downloads.get(page);',
+      '  if (!recorded) {',
+      '    const entry = { started: [] as Download[], expected: 0 };',
+      "    page.on('download', download => entry.started.push(download));",
+      '    downloads.set(page, entry);',
+      '    recorded = entry;',
+      '  }',
+      '  return recorded;',
+      '}',
+      '',
+      'async function nextDownload(page: Page, timeout: number): Promise<string> {',
+      '  const recorded = downloadsOf(page);',
+      '  await expect.poll(() => recorded.started.length, { timeout }).toBeGreaterThan(recorded.expected);',
+      '  const download = recorded.started[recorded.expected++];',
+      '  const file = test.info().outputPath(download.suggestedFilename());',
+      '  await download.saveAs(file);',
+      '  return file;',
+      '}',
+      '',
+      'async function hasDownload(page: Page, name: RegExp, minSize: number): Promise<boolean> {',
+      '  for (const download of downloadsOf(page).started) {',
+      '    const file = await download.path().catch(() => null);',
+      '    if (file && name.test(download.suggestedFilename()) && statSync(file).size > minSize) {',
+      '      return true;',
+      '    }',
+      '  }',
+      '  return false;',
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Generates the helpers that record the tabs a test's context opens and
+   * switch between them. Tabs are named per context by expect_popup.
+   */
+  private generateTabHelpers(): string {
+    return [
+      'const popups = new WeakMap<BrowserContext, { opened: Page[]; expected: number; names: Record<string, Page> }>();',
+      '',
+      'function popupsOf(page: Page): { opened: Page[]; expected: number; names: Record<string, Page> } {',
+      '  const context = page.context();',
+      '  let recorded = popups.get(context);',
+      '  if (!recorded) {',
+      '    const entry = { opened: [] as Page[], expected: 0, names: {} as Record<string, Page> };',
+      "    context.on('page', opened => entry.opened.push(opened));",
+      '    popups.set(context, entry);',
+      '    recorded = entry;',
+      '  }',
+      '  return recorded;',
+      '}',
+      '',
+      'async function nextPopup(page: Page, timeout: number, name?: string): Promise<Page> {',
+      '  const recorded = popupsOf(page);',
+      '  await expect.poll(() => recorded.opened.length, { timeout }).toBeGreaterThan(recorded.expected);',
+      '  const popup = recorded.opened[recorded.expected++];',
+      "  await popup.waitForLoadState('domcontentloaded');",
+      '  if (name) recorded.names[name] = popup;',
+      '  return popup;',
+      '}',
+      '',
+      'async function switchTab(page: Page, tab: { index?: number; name?: string }): Promise<Page> {',
+      '  const target =',
+      '    tab.name !== undefined ? popupsOf(page).names[tab.name] : page.context().pages()[tab.index ?? 0];',
+      '  if (!target || target.isClosed()) throw new Error(`No open tab ${tab.name ?? tab.index}`);',
+      '  await target.bringToFront();',
+      '  return target;',
+      '}',
+      '',
+      'async function closeTab(page: Page): Promise<Page> {',
+      '  const opener = await page.opener();',
+      '  await page.close();',
+      '  return opener && !opener.isClosed() ? opener : page.context().pages()[0];',
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Generates the helpers that answer the dialogs of a test's context and
+   * record their messages for assert_dialog. Each dialog takes the answer
+   * accept_dialog or dismiss_dialog queued, else the test's @dialogs policy.
+   */
+  private generateDialogHelpers(policy: DialogPolicy): string {
+    return [
+      'const dialogs = new WeakMap<BrowserContext, { messages: string[]; answers: { accept: boolean; text?: string }[] }>();',
+      '',
+      'function dialogLogOf(page: Page): { messages: string[]; answers: { accept: boolean; text?: string }[] } {',
+      '  const context = page.context();',
+      '  let log = dialogs.get(context);',
+      '  if (!log) {',
+      '    const entry = { messages: [] as string[], answers: [] as { accept: boolean; text?: string }[] };',
+      "    context.on('dialog', dialog => {",
+      `      const answer = entry.answers.shift() ?? { accept: ${policy === 'accept'} };`,
+      '      entry.messages.push(dialog.message());',
+      '      (answer.accept ? dialog.accept(answer.text) : dialog.dismiss()).catch(() => {});',
+      '    });',
+      '    dialogs.set(context, entry);',
+      '    log = entry;',
+      '  }',
+      '  return log;',
+      '}',
+      '',
+      'function dialogsOf(page: Page): string[] {',
+      '  return dialogLogOf(page).messages;',
+      '}',
+      '',
+      'function answerNextDialog(page: Page, accept: boolean, text?: string): void {',
+      '  dialogLogOf(page).answers.push({ accept, text });',
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Generates the helpers that send the API requests of http steps with the
+   * cookies of the page's context, keep the latest response per context
+   * for assert_http and read parts of its JSON body
+   */
+  private generateHttpHelpers(): string {
+    return [
+      'const httpResponses = new WeakMap<BrowserContext, { status: number; body: string }>();',
+      '',
+      'async function sendHttp(page: Page, method: string, url: string, options: { headers?: Record<string, string>; data?: unknown; timeout?: number } = {}): Promise<string> {',
+      '  const response = await page.request.fetch(new URL(url, page.url()).href, { method, ...options });',
+      '  const body = await response.text();',
+      '  httpResponses.set(page.context(), { status: response.status(), body });',
+      '  return body;',
+      '}',
+      '',
+      'function lastHttp(page: Page): { status: number; body: string } {',
+      '  const response = httpResponses.get(page.context());',
+      "  if (!response) throw new Error('No http response to assert on; run an http step first');",
+      '  return response;',
+      '}',
+      '',
+      'function jsonAt(body: string, path: (string | number)[]): string | undefined {',
+      '  let value: unknown = JSON.parse(body);',
+      '  for (const key of path) {',
+      "    if (value === null || typeof value !== 'object' || !(key in value)) return undefined;",
+      '    value = (value as Record<string | number, unknown>)[key];',
+      '  }',
+      "  return typeof value === 'string' ? value : JSON.stringify(value);",
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Generates a helper function for a procedure.
+   * Parameters are passed in `args`; captured variables are shared through `vars`.
+   */
+  private generateProcedure(procedure: Procedure): string {
+    const lines: string[] = [];
+
+    this.procedureParams = new Set(procedure.params);
+    lines.push(
+      `async function ${procedure.name}(page: Page, vars: Record<string, string>, args: Record<string, string>): Promise<void> {`
+    );
+    lines.push(...this.generateFrameScope(procedure.body));
+    lines.push(...this.generateNodes(procedure.body, '  '));
+    lines.push('}');
+    this.procedureParams = new Set();
+    this.locatorRoot = 'page';
+
+    return lines.join('\n');
   }
 
   /**
    * Generates the test function with converted commands
    */
   private generateTestFunction(
-    commands: readonly OxtestCommand[],
-    options: ConversionOptions
+    nodes: readonly OxtestNode[],
+    options: ConversionOptions,
+    hasCalls: boolean,
+    usage: HelperUsage
   ): string {
     const lines: string[] = [];
 
@@ -118,125 +476,777 @@ export class OXTestToPlaywrightConverter {
     lines.push(`  // Generated from validated OXTest`);
     lines.push('');
 
-    for (const command of commands) {
-      const converted = this.convertCommand(command);
-      if (converted) {
-        // Add comment for each step
-        lines.push(`  // ${command.type}`);
-        lines.push(`  ${converted}`);
-        lines.push('');
-      }
+    // Start recording before the first step so assertions can look back
+    if (usage.traffic) {
+      lines.push('  trafficOf(page);');
+    }
+    if (usage.downloads) {
+      lines.push('  downloadsOf(page);');
+    }
+    if (usage.tabs) {
+      lines.push('  popupsOf(page);');
+    }
+    if (usage.dialogs) {
+      lines.push('  dialogsOf(page);');
+    }
+    if (usage.traffic || usage.downloads || usage.tabs || usage.dialogs) {
+      lines.push('');
     }
 
+    lines.push(...this.generateFrameScope(nodes));
+
+    // Procedure helpers always take vars, so calls need it even without captures
+    if (this.storedVariables.size > 0 || hasCalls) {
+      lines.push('  const vars: Record<string, string> = {};');
+      lines.push('');
+    }
+
+    lines.push(...this.generateNodes(nodes, '  '));
+
     lines.push('});');
+    this.locatorRoot = 'page';
 
     return lines.join('\n');
   }
 
   /**
-   * Converts a single OXTest command to Playwright code
+   * Declares the `frame` that element locators start from when a function
+   * switches frames. It follows switch_frame at runtime, so switches inside
+   * blocks work too.
+   */
+  private generateFrameScope(nodes: readonly OxtestNode[]): string[] {
+    if (!flattenCommands(nodes).some(c => c.type === 'switchFrame')) {
+      return [];
+    }
+    this.locatorRoot = 'frame';
+    return ['  let frame: Page | FrameLocator = page;', ''];
+  }
+
+  /**
+   * Generates code for a tree of commands and control flow blocks
+   */
+  private generateNodes(nodes: readonly OxtestNode[], indent: string): string[] {
+    const lines: string[] = [];
+    const inner = `${indent}  `;
+
+    for (const node of nodes) {
+      if (!isBlock(node)) {
+        const converted = this.convertCommand(node);
+        if (converted) {
+          // Add comment for each step
+          lines.push(`${indent}// ${node.type}`);
+          lines.push(`${indent}${converted}`);
+          lines.push('');
+        }
+        continue;
+      }
+
+      if (node.kind === 'if') {
+        lines.push(`${indent}if (${this.convertCondition(node.condition)}) {`);
+        lines.push(...this.generateNodes(node.thenBody, inner));
+        if (node.elseBody.length > 0) {
+          lines.push(`${indent}} else {`);
+          lines.push(...this.generateNodes(node.elseBody, inner));
+        }
+      } else if (node.kind === 'repeat') {
+        lines.push(`${indent}for (let i = 0; i < ${node.times}; i++) {`);
+        lines.push(...this.generateNodes(node.body, inner));
+      } else if (node.kind === 'call') {
+        lines.push(`${indent}// call ${node.procedure.name}`);
+        lines.push(`${indent}${this.convertCall(node)}`);
+        lines.push('');
+        continue;
+      } else {
+        lines.push(`${indent}for (const item of ${this.convertList(node)}) {`);
+        lines.push(`${inner}${this.variableRef(node.itemVariable)} = item;`);
+        lines.push(...this.generateNodes(node.body, inner));
+      }
+      lines.push(`${indent}}`);
+      lines.push('');
+    }
+
+    return lines;
+  }
+
+  /**
+   * Converts an if-block condition to a boolean expression
+   */
+  private convertCondition(condition: BlockCondition): string {
+    if (condition.type === 'url') {
+      return `new RegExp(${this.quote(condition.pattern!)}).test(page.url())`;
+    }
+
+    const locator = this.convertLocator(condition.selector!);
+    switch (condition.type) {
+      case 'visible':
+        return `await ${locator}.first().isVisible()`;
+      case 'hidden':
+        return `await ${locator}.first().isHidden()`;
+      case 'exists':
+        return `(await ${locator}.count()) > 0`;
+    }
+  }
+
+  /**
+   * Converts a procedure call to an awaited helper invocation
+   */
+  private convertCall(call: CallBlock): string {
+    const args = Object.entries(call.args).map(([name, value]) => `${name}: ${this.quote(value)}`);
+    const argsObject = args.length > 0 ? `{ ${args.join(', ')} }` : '{}';
+    return `await ${call.procedure.name}(page, vars, ${argsObject});`;
+  }
+
+  /**
+   * Converts the source of a for_each block to an array expression
+   */
+  private convertList(block: ForEachBlock): string {
+    if (block.values) {
+      return `[${block.values.map(value => this.quote(value)).join(', ')}]`;
+    }
+
+    const name = block.listVariable!;
+    return this.procedureParams.has(name) || this.storedVariables.has(name)
+      ? `toList(${this.referenceVariable(name)})`
+      : `toList(process.env[${this.quote(name)}] ?? '')`;
+  }
+
+  /**
+   * Collects variables assigned in generated code: store_* and http
+   * targets and for_each item variables
+   */
+  private collectStoredVariables(
+    commands: readonly OxtestCommand[],
+    blocks: readonly OxtestBlock[]
+  ): Set<string> {
+    const names = new Set(commands.filter(c => c.isCaptureCommand()).map(c => String(c.params.as)));
+    for (const command of commands) {
+      if (HTTP_COMMANDS.includes(command.type) && command.params.as !== undefined) {
+        names.add(String(command.params.as));
+      }
+    }
+    for (const block of blocks) {
+      if (block.kind === 'forEach') {
+        names.add(block.itemVariable);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Collects the procedures that are called, in order of first call
+   */
+  private collectProcedures(blocks: readonly OxtestBlock[]): Procedure[] {
+    const procedures: Procedure[] = [];
+    for (const block of blocks) {
+      if (block.kind === 'call' && !procedures.includes(block.procedure)) {
+        procedures.push(block.procedure);
+      }
+    }
+    return procedures;
+  }
+
+  /**
+   * Converts a single OXTest command to Playwright code. A command's
+   * `wait_for=visible|attached` waits for the element first; stable and
+   * enabled are what Playwright actions wait for anyway. Its `timeout=`
+   * bounds the action or assertion, while `retries=` has no Playwright
+   * equivalent and is left out.
    */
   private convertCommand(command: OxtestCommand): string | null {
+    const converted = this.convertStep(command);
+    const state = command.params.wait_for;
+    if (
+      converted &&
+      command.selector &&
+      command.type !== 'waitForSelector' &&
+      (state === 'visible' || state === 'attached')
+    ) {
+      const options = [`state: '${state}'`, ...this.timeoutOption(command)];
+      return `await ${this.convertLocator(command.selector)}.waitFor({ ${options.join(', ')} }); ${converted}`;
+    }
+    return converted;
+  }
+
+  /**
+   * Converts the step a command takes to Playwright code
+   */
+  private convertStep(command: OxtestCommand): string | null {
+    const locator = command.selector ? this.convertLocator(command.selector) : null;
+
     switch (command.type) {
       case 'navigate':
-        return `await page.goto('${command.params.url}');`;
+        return `await page.goto(${this.quote(String(command.params.url))});`;
+
+      case 'goBack':
+        return `await page.goBack();`;
+
+      case 'goForward':
+        return `await page.goForward();`;
+
+      case 'reload':
+        return `await page.reload();`;
 
       case 'click':
-        if (command.selector) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          return `await ${locator}.click();`;
-        }
-        return null;
+        return locator ? `await ${locator}.click(${this.clickOptions(command)});` : null;
+
+      case 'doubleClick':
+        return locator ? `await ${locator}.dblclick(${this.clickOptions(command)});` : null;
+
+      case 'rightClick':
+        return locator
+          ? `await ${locator}.click(${this.clickOptions(command, "button: 'right'")});`
+          : null;
 
       case 'type':
       case 'fill':
-        if (command.selector && command.params.value) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          return `await ${locator}.fill('${this.escapeString(String(command.params.value))}');`;
+        // Typing needs key events only when it is paced
+        if (locator && command.type === 'type' && command.params.delay !== undefined) {
+          const options = [
+            `delay: ${Number(command.params.delay)}`,
+            ...this.timeoutOption(command),
+          ];
+          return `await ${locator}.pressSequentially(${this.quote(String(command.params.value ?? ''))}, { ${options.join(', ')} });`;
+        }
+        if (locator && command.params.value) {
+          return `await ${locator}.fill(${this.actionArgs(command, this.quote(String(command.params.value)))});`;
         }
         return null;
 
       case 'hover':
-        if (command.selector) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          return `await ${locator}.hover();`;
-        }
-        return null;
+        return locator ? `await ${locator}.hover(${this.actionArgs(command)});` : null;
+
+      case 'press': {
+        const key = this.quote(String(command.params.key || 'Enter'));
+        return locator
+          ? `await ${locator}.press(${this.actionArgs(command, key)});`
+          : `await page.keyboard.press(${key});`;
+      }
+
+      case 'drag':
+        return locator
+          ? `await ${locator}.dragTo(${this.actionArgs(command, this.convertLocator(SelectorSpec.parse(String(command.params.to))!))});`
+          : null;
+
+      case 'scrollIntoView':
+        return locator
+          ? `await ${locator}.scrollIntoViewIfNeeded(${this.actionArgs(command)});`
+          : null;
+
+      case 'scroll': {
+        const [x, y] = String(command.params.by).split(',').map(Number);
+        const wheel = `await page.mouse.wheel(${x}, ${y});`;
+        return locator ? `await ${locator}.hover(); ${wheel}` : wheel;
+      }
 
-      case 'press':
-        if (command.selector) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          const key = command.params.key || 'Enter';
-          return `await ${locator}.press('${key}');`;
+      case 'check':
+        return locator ? `await ${locator}.check(${this.actionArgs(command)});` : null;
+
+      case 'uncheck':
+        return locator ? `await ${locator}.uncheck(${this.actionArgs(command)});` : null;
+
+      case 'selectOption':
+        if (locator && command.params.index !== undefined) {
+          return `await ${locator}.selectOption(${this.actionArgs(command, `{ index: ${Number(command.params.index)} }`)});`;
+        }
+        if (locator && command.params.value !== undefined) {
+          return `await ${locator}.selectOption(${this.actionArgs(command, this.quote(String(command.params.value)))});`;
         }
         return null;
 
+      case 'focus':
+        return locator ? `await ${locator}.focus(${this.actionArgs(command)});` : null;
+
+      case 'blur':
+        return locator ? `await ${locator}.blur(${this.actionArgs(command)});` : null;
+
+      case 'clear':
+        return locator ? `await ${locator}.clear(${this.actionArgs(command)});` : null;
+
+      case 'upload': {
+        const files = String(command.params.file)
+          .split(',')
+          .map(file => this.quote(sourcePath(command, file.trim())));
+        const argument = files.length === 1 ? files[0] : `[${files.join(', ')}]`;
+        return locator
+          ? `await ${locator}.setInputFiles(${this.actionArgs(command, argument)});`
+          : null;
+      }
+
       case 'wait':
         const timeout = command.params.timeout || 1000;
         return `await page.waitForTimeout(${timeout});`;
 
       case 'waitForSelector':
-        if (command.selector) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          return `await ${locator}.waitFor({ state: 'visible' });`;
-        }
-        return null;
+        return locator
+          ? `await ${locator}.waitFor({ ${["state: 'visible'", ...this.timeoutOption(command)].join(', ')} });`
+          : null;
 
       case 'assertVisible':
-        if (command.selector) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          return `await expect(${locator}).toBeVisible();`;
+        return locator
+          ? `await expect(${locator}).toBeVisible(${this.actionArgs(command)});`
+          : null;
+
+      case 'assertHidden':
+        return locator ? `await expect(${locator}).toBeHidden(${this.actionArgs(command)});` : null;
+
+      case 'assertText':
+        if (locator && command.params.value) {
+          return `await expect(${locator}).toHaveText(${this.actionArgs(command, this.quote(String(command.params.value)))});`;
         }
         return null;
 
-      case 'assertText':
-        if (command.selector && command.params.value) {
-          const locator = this.convertSelector(command.selector.strategy, command.selector.value);
-          return `await expect(${locator}).toHaveText('${this.escapeString(String(command.params.value))}');`;
+      case 'assertValue':
+        if (locator && command.params.value !== undefined) {
+          return `await expect(${locator}).toHaveValue(${this.actionArgs(command, this.quote(String(command.params.value)))});`;
         }
         return null;
 
+      case 'assertEnabled':
+        return locator
+          ? `await expect(${locator}).toBeEnabled(${this.actionArgs(command)});`
+          : null;
+
+      case 'assertDisabled':
+        return locator
+          ? `await expect(${locator}).toBeDisabled(${this.actionArgs(command)});`
+          : null;
+
+      case 'assertChecked':
+        return locator
+          ? `await expect(${locator}).toBeChecked(${this.actionArgs(command)});`
+          : null;
+
+      case 'assertUnchecked':
+        return locator
+          ? `await expect(${locator}).not.toBeChecked(${this.actionArgs(command)});`
+          : null;
+
       case 'assertUrl':
         if (command.params.pattern) {
           const pattern = String(command.params.pattern);
+          if (VariableInterpolator.hasReferences(pattern)) {
+            return `expect(page.url()).toMatch(new RegExp(${this.quote(pattern)}));`;
+          }
           return `expect(page.url()).toMatch(/${this.escapeRegex(pattern)}/);`;
         }
         return null;
 
+      case 'assertTitle':
+        if (command.params.pattern) {
+          return `await expect(page).toHaveTitle(/${this.escapeRegex(String(command.params.pattern))}/);`;
+        }
+        if (command.params.value !== undefined) {
+          return `await expect(page).toHaveTitle(${this.quote(String(command.params.value))});`;
+        }
+        return null;
+
+      case 'storeText':
+        if (locator) {
+          return `${this.variableRef(String(command.params.as))} = ((await ${locator}.textContent()) ?? '').trim();`;
+        }
+        return null;
+
+      case 'storeValue':
+        if (locator) {
+          return `${this.variableRef(String(command.params.as))} = await ${locator}.inputValue();`;
+        }
+        return null;
+
+      case 'storeAttribute':
+        if (locator) {
+          return `${this.variableRef(String(command.params.as))} = (await ${locator}.getAttribute(${this.quote(String(command.params.attribute))})) ?? '';`;
+        }
+        return null;
+
+      case 'expectDownload':
+        return `${this.variableRef(String(command.params.as))} = await nextDownload(page, ${command.params.timeout !== undefined ? Number(command.params.timeout) : 30000});`;
+
+      case 'screenshot': {
+        const screenshotPath = this.quote(
+          String(command.params.path || `screenshot-${Date.now()}.png`)
+        );
+        if (locator) {
+          return `await ${locator}.screenshot({ path: ${screenshotPath} });`;
+        }
+        const fullPage = String(command.params.fullPage) === 'true';
+        return `await page.screenshot({ path: ${screenshotPath}, fullPage: ${fullPage} });`;
+      }
+
+      case 'setViewport':
+        return `await page.setViewportSize({ width: ${Number(command.params.width)}, height: ${Number(command.params.height)} });`;
+
+      case 'switchFrame':
+        if (command.params.frame === 'main') {
+          return 'frame = page;';
+        }
+        return locator ? `frame = ${locator}.contentFrame();` : null;
+
+      case 'expectPopup': {
+        const timeout =
+          command.params.timeout !== undefined ? Number(command.params.timeout) : 30000;
+        const name =
+          command.params.as !== undefined ? `, ${this.quote(String(command.params.as))}` : '';
+        return `page = await nextPopup(page, ${timeout}${name});${this.resetFrame()}`;
+      }
+
+      case 'switchTab': {
+        const tab =
+          command.params.name !== undefined
+            ? `name: ${this.quote(String(command.params.name))}`
+            : `index: ${Number(command.params.index)}`;
+        return `page = await switchTab(page, { ${tab} });${this.resetFrame()}`;
+      }
+
+      case 'closeTab':
+        return `page = await closeTab(page);${this.resetFrame()}`;
+
+      // The page stalls until the dialog is answered, so the answer is
+      // queued before the step that opens it
+      case 'acceptDialog': {
+        const text =
+          command.params.text !== undefined ? `, ${this.quote(String(command.params.text))}` : '';
+        return `answerNextDialog(page, true${text});`;
+      }
+
+      case 'dismissDialog':
+        return 'answerNextDialog(page, false);';
+
+      case 'setCookie': {
+        const cookie = [
+          `name: ${this.quote(String(command.params.name))}`,
+          `value: ${this.quote(String(command.params.value))}`,
+        ];
+        const cookiePath = this.quote(String(command.params.path ?? '/'));
+        cookie.push(
+          command.params.domain !== undefined
+            ? `domain: ${this.quote(String(command.params.domain))}, path: ${cookiePath}`
+            : `url: new URL(${cookiePath}, page.url()).href`
+        );
+        if (command.params.expires !== undefined) {
+          cookie.push(`expires: ${Number(command.params.expires)}`);
+        }
+        return `await page.context().addCookies([{ ${cookie.join(', ')} }]);`;
+      }
+
+      case 'clearCookies':
+        return command.params.name !== undefined
+          ? `await page.context().clearCookies({ name: ${this.quote(String(command.params.name))} });`
+          : 'await page.context().clearCookies();';
+
+      case 'assertCookie': {
+        const cookie = `(await page.context().cookies()).find(c => c.name === ${this.quote(String(command.params.name))})`;
+        return command.params.value !== undefined
+          ? `expect(${cookie}?.value).toBe(${this.quote(String(command.params.value))});`
+          : `expect(${cookie}).toBeDefined();`;
+      }
+
+      case 'setLocalStorage':
+        return `await page.evaluate(([key, value]) => localStorage.setItem(key, value), [${this.quote(String(command.params.key))}, ${this.quote(String(command.params.value))}]);`;
+
+      case 'assertLocalStorage': {
+        const item = `await page.evaluate(key => localStorage.getItem(key), ${this.quote(String(command.params.key))})`;
+        return command.params.value !== undefined
+          ? `expect(${item}).toBe(${this.quote(String(command.params.value))});`
+          : `expect(${item}).not.toBeNull();`;
+      }
+
+      case 'clearStorage':
+        return 'await page.evaluate(() => { localStorage.clear(); sessionStorage.clear(); });';
+
+      case 'mockRoute': {
+        const response = [`status: ${Number(command.params.status ?? 200)}`];
+        if (command.params.content_type !== undefined) {
+          response.push(`contentType: ${this.quote(String(command.params.content_type))}`);
+        }
+        response.push(
+          command.params.body_file !== undefined
+            ? `path: ${this.quote(sourcePath(command, String(command.params.body_file)))}`
+            : `body: ${this.quote(String(command.params.body ?? ''))}`
+        );
+        return `await page.context().route(${this.quote(String(command.params.url))}, route => route.fulfill({ ${response.join(', ')} }));`;
+      }
+
+      case 'blockRoute':
+        return `await page.context().route(${this.quote(String(command.params.url))}, route => route.abort());`;
+
+      case 'delayRoute':
+        return `await page.context().route(${this.quote(String(command.params.url))}, async route => { await new Promise(resolve => setTimeout(resolve, ${Number(command.params.ms)})); await route.fallback(); });`;
+
+      case 'assertRequest': {
+        const checks = [`${globToRegExp(String(command.params.url))}.test(r.url())`];
+        if (command.params.method !== undefined) {
+          checks.push(`r.method() === ${this.quote(String(command.params.method).toUpperCase())}`);
+        }
+        if (command.params.body_contains !== undefined) {
+          checks.push(
+            `(r.postData() ?? '').includes(${this.quote(String(command.params.body_contains))})`
+          );
+        }
+        return `await expect.poll(() => trafficOf(page).requests.some(r => ${checks.join(' && ')})${this.pollOptions(command)}).toBe(true);`;
+      }
+
+      case 'assertResponse':
+      case 'waitResponse': {
+        const checks = [`${globToRegExp(String(command.params.url))}.test(r.url())`];
+        if (command.params.status !== undefined) {
+          checks.push(`r.status() === ${Number(command.params.status)}`);
+        }
+        return `await expect.poll(() => trafficOf(page).responses.some(r => ${checks.join(' && ')})${this.pollOptions(command)}).toBe(true);`;
+      }
+
+      case 'assertDownload': {
+        const name =
+          command.params.name !== undefined ? globToRegExp(String(command.params.name)) : /^/;
+        const minSize = command.params.size_gt !== undefined ? Number(command.params.size_gt) : -1;
+        return `await expect.poll(() => hasDownload(page, ${name}, ${minSize})${this.pollOptions(command)}).toBe(true);`;
+      }
+
+      case 'assertDialog':
+        return `await expect.poll(() => dialogsOf(page)${this.pollOptions(command)}).toContain(${this.quote(String(command.params.message))});`;
+
+      case 'http': {
+        const options: string[] = [];
+        if (command.params.headers !== undefined) {
+          options.push(`headers: JSON.parse(${this.quote(String(command.params.headers))})`);
+        }
+        if (command.params.json_file !== undefined) {
+          options.push(
+            `data: JSON.parse(readFileSync(${this.quote(sourcePath(command, String(command.params.json_file)))}, 'utf-8'))`
+          );
+        } else if (command.params.json !== undefined) {
+          options.push(`data: JSON.parse(${this.quote(String(command.params.json))})`);
+        } else if (command.params.body !== undefined) {
+          options.push(`data: ${this.quote(String(command.params.body))}`);
+        }
+        if (command.params.timeout !== undefined) {
+          options.push(`timeout: ${Number(command.params.timeout)}`);
+        }
+        const args = [
+          'page',
+          this.quote(String(command.params.method ?? 'GET').toUpperCase()),
+          this.quote(String(command.params.url)),
+          ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : []),
+        ];
+        const call = `await sendHttp(${args.join(', ')});`;
+        return command.params.as !== undefined
+          ? `${this.variableRef(String(command.params.as))} = ${call}`
+          : call;
+      }
+
+      case 'assertHttp': {
+        const statements: string[] = [];
+        if (command.params.status !== undefined) {
+          statements.push(`expect(lastHttp(page).status).toBe(${Number(command.params.status)});`);
+        }
+        if (command.params.json_path !== undefined) {
+          const segments = parseJsonPath(String(command.params.json_path)).map(segment =>
+            typeof segment === 'number' ? String(segment) : this.quote(segment)
+          );
+          const value = `jsonAt(lastHttp(page).body, [${segments.join(', ')}])`;
+          if (String(command.params.exists) === 'false') {
+            statements.push(`expect(${value}).toBeUndefined();`);
+          } else if (command.params.value !== undefined) {
+            statements.push(`expect(${value}).toBe(${this.quote(String(command.params.value))});`);
+          } else {
+            statements.push(`expect(${value}).toBeDefined();`);
+          }
+          if (command.params.as !== undefined) {
+            statements.push(`${this.variableRef(String(command.params.as))} = ${value} ?? '';`);
+          }
+        }
+        return statements.join(' ');
+      }
+
+      case 'unroute':
+        return command.params.url !== undefined
+          ? `await page.context().unroute(${this.quote(String(command.params.url))});`
+          : `await page.context().unrouteAll({ behavior: 'ignoreErrors' });`;
+
       default:
         return `// Unsupported command: ${command.type}`;
     }
   }
 
+  /**
+   * Moves the frame back to the page after switching tabs, like the executor
+   */
+  private resetFrame(): string {
+    return this.locatorRoot === 'frame' ? ' frame = page;' : '';
+  }
+
+  /**
+   * Options argument of the click commands, from their modifiers, position
+   * and timeout parameters
+   *
+   * @param extra Options the command itself adds, like the right button
+   */
+  private clickOptions(command: OxtestCommand, extra?: string): string {
+    const options = extra !== undefined ? [extra] : [];
+    if (command.params.modifiers !== undefined) {
+      const modifiers = String(command.params.modifiers)
+        .split(',')
+        .map(modifier => `'${modifier.trim()}'`);
+      options.push(`modifiers: [${modifiers.join(', ')}]`);
+    }
+    if (command.params.position !== undefined) {
+      const [x, y] = String(command.params.position).split(',').map(Number);
+      options.push(`position: { x: ${x}, y: ${y} }`);
+    }
+    options.push(...this.timeoutOption(command));
+    return options.length > 0 ? `{ ${options.join(', ')} }` : '';
+  }
+
+  /**
+   * Arguments of a locator action or assertion, followed by the options
+   * object with the command's timeout, if it has one
+   */
+  private actionArgs(command: OxtestCommand, ...args: string[]): string {
+    const options = this.timeoutOption(command);
+    return [...args, ...(options.length > 0 ? [`{ ${options.join(', ')} }`] : [])].join(', ');
+  }
+
+  /**
+   * The command's timeout as an option, if it has one
+   */
+  private timeoutOption(command: OxtestCommand): string[] {
+    return command.params.timeout !== undefined
+      ? [`timeout: ${Number(command.params.timeout)}`]
+      : [];
+  }
+
+  /**
+   * Timeout option for expect.poll, matching the executor's defaults
+   */
+  private pollOptions(command: OxtestCommand): string {
+    const timeout =
+      command.params.timeout !== undefined
+        ? Number(command.params.timeout)
+        : command.type === 'waitResponse'
+          ? 30000
+          : undefined;
+    return timeout !== undefined ? `, { timeout: ${timeout} }` : '';
+  }
+
+  /**
+   * Converts a selector and its scope to a Playwright locator expression.
+   * Like the executor, a parent without nth is narrowed to its first match.
+   * Fallbacks have no Playwright equivalent and are left out.
+   */
+  private convertLocator(selector: SelectorSpec): string {
+    const { parent, hasText, has, nth } = selector.scope;
+    const root = parent
+      ? this.convertLocator(parent) + (parent.scope.nth === undefined ? '.first()' : '')
+      : this.locatorRoot;
+
+    let locator = this.convertSelector(root, selector.strategy, selector.value);
+    if (hasText !== undefined) {
+      locator += `.filter({ hasText: ${this.quote(hasText)} })`;
+    }
+    if (has) {
+      locator += `.filter({ has: ${this.convertLocator(has)} })`;
+    }
+    if (nth !== undefined) {
+      locator += `.nth(${nth})`;
+    }
+    return locator;
+  }
+
   /**
    * Converts a selector to Playwright locator syntax
    */
-  private convertSelector(strategy: string, value: string): string {
+  private convertSelector(root: string, strategy: string, value: string): string {
     switch (strategy) {
       case 'css':
-        return `page.locator('${this.escapeString(value)}')`;
+        return `${root}.locator(${this.quote(value)})`;
 
       case 'xpath':
-        return `page.locator('xpath=${this.escapeString(value)}')`;
+        return `${root}.locator(${this.quote(`xpath=${value}`)})`;
 
       case 'text':
-        return `page.getByText('${this.escapeString(value)}')`;
+        return `${root}.getByText(${this.quote(value)})`;
 
-      case 'role':
-        return `page.getByRole('${value}')`;
+      case 'role': {
+        const { role, ...options } = parseRoleSelector(value);
+        const entries = Object.entries(options).map(([key, option]) =>
+          key === 'name' ? `name: ${this.quote(String(option))}` : `${key}: ${option}`
+        );
+        return entries.length > 0
+          ? `${root}.getByRole('${role}', { ${entries.join(', ')} })`
+          : `${root}.getByRole('${role}')`;
+      }
 
       case 'testid':
-        return `page.getByTestId('${this.escapeString(value)}')`;
+        return `${root}.getByTestId(${this.quote(value)})`;
 
       case 'placeholder':
-        return `page.getByPlaceholder('${this.escapeString(value)}')`;
+        return `${root}.getByPlaceholder(${this.quote(value)})`;
 
       case 'label':
-        return `page.getByLabel('${this.escapeString(value)}')`;
+        return `${root}.getByLabel(${this.quote(value)})`;
+
+      case 'alt':
+        return `${root}.getByAltText(${this.quote(value)})`;
+
+      case 'title':
+        return `${root}.getByTitle(${this.quote(value)})`;
 
       default:
-        return `page.locator('${this.escapeString(value)}')`;
+        return `${root}.locator(${this.quote(value)})`;
+    }
+  }
+
+  /**
+   * Produces a JavaScript string literal for a value.
+   * Values with ${name} references become template literals that read
+   * captured variables from `vars` and everything else from process.env.
+   */
+  private quote(value: string): string {
+    if (!VariableInterpolator.hasReferences(value)) {
+      return `'${this.escapeString(value)}'`;
+    }
+
+    const pattern = /\$\{([^:}]+)(?::-([^}]*))?\}/g;
+    let body = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(value)) !== null) {
+      body += this.escapeTemplate(value.slice(lastIndex, match.index));
+      const name = match[1].trim();
+      const ref =
+        this.procedureParams.has(name) || this.storedVariables.has(name)
+          ? this.referenceVariable(name)
+          : `process.env[${this.quote(name)}]`;
+      body += match[2] !== undefined ? `\${${ref} ?? ${this.quote(match[2])}}` : `\${${ref}}`;
+      lastIndex = pattern.lastIndex;
     }
+    body += this.escapeTemplate(value.slice(lastIndex));
+
+    return `\`${body}\``;
+  }
+
+  /**
+   * Returns the expression for a known variable: a parameter of the current
+   * procedure, otherwise a captured variable
+   */
+  private referenceVariable(name: string): string {
+    return this.procedureParams.has(name)
+      ? `args['${this.escapeString(name)}']`
+      : this.variableRef(name);
+  }
+
+  /**
+   * Returns the expression for a captured variable in generated code
+   */
+  private variableRef(name: string): string {
+    return `vars['${this.escapeString(name)}']`;
+  }
+
+  /**
+   * Escapes literal text for use inside a template literal
+   */
+  private escapeTemplate(str: string): string {
+    return str.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
   }
 
   /**
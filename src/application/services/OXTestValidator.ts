@@ -1,6 +1,9 @@
 /**
  * OXTestValidator - Validates OXTest files by executing them
  *
+ * Also checks parsed commands for problems that only show when they run,
+ * such as variables no step captures, so editors can report them early.
+ *
  * Single Responsibility: Validation of OXTest files
  * Open/Closed: Can be extended with different validation strategies
  * Dependency Inversion: Depends on abstractions (IExecutor)
@@ -9,6 +12,10 @@
 import { PlaywrightExecutor } from '../../infrastructure/executors/PlaywrightExecutor';
 import { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
 import { Subtask } from '../../domain/entities/Subtask';
+import { OxtestNode, isBlock } from '../../domain/entities/OxtestBlock';
+import { OxtestDiagnostic } from '../../domain/interfaces/OxtestDiagnostic';
+import { TaskMetadata } from '../../domain/interfaces/TaskMetadata';
+import { VariableInterpolator } from './VariableInterpolator';
 
 /**
  * Result of OXTest validation
@@ -58,11 +65,88 @@ export interface ValidationOptions {
  */
 export class OXTestValidator {
   private readonly parser: OxtestParser;
+  private readonly interpolator = new VariableInterpolator();
 
-  constructor() {
+  /**
+   * @param env Environment variables that ${name} references may resolve to
+   */
+  constructor(private readonly env: Record<string, string | undefined> = process.env) {
     this.parser = new OxtestParser();
   }
 
+  /**
+   * Checks parsed commands without running them: every ${name} reference
+   * without a default must be captured by an earlier step (as=), bound by
+   * for_each or a procedure parameter, or set in the environment. Tests
+   * with @data are not checked, their columns are only known at run time.
+   *
+   * @param nodes Parsed commands and blocks
+   * @param metadata Headers of the test
+   * @returns A warning per reference that cannot be resolved
+   */
+  public check(
+    nodes: readonly OxtestNode[],
+    metadata: Partial<TaskMetadata> = {}
+  ): OxtestDiagnostic[] {
+    if (metadata.data !== undefined) {
+      return [];
+    }
+    // Procedure bodies are checked once per call; report each problem once
+    const diagnostics = new Map<string, OxtestDiagnostic>();
+    this.checkNodes(nodes, new Set(), diagnostics);
+    return [...diagnostics.values()];
+  }
+
+  /**
+   * Checks nodes in source order, adding the variables they define.
+   * Variables defined in a branch or loop body count as defined after it.
+   */
+  private checkNodes(
+    nodes: readonly OxtestNode[],
+    defined: Set<string>,
+    diagnostics: Map<string, OxtestDiagnostic>
+  ): void {
+    for (const node of nodes) {
+      if (!isBlock(node)) {
+        for (const name of this.interpolator.requiredVariables(node)) {
+          if (defined.has(name) || this.env[name] !== undefined || !node.range) {
+            continue;
+          }
+          const message = `Variable \${${name}} is not captured by an earlier step or set in the environment`;
+          diagnostics.set(`${node.filePath}:${node.range.line}:${message}`, {
+            severity: 'warning',
+            code: 'undefined-variable',
+            message,
+            range: node.range,
+            filePath: node.filePath,
+          });
+        }
+        if (typeof node.params.as === 'string') {
+          defined.add(node.params.as);
+        }
+        continue;
+      }
+
+      switch (node.kind) {
+        case 'if':
+          this.checkNodes(node.thenBody, defined, diagnostics);
+          this.checkNodes(node.elseBody, defined, diagnostics);
+          break;
+        case 'repeat':
+          this.checkNodes(node.body, defined, diagnostics);
+          break;
+        case 'forEach':
+          defined.add(node.itemVariable);
+          this.checkNodes(node.body, defined, diagnostics);
+          break;
+        case 'call':
+          node.procedure.params.forEach(param => defined.add(param));
+          this.checkNodes(node.procedure.body, defined, diagnostics);
+          break;
+      }
+    }
+  }
+
   /**
    * Validates an OXTest file by executing it
    *
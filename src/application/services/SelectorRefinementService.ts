@@ -29,6 +29,12 @@ export interface FailedSelectorContext {
   /** Error message from the failure */
   error: string;
 
+  /** Elements the selector matched when it failed for matching more than one */
+  matches?: {
+    count: number;
+    candidates: string[];
+  };
+
   /** Current page URL */
   pageURL: string;
 
@@ -132,12 +138,12 @@ Key principles:
 Response format (JSON only, no markdown):
 {
   "primary": {
-    "strategy": "css|xpath|text|role|testid|placeholder|label",
+    "strategy": "css|xpath|text|role|testid|placeholder|label|alt|title",
     "value": "selector-value"
   },
   "fallbacks": [
     {
-      "strategy": "css|xpath|text|role|testid|placeholder|label",
+      "strategy": "css|xpath|text|role|testid|placeholder|label|alt|title",
       "value": "selector-value"
     }
   ],
@@ -166,7 +172,7 @@ Response format (JSON only, no markdown):
   ${triedSelectors}
 
 **Error**: ${context.error}
-
+${this.describeMatches(context)}
 **Current Page HTML**:
 \`\`\`html
 ${this.truncateHTML(context.pageHTML, 4000)}
@@ -177,6 +183,23 @@ Analyze the HTML and suggest a better selector that will reliably find the eleme
 Return ONLY valid JSON (no markdown, no code blocks):`;
   }
 
+  /**
+   * Lists the elements an ambiguous selector matched, so that the suggestion
+   * tells the intended one apart from the others
+   */
+  private describeMatches(context: FailedSelectorContext): string {
+    if (!context.matches) {
+      return '';
+    }
+    const candidates = context.matches.candidates.map((c, i) => `  ${i + 1}. ${c}`).join('\n');
+    return `
+**Matching Elements**: the selector matches ${context.matches.count} elements, the first of them:
+${candidates}
+
+The new selector must match exactly one element: the one the action is meant for.
+`;
+  }
+
   /**
    * Parses the LLM response into a RefinedSelector
    */
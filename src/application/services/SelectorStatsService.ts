@@ -0,0 +1,244 @@
+/**
+ * SelectorStatsService - Tracks how selectors resolve across runs
+ *
+ * Each run records which entry of every command's selector chain found the
+ * element: the primary, a fallback or a selector the LLM refined. The
+ * records are appended to a JSON Lines file, so that selectors that are
+ * flaky or always need a fallback stand out, and a fallback that reliably
+ * works can be promoted to the primary in the .ox.test files.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { flattenCommands } from '../../domain/entities/OxtestBlock';
+import { OxtestCommand } from '../../domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../domain/entities/SelectorSpec';
+import { SelectorRecord } from '../../domain/interfaces/SelectorResolution';
+import { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
+import { OxtestSerializer } from '../../infrastructure/parsers/OxtestSerializer';
+
+/**
+ * Where the records are kept, relative to the directory the tests run from.
+ */
+export const SELECTOR_STATS_FILE = path.join('.selectors', 'stats.jsonl');
+
+/**
+ * How many of the latest runs a fallback must have found the element in
+ * before it is promoted.
+ */
+export const DEFAULT_PROMOTE_MIN_RUNS = 3;
+
+/**
+ * How a selector chain resolved across all recorded runs.
+ */
+export interface SelectorStats {
+  /** The primary selector as written, e.g. css=.buy */
+  readonly selector: string;
+  readonly fallbacks: readonly string[];
+  /** Tests the selector ran in */
+  readonly tests: readonly string[];
+  /** Times a command with the selector ran */
+  readonly runs: number;
+  /** Times the primary found the element */
+  readonly primary: number;
+  /** Times each fallback found the element, by position */
+  readonly fallbackHits: readonly number[];
+  /** Times only a refined selector found the element */
+  readonly refined: number;
+  /** Times nothing found the element */
+  readonly failed: number;
+  /** Average time to find the element, in milliseconds */
+  readonly averageDuration: number;
+  /** Whether the selector resolved differently across runs */
+  readonly flaky: boolean;
+  /** Whether only fallbacks ever found the element */
+  readonly alwaysFallsBack: boolean;
+  /** The fallback that found the element in each of the latest runs, starting at 1 */
+  readonly promotable?: number;
+}
+
+/**
+ * Records selector resolutions and reports on and promotes selectors.
+ */
+export class SelectorStatsService {
+  private readonly parser = new OxtestParser();
+  private readonly serializer = new OxtestSerializer();
+
+  /**
+   * @param statsFile JSON Lines file the records are appended to
+   * @param minRuns Latest runs a fallback must have found the element in to be promotable
+   */
+  constructor(
+    private readonly statsFile: string,
+    private readonly minRuns: number = DEFAULT_PROMOTE_MIN_RUNS
+  ) {}
+
+  /**
+   * Appends the records of a run.
+   */
+  public async record(records: readonly SelectorRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    await fs.mkdir(path.dirname(this.statsFile), { recursive: true });
+    await fs.appendFile(
+      this.statsFile,
+      records.map(record => JSON.stringify(record) + '\n').join(''),
+      'utf-8'
+    );
+  }
+
+  /**
+   * Reads every record, oldest first; without a stats file there are none.
+   *
+   * @throws Error naming the line of a record that is not valid JSON
+   */
+  public async load(): Promise<SelectorRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.statsFile, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return content
+      .split('\n')
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => line.trim() !== '')
+      .map(({ line, index }) => {
+        try {
+          return JSON.parse(line) as SelectorRecord;
+        } catch {
+          throw new Error(`Invalid selector record at ${this.statsFile}:${index + 1}`);
+        }
+      });
+  }
+
+  /**
+   * Sums up the records per selector chain, in the order the chains first ran.
+   */
+  public summarize(records: readonly SelectorRecord[]): SelectorStats[] {
+    const chains = new Map<string, SelectorRecord[]>();
+    for (const record of records) {
+      const key = JSON.stringify([record.selector, record.fallbacks]);
+      chains.set(key, [...(chains.get(key) ?? []), record]);
+    }
+
+    return Array.from(chains.values()).map(runs => {
+      const { selector, fallbacks } = runs[0];
+      const count = (outcome: SelectorRecord['outcome']): number =>
+        runs.filter(run => run.outcome === outcome).length;
+      const fallbackHits = fallbacks.map(
+        (_, i) => runs.filter(run => run.outcome === 'fallback' && run.fallback === i + 1).length
+      );
+      const primary = count('primary');
+      const outcomes = new Set(runs.map(run => `${run.outcome}${run.fallback ?? ''}`));
+
+      const latest = runs.slice(-this.minRuns);
+      const promotable =
+        latest.length >= this.minRuns &&
+        latest.every(run => run.outcome === 'fallback' && run.fallback === latest[0].fallback)
+          ? latest[0].fallback
+          : undefined;
+
+      return {
+        selector,
+        fallbacks,
+        tests: Array.from(new Set(runs.map(run => run.test))),
+        runs: runs.length,
+        primary,
+        fallbackHits,
+        refined: count('refined'),
+        failed: count('failed'),
+        averageDuration: Math.round(runs.reduce((sum, run) => sum + run.duration, 0) / runs.length),
+        flaky: outcomes.size > 1,
+        alwaysFallsBack: primary === 0 && fallbackHits.some(hits => hits > 0),
+        ...(promotable !== undefined && { promotable }),
+      };
+    });
+  }
+
+  /**
+   * Makes the promotable fallback of each selector chain its primary in an
+   * .ox.test source; the old primary becomes the first fallback. Only the
+   * changed commands are rewritten, comments and layout stay.
+   *
+   * @param content Source of an .ox.test file
+   * @param stats Summaries of the recorded runs
+   * @returns The updated source and how many commands changed
+   */
+  public promote(
+    content: string,
+    stats: readonly SelectorStats[]
+  ): { content: string; promoted: number } {
+    const promotable = new Map(
+      stats
+        .filter(chain => chain.promotable !== undefined)
+        .map(chain => [JSON.stringify([chain.selector, chain.fallbacks]), chain.promotable!])
+    );
+    if (promotable.size === 0) {
+      return { content, promoted: 0 };
+    }
+
+    const lines = content.split('\n');
+    const seen = new Set<string>();
+    const promoted: OxtestCommand[] = [];
+    // Commands of procedures appear once per call; include lines are left alone
+    for (const command of flattenCommands(this.parser.parseWithDiagnostics(content).nodes)) {
+      const range = command.range;
+      if (!command.selector || !range || range.line !== range.endLine) {
+        continue;
+      }
+      const position = `${range.line}:${range.column}`;
+      if (seen.has(position)) {
+        continue;
+      }
+      seen.add(position);
+
+      // Reparse the command as written, without the scope of a within block around it
+      const source = lines[range.line - 1].slice(range.column - 1, range.endColumn - 1);
+      const [written] = this.parser.parseContent(source);
+      const fallback = written?.selector && promotable.get(this.chainKey(written.selector));
+      if (!fallback) {
+        continue;
+      }
+      promoted.push(
+        new OxtestCommand(
+          written.type,
+          written.params,
+          this.swap(written.selector!, fallback),
+          range
+        )
+      );
+    }
+
+    return {
+      content: promoted.length > 0 ? this.serializer.update(content, promoted) : content,
+      promoted: promoted.length,
+    };
+  }
+
+  private chainKey(selector: SelectorSpec): string {
+    return JSON.stringify([
+      `${selector.strategy}=${selector.value}`,
+      selector.fallbacks.map(fallback => `${fallback.strategy}=${fallback.value}`),
+    ]);
+  }
+
+  /**
+   * Makes a fallback, counted from 1, the primary of a selector.
+   */
+  private swap(selector: SelectorSpec, fallback: number): SelectorSpec {
+    const chosen = selector.fallbacks[fallback - 1];
+    return new SelectorSpec(
+      chosen.strategy,
+      chosen.value,
+      [
+        { strategy: selector.strategy, value: selector.value },
+        ...selector.fallbacks.filter((_, i) => i !== fallback - 1),
+      ],
+      selector.metadata,
+      selector.scope
+    );
+  }
+}
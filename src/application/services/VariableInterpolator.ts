@@ -0,0 +1,197 @@
+/**
+ * VariableInterpolator - Resolves ${name} references in OXTest commands
+ *
+ * Single Responsibility: Runtime variable substitution
+ *
+ * Values captured during execution (store_text, store_value, store_attribute)
+ * live in the ExecutionContext. Before a command runs, every string parameter,
+ * the selector value and all fallback values are resolved against those
+ * variables, then against process.env, then against an inline default.
+ *
+ * Syntax matches EnvironmentResolver: ${NAME} and ${NAME:-default}.
+ */
+
+import { OxtestCommand, CommandParams } from '../../domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../domain/entities/SelectorSpec';
+import { BlockCondition } from '../../domain/entities/OxtestBlock';
+
+/**
+ * Thrown when a referenced variable has no value and no default.
+ */
+export class UndefinedVariableError extends Error {
+  constructor(public readonly variableName: string) {
+    super(`Undefined variable: \${${variableName}}`);
+    this.name = 'UndefinedVariableError';
+    Object.setPrototypeOf(this, UndefinedVariableError.prototype);
+  }
+}
+
+/**
+ * Service for substituting variables into commands before execution
+ */
+export class VariableInterpolator {
+  private static readonly PATTERN = /\$\{([^:}]+)(?::-([^}]*))?\}/g;
+
+  constructor(private readonly env: Record<string, string | undefined> = process.env) {}
+
+  /**
+   * Checks whether a string contains any ${...} reference.
+   */
+  public static hasReferences(value: string): boolean {
+    return new RegExp(VariableInterpolator.PATTERN.source).test(value);
+  }
+
+  /**
+   * Resolves all references in a single string.
+   *
+   * @param value String possibly containing ${name} references
+   * @param variables Variables captured during execution
+   * @returns Resolved string
+   * @throws UndefinedVariableError if a reference cannot be resolved
+   */
+  public interpolateString(value: string, variables: Record<string, string>): string {
+    return value.replace(
+      VariableInterpolator.PATTERN,
+      (_match, name: string, defaultValue?: string) => {
+        const trimmed = name.trim();
+        if (variables[trimmed] !== undefined) {
+          return variables[trimmed];
+        }
+        if (this.env[trimmed] !== undefined) {
+          return this.env[trimmed]!;
+        }
+        if (defaultValue !== undefined) {
+          return defaultValue;
+        }
+        throw new UndefinedVariableError(trimmed);
+      }
+    );
+  }
+
+  /**
+   * Returns a command with all references resolved.
+   * The original command is returned unchanged if it has no references.
+   *
+   * @param command Command to resolve
+   * @param variables Variables captured during execution
+   * @returns Resolved command
+   * @throws UndefinedVariableError if a reference cannot be resolved
+   */
+  public interpolate(command: OxtestCommand, variables: Record<string, string>): OxtestCommand {
+    if (!this.commandHasReferences(command)) {
+      return command;
+    }
+
+    const params: CommandParams = {};
+    for (const [key, value] of Object.entries(command.params)) {
+      params[key] = typeof value === 'string' ? this.interpolateString(value, variables) : value;
+    }
+
+    const selector = command.selector
+      ? this.interpolateSelector(command.selector, variables)
+      : undefined;
+
+    return new OxtestCommand(
+      command.type,
+      params,
+      selector,
+      command.range,
+      command.filePath,
+      command.writtenSelector ?? command.selector
+    );
+  }
+
+  /**
+   * Returns an if-block condition with its selector or pattern resolved.
+   *
+   * @param condition Condition to resolve
+   * @param variables Variables captured during execution
+   * @returns Resolved condition
+   * @throws UndefinedVariableError if a reference cannot be resolved
+   */
+  public interpolateCondition(
+    condition: BlockCondition,
+    variables: Record<string, string>
+  ): BlockCondition {
+    return new BlockCondition(
+      condition.type,
+      condition.selector ? this.interpolateSelector(condition.selector, variables) : undefined,
+      condition.pattern !== undefined
+        ? this.interpolateString(condition.pattern, variables)
+        : undefined
+    );
+  }
+
+  /**
+   * Resolves the selector value, all fallback values and the selectors
+   * and text it is scoped by.
+   */
+  private interpolateSelector(
+    selector: SelectorSpec,
+    variables: Record<string, string>
+  ): SelectorSpec {
+    const { parent, has, hasText } = selector.scope;
+    return new SelectorSpec(
+      selector.strategy,
+      this.interpolateString(selector.value, variables),
+      selector.fallbacks.map(fb => ({
+        strategy: fb.strategy,
+        value: this.interpolateString(fb.value, variables),
+      })),
+      selector.metadata,
+      {
+        ...selector.scope,
+        parent: parent && this.interpolateSelector(parent, variables),
+        has: has && this.interpolateSelector(has, variables),
+        hasText: hasText !== undefined ? this.interpolateString(hasText, variables) : undefined,
+      }
+    );
+  }
+
+  /**
+   * Names of the variables a command references without an inline default,
+   * in order of appearance.
+   */
+  public requiredVariables(command: OxtestCommand): string[] {
+    const pattern = new RegExp(VariableInterpolator.PATTERN.source, 'g');
+    return this.commandValues(command).flatMap(value =>
+      [...value.matchAll(pattern)]
+        .filter(([, , defaultValue]) => defaultValue === undefined)
+        .map(([, name]) => name.trim())
+    );
+  }
+
+  /**
+   * Checks whether any parameter or selector of the command references a variable.
+   */
+  private commandHasReferences(command: OxtestCommand): boolean {
+    return this.commandValues(command).some(v => VariableInterpolator.hasReferences(v));
+  }
+
+  /**
+   * Every string parameter and selector string of a command.
+   */
+  private commandValues(command: OxtestCommand): string[] {
+    const values: string[] = Object.values(command.params).filter(
+      (v): v is string => typeof v === 'string'
+    );
+    if (command.selector) {
+      values.push(...this.selectorValues(command.selector));
+    }
+    return values;
+  }
+
+  /**
+   * Every string of a selector that may hold references, scope included.
+   */
+  private selectorValues(selector: SelectorSpec): string[] {
+    const { parent, has, hasText } = selector.scope;
+    return [
+      selector.value,
+      ...selector.fallbacks.map(fb => fb.value),
+      ...(parent ? this.selectorValues(parent) : []),
+      ...(has ? this.selectorValues(has) : []),
+      ...(hasText !== undefined ? [hasText] : []),
+    ];
+  }
+}
@@ -18,6 +18,8 @@
  * Usage:
  *   e2e-test-agent --src=tests.yaml --output=_generated
  *   e2e-test-agent --src=tests.yaml --output=_generated --oxtest
+ *   e2e-test-agent lsp
+ *   e2e-test-agent fmt tests/ --check
  */
 
 import { Command } from 'commander';
@@ -25,22 +27,65 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
 import { minimatch } from 'minimatch';
-import { chromium } from 'playwright';
 import { OpenAI } from 'openai';
 import { OpenAILLMProvider } from './infrastructure/llm/OpenAILLMProvider';
 import { ILLMProvider } from './infrastructure/llm/interfaces';
-import { OxtestParser } from './infrastructure/parsers/OxtestParser';
+import { OxtestDocument, OxtestParser } from './infrastructure/parsers/OxtestParser';
+import { OxtestSerializer } from './infrastructure/parsers/OxtestSerializer';
+import { DataFixtureLoader, DataRow } from './infrastructure/parsers/DataFixtureLoader';
 import { PlaywrightExecutor } from './infrastructure/executors/PlaywrightExecutor';
-import { TestOrchestrator } from './application/orchestrators/TestOrchestrator';
-import { ReportAdapter } from './application/orchestrators/ReportAdapter';
+import {
+  BrowserEngine,
+  BrowserOptions,
+  browserOptionsFromEnv,
+  launchBrowser,
+  validateBrowserOptions,
+} from './infrastructure/executors/BrowserLauncher';
+import {
+  RecordingOptions,
+  ScreenshotMode,
+  VALID_SCREENSHOT_MODES,
+  screenshotModeFromEnv,
+} from './infrastructure/executors/RecordingOptions';
+import {
+  StrictMode,
+  VALID_STRICT_MODES,
+  strictModeFromEnv,
+} from './infrastructure/executors/MultiStrategySelector';
+import { PageScope } from './infrastructure/executors/PageScope';
+import {
+  SubtaskExecutionResult,
+  TestOrchestrator,
+} from './application/orchestrators/TestOrchestrator';
+import { ExecutionContextManager } from './application/orchestrators/ExecutionContextManager';
+import { ReportAdapter, SubtaskArtifacts } from './application/orchestrators/ReportAdapter';
 import { IterativeDecompositionEngine } from './application/engines/IterativeDecompositionEngine';
 import { SimpleEOPEngine } from './application/engines/SimpleEOPEngine';
 import { HTMLExtractor } from './application/engines/HTMLExtractor';
 import { LanguageDetectionService } from './application/services/LanguageDetectionService';
+import { VariableInterpolator } from './application/services/VariableInterpolator';
+import { AuthSessionService } from './application/services/AuthSessionService';
+import {
+  DEFAULT_PROMOTE_MIN_RUNS,
+  SELECTOR_STATS_FILE,
+  SelectorStats,
+  SelectorStatsService,
+} from './application/services/SelectorStatsService';
 import { OxtestPromptBuilder } from './infrastructure/llm/OxtestPromptBuilder';
 import { Subtask } from './domain/entities/Subtask';
 import { OxtestCommand } from './domain/entities/OxtestCommand';
+import { isBlock } from './domain/entities/OxtestBlock';
+import { DEFAULT_TASK_METADATA } from './domain/interfaces/TaskMetadata';
+import { SelectorResolution } from './domain/interfaces/SelectorResolution';
+import {
+  DEFAULT_STEP_POLICY,
+  StepPolicy,
+  resolveStepPolicy,
+  stepPolicyFromEnv,
+  stepPolicyFromParams,
+} from './domain/interfaces/StepPolicy';
 import { createReporter } from './presentation/reporters';
+import { OxtestLanguageServer } from './presentation/lsp';
 import { version } from './index';
 
 /**
@@ -61,6 +106,49 @@ interface HighLevelYaml {
   };
 }
 
+/**
+ * What to record for each test run; file names and locations are set per run
+ */
+type ArtifactCapture = Omit<RecordingOptions, 'dir' | 'name'>;
+
+/**
+ * File the YAML `auth:` login flow is generated into; tests refer to it with @auth
+ */
+const AUTH_FLOW_FILE = 'auth.ox.test';
+
+/**
+ * Names a data row for the console and reports: `row 2: user=admin, locale=de`.
+ */
+function describeRow(index: number, row: DataRow): string {
+  const values = Object.entries(row).map(([name, value]) => `${name}=${value}`);
+  return [`row ${index + 1}`, ...(values.length > 0 ? [values.join(', ')] : [])].join(': ');
+}
+
+/**
+ * Summarizes how a selector resolved for `selectors report`:
+ * `css=.buy (checkout): 5 runs, fallback 1 ×5, avg 120ms; always falls back, promotable: text=Buy`.
+ */
+function describeSelectorStats(chain: SelectorStats): string {
+  const hits = [
+    ...(chain.primary > 0 ? [`primary ×${chain.primary}`] : []),
+    ...chain.fallbackHits.flatMap((count, i) => (count > 0 ? [`fallback ${i + 1} ×${count}`] : [])),
+    ...(chain.refined > 0 ? [`refined ×${chain.refined}`] : []),
+    ...(chain.failed > 0 ? [`failed ×${chain.failed}`] : []),
+  ];
+  const problems = [
+    ...(chain.flaky ? ['flaky'] : []),
+    ...(chain.alwaysFallsBack ? ['always falls back'] : []),
+    ...(chain.promotable !== undefined
+      ? [`promotable: ${chain.fallbacks[chain.promotable - 1]}`]
+      : []),
+  ];
+  return (
+    `${chain.selector} (${chain.tests.join(', ')}): ${chain.runs} run(s), ${hits.join(', ')}, ` +
+    `avg ${chain.averageDuration}ms` +
+    (problems.length > 0 ? `; ${problems.join(', ')}` : '')
+  );
+}
+
 /**
  * CLI Application
  */
@@ -86,16 +174,232 @@ class CLI {
         '--tests <pattern>',
         'Glob pattern for which .ox.test files to execute (e.g., "*.ox.test" or "paypal*.ox.test")'
       )
+      .option(
+        '--tags <tags>',
+        'Only execute .ox.test files with one of these @tags (comma-separated)'
+      )
       .option(
         '--reporter <types>',
         'Report formats (comma-separated: json,html,junit,console)',
         'console'
       )
+      .option(
+        '--screenshot <mode>',
+        'Take screenshots of test steps (off|on-failure|every-step); defaults to on-failure when SCREENSHOT_ON_FAILURE=true'
+      )
+      .option(
+        '--step-timeout <ms>',
+        'How long each step waits for its element, in milliseconds (default: 2000, or STEP_TIMEOUT)'
+      )
+      .option(
+        '--step-retries <n>',
+        'How often to retry a failed step (default: 2, or STEP_RETRIES)'
+      )
+      .option(
+        '--wait-for <state>',
+        'State elements must reach before steps interact with them (attached|visible|stable|enabled)'
+      )
+      .option(
+        '--strict <mode>',
+        'When a selector matches several elements (off|warn|fail); defaults to STRICT_SELECTORS or off'
+      )
+      .option('--video', 'Record a video of each test run', false)
+      .option('--trace', 'Record a Playwright trace of each test run', false)
+      .option('--har', 'Record a HAR file of the network traffic of each test run', false)
+      .option('--browser <name>', 'Browser engine (chromium|firefox|webkit)')
+      .option('--headed', 'Show the browser window')
+      .option('--slow-mo <ms>', 'Delay each browser operation by this many milliseconds')
+      .option('--proxy <server>', 'Proxy server for the browser (e.g., http://proxy.local:3128)')
+      .option(
+        '--browser-arg <arg>',
+        'Extra browser command-line argument (repeatable)',
+        (arg: string, args: string[] = []) => [...args, arg]
+      )
+      .option('--executable-path <path>', 'Browser executable to use instead of the bundled one')
+      .option('--device <name>', 'Playwright device profile to emulate (e.g., "iPhone 13")')
       .option('--env <path>', 'Path to .env file (optional)')
       .option('--verbose', 'Enable verbose logging', false)
       .action(async options => {
         await this.run(options);
       });
+
+    this.program
+      .command('lsp')
+      .description('Start a language server for .ox.test files on stdio')
+      .option('--stdio', 'Use stdio transport (the default)')
+      .action(() => {
+        new OxtestLanguageServer().listen(process.stdin, process.stdout);
+      });
+
+    this.program
+      .command('fmt')
+      .description('Format .ox.test files in place')
+      .argument('<paths...>', 'Files or directories containing .ox.test files')
+      .option('--check', 'Only list files that are not formatted; exit with 1 if any', false)
+      .action((paths: string[], options: { check: boolean }) => {
+        this.format(paths, options.check);
+      });
+
+    const selectors = this.program
+      .command('selectors')
+      .description('Inspect how selectors resolved in past executions');
+    selectors
+      .command('report')
+      .description('List selectors that are flaky or only ever found by a fallback')
+      .option('-o, --output <path>', 'Directory the tests were executed in', '_generated')
+      .option(
+        '--min-runs <n>',
+        'Latest runs a fallback must have worked in to be promotable',
+        String(DEFAULT_PROMOTE_MIN_RUNS)
+      )
+      .option('--all', 'List every selector', false)
+      .action(async (options: { output: string; minRuns: string; all: boolean }) => {
+        await this.reportSelectors(options.output, this.minRuns(options.minRuns), options.all);
+      });
+    selectors
+      .command('promote')
+      .description('Make fallbacks that reliably worked the primary selector in .ox.test files')
+      .option('-o, --output <path>', 'Directory the tests were executed in', '_generated')
+      .option(
+        '--min-runs <n>',
+        'Latest runs a fallback must have worked in to be promoted',
+        String(DEFAULT_PROMOTE_MIN_RUNS)
+      )
+      .option('--dry-run', 'Only list the files that would change', false)
+      .action(async (options: { output: string; minRuns: string; dryRun: boolean }) => {
+        await this.promoteSelectors(options.output, this.minRuns(options.minRuns), options.dryRun);
+      });
+  }
+
+  /**
+   * Reads the --min-runs option of the selectors commands.
+   */
+  private minRuns(value: string): number {
+    if (!/^[1-9]\d*$/.test(value)) {
+      console.error(`❌ Error: --min-runs must be a positive integer, got "${value}"`);
+      process.exit(1);
+    }
+    return Number(value);
+  }
+
+  /**
+   * Lists selectors that resolved differently across runs or only through
+   * fallbacks, or with all every selector that ran.
+   */
+  private async reportSelectors(outputDir: string, minRuns: number, all: boolean): Promise<void> {
+    const statsFile = path.join(outputDir, SELECTOR_STATS_FILE);
+    const service = new SelectorStatsService(statsFile, minRuns);
+    const records = await service.load();
+    if (records.length === 0) {
+      console.log(`ℹ️  No selector runs recorded in ${statsFile} yet; execute the tests first`);
+      return;
+    }
+
+    const stats = service.summarize(records);
+    const listed = all ? stats : stats.filter(chain => chain.flaky || chain.alwaysFallsBack);
+    console.log(`📊 ${stats.length} selector(s) from ${records.length} run(s) in ${statsFile}`);
+    for (const chain of listed) {
+      const icon = chain.flaky || chain.alwaysFallsBack ? '⚠️ ' : '✅';
+      console.log(`   ${icon} ${describeSelectorStats(chain)}`);
+    }
+    if (listed.length === 0) {
+      console.log('✅ No flaky or always-falling-back selectors');
+    }
+  }
+
+  /**
+   * Rewrites the .ox.test files of an output directory so that fallbacks
+   * that found the element in the latest runs become the primary selector.
+   */
+  private async promoteSelectors(
+    outputDir: string,
+    minRuns: number,
+    dryRun: boolean
+  ): Promise<void> {
+    const service = new SelectorStatsService(path.join(outputDir, SELECTOR_STATS_FILE), minRuns);
+    const stats = service.summarize(await service.load());
+    if (!stats.some(chain => chain.promotable !== undefined)) {
+      console.log(`ℹ️  No fallback found the element in each of the last ${minRuns} run(s)`);
+      return;
+    }
+
+    let total = 0;
+    for (const file of this.findOxtestFiles([outputDir])) {
+      const content = fs.readFileSync(file, 'utf-8');
+      const result = service.promote(content, stats);
+      if (result.promoted === 0) {
+        continue;
+      }
+      total += result.promoted;
+      if (!dryRun) {
+        fs.writeFileSync(file, result.content, 'utf-8');
+      }
+      console.log(`   ✏️  ${file} (${result.promoted} selector(s))`);
+    }
+    console.log(
+      dryRun ? `✅ ${total} selector(s) would be promoted` : `✅ Promoted ${total} selector(s)`
+    );
+  }
+
+  /**
+   * Formats .ox.test files, or with check only reports which ones would change.
+   */
+  private format(paths: string[], check: boolean): void {
+    const serializer = new OxtestSerializer();
+    const files = this.findOxtestFiles(paths);
+
+    let unformatted = 0;
+    for (const file of files) {
+      const content = fs.readFileSync(file, 'utf-8');
+      const formatted = serializer.format(content);
+      if (formatted === content) {
+        continue;
+      }
+
+      unformatted++;
+      if (check) {
+        console.log(`   ⚠️  ${file}`);
+      } else {
+        fs.writeFileSync(file, formatted, 'utf-8');
+        console.log(`   ✏️  ${file}`);
+      }
+    }
+
+    if (check && unformatted > 0) {
+      console.error(`❌ ${unformatted} of ${files.length} file(s) need formatting`);
+      process.exit(1);
+    }
+    console.log(
+      check
+        ? `✅ ${files.length} file(s) formatted correctly`
+        : `✅ Formatted ${unformatted} of ${files.length} file(s)`
+    );
+  }
+
+  /**
+   * Lists the given .ox.test files and those in the given directories and
+   * their subdirectories.
+   */
+  private findOxtestFiles(paths: string[]): string[] {
+    const files: string[] = [];
+    for (const target of paths) {
+      if (!fs.existsSync(target)) {
+        console.error(`❌ Error: Path not found: ${target}`);
+        process.exit(1);
+      }
+      if (fs.statSync(target).isDirectory()) {
+        const entries = fs.readdirSync(target, { recursive: true }) as string[];
+        files.push(
+          ...entries
+            .filter(entry => entry.endsWith('.ox.test'))
+            .sort()
+            .map(entry => path.join(target, entry))
+        );
+      } else {
+        files.push(target);
+      }
+    }
+    return files;
   }
 
   private async run(options: {
@@ -105,7 +409,23 @@ class CLI {
     oxtest?: boolean;
     execute?: boolean;
     tests?: string;
+    tags?: string;
     reporter?: string;
+    screenshot?: string;
+    stepTimeout?: string;
+    stepRetries?: string;
+    waitFor?: string;
+    strict?: string;
+    video?: boolean;
+    trace?: boolean;
+    har?: boolean;
+    browser?: string;
+    headed?: boolean;
+    slowMo?: string;
+    proxy?: string;
+    browserArg?: string[];
+    executablePath?: string;
+    device?: string;
     env?: string;
     verbose?: boolean;
   }): Promise<void> {
@@ -113,6 +433,54 @@ class CLI {
       // Load environment variables first
       this.loadEnvironment(options.env);
 
+      // Command-line options override the browser settings from the environment.
+      // A device runs in its own engine unless --browser names another one.
+      const { browser: envBrowser, ...envOptions } = browserOptionsFromEnv();
+      const device = options.device ?? envOptions.device;
+      const browserOptions: BrowserOptions = {
+        ...envOptions,
+        ...(device === undefined && envBrowser !== undefined && { browser: envBrowser }),
+        ...(options.browser !== undefined && { browser: options.browser as BrowserEngine }),
+        ...(options.headed !== undefined && { headed: options.headed }),
+        ...(options.slowMo !== undefined && { slowMo: Number(options.slowMo) }),
+        ...(options.proxy !== undefined && { proxy: options.proxy }),
+        ...(options.browserArg !== undefined && { args: options.browserArg }),
+        ...(options.executablePath !== undefined && { executablePath: options.executablePath }),
+        ...(options.device !== undefined && { device: options.device }),
+      };
+      validateBrowserOptions(browserOptions);
+
+      const screenshot = (options.screenshot ?? screenshotModeFromEnv()) as ScreenshotMode;
+      if (!VALID_SCREENSHOT_MODES.includes(screenshot)) {
+        throw new Error(
+          `Unknown screenshot mode: ${screenshot}. Must be one of: ${VALID_SCREENSHOT_MODES.join(', ')}`
+        );
+      }
+      const capture: ArtifactCapture = {
+        screenshot,
+        video: options.video,
+        trace: options.trace,
+        har: options.har,
+      };
+
+      // Command-line options override the step policy from the environment
+      const stepPolicy = resolveStepPolicy(
+        DEFAULT_STEP_POLICY,
+        stepPolicyFromEnv(),
+        stepPolicyFromParams({
+          timeout: options.stepTimeout,
+          retries: options.stepRetries,
+          wait_for: options.waitFor,
+        })
+      );
+
+      const strict = (options.strict ?? strictModeFromEnv()) as StrictMode;
+      if (!VALID_STRICT_MODES.includes(strict)) {
+        throw new Error(
+          `Unknown strict mode: ${strict}. Must be one of: ${VALID_STRICT_MODES.join(', ')}`
+        );
+      }
+
       // If --execute is set without --src, run existing tests
       if (options.execute && !options.src) {
         console.log('🚀 Executing existing OXTest files...');
@@ -155,7 +523,12 @@ class CLI {
           options.reporter || 'console',
           options.verbose,
           options.tests,
-          llmProvider
+          llmProvider,
+          options.tags,
+          browserOptions,
+          capture,
+          stepPolicy,
+          strict
         );
         return;
       }
@@ -211,7 +584,8 @@ class CLI {
       // Read and parse YAML
       console.log(`📝 Reading YAML specification: ${options.src}`);
       const yamlContent = fs.readFileSync(options.src, 'utf-8');
-      const spec: HighLevelYaml = yaml.parse(yamlContent);
+      // `auth` is the login flow the tests share, not a test
+      const { auth: authSpec, ...spec }: HighLevelYaml = yaml.parse(yamlContent);
 
       // Initialize LLM provider with validated configuration
       console.log('🤖 Initializing LLM provider...');
@@ -236,6 +610,52 @@ class CLI {
         fs.mkdirSync(options.output, { recursive: true });
       }
 
+      // Log in once so the tests are generated against the logged-in site
+      let storageState: string | undefined;
+      if (authSpec) {
+        console.log(`\n🔐 Processing login flow: ${AUTH_FLOW_FILE}`);
+        const authCode = await this.generateOXTestWithLLM(
+          llmProvider,
+          'auth',
+          authSpec.jobs,
+          authSpec.url,
+          options.verbose,
+          browserOptions
+        );
+        const authFilePath = path.join(options.output, AUTH_FLOW_FILE);
+        fs.writeFileSync(authFilePath, authCode, 'utf-8');
+        console.log(`   📄 Created: ${AUTH_FLOW_FILE}`);
+
+        if (options.execute !== false) {
+          try {
+            const validation = await this.validateAndHealOXTest(
+              authFilePath,
+              'auth',
+              llmProvider,
+              options.verbose || false,
+              browserOptions
+            );
+            if (validation.updated) {
+              console.log(`   ✏️  OXTest updated (${validation.healedCount} step(s) healed)`);
+              fs.writeFileSync(authFilePath, validation.content, 'utf-8');
+            }
+            storageState = await this.saveAuthSession(
+              authFilePath,
+              options.output,
+              options.verbose || false,
+              browserOptions
+            );
+            console.log(`   ✅ Logged in, session saved to ${storageState}`);
+          } catch (error) {
+            console.error(`   ❌ Login failed: ${(error as Error).message}`);
+            console.error(`   ⚠️  Generating tests without a session, but continuing...`);
+          }
+        }
+      }
+      const testBrowserOptions = storageState
+        ? { ...browserOptions, storageState }
+        : browserOptions;
+
       // Process each test suite in YAML
       for (const [testName, testSpec] of Object.entries(spec)) {
         console.log(`\n🎯 Processing test: ${testName}`);
@@ -244,13 +664,15 @@ class CLI {
 
         // PHASE 1: Generate OXTest FIRST (HTML-aware, accurate selectors)
         console.log('   🧠 Generating OXTest format (HTML-aware)...');
-        const oxtestCode = await this.generateOXTestWithLLM(
+        const generatedCode = await this.generateOXTestWithLLM(
           llmProvider,
           testName,
           testSpec.jobs,
           testSpec.url,
-          options.verbose
+          options.verbose,
+          testBrowserOptions
         );
+        const oxtestCode = authSpec ? `@auth ${AUTH_FLOW_FILE}\n\n${generatedCode}` : generatedCode;
 
         const oxtestFileName = `${testName}.ox.test`;
         const oxtestFilePath = path.join(options.output, oxtestFileName);
@@ -266,7 +688,8 @@ class CLI {
               oxtestFilePath,
               testName,
               llmProvider,
-              options.verbose || false
+              options.verbose || false,
+              testBrowserOptions
             );
 
             if (validation.updated) {
@@ -295,6 +718,7 @@ class CLI {
         const result = await converter.convert(validatedOxtestContent, {
           testName,
           baseURL: testSpec.url,
+          sourcePath: oxtestFilePath,
         });
 
         const testFileName = `${testName}.spec.ts`;
@@ -438,14 +862,16 @@ Generate ONLY the complete test code, no explanations. The code should be produc
     testName: string,
     jobs: JobSpec[],
     baseUrl: string,
-    verbose: boolean = false
+    verbose: boolean = false,
+    browserOptions: BrowserOptions = {}
   ): Promise<string> {
     // Launch browser to extract HTML context
     if (verbose) {
-      console.log('   🌐 Launching headless browser...');
+      console.log(
+        `   🌐 Launching ${browserOptions.headed ? 'headed' : 'headless'} ${browserOptions.browser ?? 'browser'}...`
+      );
     }
-    const browser = await chromium.launch({ headless: true });
-    const context = await browser.newContext();
+    const { browser, context } = await launchBrowser(browserOptions);
     const page = await context.newPage();
 
     try {
@@ -459,8 +885,9 @@ Generate ONLY the complete test code, no explanations. The code should be produc
         console.log('   ✓ Page loaded');
       }
 
-      // Create HTML extractor
-      const htmlExtractor = new HTMLExtractor(page);
+      // Create HTML extractor, following the tab and frame EOP mode switches to
+      const scope = new PageScope(context, page);
+      const htmlExtractor = new HTMLExtractor(scope);
       const parser = new OxtestParser();
 
       // Model already validated at initialization - no fallback needed
@@ -486,7 +913,7 @@ Generate ONLY the complete test code, no explanations. The code should be produc
           promptBuilder,
           parser,
           languageDetector,
-          page,
+          scope,
           { verbose, model }
         );
       } else {
@@ -536,11 +963,9 @@ Generate ONLY the complete test code, no explanations. The code should be produc
           const subtask = await engine.decompose(instruction);
 
           // Convert commands to OXTest format
+          const serializer = new OxtestSerializer();
           for (const command of subtask.commands) {
-            const line = this.commandToOXTestLine(command);
-            if (line) {
-              oxtestLines.push(line);
-            }
+            oxtestLines.push(serializer.serializeCommand(command));
           }
 
           // Note: We don't execute commands here because the decomposition engine
@@ -565,49 +990,29 @@ Generate ONLY the complete test code, no explanations. The code should be produc
   }
 
   /**
-   * Converts an OxtestCommand to an OXTest format line
-   */
-  private commandToOXTestLine(command: any): string {
-    const parts: string[] = [command.type];
-
-    // Add selector if present
-    if (command.selector) {
-      const selectorStr = `${command.selector.strategy}=${command.selector.value}`;
-      parts.push(selectorStr);
-
-      // Add fallback if present
-      if (command.selector.fallbacks && command.selector.fallbacks.length > 0) {
-        const fallback = command.selector.fallbacks[0];
-        parts.push(`fallback=${fallback.strategy}=${fallback.value}`);
-      }
-    }
-
-    // Add parameters
-    for (const [key, value] of Object.entries(command.params || {})) {
-      if (value !== undefined && value !== null) {
-        // Quote values with spaces
-        const valueStr = String(value).includes(' ') ? `"${value}"` : String(value);
-        parts.push(`${key}=${valueStr}`);
-      }
-    }
-
-    return parts.join(' ');
-  }
-
-  /**
-   * Serializes OxtestCommand array back to OXTest format
+   * Runs a login flow in its own browser and saves the session for the
+   * tests, returning the storage state file.
    */
-  private serializeCommandsToOXTest(commands: OxtestCommand[]): string {
-    const lines: string[] = [];
+  private async saveAuthSession(
+    loginFile: string,
+    outputDir: string,
+    verbose: boolean,
+    browserOptions: BrowserOptions
+  ): Promise<string> {
+    const executor = new PlaywrightExecutor(verbose, undefined, browserOptions);
+    const contextManager = new ExecutionContextManager();
+    const orchestrator = new TestOrchestrator(executor, contextManager);
+    const auth = new AuthSessionService(executor, orchestrator, contextManager, {
+      stateDir: path.join(outputDir, '.auth'),
+      verbose,
+    });
 
-    for (const command of commands) {
-      const line = this.commandToOXTestLine(command);
-      if (line) {
-        lines.push(line);
-      }
+    try {
+      await executor.initialize();
+      return await auth.storageStateFor(loginFile);
+    } finally {
+      await executor.close();
     }
-
-    return lines.join('\n');
   }
 
   /**
@@ -617,10 +1022,28 @@ Generate ONLY the complete test code, no explanations. The code should be produc
     oxtestFilePath: string,
     _testName: string,
     llmProvider: ILLMProvider,
-    verbose: boolean
+    verbose: boolean,
+    browserOptions: BrowserOptions = {}
   ): Promise<{ content: string; updated: boolean; healedCount: number }> {
     const parser = new OxtestParser();
-    const commands = await parser.parseFile(oxtestFilePath);
+    const source = fs.readFileSync(oxtestFilePath, 'utf-8');
+    const tree = await parser.parseFileTree(oxtestFilePath);
+
+    // Step-by-step healing runs the file as a flat command list and rewrites
+    // commands in place, so blocks and commands from included files are out of reach.
+    // within blocks leave no node but scope the selectors inside them.
+    if (tree.some(isBlock) || /^\s*(include|within)\s/m.test(source)) {
+      console.log(
+        '   ⚠️  Skipping validation: control flow blocks and includes are not healed step-by-step'
+      );
+      return {
+        content: source,
+        updated: false,
+        healedCount: 0,
+      };
+    }
+
+    const commands = tree as readonly OxtestCommand[];
     let updated = false;
     let healedCount = 0;
 
@@ -629,14 +1052,16 @@ Generate ONLY the complete test code, no explanations. The code should be produc
     }
 
     // Initialize executor with LLM provider for refinement
-    const executor = new PlaywrightExecutor(verbose, llmProvider);
+    const executor = new PlaywrightExecutor(verbose, llmProvider, browserOptions);
 
     try {
       console.log('   🔍 Validating OXTest by execution...');
       await executor.initialize();
 
       // Execute commands one by one
-      const refinedCommands: OxtestCommand[] = [];
+      const healedCommands: OxtestCommand[] = [];
+      const interpolator = new VariableInterpolator();
+      const variables: Record<string, string> = {};
 
       for (let i = 0; i < commands.length; i++) {
         const command = commands[i];
@@ -645,20 +1070,29 @@ Generate ONLY the complete test code, no explanations. The code should be produc
           console.log(`      Step ${i + 1}/${commands.length}: ${command.type}`);
         }
 
-        const result = await executor.execute(command);
+        const result = await executor.execute(interpolator.interpolate(command, variables));
 
         if (result.success) {
-          // Use refined command if available, otherwise original
+          Object.assign(variables, result.variables);
+
+          // Use refined command if available, otherwise original.
+          // Keep the original params so ${name} references survive healing.
           if (result.refined && result.refinedCommand) {
-            refinedCommands.push(result.refinedCommand);
+            healedCommands.push(
+              new OxtestCommand(
+                command.type,
+                command.params,
+                result.refinedCommand.selector,
+                command.range,
+                command.filePath
+              )
+            );
             updated = true;
             healedCount++;
 
             if (verbose) {
               console.log(`      ✏️  Command healed with refined selector`);
             }
-          } else {
-            refinedCommands.push(command);
           }
         } else {
           // Command failed even after refinement attempts
@@ -667,14 +1101,14 @@ Generate ONLY the complete test code, no explanations. The code should be produc
         }
       }
 
-      // Serialize refined commands back to OXTest format
+      // Rewrite only the healed lines, keeping comments and layout
       if (updated) {
-        const newContent = this.serializeCommandsToOXTest(refinedCommands);
+        const newContent = new OxtestSerializer().update(source, healedCommands);
         return { content: newContent, updated: true, healedCount };
       }
 
       return {
-        content: fs.readFileSync(oxtestFilePath, 'utf-8'),
+        content: source,
         updated: false,
         healedCount: 0,
       };
@@ -688,7 +1122,12 @@ Generate ONLY the complete test code, no explanations. The code should be produc
     reporterTypes: string,
     verbose?: boolean,
     testsPattern?: string,
-    llmProvider?: ILLMProvider
+    llmProvider?: ILLMProvider,
+    tags?: string,
+    browserOptions: BrowserOptions = {},
+    capture: ArtifactCapture = {},
+    stepPolicy: StepPolicy = DEFAULT_STEP_POLICY,
+    strict: StrictMode = 'off'
   ): Promise<void> {
     // Find all .ox.test files
     let oxtestFiles = fs.readdirSync(outputDir).filter(f => f.endsWith('.ox.test'));
@@ -702,76 +1141,224 @@ Generate ONLY the complete test code, no explanations. The code should be produc
       }
     }
 
-    if (oxtestFiles.length === 0) {
+    // Parse every file up front: @tags and @priority decide what runs and in which order.
+    // Files that fail to parse are kept so their error is reported below.
+    const parser = new OxtestParser();
+    let tests: { file: string; document?: OxtestDocument; error?: Error }[] = [];
+    for (const file of oxtestFiles) {
+      try {
+        tests.push({ file, document: await parser.parseDocument(path.join(outputDir, file)) });
+      } catch (error) {
+        tests.push({ file, error: error as Error });
+      }
+    }
+
+    // Login flows named by @auth run when a test needs their session, not as tests
+    const loginFlows = new Set(
+      tests
+        .map(test => test.document?.metadata.auth)
+        .filter((file): file is string => file !== undefined)
+        .map(file => path.resolve(outputDir, file))
+    );
+    tests = tests.filter(test => !loginFlows.has(path.resolve(outputDir, test.file)));
+
+    const wantedTags = (tags ?? '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag !== '');
+    if (wantedTags.length > 0) {
+      tests = tests.filter(
+        test => !test.document || test.document.metadata.tags?.some(tag => wantedTags.includes(tag))
+      );
+
+      if (verbose) {
+        console.log(`🏷️  Filtering tests with tags: ${wantedTags.join(', ')}`);
+      }
+    }
+
+    // Highest priority first; equal priorities keep their file order
+    const priority = (test: { document?: OxtestDocument }): number =>
+      test.document?.metadata.priority ?? DEFAULT_TASK_METADATA.priority!;
+    tests.sort((a, b) => priority(b) - priority(a));
+
+    if (tests.length === 0) {
       if (testsPattern) {
         console.log(`⚠️  No .ox.test files found matching pattern: ${testsPattern}`);
+      } else if (wantedTags.length > 0) {
+        console.log(`⚠️  No .ox.test files found with tags: ${wantedTags.join(', ')}`);
       } else {
         console.log('⚠️  No .ox.test files found to execute');
       }
       return;
     }
 
-    console.log(`📋 Found ${oxtestFiles.length} test file(s) to execute`);
+    console.log(`📋 Found ${tests.length} test file(s) to execute`);
 
     // Initialize executor with LLM provider for selector refinement
-    const executor = new PlaywrightExecutor(verbose, llmProvider);
-    const parser = new OxtestParser();
+    const executor = new PlaywrightExecutor(verbose, llmProvider, browserOptions);
+    executor.setStrictMode(strict);
 
     try {
-      console.log('🌐 Launching browser...');
+      const device = browserOptions.device ? ` as ${browserOptions.device}` : '';
+      console.log(`🌐 Launching ${browserOptions.browser ?? 'browser'}${device}...`);
       await executor.initialize();
 
-      // TestOrchestrator needs ExecutionContextManager
-      const { ExecutionContextManager } = await import(
-        './application/orchestrators/ExecutionContextManager'
-      );
       const contextManager = new ExecutionContextManager();
       const orchestrator = new TestOrchestrator(executor, contextManager);
+      const auth = new AuthSessionService(executor, orchestrator, contextManager, {
+        stateDir: path.join(outputDir, '.auth'),
+        verbose,
+      });
+      const selectorStats = new SelectorStatsService(path.join(outputDir, SELECTOR_STATS_FILE));
 
       // Execute each test file
-      for (const oxtestFile of oxtestFiles) {
-        const filePath = path.join(outputDir, oxtestFile);
-        const testName = oxtestFile.replace('.ox.test', '');
+      for (const test of tests) {
+        const testName = test.file.replace('.ox.test', '');
 
         console.log(`\n🧪 Executing: ${testName}`);
 
         try {
-          // Parse the .ox.test file
-          const commands = await parser.parseFile(filePath);
+          if (test.error) {
+            throw test.error;
+          }
+          const { metadata, nodes } = test.document!;
 
-          if (commands.length === 0) {
-            console.log(`   ⚠️  No commands found in ${oxtestFile}`);
+          if (nodes.length === 0) {
+            console.log(`   ⚠️  No commands found in ${test.file}`);
             continue;
           }
 
-          // Create a single subtask with all commands
-          const subtask = new Subtask('main', testName, Array.from(commands));
+          if (verbose && metadata.owner) {
+            console.log(`   👤 Owner: ${metadata.owner}`);
+          }
+
+          // A data-driven test runs once per row, each reported as its own test case
+          const rows = metadata.data
+            ? await new DataFixtureLoader().loadFile(path.resolve(outputDir, metadata.data))
+            : undefined;
+          if (rows) {
+            console.log(`   📊 ${rows.length} data row(s) from ${metadata.data}`);
+          }
+
+          // The test's @step header overrides the global step policy
+          const policy = resolveStepPolicy(stepPolicy, metadata.step);
+          executor.setStepPolicy(policy);
 
-          // Execute the subtask
           const startTime = new Date();
-          subtask.markInProgress();
-
-          const subtaskResult = await orchestrator.executeSubtask(subtask);
-
-          if (subtaskResult.success) {
-            subtask.markCompleted({
-              success: true,
-              output: `Executed ${subtaskResult.commandsExecuted} commands`,
-            });
-            console.log(`   ✅ Test passed (${subtaskResult.duration}ms)`);
-          } else {
-            subtask.markFailed(new Error(subtaskResult.error || 'Execution failed'));
-            console.log(`   ❌ Test failed: ${subtaskResult.error}`);
+          const subtasks: Subtask[] = [];
+          const artifacts: SubtaskArtifacts[] = [];
+          const resolutions: SelectorResolution[] = [];
+          for (const [index, row] of (rows ?? [undefined]).entries()) {
+            // Create a single subtask with all commands and blocks
+            const subtask = row
+              ? Subtask.fromNodes(
+                  `row-${index + 1}`,
+                  `${testName} [${describeRow(index, row)}]`,
+                  Array.from(nodes)
+                )
+              : Subtask.fromNodes('main', testName, Array.from(nodes));
+            subtasks.push(subtask);
+            if (row) {
+              console.log(`   ▶️  ${describeRow(index, row)}`);
+            }
+
+            // Execute the subtask, retrying up to @retries times
+            subtask.markInProgress();
+
+            // Downloads are always saved there; the rest only when asked for
+            const recording: RecordingOptions = {
+              ...capture,
+              dir: path.join(outputDir, 'artifacts'),
+              name: `${testName}${row ? `-row-${index + 1}` : ''}`,
+            };
+
+            const attempts = (metadata.retries ?? DEFAULT_TASK_METADATA.retries!) + 1;
+            let subtaskResult: SubtaskExecutionResult;
+            try {
+              for (let attempt = 1; ; attempt++) {
+                // Each run starts in a fresh context, from the saved session with @auth
+                const storageState = metadata.auth
+                  ? await auth.storageStateFor(path.resolve(outputDir, metadata.auth))
+                  : undefined;
+                await executor.newContext(storageState, recording, metadata.dialogs);
+                if (metadata.viewport) {
+                  const resized = await executor.execute(
+                    new OxtestCommand('setViewport', {
+                      width: metadata.viewport.width,
+                      height: metadata.viewport.height,
+                    })
+                  );
+                  if (!resized.success) {
+                    throw new Error(`Failed to set viewport: ${resized.error}`);
+                  }
+                }
+
+                // Variables captured in one run must not leak into the next
+                contextManager.reset();
+                for (const [name, value] of Object.entries(row ?? {})) {
+                  contextManager.setVariable(name, value);
+                }
+                subtaskResult = await orchestrator.executeSubtask(subtask, metadata.timeout);
+                resolutions.push(...executor.selectorResolutions);
+                if (subtaskResult.success || attempt >= attempts) {
+                  break;
+                }
+                console.log(
+                  `   🔁 Attempt ${attempt}/${attempts} failed, retrying: ${subtaskResult.error}`
+                );
+              }
+            } finally {
+              // Closing the context finishes the recordings of the last attempt,
+              // also when it could not start. Reports link to them relative to
+              // the output directory they are written to.
+              const recorded = await executor.closeContext();
+              artifacts.push({
+                stepScreenshots: recorded.screenshots.map(screenshot => ({
+                  ...screenshot,
+                  path: path.relative(outputDir, screenshot.path),
+                })),
+                attachments: recorded.files.map(file => ({
+                  ...file,
+                  path: path.relative(outputDir, file.path),
+                })),
+              });
+              if (verbose && recorded.screenshots.length + recorded.files.length > 0) {
+                console.log(
+                  `   📎 Recorded ${recorded.screenshots.length} screenshot(s), ${recorded.files.length} file(s)`
+                );
+              }
+            }
+
+            if (subtaskResult.success) {
+              subtask.markCompleted({
+                success: true,
+                output: `Executed ${subtaskResult.commandsExecuted} commands`,
+              });
+              console.log(`   ✅ Test passed (${subtaskResult.duration}ms)`);
+            } else {
+              subtask.markFailed(new Error(subtaskResult.error || 'Execution failed'));
+              console.log(`   ❌ Test failed: ${subtaskResult.error}`);
+            }
           }
 
           const endTime = new Date();
+          await selectorStats.record(
+            resolutions.map(resolution => ({
+              ...resolution,
+              test: testName,
+              run: startTime.toISOString(),
+            }))
+          );
 
           // Generate reports
           const report = ReportAdapter.subtasksToExecutionReport(
             testName,
-            [subtask],
+            subtasks,
             startTime,
-            endTime
+            endTime,
+            rows,
+            artifacts,
+            policy
           );
 
           // Write reports for requested types
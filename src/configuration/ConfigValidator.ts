@@ -4,6 +4,7 @@ import { Subtask } from '../domain/entities/Subtask';
 import { OxtestCommand } from '../domain/entities/OxtestCommand';
 import { SelectorSpec } from '../domain/entities/SelectorSpec';
 import { isInteractionCommand, isAssertionCommand, CommandType } from '../domain/enums/CommandType';
+import { SelectorStrategy } from '../domain/enums/SelectorStrategy';
 
 /**
  * Validation error.
@@ -195,12 +196,9 @@ export class ConfigValidator {
     metadata?: Record<string, unknown>;
   }): SelectorSpec {
     return new SelectorSpec(
-      yamlSelector.strategy as 'css' | 'text' | 'role' | 'xpath' | 'testid' | 'placeholder',
+      yamlSelector.strategy as SelectorStrategy,
       yamlSelector.value,
-      yamlSelector.fallbacks as Array<{
-        strategy: 'css' | 'text' | 'role' | 'xpath' | 'testid' | 'placeholder';
-        value: string;
-      }>,
+      yamlSelector.fallbacks as Array<{ strategy: SelectorStrategy; value: string }>,
       yamlSelector.metadata
     );
   }
@@ -0,0 +1,262 @@
+import { OxtestCommand, VARIABLE_NAME_PATTERN } from './OxtestCommand';
+import { SelectorSpec } from './SelectorSpec';
+
+/**
+ * Conditions that can guard an if block.
+ * - visible / hidden / exists: evaluated against an element selector
+ * - url: evaluated against the current page URL with a regex pattern
+ */
+export type ConditionType = 'visible' | 'hidden' | 'exists' | 'url';
+
+/**
+ * Valid condition types for if blocks.
+ */
+export const VALID_CONDITION_TYPES: readonly ConditionType[] = [
+  'visible',
+  'hidden',
+  'exists',
+  'url',
+] as const;
+
+/**
+ * Type guard to check if a string is a valid ConditionType.
+ */
+export function isValidConditionType(value: string): value is ConditionType {
+  return VALID_CONDITION_TYPES.includes(value as ConditionType);
+}
+
+/**
+ * Condition of an if block, e.g. `if visible css=.cookie-banner`.
+ * Evaluating a condition never fails the test; it only picks a branch.
+ */
+export class BlockCondition {
+  public readonly type: ConditionType;
+  public readonly selector?: SelectorSpec;
+  public readonly pattern?: string;
+
+  constructor(type: ConditionType, selector?: SelectorSpec, pattern?: string) {
+    if (!isValidConditionType(type)) {
+      throw new Error(
+        `Invalid condition: ${type}. Must be one of: ${VALID_CONDITION_TYPES.join(', ')}`
+      );
+    }
+
+    if (type === 'url') {
+      if (!pattern) {
+        throw new Error('url condition requires a pattern parameter');
+      }
+    } else if (!selector) {
+      throw new Error(`${type} condition requires a selector`);
+    }
+
+    this.type = type;
+    this.selector = selector;
+    this.pattern = pattern;
+  }
+
+  /**
+   * Returns a string representation of the condition.
+   */
+  public toString(): string {
+    return this.type === 'url'
+      ? `url(${this.pattern})`
+      : `${this.type}(${this.selector!.toString()})`;
+  }
+}
+
+/**
+ * Conditional block: runs thenBody when the condition holds, elseBody otherwise.
+ */
+export class IfBlock {
+  public readonly kind = 'if' as const;
+  public readonly thenBody: readonly OxtestNode[];
+  public readonly elseBody: readonly OxtestNode[];
+
+  constructor(
+    public readonly condition: BlockCondition,
+    thenBody: OxtestNode[],
+    elseBody: OxtestNode[] = []
+  ) {
+    this.thenBody = Object.freeze([...thenBody]);
+    this.elseBody = Object.freeze([...elseBody]);
+  }
+}
+
+/**
+ * Loop block: runs body a fixed number of times.
+ */
+export class RepeatBlock {
+  public readonly kind = 'repeat' as const;
+  public readonly body: readonly OxtestNode[];
+
+  constructor(
+    public readonly times: number,
+    body: OxtestNode[]
+  ) {
+    if (!Number.isInteger(times) || times < 0) {
+      throw new Error(`repeat times must be a non-negative integer, got ${times}`);
+    }
+    this.body = Object.freeze([...body]);
+  }
+}
+
+/**
+ * Loop block: runs body once per list item, binding the item to a variable.
+ *
+ * The list comes either from a variable (list=<name>) whose value is a JSON
+ * array or a comma-separated string, or from inline values (values="a,b,c").
+ */
+export class ForEachBlock {
+  public readonly kind = 'forEach' as const;
+  public readonly body: readonly OxtestNode[];
+  public readonly listVariable?: string;
+  public readonly values?: readonly string[];
+
+  constructor(
+    public readonly itemVariable: string,
+    source: { listVariable?: string; values?: string[] },
+    body: OxtestNode[]
+  ) {
+    if (!itemVariable) {
+      throw new Error('for_each requires an as parameter');
+    }
+    if (!source.listVariable && !source.values) {
+      throw new Error('for_each requires a list or values parameter');
+    }
+    this.listVariable = source.listVariable;
+    this.values = source.values ? Object.freeze([...source.values]) : undefined;
+    this.body = Object.freeze([...body]);
+  }
+}
+
+/**
+ * Reusable procedure declared with `define name(param, ...) … end`.
+ * Procedures are not nodes themselves; they run through CallBlock.
+ */
+export class Procedure {
+  public readonly params: readonly string[];
+  public readonly body: readonly OxtestNode[];
+
+  constructor(
+    public readonly name: string,
+    params: string[],
+    body: OxtestNode[]
+  ) {
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid procedure name: ${name}`);
+    }
+    for (const param of params) {
+      if (!VARIABLE_NAME_PATTERN.test(param)) {
+        throw new Error(`Invalid parameter name in ${name}: ${param}`);
+      }
+    }
+    if (new Set(params).size !== params.length) {
+      throw new Error(`Duplicate parameter name in ${name}`);
+    }
+    this.params = Object.freeze([...params]);
+    this.body = Object.freeze([...body]);
+  }
+}
+
+/**
+ * Invocation of a procedure: `call name param=value …`.
+ * Arguments may reference variables of the caller; while the procedure body
+ * runs they are bound to the procedure parameters.
+ */
+export class CallBlock {
+  public readonly kind = 'call' as const;
+  public readonly args: Readonly<Record<string, string>>;
+
+  constructor(
+    public readonly procedure: Procedure,
+    args: Record<string, string>
+  ) {
+    for (const name of Object.keys(args)) {
+      if (!procedure.params.includes(name)) {
+        throw new Error(`Unknown argument for ${procedure.name}: ${name}`);
+      }
+    }
+    for (const param of procedure.params) {
+      if (args[param] === undefined) {
+        throw new Error(`Missing argument for ${procedure.name}: ${param}`);
+      }
+    }
+    this.args = Object.freeze({ ...args });
+  }
+}
+
+/**
+ * Any control flow block.
+ */
+export type OxtestBlock = IfBlock | RepeatBlock | ForEachBlock | CallBlock;
+
+/**
+ * A node of a parsed OXTest program: a plain command or a block.
+ */
+export type OxtestNode = OxtestCommand | OxtestBlock;
+
+/**
+ * Checks if a node is a control flow block rather than a command.
+ */
+export function isBlock(node: OxtestNode): node is OxtestBlock {
+  return !(node instanceof OxtestCommand);
+}
+
+/**
+ * Collects every command in a tree in source order, including all branches.
+ */
+export function flattenCommands(nodes: readonly OxtestNode[]): OxtestCommand[] {
+  const commands: OxtestCommand[] = [];
+  for (const node of nodes) {
+    if (!isBlock(node)) {
+      commands.push(node);
+    } else if (node.kind === 'if') {
+      commands.push(...flattenCommands(node.thenBody), ...flattenCommands(node.elseBody));
+    } else if (node.kind === 'call') {
+      commands.push(...flattenCommands(node.procedure.body));
+    } else {
+      commands.push(...flattenCommands(node.body));
+    }
+  }
+  return commands;
+}
+
+/**
+ * Collects every block in a tree in source order, including blocks nested
+ * in branches, loop bodies and called procedures.
+ */
+export function collectBlocks(nodes: readonly OxtestNode[]): OxtestBlock[] {
+  const blocks: OxtestBlock[] = [];
+  for (const node of nodes) {
+    if (!isBlock(node)) {
+      continue;
+    }
+    blocks.push(node);
+    if (node.kind === 'if') {
+      blocks.push(...collectBlocks(node.thenBody), ...collectBlocks(node.elseBody));
+    } else if (node.kind === 'call') {
+      blocks.push(...collectBlocks(node.procedure.body));
+    } else {
+      blocks.push(...collectBlocks(node.body));
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Parses a list variable value: a JSON array or a comma-separated string.
+ */
+export function parseListValue(value: string): string[] {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return [];
+  }
+  if (trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`List value is not an array: ${value}`);
+    }
+    return parsed.map(item => (typeof item === 'string' ? item : JSON.stringify(item)));
+  }
+  return trimmed.split(',').map(item => item.trim());
+}
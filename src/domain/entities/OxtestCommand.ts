@@ -3,9 +3,11 @@ import {
   isValidCommandType,
   isInteractionCommand as isInteractionCommandType,
   isAssertionCommand as isAssertionCommandType,
+  isCaptureCommand as isCaptureCommandType,
   INTERACTION_COMMANDS,
 } from '../enums/CommandType';
 import { SelectorSpec } from './SelectorSpec';
+import { SourceRange } from '../interfaces/OxtestDiagnostic';
 
 /**
  * Parameters for a command execution.
@@ -20,6 +22,11 @@ export interface CommandParams {
   [key: string]: unknown;
 }
 
+/**
+ * Allowed variable names for value capture (as=<name>) and ${name} interpolation.
+ */
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
 /**
  * Domain entity representing an Oxtest command.
  * Commands are the atomic operations in the Oxtest language.
@@ -28,8 +35,21 @@ export class OxtestCommand {
   public readonly type: CommandType;
   public readonly params: CommandParams;
   public readonly selector?: SelectorSpec;
+  /** Where the command was written, when parsed from source */
+  public readonly range?: SourceRange;
+  /** File the command was written in, when parsed from a file */
+  public readonly filePath?: string;
+  /** The selector as written, with its ${name} references, once they are resolved */
+  public readonly writtenSelector?: SelectorSpec;
 
-  constructor(type: CommandType, params: CommandParams, selector?: SelectorSpec) {
+  constructor(
+    type: CommandType,
+    params: CommandParams,
+    selector?: SelectorSpec,
+    range?: SourceRange,
+    filePath?: string,
+    writtenSelector?: SelectorSpec
+  ) {
     // Validation
     if (!type || type.trim() === '') {
       throw new Error('Command type cannot be empty');
@@ -53,9 +73,24 @@ export class OxtestCommand {
       throw new Error('value parameter is required for fill commands');
     }
 
+    if (isCaptureCommandType(type)) {
+      // Downloads belong to the page, not to an element
+      if (!selector && type !== 'expectDownload') {
+        throw new Error(`Selector is required for ${type} commands`);
+      }
+      if (typeof params.as !== 'string' || !VARIABLE_NAME_PATTERN.test(params.as)) {
+        throw new Error(
+          `${type} requires an as parameter with a valid variable name (letters, digits, underscore)`
+        );
+      }
+    }
+
     this.type = type;
     this.params = Object.freeze({ ...params });
     this.selector = selector;
+    this.range = range;
+    this.filePath = filePath;
+    this.writtenSelector = writtenSelector;
   }
 
   /**
@@ -72,6 +107,13 @@ export class OxtestCommand {
     return isAssertionCommandType(this.type);
   }
 
+  /**
+   * Checks if this command captures a value into a variable.
+   */
+  public isCaptureCommand(): boolean {
+    return isCaptureCommandType(this.type);
+  }
+
   /**
    * Creates a deep copy of this command.
    */
@@ -79,7 +121,10 @@ export class OxtestCommand {
     return new OxtestCommand(
       this.type,
       { ...this.params },
-      this.selector ? this.selector.clone() : undefined
+      this.selector ? this.selector.clone() : undefined,
+      this.range,
+      this.filePath,
+      this.writtenSelector?.clone()
     );
   }
 
@@ -1,4 +1,8 @@
-import { SelectorStrategy, isValidSelectorStrategy } from '../enums/SelectorStrategy';
+import {
+  SelectorStrategy,
+  VALID_SELECTOR_STRATEGIES,
+  isValidSelectorStrategy,
+} from '../enums/SelectorStrategy';
 
 /**
  * Metadata associated with a selector specification.
@@ -18,6 +22,105 @@ export interface FallbackSelector {
   value: string;
 }
 
+/**
+ * Narrows where a selector searches and which of its matches is used.
+ */
+export interface SelectorScope {
+  /** Only search inside the element this selector finds */
+  readonly parent?: SelectorSpec;
+  /** Only match elements that contain this text (case-insensitive substring) */
+  readonly hasText?: string;
+  /** Only match elements that contain an element matching this selector */
+  readonly has?: SelectorSpec;
+  /** Which match to use, 0-based; negative values count from the end */
+  readonly nth?: number;
+}
+
+/**
+ * A role selector with the getByRole options written after the role,
+ * in Playwright's attribute syntax: `button[name="Sign in"][exact]`,
+ * `heading[level=2]`, `checkbox[checked=false]`.
+ */
+export interface RoleSelector {
+  role: string;
+  /** Accessible name; matched as a case-insensitive substring unless exact */
+  name?: string;
+  exact?: boolean;
+  level?: number;
+  checked?: boolean;
+}
+
+const ROLE_OPTIONS = ['name', 'exact', 'level', 'checked'];
+
+/**
+ * Matches one `[option]` or `[option=value]`; the value may be quoted.
+ */
+const ROLE_OPTION_PATTERN =
+  /\[\s*([A-Za-z]+)\s*(?:=\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\]]*?))?\s*\]/y;
+
+/**
+ * Parses a role selector value such as `button[name="Sign in"]`.
+ *
+ * @throws Error if an option is unknown or has an invalid value
+ */
+export function parseRoleSelector(value: string): RoleSelector {
+  const bracket = value.indexOf('[');
+  const role = (bracket < 0 ? value : value.slice(0, bracket)).trim();
+  if (role === '') {
+    throw new Error(`Role selector has no role: ${value}`);
+  }
+
+  const selector: RoleSelector = { role };
+  let index = bracket < 0 ? value.length : bracket;
+  while (index < value.length) {
+    ROLE_OPTION_PATTERN.lastIndex = index;
+    const match = ROLE_OPTION_PATTERN.exec(value);
+    if (!match) {
+      throw new Error(`Invalid role selector: ${value}. Expected role[option=value]...`);
+    }
+    index = ROLE_OPTION_PATTERN.lastIndex;
+
+    const [, option, raw] = match;
+    const optionValue = unquote(raw);
+    switch (option) {
+      case 'name':
+        if (!optionValue) {
+          throw new Error(`Role option name requires a value: ${value}`);
+        }
+        selector.name = optionValue;
+        break;
+      case 'exact':
+      case 'checked':
+        if (optionValue !== undefined && optionValue !== 'true' && optionValue !== 'false') {
+          throw new Error(`Role option ${option} must be true or false, got "${optionValue}"`);
+        }
+        selector[option] = optionValue !== 'false';
+        break;
+      case 'level':
+        if (!optionValue || !/^[1-9]\d*$/.test(optionValue)) {
+          throw new Error(
+            `Role option level must be a positive integer, got "${optionValue ?? ''}"`
+          );
+        }
+        selector.level = Number(optionValue);
+        break;
+      default:
+        throw new Error(
+          `Unknown role option: ${option}. Must be one of: ${ROLE_OPTIONS.join(', ')}`
+        );
+    }
+  }
+
+  return selector;
+}
+
+function unquote(raw?: string): string | undefined {
+  if (raw === undefined || !/^(["']).*\1$/s.test(raw)) {
+    return raw?.trim();
+  }
+  return raw.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
 /**
  * Domain entity representing a selector specification with multi-strategy fallback support.
  * This is a core entity in the domain layer that encapsulates selector logic.
@@ -25,14 +128,17 @@ export interface FallbackSelector {
 export class SelectorSpec {
   public readonly strategy: SelectorStrategy;
   public readonly value: string;
+  /** Alternatives to strategy and value; they share the scope */
   public readonly fallbacks: readonly FallbackSelector[];
   public readonly metadata?: SelectorMetadata;
+  public readonly scope: SelectorScope;
 
   constructor(
     strategy: SelectorStrategy,
     value: string,
     fallbacks: FallbackSelector[] = [],
-    metadata?: SelectorMetadata
+    metadata?: SelectorMetadata,
+    scope: SelectorScope = {}
   ) {
     // Validation
     if (!strategy || strategy.trim() === '') {
@@ -45,44 +151,82 @@ export class SelectorSpec {
 
     if (!isValidSelectorStrategy(strategy)) {
       throw new Error(
-        `Invalid selector strategy: ${strategy}. Must be one of: css, text, role, xpath, testid, placeholder`
+        `Invalid selector strategy: ${strategy}. Must be one of: ${VALID_SELECTOR_STRATEGIES.join(', ')}`
       );
     }
 
+    if (strategy === 'role') {
+      parseRoleSelector(value);
+    }
+
+    if (scope.nth !== undefined && !Number.isInteger(scope.nth)) {
+      throw new Error(`nth must be an integer, got ${scope.nth}`);
+    }
+
+    if (scope.hasText !== undefined && scope.hasText === '') {
+      throw new Error('hasText cannot be empty');
+    }
+
     this.strategy = strategy;
     this.value = value;
     this.fallbacks = Object.freeze([...fallbacks]);
     this.metadata = metadata;
+    this.scope = Object.freeze({ ...scope });
+  }
+
+  /**
+   * Parses a selector written as a parameter value, e.g. `css=.price` in
+   * `has=css=.price`.
+   *
+   * @returns undefined if the text does not start with a selector strategy
+   */
+  public static parse(text: string): SelectorSpec | undefined {
+    const [strategy, ...value] = text.split('=');
+    if (!isValidSelectorStrategy(strategy) || value.length === 0) {
+      return undefined;
+    }
+    return new SelectorSpec(strategy, value.join('='));
+  }
+
+  /**
+   * Returns a copy of this selector that searches inside the given one.
+   * A selector that is already scoped keeps its parent, which in turn is
+   * placed inside the given selector.
+   */
+  public within(outer: SelectorSpec): SelectorSpec {
+    const parent = this.scope.parent ? this.scope.parent.within(outer) : outer;
+    return new SelectorSpec(this.strategy, this.value, [...this.fallbacks], this.metadata, {
+      ...this.scope,
+      parent,
+    });
   }
 
   /**
    * Converts the selector specification to a Playwright-compatible selector string.
    */
   public toPlaywrightSelector(): string {
-    switch (this.strategy) {
-      case 'css':
-        return this.value;
-      case 'text':
-        return `text=${this.value}`;
-      case 'role':
-        return `role=${this.value}`;
-      case 'xpath':
-        return `xpath=${this.value}`;
-      case 'testid':
-        return `[data-testid="${this.value}"]`;
-      case 'placeholder':
-        return `[placeholder="${this.value}"]`;
-      default:
-        // This should never happen due to validation, but TypeScript needs it
-        throw new Error(`Unsupported strategy: ${this.strategy}`);
-    }
+    const { parent, hasText, has, nth } = this.scope;
+    return [
+      parent ? `${parent.toPlaywrightSelector()} >> ` : '',
+      this.strategySelector(),
+      hasText !== undefined ? ` >> internal:has-text=${JSON.stringify(hasText)}i` : '',
+      has ? ` >> internal:has=${JSON.stringify(has.toPlaywrightSelector())}` : '',
+      nth !== undefined ? ` >> nth=${nth}` : '',
+    ].join('');
   }
 
   /**
    * Compares this selector with another for equality.
    */
   public equals(other: SelectorSpec): boolean {
-    return this.strategy === other.strategy && this.value === other.value;
+    return (
+      this.strategy === other.strategy &&
+      this.value === other.value &&
+      this.scope.hasText === other.scope.hasText &&
+      this.scope.nth === other.scope.nth &&
+      sameSelector(this.scope.parent, other.scope.parent) &&
+      sameSelector(this.scope.has, other.scope.has)
+    );
   }
 
   /**
@@ -93,7 +237,12 @@ export class SelectorSpec {
       this.strategy,
       this.value,
       this.fallbacks.map(f => ({ ...f })),
-      this.metadata ? { ...this.metadata } : undefined
+      this.metadata ? { ...this.metadata } : undefined,
+      {
+        ...this.scope,
+        parent: this.scope.parent?.clone(),
+        has: this.scope.has?.clone(),
+      }
     );
   }
 
@@ -101,6 +250,48 @@ export class SelectorSpec {
    * Returns a string representation of the selector.
    */
   public toString(): string {
-    return `${this.strategy}:${this.value}`;
+    const parent = this.scope.parent ? `${this.scope.parent.toString()} >> ` : '';
+    return `${parent}${this.strategy}:${this.value}`;
   }
+
+  /**
+   * Playwright selector for the strategy and value alone.
+   */
+  private strategySelector(): string {
+    switch (this.strategy) {
+      case 'css':
+        return this.value;
+      case 'text':
+        return `text=${this.value}`;
+      case 'role': {
+        const { role, name, exact, level, checked } = parseRoleSelector(this.value);
+        return [
+          `role=${role}`,
+          name !== undefined ? `[name=${JSON.stringify(name)}${exact ? 's' : 'i'}]` : '',
+          level !== undefined ? `[level=${level}]` : '',
+          checked !== undefined ? `[checked=${checked}]` : '',
+        ].join('');
+      }
+      case 'xpath':
+        return `xpath=${this.value}`;
+      case 'testid':
+        return `[data-testid="${this.value}"]`;
+      case 'placeholder':
+        return `[placeholder="${this.value}"]`;
+      case 'label':
+        // Playwright has no public selector engine for labels; this is what getByLabel uses
+        return `internal:label=${JSON.stringify(this.value)}i`;
+      case 'alt':
+        return `[alt="${this.value}"]`;
+      case 'title':
+        return `[title="${this.value}"]`;
+      default:
+        // This should never happen due to validation, but TypeScript needs it
+        throw new Error(`Unsupported strategy: ${this.strategy}`);
+    }
+  }
+}
+
+function sameSelector(a?: SelectorSpec, b?: SelectorSpec): boolean {
+  return a === undefined || b === undefined ? a === b : a.equals(b);
 }
@@ -1,4 +1,5 @@
 import { OxtestCommand } from './OxtestCommand';
+import { OxtestNode, flattenCommands, isBlock } from './OxtestBlock';
 import { TaskStatus, isValidTransition, VALID_TRANSITIONS } from '../enums/TaskStatus';
 import { ExecutionResult } from '../interfaces/ExecutionResult';
 
@@ -12,13 +13,18 @@ export class Subtask {
   public readonly id: string;
   public readonly description: string;
   public readonly commands: readonly OxtestCommand[];
+  /**
+   * Execution tree. Equals commands unless the subtask has control flow blocks,
+   * in which case commands lists every command of every branch.
+   */
+  public readonly nodes: readonly OxtestNode[];
 
   // Sprint 17: State machine fields
   public status: TaskStatus;
   public result?: ExecutionResult;
   private executionStartTime?: number;
 
-  constructor(id: string, description: string, commands: OxtestCommand[]) {
+  constructor(id: string, description: string, commands: OxtestCommand[], nodes?: OxtestNode[]) {
     // Validation
     if (!id || id.trim() === '') {
       throw new Error('Subtask id cannot be empty');
@@ -35,11 +41,19 @@ export class Subtask {
     this.id = id;
     this.description = description;
     this.commands = Object.freeze([...commands]);
+    this.nodes = Object.freeze([...(nodes ?? commands)]);
 
     // Sprint 17: Initialize state machine
     this.status = TaskStatus.Pending;
   }
 
+  /**
+   * Creates a subtask from a parsed tree of commands and control flow blocks.
+   */
+  public static fromNodes(id: string, description: string, nodes: OxtestNode[]): Subtask {
+    return new Subtask(id, description, flattenCommands(nodes), nodes);
+  }
+
   /**
    * Returns the number of commands in this subtask.
    */
@@ -78,7 +92,8 @@ export class Subtask {
     return new Subtask(
       this.id,
       this.description,
-      this.commands.map(cmd => cmd.clone())
+      this.commands.map(cmd => cmd.clone()),
+      this.nodes.some(isBlock) ? [...this.nodes] : undefined
     );
   }
 
@@ -10,6 +10,8 @@ export type CommandType =
   | 'reload'
   // Interaction
   | 'click'
+  | 'doubleClick'
+  | 'rightClick'
   | 'fill'
   | 'type'
   | 'press'
@@ -20,6 +22,10 @@ export type CommandType =
   | 'focus'
   | 'blur'
   | 'clear'
+  | 'upload'
+  | 'drag'
+  | 'scrollIntoView'
+  | 'scroll'
   // Assertions
   | 'assertVisible'
   | 'assertHidden'
@@ -31,11 +37,44 @@ export type CommandType =
   | 'assertUnchecked'
   | 'assertUrl'
   | 'assertTitle'
+  | 'assertRequest'
+  | 'assertResponse'
+  | 'assertDownload'
+  | 'assertDialog'
+  | 'assertCookie'
+  | 'assertLocalStorage'
+  | 'assertHttp'
+  // Variables
+  | 'storeText'
+  | 'storeValue'
+  | 'storeAttribute'
+  | 'expectDownload'
   // Utility
   | 'wait'
   | 'waitForSelector'
   | 'screenshot'
-  | 'setViewport';
+  | 'setViewport'
+  // Tabs and frames
+  | 'switchFrame'
+  | 'expectPopup'
+  | 'switchTab'
+  | 'closeTab'
+  // Dialogs
+  | 'acceptDialog'
+  | 'dismissDialog'
+  // Cookies and storage
+  | 'setCookie'
+  | 'clearCookies'
+  | 'setLocalStorage'
+  | 'clearStorage'
+  // API requests
+  | 'http'
+  // Network
+  | 'mockRoute'
+  | 'blockRoute'
+  | 'delayRoute'
+  | 'unroute'
+  | 'waitResponse';
 
 /**
  * Valid command types that can be used in the system.
@@ -46,6 +85,8 @@ export const VALID_COMMAND_TYPES: readonly CommandType[] = [
   'goForward',
   'reload',
   'click',
+  'doubleClick',
+  'rightClick',
   'fill',
   'type',
   'press',
@@ -56,6 +97,10 @@ export const VALID_COMMAND_TYPES: readonly CommandType[] = [
   'focus',
   'blur',
   'clear',
+  'upload',
+  'drag',
+  'scrollIntoView',
+  'scroll',
   'assertVisible',
   'assertHidden',
   'assertText',
@@ -66,10 +111,37 @@ export const VALID_COMMAND_TYPES: readonly CommandType[] = [
   'assertUnchecked',
   'assertUrl',
   'assertTitle',
+  'assertRequest',
+  'assertResponse',
+  'assertDownload',
+  'assertDialog',
+  'assertCookie',
+  'assertLocalStorage',
+  'assertHttp',
+  'storeText',
+  'storeValue',
+  'storeAttribute',
+  'expectDownload',
   'wait',
   'waitForSelector',
   'screenshot',
   'setViewport',
+  'switchFrame',
+  'expectPopup',
+  'switchTab',
+  'closeTab',
+  'acceptDialog',
+  'dismissDialog',
+  'setCookie',
+  'clearCookies',
+  'setLocalStorage',
+  'clearStorage',
+  'http',
+  'mockRoute',
+  'blockRoute',
+  'delayRoute',
+  'unroute',
+  'waitResponse',
 ] as const;
 
 /**
@@ -77,9 +149,10 @@ export const VALID_COMMAND_TYPES: readonly CommandType[] = [
  */
 export const INTERACTION_COMMANDS: readonly CommandType[] = [
   'click',
+  'doubleClick',
+  'rightClick',
   'fill',
   'type',
-  'press',
   'check',
   'uncheck',
   'selectOption',
@@ -87,6 +160,9 @@ export const INTERACTION_COMMANDS: readonly CommandType[] = [
   'focus',
   'blur',
   'clear',
+  'upload',
+  'drag',
+  'scrollIntoView',
 ] as const;
 
 /**
@@ -103,8 +179,301 @@ export const ASSERTION_COMMANDS: readonly CommandType[] = [
   'assertUnchecked',
   'assertUrl',
   'assertTitle',
+  'assertRequest',
+  'assertResponse',
+  'assertDownload',
+  'assertDialog',
+  'assertCookie',
+  'assertLocalStorage',
+  'assertHttp',
+] as const;
+
+/**
+ * Commands that capture a value from the page into a variable.
+ */
+export const CAPTURE_COMMANDS: readonly CommandType[] = [
+  'storeText',
+  'storeValue',
+  'storeAttribute',
+  'expectDownload',
 ] as const;
 
+/**
+ * Reference documentation for a command, used by editor tooling.
+ */
+export interface CommandDoc {
+  /** One-line description of what the command does */
+  readonly summary: string;
+  /** Whether the command needs a selector */
+  readonly selector: boolean;
+  /** Parameter keys the command understands */
+  readonly params: readonly string[];
+}
+
+/**
+ * Documentation for every command type.
+ */
+export const COMMAND_DOCS: Readonly<Record<CommandType, CommandDoc>> = {
+  navigate: { summary: 'Open a URL in the current page.', selector: false, params: ['url'] },
+  goBack: { summary: 'Go back in the browser history.', selector: false, params: [] },
+  goForward: { summary: 'Go forward in the browser history.', selector: false, params: [] },
+  reload: { summary: 'Reload the current page.', selector: false, params: [] },
+  click: {
+    summary:
+      'Click an element, optionally holding modifiers (modifiers=Shift,Control) at a position inside it (position=10,5).',
+    selector: true,
+    params: ['modifiers', 'position'],
+  },
+  doubleClick: {
+    summary: 'Double-click an element.',
+    selector: true,
+    params: ['modifiers', 'position'],
+  },
+  rightClick: {
+    summary: 'Right-click an element, e.g. to open its context menu.',
+    selector: true,
+    params: ['modifiers', 'position'],
+  },
+  fill: { summary: 'Replace the value of an input.', selector: true, params: ['value'] },
+  type: {
+    summary: 'Type text into an element key by key, waiting delay milliseconds between keys.',
+    selector: true,
+    params: ['value', 'delay'],
+  },
+  press: {
+    summary:
+      'Press a key or combination (key=Control+A; Enter by default) on an element, or on the page without a selector.',
+    selector: false,
+    params: ['key'],
+  },
+  check: { summary: 'Check a checkbox or radio button.', selector: true, params: [] },
+  uncheck: { summary: 'Uncheck a checkbox.', selector: true, params: [] },
+  selectOption: {
+    summary: 'Select an option of a <select> by value or index.',
+    selector: true,
+    params: ['value', 'index'],
+  },
+  hover: { summary: 'Hover over an element.', selector: true, params: [] },
+  focus: { summary: 'Focus an element.', selector: true, params: [] },
+  blur: { summary: 'Remove focus from an element.', selector: true, params: [] },
+  clear: { summary: 'Clear the value of an input.', selector: true, params: [] },
+  upload: {
+    summary: 'Set the files of a file input (comma-separated, relative to the .ox.test file).',
+    selector: true,
+    params: ['file'],
+  },
+  drag: {
+    summary: 'Drag one element onto another: `drag from=css=.card to=css=.column-done`.',
+    selector: false,
+    params: ['from', 'to'],
+  },
+  scrollIntoView: {
+    summary: 'Scroll the page until an element is visible.',
+    selector: true,
+    params: [],
+  },
+  scroll: {
+    summary:
+      'Scroll with the mouse wheel by=<x>,<y> pixels, over an element when a selector is given.',
+    selector: false,
+    params: ['by'],
+  },
+  assertVisible: { summary: 'Assert that an element is visible.', selector: true, params: [] },
+  assertHidden: {
+    summary: 'Assert that an element is hidden or absent.',
+    selector: true,
+    params: [],
+  },
+  assertText: {
+    summary: 'Assert that an element contains a text.',
+    selector: true,
+    params: ['value'],
+  },
+  assertValue: {
+    summary: 'Assert the value of an input.',
+    selector: true,
+    params: ['value'],
+  },
+  assertEnabled: { summary: 'Assert that an element is enabled.', selector: true, params: [] },
+  assertDisabled: { summary: 'Assert that an element is disabled.', selector: true, params: [] },
+  assertChecked: { summary: 'Assert that a checkbox is checked.', selector: true, params: [] },
+  assertUnchecked: {
+    summary: 'Assert that a checkbox is not checked.',
+    selector: true,
+    params: [],
+  },
+  assertUrl: {
+    summary: 'Assert that the page URL matches a regex.',
+    selector: false,
+    params: ['pattern'],
+  },
+  assertTitle: {
+    summary: 'Assert the page title, exactly (value) or by regex (pattern).',
+    selector: false,
+    params: ['value', 'pattern'],
+  },
+  assertRequest: {
+    summary: 'Assert that the page sent a request matching a URL glob (waits up to timeout).',
+    selector: false,
+    params: ['url', 'method', 'body_contains', 'timeout'],
+  },
+  assertResponse: {
+    summary: 'Assert that the page received a response matching a URL glob (waits up to timeout).',
+    selector: false,
+    params: ['url', 'status', 'timeout'],
+  },
+  assertDownload: {
+    summary:
+      'Assert that the page downloaded a file, by name glob and minimum size (waits up to timeout).',
+    selector: false,
+    params: ['name', 'size_gt', 'timeout'],
+  },
+  assertDialog: {
+    summary: 'Assert that the page opened a dialog with a message (waits up to timeout).',
+    selector: false,
+    params: ['message', 'timeout'],
+  },
+  assertCookie: {
+    summary: 'Assert that the browser has a cookie, with a value if given.',
+    selector: false,
+    params: ['name', 'value'],
+  },
+  assertLocalStorage: {
+    summary: 'Assert that localStorage of the page has a key, with a value if given.',
+    selector: false,
+    params: ['key', 'value'],
+  },
+  assertHttp: {
+    summary:
+      'Assert the status of the latest http response and a part of its JSON body (json_path=$.id exists, or value=); as= stores that part in a variable.',
+    selector: false,
+    params: ['status', 'json_path', 'value', 'exists', 'as'],
+  },
+  storeText: {
+    summary: 'Store the text of an element in a variable.',
+    selector: true,
+    params: ['as'],
+  },
+  storeValue: {
+    summary: 'Store the value of an input in a variable.',
+    selector: true,
+    params: ['as'],
+  },
+  storeAttribute: {
+    summary: 'Store an attribute of an element in a variable.',
+    selector: true,
+    params: ['attribute', 'as'],
+  },
+  expectDownload: {
+    summary:
+      'Wait for the next download, save it to the artifacts directory and store its path in a variable.',
+    selector: false,
+    params: ['as', 'timeout'],
+  },
+  wait: { summary: 'Wait a number of milliseconds.', selector: false, params: ['timeout'] },
+  waitForSelector: {
+    summary: 'Wait until an element appears.',
+    selector: true,
+    params: ['timeout'],
+  },
+  screenshot: {
+    summary: 'Save a screenshot of the page.',
+    selector: false,
+    params: ['path', 'fullPage'],
+  },
+  setViewport: {
+    summary: 'Resize the browser viewport.',
+    selector: false,
+    params: ['width', 'height'],
+  },
+  switchFrame: {
+    summary:
+      'Run the next commands inside an iframe, or in the page again with `switch_frame main`.',
+    selector: true,
+    params: ['frame'],
+  },
+  expectPopup: {
+    summary:
+      'Wait for the next tab or popup the page opens, switch to it and name it for switch_tab.',
+    selector: false,
+    params: ['as', 'timeout'],
+  },
+  switchTab: {
+    summary: 'Switch to an open tab by index in opening order or by name.',
+    selector: false,
+    params: ['index', 'name'],
+  },
+  closeTab: {
+    summary: 'Close the current tab and go back to the tab that opened it.',
+    selector: false,
+    params: [],
+  },
+  acceptDialog: {
+    summary:
+      'Accept the next alert, confirm, prompt or beforeunload dialog, answering a prompt with text. Use before the step that opens it.',
+    selector: false,
+    params: ['text'],
+  },
+  dismissDialog: {
+    summary: 'Dismiss (cancel) the next dialog. Use before the step that opens it.',
+    selector: false,
+    params: [],
+  },
+  setCookie: {
+    summary:
+      'Set a cookie for the current page, or for a domain and path (path defaults to /); expires is in Unix seconds.',
+    selector: false,
+    params: ['name', 'value', 'domain', 'path', 'expires'],
+  },
+  clearCookies: {
+    summary: 'Delete all cookies, or only those with a name.',
+    selector: false,
+    params: ['name'],
+  },
+  setLocalStorage: {
+    summary: 'Set a key in localStorage of the current page.',
+    selector: false,
+    params: ['key', 'value'],
+  },
+  clearStorage: {
+    summary: 'Clear localStorage and sessionStorage of the current page.',
+    selector: false,
+    params: [],
+  },
+  http: {
+    summary:
+      'Send an API request with the cookies of the browser (url relative to the current page; json_file relative to the .ox.test file); as= stores the response body. Only GET, HEAD and OPTIONS are retried unless retries= is set.',
+    selector: false,
+    params: ['method', 'url', 'json', 'json_file', 'body', 'headers', 'as', 'timeout'],
+  },
+  mockRoute: {
+    summary:
+      'Answer requests matching a URL glob with a fixed response (body_file is relative to the .ox.test file).',
+    selector: false,
+    params: ['url', 'status', 'body', 'body_file', 'content_type'],
+  },
+  blockRoute: {
+    summary: 'Abort requests matching a URL glob.',
+    selector: false,
+    params: ['url'],
+  },
+  delayRoute: {
+    summary: 'Hold requests matching a URL glob for a number of milliseconds.',
+    selector: false,
+    params: ['url', 'ms'],
+  },
+  unroute: {
+    summary: 'Remove the mocks, blocks and delays for a URL glob, or all of them without url.',
+    selector: false,
+    params: ['url'],
+  },
+  waitResponse: {
+    summary: 'Wait until the page has received a response matching a URL glob.',
+    selector: false,
+    params: ['url', 'status', 'timeout'],
+  },
+};
+
 /**
  * Type guard to check if a string is a valid CommandType.
  */
@@ -125,3 +494,10 @@ export function isInteractionCommand(type: CommandType): boolean {
 export function isAssertionCommand(type: CommandType): boolean {
   return ASSERTION_COMMANDS.includes(type);
 }
+
+/**
+ * Check if a command type captures a value into a variable.
+ */
+export function isCaptureCommand(type: CommandType): boolean {
+  return CAPTURE_COMMANDS.includes(type);
+}
@@ -2,7 +2,16 @@
  * Supported selector strategies for locating elements in the DOM.
  * Each strategy corresponds to a Playwright locator method.
  */
-export type SelectorStrategy = 'css' | 'text' | 'role' | 'xpath' | 'testid' | 'placeholder';
+export type SelectorStrategy =
+  | 'css'
+  | 'text'
+  | 'role'
+  | 'xpath'
+  | 'testid'
+  | 'placeholder'
+  | 'label'
+  | 'alt'
+  | 'title';
 
 /**
  * Valid selector strategies that can be used in the system.
@@ -14,6 +23,9 @@ export const VALID_SELECTOR_STRATEGIES: readonly SelectorStrategy[] = [
   'xpath',
   'testid',
   'placeholder',
+  'label',
+  'alt',
+  'title',
 ] as const;
 
 /**
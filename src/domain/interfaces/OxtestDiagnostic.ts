@@ -0,0 +1,75 @@
+/**
+ * OxtestDiagnostic - Problems found while parsing OXTest sources
+ *
+ * Produced by the error-tolerant parse mode, which reports every problem
+ * in one pass instead of stopping at the first bad line, and by the checks
+ * OXTestValidator runs on parsed commands. Editors, linters and CI gates
+ * consume these.
+ */
+
+/**
+ * Range in an OXTest source.
+ * Lines and columns are 1-based; endColumn is exclusive.
+ */
+export interface SourceRange {
+  readonly line: number;
+  readonly column: number;
+  readonly endLine: number;
+  readonly endColumn: number;
+}
+
+/**
+ * Severity of a diagnostic. Only errors make a strict parse fail.
+ */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Stable identifiers for each kind of problem
+ */
+export type DiagnosticCode =
+  | 'syntax-error'
+  | 'unknown-command'
+  | 'missing-selector'
+  | 'missing-parameter'
+  | 'unknown-token'
+  | 'extra-selector'
+  | 'duplicate-parameter'
+  | 'unterminated-quote'
+  | 'invalid-block'
+  | 'unmatched-block'
+  | 'unclosed-block'
+  | 'unknown-procedure'
+  | 'invalid-call'
+  | 'include-error'
+  | 'invalid-metadata'
+  | 'undefined-variable';
+
+/**
+ * Suggested edit that resolves a diagnostic
+ */
+export interface DiagnosticFix {
+  /** Human-readable description, e.g. "Replace with click" */
+  readonly description: string;
+
+  /** Text to replace */
+  readonly range: SourceRange;
+
+  /** Replacement text (empty to delete) */
+  readonly replacement: string;
+}
+
+/**
+ * A single problem in an OXTest source
+ */
+export interface OxtestDiagnostic {
+  readonly severity: DiagnosticSeverity;
+  readonly code: DiagnosticCode;
+  readonly message: string;
+  readonly range: SourceRange;
+
+  /** File the problem is in, when parsing files with includes */
+  readonly filePath?: string;
+
+  /** Suggested fix, if one is known */
+  readonly fix?: DiagnosticFix;
+}
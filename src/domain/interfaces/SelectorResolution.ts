@@ -0,0 +1,33 @@
+import { CommandType } from '../enums/CommandType';
+
+/**
+ * Which entry of a selector's chain found the element: the primary, one of
+ * the fallbacks, a selector the LLM refined after all of them failed, or none.
+ */
+export type SelectorOutcome = 'primary' | 'fallback' | 'refined' | 'failed';
+
+/**
+ * How the selector of one executed command resolved.
+ */
+export interface SelectorResolution {
+  readonly command: CommandType;
+  /** The primary selector as written, e.g. css=.buy */
+  readonly selector: string;
+  /** The fallbacks as written, in order */
+  readonly fallbacks: readonly string[];
+  readonly outcome: SelectorOutcome;
+  /** Which fallback found the element, starting at 1 */
+  readonly fallback?: number;
+  /** How long finding the element took, in milliseconds */
+  readonly duration: number;
+}
+
+/**
+ * A resolution stored with the test run it belongs to.
+ */
+export interface SelectorRecord extends SelectorResolution {
+  /** Name of the test, e.g. checkout */
+  readonly test: string;
+  /** When the run started, as an ISO 8601 timestamp */
+  readonly run: string;
+}
@@ -0,0 +1,153 @@
+/**
+ * What an element must be before a command acts on it: in the DOM, visible,
+ * visible and no longer moving, or visible and enabled.
+ */
+export type WaitState = 'attached' | 'visible' | 'stable' | 'enabled';
+
+export const VALID_WAIT_STATES: readonly WaitState[] = ['attached', 'visible', 'stable', 'enabled'];
+
+/**
+ * How commands wait for elements and retry when they fail.
+ *
+ * Policies are layered: the global configuration, then the test's `@step`
+ * header, then the command's own `timeout=`, `retries=` and `wait_for=`.
+ */
+export interface StepPolicy {
+  /** How long to wait for an element per selector strategy, in milliseconds */
+  readonly timeout: number;
+  /** How often to retry a failed command */
+  readonly retries: number;
+  /** Pause before the first retry, in milliseconds */
+  readonly retryDelay: number;
+  /** Factor the pause grows by with each further retry; 1 keeps it constant */
+  readonly backoff: number;
+  /** State an element must reach before a command interacts with it */
+  readonly waitFor: WaitState;
+}
+
+/**
+ * Three attempts one second apart, waiting up to 2s for each selector.
+ */
+export const DEFAULT_STEP_POLICY: StepPolicy = {
+  timeout: 2000,
+  retries: 2,
+  retryDelay: 1000,
+  backoff: 1,
+  waitFor: 'attached',
+};
+
+/**
+ * Policy settings by the parameter name they are written with.
+ */
+const POLICY_PARAMS: Readonly<Record<string, keyof StepPolicy>> = {
+  timeout: 'timeout',
+  retries: 'retries',
+  retry_delay: 'retryDelay',
+  backoff: 'backoff',
+  wait_for: 'waitFor',
+};
+
+/**
+ * Parameter names of the policy settings, e.g. for `@step timeout=5000 retries=1`.
+ */
+export const STEP_POLICY_PARAMS: readonly string[] = Object.keys(POLICY_PARAMS);
+
+/**
+ * Reads the policy settings among parameters; other keys and undefined
+ * values are ignored.
+ *
+ * @throws Error naming the first invalid setting
+ */
+export function stepPolicyFromParams(
+  params: Readonly<Record<string, unknown>>
+): Partial<StepPolicy> {
+  const policy: { -readonly [K in keyof StepPolicy]?: StepPolicy[K] } = {};
+  for (const [param, key] of Object.entries(POLICY_PARAMS)) {
+    const raw = params[param];
+    if (raw === undefined) {
+      continue;
+    }
+
+    const value = String(raw).trim();
+    const number = Number(value);
+    switch (key) {
+      case 'timeout':
+      case 'retries':
+      case 'retryDelay':
+        if (!/^\d+$/.test(value)) {
+          throw new Error(`${param} must be a non-negative integer, got "${value}"`);
+        }
+        policy[key] = number;
+        break;
+      case 'backoff':
+        if (value === '' || !Number.isFinite(number) || number < 1) {
+          throw new Error(`${param} must be a number of at least 1, got "${value}"`);
+        }
+        policy.backoff = number;
+        break;
+      case 'waitFor':
+        if (!VALID_WAIT_STATES.includes(value as WaitState)) {
+          throw new Error(
+            `${param} must be one of: ${VALID_WAIT_STATES.join(', ')}, got "${value}"`
+          );
+        }
+        policy.waitFor = value as WaitState;
+        break;
+    }
+  }
+  return policy;
+}
+
+/**
+ * Writes policy settings as parameters, the reverse of stepPolicyFromParams.
+ */
+export function stepPolicyToParams(policy: Partial<StepPolicy>): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [param, key] of Object.entries(POLICY_PARAMS)) {
+    if (policy[key] !== undefined) {
+      params[param] = String(policy[key]);
+    }
+  }
+  return params;
+}
+
+/**
+ * Layers policy settings over a policy; later layers win.
+ */
+export function resolveStepPolicy(
+  base: StepPolicy,
+  ...layers: ReadonlyArray<Partial<StepPolicy> | undefined>
+): StepPolicy {
+  return layers.reduce<StepPolicy>((policy, layer) => ({ ...policy, ...layer }), base);
+}
+
+/**
+ * The pause before a retry, growing by the backoff factor.
+ *
+ * @param retry Which retry, starting at 1
+ */
+export function retryPause(policy: StepPolicy, retry: number): number {
+  return Math.round(policy.retryDelay * policy.backoff ** (retry - 1));
+}
+
+/**
+ * Reads the global policy settings from the environment (see .env.example):
+ * STEP_TIMEOUT, STEP_RETRIES, STEP_RETRY_DELAY, STEP_BACKOFF and STEP_WAIT_FOR.
+ * Unset variables are left out.
+ *
+ * @throws Error naming the first invalid setting
+ */
+export function stepPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<StepPolicy> {
+  const params: Record<string, string> = {};
+  for (const param of STEP_POLICY_PARAMS) {
+    const value = env[`STEP_${param.toUpperCase()}`];
+    if (value) {
+      params[param] = value;
+    }
+  }
+  try {
+    return stepPolicyFromParams(params);
+  } catch (error) {
+    throw new Error(`STEP_${(error as Error).message.replace(/^\w+/, m => m.toUpperCase())}`);
+  }
+}
@@ -4,6 +4,16 @@
  * Provides additional context and configuration for tasks
  */
 
+import { StepPolicy } from './StepPolicy';
+
+/**
+ * How to answer the alert, confirm, prompt and beforeunload dialogs a test
+ * does not answer itself.
+ */
+export type DialogPolicy = 'accept' | 'dismiss';
+
+export const VALID_DIALOG_POLICIES: readonly DialogPolicy[] = ['accept', 'dismiss'];
+
 export interface TaskMetadata {
   /**
    * Author or creator of the task
@@ -45,6 +55,40 @@ export interface TaskMetadata {
    */
   readonly environment?: string;
 
+  /**
+   * Team or person responsible for the task
+   */
+  readonly owner?: string;
+
+  /**
+   * Browser viewport size to run the task with
+   */
+  readonly viewport?: { readonly width: number; readonly height: number };
+
+  /**
+   * CSV, JSON or YAML file to run the task once per row of, relative to
+   * the test file; the columns become variables
+   */
+  readonly data?: string;
+
+  /**
+   * Login flow (.ox.test file, relative to the test file) whose saved
+   * session the task starts from
+   */
+  readonly auth?: string;
+
+  /**
+   * How to answer dialogs no accept_dialog or dismiss_dialog step answers;
+   * they are dismissed by default
+   */
+  readonly dialogs?: DialogPolicy;
+
+  /**
+   * How the task's commands wait for elements and retry, over the global
+   * configuration; commands can override it in turn
+   */
+  readonly step?: Partial<StepPolicy>;
+
   /**
    * Custom key-value pairs for extensibility
    */
@@ -98,4 +142,16 @@ export function validateMetadata(metadata: TaskMetadata): void {
   if (metadata.priority !== undefined && !Number.isInteger(metadata.priority)) {
     throw new Error('Priority must be an integer');
   }
+
+  if (
+    metadata.viewport !== undefined &&
+    !(
+      Number.isInteger(metadata.viewport.width) &&
+      Number.isInteger(metadata.viewport.height) &&
+      metadata.viewport.width > 0 &&
+      metadata.viewport.height > 0
+    )
+  ) {
+    throw new Error('Viewport width and height must be positive integers');
+  }
 }
@@ -0,0 +1,146 @@
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  LaunchOptions,
+  chromium,
+  devices,
+  firefox,
+  webkit,
+} from 'playwright';
+
+/**
+ * Browser engines Playwright can drive.
+ */
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
+export const VALID_BROWSER_ENGINES: readonly BrowserEngine[] = ['chromium', 'firefox', 'webkit'];
+
+/**
+ * How to launch the browser tests run in. Everything is optional; the
+ * default is headless Chromium with a plain context.
+ */
+export interface BrowserOptions {
+  /** Engine to launch; defaults to the device's engine, else chromium */
+  readonly browser?: BrowserEngine;
+  /** Show the browser window */
+  readonly headed?: boolean;
+  /** Delay every Playwright operation by this many milliseconds */
+  readonly slowMo?: number;
+  /** Proxy server, e.g. http://proxy.local:3128 */
+  readonly proxy?: string;
+  /** Extra command-line arguments for the browser */
+  readonly args?: readonly string[];
+  /** Browser executable to use instead of the bundled one */
+  readonly executablePath?: string;
+  /** Playwright device profile to emulate, e.g. "iPhone 13" */
+  readonly device?: string;
+  /** Storage state file (cookies, local storage) new contexts start from */
+  readonly storageState?: string;
+}
+
+/**
+ * Reads browser options from the environment (see .env.example): BROWSER,
+ * HEADLESS, SLOW_MO, BROWSER_PROXY, BROWSER_ARGS (space-separated),
+ * BROWSER_EXECUTABLE_PATH and DEVICE. Unset variables are left out.
+ */
+export function browserOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): BrowserOptions {
+  const options: { -readonly [K in keyof BrowserOptions]: BrowserOptions[K] } = {};
+  if (env.BROWSER) {
+    options.browser = env.BROWSER as BrowserEngine;
+  }
+  if (env.HEADLESS) {
+    options.headed = env.HEADLESS === 'false' || env.HEADLESS === '0';
+  }
+  if (env.SLOW_MO) {
+    options.slowMo = Number(env.SLOW_MO);
+  }
+  if (env.BROWSER_PROXY) {
+    options.proxy = env.BROWSER_PROXY;
+  }
+  if (env.BROWSER_ARGS) {
+    options.args = env.BROWSER_ARGS.split(/\s+/).filter(arg => arg !== '');
+  }
+  if (env.BROWSER_EXECUTABLE_PATH) {
+    options.executablePath = env.BROWSER_EXECUTABLE_PATH;
+  }
+  if (env.DEVICE) {
+    options.device = env.DEVICE;
+  }
+  return options;
+}
+
+/**
+ * Checks browser options before anything is launched.
+ *
+ * @throws Error naming the first invalid option
+ */
+export function validateBrowserOptions(options: BrowserOptions): void {
+  if (options.browser !== undefined && !VALID_BROWSER_ENGINES.includes(options.browser)) {
+    throw new Error(
+      `Unknown browser: ${options.browser}. Must be one of: ${VALID_BROWSER_ENGINES.join(', ')}`
+    );
+  }
+
+  if (options.slowMo !== undefined && !(Number.isFinite(options.slowMo) && options.slowMo >= 0)) {
+    throw new Error(`slowMo must be a non-negative number of milliseconds, got ${options.slowMo}`);
+  }
+
+  if (options.device !== undefined && !devices[options.device]) {
+    throw new Error(
+      `Unknown device: ${options.device}. Use a name from Playwright's device list, e.g. "iPhone 13"`
+    );
+  }
+}
+
+/**
+ * Options for new browser contexts: the device profile and storage state, if any.
+ */
+export function contextOptions(options: BrowserOptions): BrowserContextOptions {
+  const context: BrowserContextOptions = {};
+  if (options.device) {
+    // The descriptor's defaultBrowserType picks the engine in launchBrowser
+    const { viewport, userAgent, deviceScaleFactor, isMobile, hasTouch } = devices[options.device];
+    Object.assign(context, { viewport, userAgent, deviceScaleFactor, isMobile, hasTouch });
+  }
+  if (options.storageState) {
+    context.storageState = options.storageState;
+  }
+  return context;
+}
+
+/**
+ * Launches the configured browser and opens a context for it.
+ *
+ * @throws Error if the options are invalid
+ */
+export async function launchBrowser(
+  options: BrowserOptions = {}
+): Promise<{ browser: Browser; context: BrowserContext }> {
+  validateBrowserOptions(options);
+
+  const engine =
+    options.browser ??
+    (options.device ? devices[options.device].defaultBrowserType : undefined) ??
+    'chromium';
+  const browserTypes: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+  const launchOptions: LaunchOptions = { headless: !options.headed };
+  if (options.slowMo !== undefined) {
+    launchOptions.slowMo = options.slowMo;
+  }
+  if (options.proxy) {
+    launchOptions.proxy = { server: options.proxy };
+  }
+  if (options.args && options.args.length > 0) {
+    launchOptions.args = [...options.args];
+  }
+  if (options.executablePath) {
+    launchOptions.executablePath = options.executablePath;
+  }
+
+  const browser = await browserTypes[engine].launch(launchOptions);
+  const context = await browser.newContext(contextOptions(options));
+  return { browser, context };
+}
@@ -0,0 +1,98 @@
+import { BrowserContext, Dialog } from 'playwright';
+import { DialogPolicy } from '../../domain/interfaces/TaskMetadata';
+
+/**
+ * A dialog a page opened: an alert, confirm, prompt or beforeunload.
+ */
+export interface RecordedDialog {
+  readonly type: string;
+  readonly message: string;
+  /** Whether the dialog was accepted rather than dismissed */
+  readonly accepted: boolean;
+}
+
+/**
+ * How to answer one dialog.
+ */
+export interface DialogResponse {
+  readonly accept: boolean;
+  /** Text to enter into a prompt before accepting it */
+  readonly text?: string;
+}
+
+/**
+ * Answers the dialogs of every tab in a browser context and records them.
+ * A page stalls until its dialog is answered, so the answer is queued by
+ * the step before the one that opens the dialog; dialogs without a queued
+ * answer get the test's default policy.
+ */
+export class DialogRecorder {
+  private responses: DialogResponse[] = [];
+  private seen: RecordedDialog[] = [];
+  private policy: DialogPolicy = 'dismiss';
+
+  /**
+   * Starts answering the dialogs of a context, forgetting those of the
+   * previous one and any answers still queued.
+   *
+   * @param policy How to answer dialogs no step queued an answer for
+   */
+  public attach(context: BrowserContext, policy: DialogPolicy = 'dismiss'): void {
+    this.responses = [];
+    this.seen = [];
+    this.policy = policy;
+    context.on('dialog', dialog => void this.answer(dialog));
+  }
+
+  /**
+   * Queues the answer to the next dialog without one.
+   */
+  public respondToNext(response: DialogResponse): void {
+    this.responses.push(response);
+  }
+
+  /**
+   * Dialogs opened so far, in order.
+   */
+  public get dialogs(): readonly RecordedDialog[] {
+    return this.seen;
+  }
+
+  /**
+   * Waits until a dialog with the message has opened since the context was attached.
+   *
+   * @throws Error listing the dialogs seen if none matches in time
+   */
+  public async expectDialog(message: string, timeout: number): Promise<RecordedDialog> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const found = this.seen.find(dialog => dialog.message === message);
+      if (found) {
+        return found;
+      }
+      if (Date.now() >= deadline) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    const seen = this.seen.map(d => `${d.type} "${d.message}"`).join('; ');
+    throw new Error(
+      `No dialog with message "${message}" within ${timeout}ms` + (seen ? ` (got ${seen})` : '')
+    );
+  }
+
+  private async answer(dialog: Dialog): Promise<void> {
+    const response = this.responses.shift() ?? { accept: this.policy === 'accept' };
+    this.seen.push({ type: dialog.type(), message: dialog.message(), accepted: response.accept });
+    try {
+      if (response.accept) {
+        await dialog.accept(response.text);
+      } else {
+        await dialog.dismiss();
+      }
+    } catch {
+      // The page closed before the dialog was answered
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Download, Page } from 'playwright';
+import { globToRegExp } from './NetworkRecorder';
+
+/**
+ * A download the page finished.
+ */
+export interface RecordedDownload {
+  /** File name suggested by the server */
+  readonly name: string;
+  /** Where the file was saved */
+  readonly path: string;
+  /** Size in bytes */
+  readonly size: number;
+}
+
+/**
+ * What a download assertion looks for. Both checks are optional.
+ */
+export interface DownloadFilter {
+  /** File name glob, e.g. report-*.pdf */
+  readonly name?: string;
+  /** Size the file must exceed, in bytes */
+  readonly sizeGreaterThan?: number;
+}
+
+/**
+ * Records the downloads of a page so that steps can wait for the file an
+ * earlier step started, and saves them before the browser context deletes them.
+ */
+export class DownloadRecorder {
+  private started: Array<Promise<RecordedDownload>> = [];
+  private finished: RecordedDownload[] = [];
+  /** Downloads already handed out by expectDownload */
+  private expected = 0;
+
+  /**
+   * Starts recording a page, forgetting the downloads of the previous one.
+   *
+   * @param dir Directory to save downloads to; without one they stay in
+   *   Playwright's temporary files until the context closes
+   */
+  public attach(page: Page, dir?: string): void {
+    this.started = [];
+    this.finished = [];
+    this.expected = 0;
+    page.on('download', download => {
+      const saved = this.save(download, dir);
+      // Failures surface in the step that waits for the download
+      saved.then(
+        recorded => this.finished.push(recorded),
+        () => undefined
+      );
+      this.started.push(saved);
+    });
+  }
+
+  /**
+   * Downloads saved so far, in the order they finished.
+   */
+  public get downloads(): readonly RecordedDownload[] {
+    return this.finished;
+  }
+
+  /**
+   * Waits for the next download no earlier call has returned, including one
+   * that started before this call, and for it to be saved.
+   *
+   * @throws Error if no download starts in time or it fails
+   */
+  public async expectDownload(timeout: number): Promise<RecordedDownload> {
+    const deadline = Date.now() + timeout;
+    while (this.started.length <= this.expected) {
+      if (Date.now() >= deadline) {
+        throw new Error(`No download started within ${timeout}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    return this.started[this.expected++];
+  }
+
+  /**
+   * Waits until a matching download has been saved since the page was attached.
+   *
+   * @throws Error describing the expected download if none is seen in time
+   */
+  public async expectDownloadMatching(
+    filter: DownloadFilter,
+    timeout: number
+  ): Promise<RecordedDownload> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const found = this.finished.find(download => this.matches(download, filter));
+      if (found) {
+        return found;
+      }
+      if (Date.now() >= deadline) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    const name = filter.name !== undefined ? ` named ${filter.name}` : '';
+    const size =
+      filter.sizeGreaterThan !== undefined ? ` larger than ${filter.sizeGreaterThan} bytes` : '';
+    const seen = this.finished.map(d => `${d.name}, ${d.size} bytes`).join('; ');
+    throw new Error(
+      `No download${name}${size} within ${timeout}ms` + (seen ? ` (got ${seen})` : '')
+    );
+  }
+
+  private matches(download: RecordedDownload, filter: DownloadFilter): boolean {
+    return (
+      (filter.name === undefined || globToRegExp(filter.name).test(download.name)) &&
+      (filter.sizeGreaterThan === undefined || download.size > filter.sizeGreaterThan)
+    );
+  }
+
+  private async save(download: Download, dir?: string): Promise<RecordedDownload> {
+    const name = download.suggestedFilename();
+    try {
+      let filePath: string;
+      if (dir) {
+        filePath = path.join(dir, name);
+        await download.saveAs(filePath);
+      } else {
+        filePath = await download.path();
+      }
+      const { size } = await fs.stat(filePath);
+      return { name, path: filePath, size };
+    } catch (error) {
+      throw new Error(
+        `Download of ${name} failed: ${(await download.failure()) ?? (error as Error).message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import * as fs from 'fs/promises';
+import { APIRequestContext } from 'playwright';
+import { readJsonPath } from './JsonPath';
+
+/**
+ * An API request an http step sends.
+ */
+export interface HttpRequest {
+  readonly method: string;
+  /** Absolute URL */
+  readonly url: string;
+  /** Headers as a JSON object */
+  readonly headers?: string;
+  /** JSON body, as text */
+  readonly json?: string;
+  /** File with the JSON body */
+  readonly jsonFile?: string;
+  /** Any other body, sent as is */
+  readonly body?: string;
+  /** How long to wait for the response, in milliseconds */
+  readonly timeout?: number;
+}
+
+/**
+ * The response to the latest http step, read in full.
+ */
+export interface HttpResponse {
+  readonly method: string;
+  readonly url: string;
+  readonly status: number;
+  readonly body: string;
+}
+
+/**
+ * What assert_http checks in the latest response.
+ */
+export interface HttpExpectation {
+  readonly status?: number;
+  /** Part of the JSON body to check, e.g. $.id */
+  readonly jsonPath?: string;
+  /** Expected value at the path; strings compare as is, anything else as JSON */
+  readonly value?: string;
+  /** Whether the path must exist (the default) or be absent */
+  readonly exists?: boolean;
+}
+
+/**
+ * Sends the API requests of http steps through a browser context's request
+ * context, so they carry the context's cookies and cookies they receive
+ * reach the pages. Keeps the latest response for assert_http.
+ */
+export class HttpClient {
+  private request?: APIRequestContext;
+  private last?: HttpResponse;
+
+  /**
+   * Sends the requests of a context from now on, forgetting the response
+   * of the previous one.
+   */
+  public attach(request: APIRequestContext): void {
+    this.request = request;
+    this.last = undefined;
+  }
+
+  /**
+   * The response to the latest request, if any.
+   */
+  public get lastResponse(): HttpResponse | undefined {
+    return this.last;
+  }
+
+  /**
+   * Sends a request and keeps its response. Error statuses are responses
+   * like any other; assert_http checks them.
+   *
+   * @throws Error if the headers or JSON body are invalid or the request cannot be sent
+   */
+  public async send(request: HttpRequest): Promise<HttpResponse> {
+    if (!this.request) {
+      throw new Error('Executor not initialized. Call initialize() first.');
+    }
+
+    const response = await this.request.fetch(request.url, {
+      method: request.method,
+      headers:
+        request.headers !== undefined
+          ? (this.parseJson(request.headers, 'headers') as Record<string, string>)
+          : undefined,
+      data: await this.data(request),
+      timeout: request.timeout,
+    });
+    this.last = {
+      method: request.method,
+      url: response.url(),
+      status: response.status(),
+      body: await response.text(),
+    };
+    return this.last;
+  }
+
+  /**
+   * Checks the latest response.
+   *
+   * @returns The value at the JSON path as text, if the expectation has a path that exists
+   * @throws Error describing the first check that failed
+   */
+  public expectResponse(expectation: HttpExpectation): string | undefined {
+    const response = this.last;
+    if (!response) {
+      throw new Error('No http response to assert on; run an http step first');
+    }
+    const request = `${response.method} ${response.url}`;
+
+    if (expectation.status !== undefined && response.status !== expectation.status) {
+      throw new Error(
+        `Expected status ${expectation.status}, got ${response.status} for ${request}`
+      );
+    }
+    if (expectation.jsonPath === undefined) {
+      return undefined;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(response.body);
+    } catch {
+      throw new Error(`Response of ${request} is not JSON`);
+    }
+    const path = expectation.jsonPath;
+    const { found, value } = readJsonPath(json, path);
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+
+    if (expectation.exists === false) {
+      if (found) {
+        throw new Error(`Expected ${path} to be absent, got ${text} for ${request}`);
+      }
+      return undefined;
+    }
+    if (!found) {
+      throw new Error(`${path} not found in the response of ${request}`);
+    }
+    if (expectation.value !== undefined && text !== expectation.value) {
+      throw new Error(`Expected ${path} to be "${expectation.value}", got "${text}"`);
+    }
+    return text;
+  }
+
+  /**
+   * The body to send: parsed JSON, so Playwright sets the content type, or text.
+   */
+  private async data(request: HttpRequest): Promise<unknown> {
+    if (request.jsonFile !== undefined) {
+      const content = await fs.readFile(request.jsonFile, 'utf-8');
+      return this.parseJson(content, request.jsonFile);
+    }
+    if (request.json !== undefined) {
+      return this.parseJson(request.json, 'json');
+    }
+    return request.body;
+  }
+
+  private parseJson(content: string, source: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${source}: ${(error as Error).message}`);
+    }
+  }
+}
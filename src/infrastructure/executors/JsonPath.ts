@@ -0,0 +1,50 @@
+/**
+ * Keys and array indexes leading from the root of a JSON value to a part of it.
+ */
+export type JsonPathSegment = string | number;
+
+/**
+ * One `.key`, `[0]` or `['key']` step of a JSON path.
+ */
+const SEGMENT_PATTERN = /^(?:\.([^.[\]'"]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\])/;
+
+/**
+ * Splits a JSON path such as `$.items[0].id` or `$['order id']` into its segments.
+ *
+ * @throws Error if the path does not start at $ or has a malformed step
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSON path must start with $, got "${path}"`);
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let rest = path.slice(1);
+  while (rest !== '') {
+    const match = SEGMENT_PATTERN.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid JSON path "${path}" at "${rest}"`);
+    }
+    const [step, key, index, single, double] = match;
+    segments.push(index !== undefined ? Number(index) : (key ?? single ?? double));
+    rest = rest.slice(step.length);
+  }
+  return segments;
+}
+
+/**
+ * Looks up the part of a JSON value a path points to.
+ *
+ * @returns Whether the path exists, and the value there if it does
+ * @throws Error if the path is malformed
+ */
+export function readJsonPath(json: unknown, path: string): { found: boolean; value?: unknown } {
+  let value = json;
+  for (const segment of parseJsonPath(path)) {
+    if (value === null || typeof value !== 'object' || !(segment in value)) {
+      return { found: false };
+    }
+    value = (value as Record<JsonPathSegment, unknown>)[segment];
+  }
+  return { found: true, value };
+}
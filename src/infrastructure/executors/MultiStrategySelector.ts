@@ -1,5 +1,88 @@
-import { Page, Locator } from 'playwright';
-import { SelectorSpec } from '../../domain/entities/SelectorSpec';
+import { Frame, Page, Locator } from 'playwright';
+import { SelectorSpec, parseRoleSelector } from '../../domain/entities/SelectorSpec';
+import { DEFAULT_STEP_POLICY, WaitState } from '../../domain/interfaces/StepPolicy';
+
+/**
+ * How long each selector strategy may take to find the element, and the
+ * state the element must reach.
+ */
+export interface LocateOptions {
+  readonly timeout?: number;
+  readonly state?: WaitState;
+}
+
+/**
+ * An element found by a selector, with the entry of its chain that found it.
+ */
+export interface ResolvedLocator {
+  readonly locator: Locator;
+  /** Which fallback found the element, starting at 1; undefined for the primary */
+  readonly fallback?: number;
+  /** How long finding the element took, in milliseconds */
+  readonly duration: number;
+}
+
+/**
+ * What to do when a selector without nth matches more than one element:
+ * use the first match silently, use it with a warning, or fail the step.
+ */
+export type StrictMode = 'off' | 'warn' | 'fail';
+
+export const VALID_STRICT_MODES: readonly StrictMode[] = ['off', 'warn', 'fail'];
+
+/**
+ * How often to check an element that must become stable or enabled, in milliseconds.
+ */
+const POLL_INTERVAL = 50;
+
+/**
+ * How many of the matching elements an ambiguity error describes.
+ */
+const MAX_CANDIDATES = 5;
+
+/**
+ * Thrown in strict mode when a selector matches more than one element.
+ */
+export class AmbiguousSelectorError extends Error {
+  constructor(
+    /** The selector as written, e.g. text=Add to cart */
+    public readonly selector: string,
+    public readonly count: number,
+    /** Short descriptions of the first matches, e.g. button.add-to-cart "Add to cart" */
+    public readonly candidates: readonly string[]
+  ) {
+    super(describeAmbiguity(selector, count, candidates));
+    this.name = 'AmbiguousSelectorError';
+  }
+}
+
+/**
+ * Describes the elements a selector matches, for warnings and errors.
+ */
+function describeAmbiguity(selector: string, count: number, candidates: readonly string[]): string {
+  const listed = candidates.map((candidate, i) => `${i + 1}) ${candidate}`).join(', ');
+  const more = count > candidates.length ? `, and ${count - candidates.length} more` : '';
+  return (
+    `Selector ${selector} matches ${count} elements; make it unique or pick one with nth=. ` +
+    `Candidates: ${listed}${more}`
+  );
+}
+
+/**
+ * Reads the strict mode from the environment (see .env.example):
+ * STRICT_SELECTORS=off|warn|fail. Strict mode is off when it is unset.
+ *
+ * @throws Error if the mode is unknown
+ */
+export function strictModeFromEnv(env: NodeJS.ProcessEnv = process.env): StrictMode {
+  const mode = env.STRICT_SELECTORS || 'off';
+  if (!VALID_STRICT_MODES.includes(mode as StrictMode)) {
+    throw new Error(
+      `Unknown STRICT_SELECTORS mode: ${mode}. Must be one of: ${VALID_STRICT_MODES.join(', ')}`
+    );
+  }
+  return mode as StrictMode;
+}
 
 /**
  * Multi-strategy element selector with fallback support.
@@ -9,6 +92,7 @@ import { SelectorSpec } from '../../domain/entities/SelectorSpec';
  */
 export class MultiStrategySelector {
   private verbose: boolean = false;
+  private strict: StrictMode = 'off';
 
   /**
    * Enable or disable verbose logging.
@@ -17,30 +101,77 @@ export class MultiStrategySelector {
     this.verbose = verbose;
   }
 
+  /**
+   * Sets what happens when a selector without nth matches several elements.
+   */
+  public setStrictMode(mode: StrictMode): void {
+    this.strict = mode;
+  }
+
   /**
    * Locates an element using the provided selector spec.
    *
-   * @param page Playwright Page object
+   * A scoped selector is searched inside the element its parent finds,
+   * narrowed by its hasText/has filters; nth picks the match to use
+   * (the first one by default, which strict mode checks is the only one).
+   *
+   * @param page Playwright Page object, or the frame to search in
    * @param selector SelectorSpec with strategy and fallbacks
+   * @param options Wait per strategy; the parents of a scoped selector only need to be attached
    * @returns Playwright Locator
+   * @throws AmbiguousSelectorError in strict mode if a strategy matches several elements
    * @throws Error if element cannot be located with any strategy
    */
-  public async locate(page: Page, selector: SelectorSpec): Promise<Locator> {
+  public async locate(
+    page: Page | Frame,
+    selector: SelectorSpec,
+    options: LocateOptions = {}
+  ): Promise<Locator> {
+    return (await this.resolve(page, selector, options)).locator;
+  }
+
+  /**
+   * Locates an element like locate, also telling which entry of the
+   * selector's chain found it and how long that took.
+   *
+   * @throws AmbiguousSelectorError in strict mode if a strategy matches several elements
+   * @throws Error if element cannot be located with any strategy
+   */
+  public async resolve(
+    page: Page | Frame,
+    selector: SelectorSpec,
+    options: LocateOptions = {}
+  ): Promise<ResolvedLocator> {
+    const started = Date.now();
+    const timeout = options.timeout ?? DEFAULT_STEP_POLICY.timeout;
+    const state = options.state ?? 'attached';
+    const root = selector.scope.parent
+      ? await this.locate(page, selector.scope.parent, { timeout })
+      : page;
+
     // Try primary strategy
     if (this.verbose) {
       console.log(`         🎯 Trying primary selector: ${selector.strategy}=${selector.value}`);
     }
-    const primaryLocator = this.getLocator(page, selector.strategy, selector.value);
+    const primaryMatches = this.filter(
+      page,
+      this.getLocator(root, selector.strategy, selector.value),
+      selector
+    );
+    const primaryLocator = this.pick(primaryMatches, selector);
 
     try {
-      // Use .first() to handle cases where multiple elements match
-      const firstLocator = primaryLocator.first();
-      await firstLocator.waitFor({ timeout: 2000, state: 'attached' });
+      await this.waitFor(primaryLocator, timeout, state);
       if (this.verbose) {
         console.log(`         ✅ Primary selector found element`);
       }
-      return firstLocator;
+      await this.checkUnique(primaryMatches, selector, `${selector.strategy}=${selector.value}`);
+      return { locator: primaryLocator, duration: Date.now() - started };
     } catch (error) {
+      // A fallback would only hide that the selector is ambiguous
+      if (error instanceof AmbiguousSelectorError) {
+        throw error;
+      }
       if (this.verbose) {
         console.log(`         ❌ Primary selector failed: ${(error as Error).message}`);
       }
@@ -55,14 +186,26 @@ export class MultiStrategySelector {
             if (this.verbose) {
               console.log(`         🎯 Fallback ${i + 1}: ${fallback.strategy}=${fallback.value}`);
             }
-            const fallbackLocator = this.getLocator(page, fallback.strategy, fallback.value);
-            const firstFallbackLocator = fallbackLocator.first();
-            await firstFallbackLocator.waitFor({ timeout: 2000, state: 'attached' });
+            const fallbackMatches = this.filter(
+              page,
+              this.getLocator(root, fallback.strategy, fallback.value),
+              selector
+            );
+            const fallbackLocator = this.pick(fallbackMatches, selector);
+            await this.waitFor(fallbackLocator, timeout, state);
             if (this.verbose) {
               console.log(`         ✅ Fallback ${i + 1} found element!`);
             }
-            return firstFallbackLocator;
+            await this.checkUnique(
+              fallbackMatches,
+              selector,
+              `${fallback.strategy}=${fallback.value}`
+            );
+            return { locator: fallbackLocator, fallback: i + 1, duration: Date.now() - started };
           } catch (fallbackError) {
+            if (fallbackError instanceof AmbiguousSelectorError) {
+              throw fallbackError;
+            }
             if (this.verbose) {
               console.log(
                 `         ❌ Fallback ${i + 1} failed: ${(fallbackError as Error).message}`
@@ -74,27 +217,151 @@ export class MultiStrategySelector {
         }
       }
 
-      throw new Error(`Element not found with selector: ${selector.strategy}=${selector.value}`);
+      const waited = state === 'attached' ? '' : ` (waited ${timeout}ms for it to be ${state})`;
+      throw new Error(
+        `Element not found with selector: ${selector.strategy}=${selector.value}${waited}`
+      );
+    }
+  }
+
+  /**
+   * Waits until the element reaches a state. Playwright only waits for
+   * attached and visible elements, so stable and enabled are polled for
+   * after the element is visible.
+   *
+   * @throws Error if the element does not reach the state in time
+   */
+  private async waitFor(locator: Locator, timeout: number, state: WaitState): Promise<void> {
+    const deadline = Date.now() + timeout;
+    // A timeout of 0 would make Playwright wait forever
+    await locator.waitFor({
+      timeout: Math.max(timeout, 1),
+      state: state === 'attached' ? 'attached' : 'visible',
+    });
+    if (state === 'visible' || state === 'attached') {
+      return;
+    }
+
+    let previous = state === 'stable' ? await locator.boundingBox() : null;
+    for (;;) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+      if (state === 'enabled') {
+        if (await locator.isEnabled()) {
+          return;
+        }
+      } else {
+        const box = await locator.boundingBox();
+        if (
+          box &&
+          previous &&
+          box.x === previous.x &&
+          box.y === previous.y &&
+          box.width === previous.width &&
+          box.height === previous.height
+        ) {
+          return;
+        }
+        previous = box;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Element did not become ${state} within ${timeout}ms`);
+      }
     }
   }
 
   /**
-   * Gets a Playwright locator for the given strategy and value.
+   * Applies the selector's hasText/has filters.
    */
-  private getLocator(page: Page, strategy: string, value: string): Locator {
+  private filter(page: Page | Frame, locator: Locator, selector: SelectorSpec): Locator {
+    const { hasText, has } = selector.scope;
+    let narrowed = locator;
+    if (hasText !== undefined) {
+      narrowed = narrowed.filter({ hasText });
+    }
+    if (has) {
+      narrowed = narrowed.filter({ has: this.getLocator(page, has.strategy, has.value) });
+    }
+    return narrowed;
+  }
+
+  /**
+   * Picks the match nth asks for, or the first one.
+   */
+  private pick(matches: Locator, selector: SelectorSpec): Locator {
+    const { nth } = selector.scope;
+    return nth !== undefined ? matches.nth(nth) : matches.first();
+  }
+
+  /**
+   * In strict mode, warns or fails when a selector without nth matches
+   * more than one element, describing the first matches.
+   *
+   * @throws AmbiguousSelectorError if the mode is fail and the selector is ambiguous
+   */
+  private async checkUnique(
+    matches: Locator,
+    selector: SelectorSpec,
+    written: string
+  ): Promise<void> {
+    if (this.strict === 'off' || selector.scope.nth !== undefined) {
+      return;
+    }
+    const count = await matches.count();
+    if (count <= 1) {
+      return;
+    }
+
+    const candidates = await matches.evaluateAll(
+      (elements, max) =>
+        elements.slice(0, max).map(element => {
+          const id = element.id ? `#${element.id}` : '';
+          const classes = Array.from(element.classList)
+            .slice(0, 2)
+            .map(name => `.${name}`)
+            .join('');
+          const testId = element.getAttribute('data-testid');
+          const text = (element.textContent ?? '').replace(/\s+/g, ' ').trim().slice(0, 40);
+          return (
+            `${element.tagName.toLowerCase()}${id}${classes}` +
+            (testId ? `[data-testid="${testId}"]` : '') +
+            (text ? ` "${text}"` : '')
+          );
+        }),
+      MAX_CANDIDATES
+    );
+    const error = new AmbiguousSelectorError(written, count, candidates);
+    if (this.strict === 'fail') {
+      throw error;
+    }
+    console.warn(`         ⚠️  ${error.message}`);
+  }
+
+  /**
+   * Gets a Playwright locator for the given strategy and value,
+   * searching the page, a frame or inside another locator.
+   */
+  private getLocator(root: Page | Frame | Locator, strategy: string, value: string): Locator {
     switch (strategy) {
       case 'css':
-        return page.locator(value);
+        return root.locator(value);
       case 'xpath':
-        return page.locator(`xpath=${value}`);
+        return root.locator(`xpath=${value}`);
       case 'text':
-        return page.getByText(value, { exact: false });
-      case 'role':
-        return page.getByRole(value as any);
+        return root.getByText(value, { exact: false });
+      case 'role': {
+        const { role, ...options } = parseRoleSelector(value);
+        return root.getByRole(role as Parameters<Page['getByRole']>[0], options);
+      }
       case 'testid':
-        return page.getByTestId(value);
+        return root.getByTestId(value);
       case 'placeholder':
-        return page.getByPlaceholder(value);
+        return root.getByPlaceholder(value);
+      case 'label':
+        return root.getByLabel(value);
+      case 'alt':
+        return root.getByAltText(value);
+      case 'title':
+        return root.getByTitle(value);
       default:
         throw new Error(`Unsupported selector strategy: ${strategy}`);
     }
@@ -0,0 +1,160 @@
+import { Page } from 'playwright';
+
+/**
+ * A request the page sent.
+ */
+export interface RecordedRequest {
+  readonly url: string;
+  readonly method: string;
+  readonly body: string;
+}
+
+/**
+ * A response the page received.
+ */
+export interface RecordedResponse {
+  readonly url: string;
+  readonly method: string;
+  readonly status: number;
+}
+
+/**
+ * What a network assertion looks for. Everything but url is optional.
+ */
+export interface TrafficFilter {
+  /** URL glob, matched against the full URL like page.route */
+  readonly url: string;
+  readonly method?: string;
+  /** Text the request body must contain */
+  readonly bodyContains?: string;
+  readonly status?: number;
+}
+
+/**
+ * Converts a URL glob to a regular expression the way Playwright matches
+ * routes: `**` matches anything, `*` anything but `/`, and `{a,b}` either
+ * alternative. Everything else matches literally.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '{') {
+      pattern += '(';
+      inGroup = true;
+    } else if (char === '}' && inGroup) {
+      pattern += ')';
+      inGroup = false;
+    } else if (char === ',' && inGroup) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Records the traffic of a page so that assertions can look back at
+ * requests a step already caused, not only wait for new ones.
+ */
+export class NetworkRecorder {
+  private requests: RecordedRequest[] = [];
+  private responses: RecordedResponse[] = [];
+
+  /**
+   * Starts recording a page, forgetting the traffic of the previous one.
+   */
+  public attach(page: Page): void {
+    this.requests = [];
+    this.responses = [];
+    page.on('request', request => {
+      this.requests.push({
+        url: request.url(),
+        method: request.method(),
+        body: request.postData() ?? '',
+      });
+    });
+    page.on('response', response => {
+      this.responses.push({
+        url: response.url(),
+        method: response.request().method(),
+        status: response.status(),
+      });
+    });
+  }
+
+  /**
+   * Waits until a matching request has been sent since the page was attached.
+   *
+   * @throws Error describing the expected request if none is seen in time
+   */
+  public async expectRequest(filter: TrafficFilter, timeout: number): Promise<RecordedRequest> {
+    const found = await this.poll(() => this.requests.find(r => this.matches(r, filter)), timeout);
+    if (!found) {
+      const method = filter.method ? `${filter.method.toUpperCase()} ` : '';
+      const body =
+        filter.bodyContains !== undefined ? ` with a body containing "${filter.bodyContains}"` : '';
+      throw new Error(`No ${method}request matching ${filter.url}${body} within ${timeout}ms`);
+    }
+    return found;
+  }
+
+  /**
+   * Waits until a matching response has been received since the page was attached.
+   *
+   * @throws Error describing the expected response if none is seen in time
+   */
+  public async expectResponse(filter: TrafficFilter, timeout: number): Promise<RecordedResponse> {
+    const found = await this.poll(
+      () =>
+        this.responses.find(
+          r =>
+            this.matches(r, filter) && (filter.status === undefined || r.status === filter.status)
+        ),
+      timeout
+    );
+    if (!found) {
+      const status = filter.status !== undefined ? ` with status ${filter.status}` : '';
+      const seen = this.responses
+        .filter(r => this.matches(r, filter))
+        .map(r => r.status)
+        .join(', ');
+      throw new Error(
+        `No response matching ${filter.url}${status} within ${timeout}ms` +
+          (seen ? ` (got ${seen})` : '')
+      );
+    }
+    return found;
+  }
+
+  private matches(entry: RecordedRequest | RecordedResponse, filter: TrafficFilter): boolean {
+    if (!globToRegExp(filter.url).test(entry.url)) {
+      return false;
+    }
+    if (filter.method !== undefined && entry.method !== filter.method.toUpperCase()) {
+      return false;
+    }
+    return (
+      filter.bodyContains === undefined ||
+      ('body' in entry && entry.body.includes(filter.bodyContains))
+    );
+  }
+
+  private async poll<T>(find: () => T | undefined, timeout: number): Promise<T | undefined> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const found = find();
+      if (found !== undefined || Date.now() >= deadline) {
+        return found;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+}
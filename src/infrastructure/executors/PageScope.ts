@@ -0,0 +1,152 @@
+import { BrowserContext, Frame, Locator, Page } from 'playwright';
+
+/**
+ * Which tab to switch to: by position in opening order, or by the name
+ * expect_popup gave it.
+ */
+export interface TabTarget {
+  readonly index?: number;
+  readonly name?: string;
+}
+
+/**
+ * Tracks where commands run within a browser context: the active tab and,
+ * inside it, the active frame. Tabs opened by the page, such as payment
+ * popups, are recorded so that a step can pick up one an earlier step opened.
+ */
+export class PageScope {
+  private active: Page;
+  private activeFrame?: Frame;
+  /** Tabs opened after the first one, in opening order */
+  private readonly opened: Page[] = [];
+  /** Opened tabs already handed out by expectPopup */
+  private expected = 0;
+  private readonly names = new Map<string, Page>();
+
+  constructor(
+    context: BrowserContext,
+    /** The tab the context started with */
+    public readonly firstPage: Page
+  ) {
+    this.active = firstPage;
+    context.on('page', page => {
+      if (page !== firstPage) {
+        this.opened.push(page);
+      }
+    });
+  }
+
+  /**
+   * The active tab, which page-level commands such as navigate act on.
+   */
+  public get page(): Page {
+    return this.active;
+  }
+
+  /**
+   * The frame elements are located in, when one was switched to.
+   */
+  public get frame(): Frame | undefined {
+    return this.activeFrame;
+  }
+
+  /**
+   * Open tabs in the order they were opened.
+   */
+  public get tabs(): Page[] {
+    return [this.firstPage, ...this.opened].filter(page => !page.isClosed());
+  }
+
+  /**
+   * Locates elements inside the frame of an iframe element from now on.
+   *
+   * @throws Error if the element is not an iframe
+   */
+  public async switchFrame(iframe: Locator): Promise<void> {
+    const frame = await (await iframe.elementHandle())?.contentFrame();
+    if (!frame) {
+      throw new Error('switchFrame requires an iframe element');
+    }
+    this.activeFrame = frame;
+  }
+
+  /**
+   * Locates elements in the page itself again.
+   */
+  public switchToMainFrame(): void {
+    this.activeFrame = undefined;
+  }
+
+  /**
+   * Waits for the next tab no earlier call has returned, including one
+   * opened before this call, and makes it the active tab.
+   *
+   * @param timeout How long to wait for the tab to open, in milliseconds
+   * @param name Name to switch back to the tab by
+   * @throws Error if no tab opens in time
+   */
+  public async expectPopup(timeout: number, name?: string): Promise<Page> {
+    const deadline = Date.now() + timeout;
+    while (this.opened.length <= this.expected) {
+      if (Date.now() >= deadline) {
+        throw new Error(`No popup opened within ${timeout}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+
+    const popup = this.opened[this.expected++];
+    await popup.waitForLoadState('domcontentloaded', { timeout });
+    if (name) {
+      this.names.set(name, popup);
+    }
+    this.activate(popup);
+    return popup;
+  }
+
+  /**
+   * Makes another open tab the active one.
+   *
+   * @throws Error if there is no such tab
+   */
+  public async switchTab(target: TabTarget): Promise<void> {
+    let page: Page | undefined;
+    if (target.name !== undefined) {
+      page = this.names.get(target.name);
+      if (!page || page.isClosed()) {
+        throw new Error(`No open tab named ${target.name}`);
+      }
+    } else {
+      const tabs = this.tabs;
+      page = tabs[target.index ?? 0];
+      if (!page) {
+        throw new Error(`No tab at index ${target.index} (${tabs.length} open)`);
+      }
+    }
+
+    await page.bringToFront();
+    this.activate(page);
+  }
+
+  /**
+   * Closes the active tab and returns to the tab that opened it, or to the
+   * first open tab.
+   *
+   * @throws Error if it is the only open tab
+   */
+  public async closeTab(): Promise<void> {
+    const closing = this.active;
+    const remaining = this.tabs.filter(page => page !== closing);
+    if (remaining.length === 0) {
+      throw new Error('Cannot close the last open tab');
+    }
+
+    const opener = await closing.opener();
+    await closing.close();
+    this.activate(opener && !opener.isClosed() ? opener : remaining[0]);
+  }
+
+  private activate(page: Page): void {
+    this.active = page;
+    this.activeFrame = undefined;
+  }
+}
@@ -1,6 +1,21 @@
-import { Browser, Page, chromium } from 'playwright';
+import * as path from 'path';
+import { Browser, BrowserContext, Locator, Page } from 'playwright';
 import { OxtestCommand } from '../../domain/entities/OxtestCommand';
-import { MultiStrategySelector } from './MultiStrategySelector';
+import { BlockCondition } from '../../domain/entities/OxtestBlock';
+import {
+  AmbiguousSelectorError,
+  LocateOptions,
+  MultiStrategySelector,
+  ResolvedLocator,
+  StrictMode,
+} from './MultiStrategySelector';
+import { BrowserOptions, contextOptions, launchBrowser } from './BrowserLauncher';
+import { NetworkRecorder } from './NetworkRecorder';
+import { DownloadRecorder } from './DownloadRecorder';
+import { DialogRecorder } from './DialogRecorder';
+import { HttpClient } from './HttpClient';
+import { PageScope } from './PageScope';
+import { RecordedArtifacts, RecordingOptions, StepScreenshot } from './RecordingOptions';
 import {
   SelectorRefinementService,
   FailedSelectorContext,
@@ -8,6 +23,16 @@ import {
 import { ILLMProvider } from '../llm/interfaces';
 import { SelectorStrategy, isValidSelectorStrategy } from '../../domain/enums/SelectorStrategy';
 import { FallbackSelector, SelectorSpec } from '../../domain/entities/SelectorSpec';
+import { DialogPolicy } from '../../domain/interfaces/TaskMetadata';
+import { Cookie } from '../../domain/interfaces/ExecutionContext';
+import {
+  DEFAULT_STEP_POLICY,
+  StepPolicy,
+  resolveStepPolicy,
+  retryPause,
+  stepPolicyFromParams,
+} from '../../domain/interfaces/StepPolicy';
+import { SelectorOutcome, SelectorResolution } from '../../domain/interfaces/SelectorResolution';
 
 /**
  * Result of command execution.
@@ -18,6 +43,45 @@ export interface ExecutionResult {
   duration: number;
   refined?: boolean; // True if selector was refined during execution
   refinedCommand?: OxtestCommand; // The refined command if refinement occurred
+  variables?: Record<string, string>; // Values captured by store_* commands
+  cookies?: Cookie[]; // Cookies of the browser context after the command
+}
+
+/**
+ * How long network, download and dialog assertions wait for a match, in milliseconds.
+ */
+const DEFAULT_ASSERTION_TIMEOUT = 5000;
+
+/**
+ * How long wait_response, expect_download and expect_popup wait, in milliseconds.
+ */
+const DEFAULT_WAIT_TIMEOUT = 30000;
+
+/**
+ * Options the click commands pass to Playwright.
+ */
+type ClickOptions = NonNullable<Parameters<Locator['click']>[0]>;
+
+/**
+ * A cookie as set_cookie passes it to Playwright.
+ */
+type CookieInit = Parameters<BrowserContext['addCookies']>[0][number];
+
+/**
+ * HTTP methods an http step may send again when it fails; others change
+ * data on the server and are only retried when the step sets retries.
+ */
+const RETRYABLE_HTTP_METHODS: readonly string[] = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Resolves a file a command names relative to the .ox.test file it was
+ * written in, as includes are; commands not parsed from a file use the
+ * working directory.
+ */
+export function sourcePath(command: OxtestCommand, file: string): string {
+  return command.filePath !== undefined && !path.isAbsolute(file)
+    ? path.join(path.dirname(command.filePath), file)
+    : file;
 }
 
 /**
@@ -25,12 +89,34 @@ export interface ExecutionResult {
  */
 export class PlaywrightExecutor {
   private browser?: Browser;
-  private page?: Page;
+  private context?: BrowserContext;
+  private scope?: PageScope;
   private readonly selector: MultiStrategySelector;
+  private readonly network = new NetworkRecorder();
+  private readonly downloads = new DownloadRecorder();
+  private readonly dialogs = new DialogRecorder();
+  private readonly http = new HttpClient();
+  private recording?: RecordingOptions;
+  private stepPolicy: StepPolicy = DEFAULT_STEP_POLICY;
+  private resolutions: SelectorResolution[] = [];
+  /** Where the selector of the running command attempt was found */
+  private resolved?: ResolvedLocator;
+  /** Commands executed and screenshots taken in the current context */
+  private steps = 0;
+  private screenshots: StepScreenshot[] = [];
   private readonly refinementService?: SelectorRefinementService;
   private verbose: boolean = false;
 
-  constructor(verbose: boolean = false, llmProvider?: ILLMProvider) {
+  /**
+   * @param verbose Log each step
+   * @param llmProvider Enables selector refinement when a selector fails
+   * @param browserOptions Engine, launch options and device to run in
+   */
+  constructor(
+    verbose: boolean = false,
+    llmProvider?: ILLMProvider,
+    private readonly browserOptions: BrowserOptions = {}
+  ) {
     this.selector = new MultiStrategySelector();
     this.verbose = verbose;
     this.selector.setVerbose(verbose);
@@ -49,22 +135,151 @@ export class PlaywrightExecutor {
     this.selector.setVerbose(verbose);
   }
 
+  /**
+   * Sets what happens when a selector without nth matches several elements.
+   * In fail mode, selector refinement is asked for a selector that matches one.
+   */
+  public setStrictMode(mode: StrictMode): void {
+    this.selector.setStrictMode(mode);
+  }
+
+  /**
+   * Sets how commands wait for elements and retry, from the global
+   * configuration and the test's @step header. Commands can override it
+   * with their own timeout, retries and wait_for parameters.
+   */
+  public setStepPolicy(policy: StepPolicy): void {
+    this.stepPolicy = policy;
+  }
+
   /**
    * Initializes the browser and page.
    */
   public async initialize(): Promise<void> {
-    this.browser = await chromium.launch({ headless: true });
-    const context = await this.browser.newContext();
-    this.page = await context.newPage();
+    const { browser, context } = await launchBrowser(this.browserOptions);
+    this.browser = browser;
+    this.context = context;
+    const page = await context.newPage();
+    this.scope = new PageScope(context, page);
+    this.network.attach(page);
+    this.downloads.attach(page);
+    this.dialogs.attach(context);
+    this.http.attach(context.request);
+  }
+
+  /**
+   * The active tab of the current context.
+   */
+  private get page(): Page | undefined {
+    return this.scope?.page;
+  }
+
+  /**
+   * Replaces the browser context with a fresh one, so a test starts without
+   * the cookies, storage and pages of the one before.
+   *
+   * @param storageState Storage state file to start from instead of the configured one
+   * @param recording Where to save downloads, and the screenshots, video, trace
+   *   and HAR to record until closeContext
+   * @param dialogs How to answer dialogs no accept_dialog or dismiss_dialog step answers
+   */
+  public async newContext(
+    storageState?: string,
+    recording?: RecordingOptions,
+    dialogs?: DialogPolicy
+  ): Promise<void> {
+    if (!this.browser) {
+      throw new Error('Executor not initialized. Call initialize() first.');
+    }
+
+    await this.closeContext();
+    this.recording = recording;
+    this.context = await this.browser.newContext({
+      ...contextOptions({ ...this.browserOptions, ...(storageState && { storageState }) }),
+      ...(recording?.har && { recordHar: { path: this.artifactPath('.har') } }),
+      ...(recording?.video && { recordVideo: { dir: recording.dir } }),
+    });
+    if (recording?.trace) {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+    }
+    const page = await this.context.newPage();
+    this.scope = new PageScope(this.context, page);
+    this.network.attach(page);
+    this.downloads.attach(page, recording && this.artifactPath('-downloads'));
+    this.dialogs.attach(this.context, dialogs);
+    this.http.attach(this.context.request);
+    this.resolutions = [];
+  }
+
+  /**
+   * Closes the current browser context and finishes its recordings: the
+   * trace is saved, and the video and HAR file are written on close.
+   * Downloads saved to the recording's directory are listed too.
+   * Commands fail until newContext is called.
+   *
+   * @returns The files recorded since newContext
+   */
+  public async closeContext(): Promise<RecordedArtifacts> {
+    const recording = this.context ? this.recording : undefined;
+    const artifacts: RecordedArtifacts = {
+      screenshots: this.screenshots,
+      files: recording
+        ? this.downloads.downloads.map(download => ({
+            name: 'Download',
+            path: download.path,
+            contentType: 'application/octet-stream',
+          }))
+        : [],
+    };
+    const video = recording?.video ? this.scope?.firstPage.video() : undefined;
+
+    if (recording?.trace) {
+      const tracePath = this.artifactPath('-trace.zip');
+      await this.context!.tracing.stop({ path: tracePath });
+      artifacts.files.push({ name: 'Trace', path: tracePath, contentType: 'application/zip' });
+    }
+
+    await this.context?.close();
+
+    if (video) {
+      // Playwright names videos randomly; keep the test's name instead
+      const videoPath = this.artifactPath('.webm');
+      await video.saveAs(videoPath);
+      await video.delete();
+      artifacts.files.push({ name: 'Video', path: videoPath, contentType: 'video/webm' });
+    }
+    if (recording?.har) {
+      artifacts.files.push({
+        name: 'HAR',
+        path: this.artifactPath('.har'),
+        contentType: 'application/json',
+      });
+    }
+
+    this.context = undefined;
+    this.scope = undefined;
+    this.recording = undefined;
+    this.steps = 0;
+    this.screenshots = [];
+    return artifacts;
+  }
+
+  /**
+   * Writes the cookies and local storage of the current context to a file
+   * that newContext can start from.
+   */
+  public async saveStorageState(filePath: string): Promise<void> {
+    if (!this.context) {
+      throw new Error('Executor not initialized. Call initialize() first.');
+    }
+    await this.context.storageState({ path: filePath });
   }
 
   /**
    * Closes the browser.
    */
   public async close(): Promise<void> {
-    if (this.page) {
-      await this.page.close();
-    }
+    await this.closeContext();
     if (this.browser) {
       await this.browser.close();
     }
@@ -79,22 +294,130 @@ export class PlaywrightExecutor {
     }
 
     const startTime = Date.now();
+    let result: ExecutionResult;
 
+    this.resolved = undefined;
     try {
-      const result = await this.executeCommand(command, this.page);
-      return {
+      const executed = await this.executeCommand(command, this.page);
+      result = {
         success: true,
         duration: Date.now() - startTime,
-        refined: result.refined,
-        refinedCommand: result.refinedCommand,
+        refined: executed.refined,
+        refinedCommand: executed.refinedCommand,
+        variables: executed.variables,
       };
     } catch (error) {
-      return {
+      result = {
         success: false,
         error: (error as Error).message,
         duration: Date.now() - startTime,
       };
     }
+
+    this.recordResolution(command, result);
+    await this.captureStep(command, this.page, result.success);
+    const cookies = await this.cookies();
+    if (cookies) {
+      result.cookies = cookies;
+    }
+    return result;
+  }
+
+  /**
+   * The cookies of the current context, for the execution context to keep
+   * in sync after each step; undefined when the context is gone, e.g. closed
+   * by the step.
+   */
+  private async cookies(): Promise<Cookie[] | undefined> {
+    let cookies: Awaited<ReturnType<BrowserContext['cookies']>>;
+    try {
+      cookies = await this.context!.cookies();
+    } catch {
+      return undefined;
+    }
+    return cookies.map(cookie => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      // Playwright marks session cookies with -1
+      ...(cookie.expires >= 0 && { expires: cookie.expires }),
+      httpOnly: cookie.httpOnly,
+      secure: cookie.secure,
+      sameSite: cookie.sameSite,
+    }));
+  }
+
+  /**
+   * How the selectors of the commands executed in the current context
+   * resolved, in order.
+   */
+  public get selectorResolutions(): readonly SelectorResolution[] {
+    return this.resolutions;
+  }
+
+  /**
+   * Records which entry of a command's selector chain found its element,
+   * under the selector as written so that runs with different variable
+   * values count towards the same chain.
+   * A command that succeeded without locating its element is not recorded.
+   */
+  private recordResolution(command: OxtestCommand, result: ExecutionResult): void {
+    const selector = command.writtenSelector ?? command.selector;
+    if (!selector || (result.success && !this.resolved && !result.refined)) {
+      return;
+    }
+
+    const written = (selector: { strategy: string; value: string }): string =>
+      `${selector.strategy}=${selector.value}`;
+    let outcome: SelectorOutcome = 'failed';
+    if (result.refined) {
+      outcome = 'refined';
+    } else if (this.resolved) {
+      outcome = this.resolved.fallback !== undefined ? 'fallback' : 'primary';
+    }
+    this.resolutions.push({
+      command: command.type,
+      selector: written(selector),
+      fallbacks: selector.fallbacks.map(written),
+      outcome,
+      ...(outcome === 'fallback' && { fallback: this.resolved!.fallback }),
+      duration: this.resolved?.duration ?? result.duration,
+    });
+  }
+
+  /**
+   * Takes the screenshot the recording's screenshot mode asks for after a step,
+   * named after the step, e.g. checkout-step-3-click.png.
+   */
+  private async captureStep(command: OxtestCommand, page: Page, success: boolean): Promise<void> {
+    this.steps++;
+    const mode = this.recording?.screenshot ?? 'off';
+    if (mode === 'off' || (mode === 'on-failure' && success)) {
+      return;
+    }
+
+    const screenshotPath = this.artifactPath(`-step-${this.steps}-${command.type}.png`);
+    try {
+      await page.screenshot({ path: screenshotPath });
+      this.screenshots.push({
+        path: screenshotPath,
+        step: this.steps,
+        command: command.toString(),
+      });
+    } catch (error) {
+      // A missing screenshot must not change the outcome of the step
+      if (this.verbose) {
+        console.log(`      ⚠️  Screenshot failed: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Path of a recording file: the recording's name with a suffix, in its directory.
+   */
+  private artifactPath(suffix: string): string {
+    return path.join(this.recording!.dir, `${this.recording!.name}${suffix}`);
   }
 
   /**
@@ -117,35 +440,75 @@ export class PlaywrightExecutor {
   }
 
   /**
-   * Executes a single command with retry logic.
+   * Evaluates the condition of an if block against the current page.
+   * Unlike commands, conditions are not retried: an element that cannot be
+   * found simply makes visible/exists false and hidden true.
+   */
+  public async evaluateCondition(condition: BlockCondition): Promise<boolean> {
+    if (!this.page) {
+      throw new Error('Executor not initialized. Call initialize() first.');
+    }
+
+    if (condition.type === 'url') {
+      return new RegExp(condition.pattern!).test(this.page.url());
+    }
+
+    let element: Locator;
+    try {
+      element = await this.selector.locate(this.scope!.frame ?? this.page, condition.selector!, {
+        timeout: this.stepPolicy.timeout,
+      });
+    } catch {
+      return condition.type === 'hidden';
+    }
+
+    switch (condition.type) {
+      case 'exists':
+        return true;
+      case 'visible':
+        return element.isVisible();
+      case 'hidden':
+        return !(await element.isVisible());
+    }
+  }
+
+  /**
+   * Executes a single command, retrying it as its step policy says.
    */
   private async executeCommand(
     command: OxtestCommand,
     page: Page
-  ): Promise<{ refined: boolean; refinedCommand?: OxtestCommand }> {
-    const maxRetries = 3;
+  ): Promise<{
+    refined: boolean;
+    refinedCommand?: OxtestCommand;
+    variables?: Record<string, string>;
+  }> {
+    const policy = this.commandPolicy(command);
+    const maxRetries = policy.retries + 1;
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
+      this.resolved = undefined;
       try {
         if (this.verbose && attempt > 0) {
           console.log(`      🔄 Retry attempt ${attempt + 1}/${maxRetries} for: ${command.type}`);
         }
-        await this.executeCommandOnce(command, page);
+        const variables = await this.executeCommandOnce(command, page);
         if (this.verbose) {
           console.log(`      ✅ Command executed successfully: ${command.type}`);
         }
-        return { refined: false }; // Success without refinement
+        return { refined: false, variables }; // Success without refinement
       } catch (error) {
         lastError = error as Error;
         if (this.verbose) {
           console.log(`      ❌ Attempt ${attempt + 1} failed: ${lastError.message}`);
         }
         if (attempt < maxRetries - 1) {
+          const pause = retryPause(policy, attempt + 1);
           if (this.verbose) {
-            console.log(`      ⏳ Waiting 1s before retry...`);
+            console.log(`      ⏳ Waiting ${pause}ms before retry...`);
           }
-          await page.waitForTimeout(1000); // Wait before retry
+          await page.waitForTimeout(pause);
         }
       }
     }
@@ -155,7 +518,11 @@ export class PlaywrightExecutor {
     }
 
     // If selector refinement is available and this is a selector-based command, try to refine
-    if (this.refinementService && command.selector && this.isElementNotFoundError(lastError!)) {
+    if (
+      this.refinementService &&
+      command.selector &&
+      (lastError instanceof AmbiguousSelectorError || this.isElementNotFoundError(lastError!))
+    ) {
       if (this.verbose) {
         console.log(`      🔧 Attempting selector refinement with LLM...`);
       }
@@ -170,12 +537,13 @@ export class PlaywrightExecutor {
         }
 
         // Try the refined command
-        await this.executeCommandOnce(refinedCommand, page);
+        this.resolved = undefined;
+        const variables = await this.executeCommandOnce(refinedCommand, page);
 
         if (this.verbose) {
           console.log(`      ✅ Refined selector succeeded!`);
         }
-        return { refined: true, refinedCommand }; // Success with refinement
+        return { refined: true, refinedCommand, variables }; // Success with refinement
       } catch (refinementError) {
         if (this.verbose) {
           console.log(
@@ -191,91 +559,669 @@ export class PlaywrightExecutor {
 
   /**
    * Executes a command once (no retry).
+   *
+   * @returns Variables captured by the command, if any
    */
-  private async executeCommandOnce(command: OxtestCommand, page: Page): Promise<void> {
+  private async executeCommandOnce(
+    command: OxtestCommand,
+    page: Page
+  ): Promise<Record<string, string> | undefined> {
     switch (command.type) {
+      // Navigation
       case 'navigate':
         await page.goto(command.params.url!);
         break;
 
+      case 'goBack':
+        await page.goBack();
+        break;
+
+      case 'goForward':
+        await page.goForward();
+        break;
+
+      case 'reload':
+        await page.reload();
+        break;
+
+      // Interaction
       case 'click':
-        if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          await locator.click();
-        }
+        await (await this.locate(command, page)).click(this.clickOptions(command));
+        break;
+
+      case 'doubleClick':
+        await (await this.locate(command, page)).dblclick(this.clickOptions(command));
+        break;
+
+      case 'rightClick':
+        await (
+          await this.locate(command, page)
+        ).click({
+          ...this.clickOptions(command),
+          button: 'right',
+        });
         break;
 
       case 'fill':
-        if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          await locator.fill(command.params.value!);
+        await (await this.locate(command, page)).fill(command.params.value!);
+        break;
+
+      case 'type': {
+        const locator = await this.locate(command, page);
+        const value = String(command.params.value ?? '');
+        if (command.params.delay !== undefined) {
+          await locator.pressSequentially(value, {
+            delay: this.toNumber(command.params.delay, 'delay'),
+          });
+        } else {
+          await locator.type(value);
         }
         break;
+      }
 
-      case 'type':
+      case 'press': {
+        // Without a selector the key goes to whatever has focus, e.g. Control+A in an editor
+        const key = String(command.params.key || 'Enter');
         if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          await locator.type(command.params.value!);
+          await (await this.locate(command, page)).press(key);
+        } else {
+          await page.keyboard.press(key);
         }
         break;
+      }
 
-      case 'press':
-        if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          await locator.press(String(command.params.key || 'Enter'));
+      case 'check':
+        await (await this.locate(command, page)).check();
+        break;
+
+      case 'uncheck':
+        await (await this.locate(command, page)).uncheck();
+        break;
+
+      case 'selectOption': {
+        const locator = await this.locate(command, page);
+        if (command.params.index !== undefined) {
+          await locator.selectOption({ index: this.toNumber(command.params.index, 'index') });
+        } else if (command.params.value !== undefined) {
+          await locator.selectOption(String(command.params.value));
+        } else {
+          throw new Error('selectOption requires a value or index parameter');
         }
         break;
+      }
 
       case 'hover':
+        await (await this.locate(command, page)).hover();
+        break;
+
+      case 'drag': {
+        const source = await this.locate(command, page);
+        const target = await this.selector.locate(
+          this.scope?.frame ?? page,
+          SelectorSpec.parse(String(command.params.to))!,
+          this.locateOptions(command)
+        );
+        await source.dragTo(target);
+        break;
+      }
+
+      case 'scrollIntoView':
+        await (await this.locate(command, page)).scrollIntoViewIfNeeded();
+        break;
+
+      case 'scroll': {
+        // The wheel scrolls whatever is under the mouse
         if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          await locator.hover();
+          await (await this.locate(command, page)).hover();
+        }
+        const { x, y } = this.coordinates(command.params.by, 'by');
+        await page.mouse.wheel(x, y);
+        break;
+      }
+
+      case 'focus':
+        await (await this.locate(command, page)).focus();
+        break;
+
+      case 'blur':
+        await (await this.locate(command, page)).blur();
+        break;
+
+      case 'clear':
+        await (await this.locate(command, page)).clear();
+        break;
+
+      case 'upload':
+        await (
+          await this.locate(command, page)
+        ).setInputFiles(
+          String(command.params.file)
+            .split(',')
+            .map(file => sourcePath(command, file.trim()))
+        );
+        break;
+
+      // Assertions
+      case 'assertVisible':
+        await (await this.locate(command, page)).waitFor({ state: 'visible' });
+        break;
+
+      case 'assertHidden': {
+        let locator: Locator;
+        try {
+          locator = await this.locate(command, page);
+        } catch {
+          // An element that is not in the DOM at all counts as hidden
+          break;
+        }
+        await locator.waitFor({ state: 'hidden' });
+        break;
+      }
+
+      case 'assertText': {
+        const locator = await this.locate(command, page);
+        const text = await locator.textContent();
+        const expected = command.params.value;
+        if (text !== expected) {
+          throw new Error(`Expected text "${expected}", got "${text}"`);
+        }
+        break;
+      }
+
+      case 'assertValue': {
+        const locator = await this.locate(command, page);
+        const value = await locator.inputValue();
+        const expected = String(command.params.value ?? '');
+        if (value !== expected) {
+          throw new Error(`Expected value "${expected}", got "${value}"`);
+        }
+        break;
+      }
+
+      case 'assertEnabled':
+        if (!(await (await this.locate(command, page)).isEnabled())) {
+          throw new Error('Expected element to be enabled, but it is disabled');
         }
         break;
 
-      case 'wait':
+      case 'assertDisabled':
+        if (!(await (await this.locate(command, page)).isDisabled())) {
+          throw new Error('Expected element to be disabled, but it is enabled');
+        }
+        break;
+
+      case 'assertChecked':
+        if (!(await (await this.locate(command, page)).isChecked())) {
+          throw new Error('Expected element to be checked, but it is unchecked');
+        }
+        break;
+
+      case 'assertUnchecked':
+        if (await (await this.locate(command, page)).isChecked()) {
+          throw new Error('Expected element to be unchecked, but it is checked');
+        }
+        break;
+
+      case 'assertUrl': {
+        const pattern = String(command.params.pattern || '');
+        const url = page.url();
+        if (pattern && !new RegExp(pattern).test(url)) {
+          throw new Error(`URL ${url} does not match pattern ${pattern}`);
+        }
+        break;
+      }
+
+      case 'assertTitle': {
+        const title = await page.title();
+        if (command.params.pattern !== undefined) {
+          const pattern = String(command.params.pattern);
+          if (!new RegExp(pattern).test(title)) {
+            throw new Error(`Title "${title}" does not match pattern ${pattern}`);
+          }
+        } else if (command.params.value !== undefined) {
+          const expected = String(command.params.value);
+          if (title !== expected) {
+            throw new Error(`Expected title "${expected}", got "${title}"`);
+          }
+        } else {
+          throw new Error('assertTitle requires a value or pattern parameter');
+        }
+        break;
+      }
+
+      // Variables
+      case 'storeText': {
+        const text = await (await this.locate(command, page)).textContent();
+        return { [String(command.params.as)]: (text ?? '').trim() };
+      }
+
+      case 'storeValue': {
+        const value = await (await this.locate(command, page)).inputValue();
+        return { [String(command.params.as)]: value };
+      }
+
+      case 'storeAttribute': {
+        const attribute = String(command.params.attribute);
+        const value = await (await this.locate(command, page)).getAttribute(attribute);
+        if (value === null) {
+          throw new Error(`Attribute "${attribute}" not found on element`);
+        }
+        return { [String(command.params.as)]: value };
+      }
+
+      case 'expectDownload': {
+        const download = await this.downloads.expectDownload(
+          this.timeoutParam(command, DEFAULT_WAIT_TIMEOUT)
+        );
+        return { [String(command.params.as)]: download.path };
+      }
+
+      // Utility
+      case 'wait': {
         const timeout =
           typeof command.params.timeout === 'number'
             ? command.params.timeout
             : parseInt(String(command.params.timeout || '1000'));
         await page.waitForTimeout(timeout);
         break;
+      }
 
       case 'waitForSelector':
+        await this.locate(command, page);
+        break;
+
+      case 'screenshot': {
+        const screenshotPath = String(command.params.path || `screenshot-${Date.now()}.png`);
         if (command.selector) {
-          await this.selector.locate(page, command.selector);
+          await (await this.locate(command, page)).screenshot({ path: screenshotPath });
+        } else {
+          await page.screenshot({
+            path: screenshotPath,
+            fullPage: String(command.params.fullPage) === 'true',
+          });
         }
         break;
+      }
 
-      case 'assertVisible':
-        if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          await locator.waitFor({ state: 'visible' });
+      case 'setViewport':
+        await page.setViewportSize({
+          width: this.toNumber(command.params.width, 'width'),
+          height: this.toNumber(command.params.height, 'height'),
+        });
+        break;
+
+      // Tabs and frames
+      case 'switchFrame':
+        if (command.params.frame === 'main') {
+          this.scope!.switchToMainFrame();
+        } else {
+          await this.scope!.switchFrame(await this.locate(command, page));
         }
         break;
 
-      case 'assertText':
-        if (command.selector) {
-          const locator = await this.selector.locate(page, command.selector);
-          const text = await locator.textContent();
-          const expected = command.params.value;
-          if (text !== expected) {
-            throw new Error(`Expected text "${expected}", got "${text}"`);
-          }
+      case 'expectPopup':
+        await this.scope!.expectPopup(
+          this.timeoutParam(command, DEFAULT_WAIT_TIMEOUT),
+          command.params.as !== undefined ? String(command.params.as) : undefined
+        );
+        break;
+
+      case 'switchTab':
+        await this.scope!.switchTab({
+          index:
+            command.params.index !== undefined
+              ? this.toNumber(command.params.index, 'index')
+              : undefined,
+          name: command.params.name !== undefined ? String(command.params.name) : undefined,
+        });
+        break;
+
+      case 'closeTab':
+        await this.scope!.closeTab();
+        break;
+
+      // Dialogs: a page stalls until its dialog is answered, so the answer is
+      // queued before the step that opens the dialog
+      case 'acceptDialog':
+        this.dialogs.respondToNext({
+          accept: true,
+          text: command.params.text !== undefined ? String(command.params.text) : undefined,
+        });
+        break;
+
+      case 'dismissDialog':
+        this.dialogs.respondToNext({ accept: false });
+        break;
+
+      // Cookies and storage: localStorage belongs to the page's origin, so
+      // it is read and written in the page rather than the current frame
+      case 'setCookie':
+        await this.context!.addCookies([this.cookieParam(command, page)]);
+        break;
+
+      case 'clearCookies':
+        await this.context!.clearCookies(
+          command.params.name !== undefined ? { name: String(command.params.name) } : undefined
+        );
+        break;
+
+      case 'assertCookie': {
+        const name = String(command.params.name);
+        const cookie = (await this.context!.cookies()).find(c => c.name === name);
+        if (!cookie) {
+          throw new Error(`Expected cookie "${name}", but it is not set`);
+        }
+        const expected = command.params.value;
+        if (expected !== undefined && cookie.value !== String(expected)) {
+          throw new Error(`Expected cookie "${name}" to be "${expected}", got "${cookie.value}"`);
         }
         break;
+      }
 
-      case 'assertUrl':
-        const pattern = String(command.params.pattern || '');
-        const url = page.url();
-        if (pattern && !new RegExp(pattern).test(url)) {
-          throw new Error(`URL ${url} does not match pattern ${pattern}`);
+      case 'setLocalStorage':
+        await page.evaluate(
+          ([key, value]) => localStorage.setItem(key, value),
+          [String(command.params.key), String(command.params.value)]
+        );
+        break;
+
+      case 'assertLocalStorage': {
+        const key = String(command.params.key);
+        const value = await page.evaluate(item => localStorage.getItem(item), key);
+        if (value === null) {
+          throw new Error(`Expected localStorage key "${key}", but it is not set`);
+        }
+        const expected = command.params.value;
+        if (expected !== undefined && value !== String(expected)) {
+          throw new Error(`Expected localStorage "${key}" to be "${expected}", got "${value}"`);
         }
         break;
+      }
+
+      case 'clearStorage':
+        await page.evaluate(() => {
+          localStorage.clear();
+          sessionStorage.clear();
+        });
+        break;
+
+      // API requests go through the context's request context, so they
+      // share cookies with the pages in both directions
+      case 'http': {
+        const response = await this.http.send({
+          method: String(command.params.method ?? 'GET').toUpperCase(),
+          url: this.httpUrl(String(command.params.url), page),
+          headers:
+            command.params.headers !== undefined ? String(command.params.headers) : undefined,
+          json: command.params.json !== undefined ? String(command.params.json) : undefined,
+          jsonFile:
+            command.params.json_file !== undefined
+              ? sourcePath(command, String(command.params.json_file))
+              : undefined,
+          body: command.params.body !== undefined ? String(command.params.body) : undefined,
+          timeout: this.timeoutParam(command, DEFAULT_WAIT_TIMEOUT),
+        });
+        return command.params.as !== undefined
+          ? { [String(command.params.as)]: response.body }
+          : undefined;
+      }
+
+      case 'assertHttp': {
+        const value = this.http.expectResponse({
+          status:
+            command.params.status !== undefined
+              ? this.toNumber(command.params.status, 'status')
+              : undefined,
+          jsonPath:
+            command.params.json_path !== undefined ? String(command.params.json_path) : undefined,
+          value: command.params.value !== undefined ? String(command.params.value) : undefined,
+          exists:
+            command.params.exists !== undefined
+              ? String(command.params.exists) !== 'false'
+              : undefined,
+        });
+        return command.params.as !== undefined && value !== undefined
+          ? { [String(command.params.as)]: value }
+          : undefined;
+      }
+
+      // Network: routes belong to the context, so they cover popups and tabs
+      // too. Handlers registered later run first, so a delay can fall back
+      // to a mock registered before it
+      case 'mockRoute': {
+        const status =
+          command.params.status !== undefined
+            ? this.toNumber(command.params.status, 'status')
+            : 200;
+        const contentType =
+          command.params.content_type !== undefined
+            ? String(command.params.content_type)
+            : undefined;
+        const response =
+          command.params.body_file !== undefined
+            ? {
+                status,
+                contentType,
+                path: sourcePath(command, String(command.params.body_file)),
+              }
+            : { status, contentType, body: String(command.params.body ?? '') };
+        await this.context!.route(String(command.params.url), route => route.fulfill(response));
+        break;
+      }
+
+      case 'blockRoute':
+        await this.context!.route(String(command.params.url), route => route.abort());
+        break;
+
+      case 'delayRoute': {
+        const ms = this.toNumber(command.params.ms, 'ms');
+        await this.context!.route(String(command.params.url), async route => {
+          await new Promise(resolve => setTimeout(resolve, ms));
+          await route.fallback();
+        });
+        break;
+      }
+
+      case 'unroute':
+        if (command.params.url !== undefined) {
+          await this.context!.unroute(String(command.params.url));
+        } else {
+          await this.context!.unrouteAll({ behavior: 'ignoreErrors' });
+        }
+        break;
+
+      case 'assertRequest':
+        await this.network.expectRequest(
+          {
+            url: String(command.params.url),
+            method: command.params.method !== undefined ? String(command.params.method) : undefined,
+            bodyContains:
+              command.params.body_contains !== undefined
+                ? String(command.params.body_contains)
+                : undefined,
+          },
+          this.timeoutParam(command, DEFAULT_ASSERTION_TIMEOUT)
+        );
+        break;
+
+      case 'assertResponse':
+      case 'waitResponse':
+        await this.network.expectResponse(
+          {
+            url: String(command.params.url),
+            status:
+              command.params.status !== undefined
+                ? this.toNumber(command.params.status, 'status')
+                : undefined,
+          },
+          this.timeoutParam(
+            command,
+            command.type === 'waitResponse' ? DEFAULT_WAIT_TIMEOUT : DEFAULT_ASSERTION_TIMEOUT
+          )
+        );
+        break;
+
+      case 'assertDownload':
+        await this.downloads.expectDownloadMatching(
+          {
+            name: command.params.name !== undefined ? String(command.params.name) : undefined,
+            sizeGreaterThan:
+              command.params.size_gt !== undefined
+                ? this.toNumber(command.params.size_gt, 'size_gt')
+                : undefined,
+          },
+          this.timeoutParam(command, DEFAULT_ASSERTION_TIMEOUT)
+        );
+        break;
+
+      case 'assertDialog':
+        await this.dialogs.expectDialog(
+          String(command.params.message),
+          this.timeoutParam(command, DEFAULT_ASSERTION_TIMEOUT)
+        );
+        break;
 
       default:
         throw new Error(`Unsupported command type: ${command.type}`);
     }
+
+    return undefined;
+  }
+
+  /**
+   * Locates the element targeted by a command.
+   *
+   * @throws Error if the command has no selector or the element cannot be found
+   */
+  private async locate(command: OxtestCommand, page: Page): Promise<Locator> {
+    if (!command.selector) {
+      throw new Error(`${command.type} requires a selector`);
+    }
+    this.resolved = await this.selector.resolve(
+      this.scope?.frame ?? page,
+      command.selector,
+      this.locateOptions(command)
+    );
+    return this.resolved.locator;
+  }
+
+  /**
+   * The step policy with the command's own timeout, retries and wait_for.
+   * An http step that changes data is not retried unless it sets retries.
+   *
+   * @throws Error if one of them is invalid
+   */
+  private commandPolicy(command: OxtestCommand): StepPolicy {
+    const policy = resolveStepPolicy(this.stepPolicy, stepPolicyFromParams(command.params));
+    if (
+      command.type === 'http' &&
+      command.params.retries === undefined &&
+      !RETRYABLE_HTTP_METHODS.includes(String(command.params.method ?? 'GET').toUpperCase())
+    ) {
+      return { ...policy, retries: 0 };
+    }
+    return policy;
+  }
+
+  /**
+   * How long to wait for the element of a command and for which state. Only
+   * interactions wait for the policy's state unless the command asks for
+   * one: assertions such as assert_hidden check the state themselves.
+   */
+  private locateOptions(command: OxtestCommand): LocateOptions {
+    const policy = this.commandPolicy(command);
+    const state =
+      command.params.wait_for !== undefined || command.isInteractionCommand()
+        ? policy.waitFor
+        : 'attached';
+    return { timeout: policy.timeout, state };
+  }
+
+  /**
+   * Reads the modifiers and position parameters of the click commands.
+   */
+  private clickOptions(command: OxtestCommand): ClickOptions {
+    const options: ClickOptions = {};
+    if (command.params.modifiers !== undefined) {
+      options.modifiers = String(command.params.modifiers)
+        .split(',')
+        .map(modifier => modifier.trim()) as ClickOptions['modifiers'];
+    }
+    if (command.params.position !== undefined) {
+      options.position = this.coordinates(command.params.position, 'position');
+    }
+    return options;
+  }
+
+  /**
+   * Converts an `<x>,<y>` parameter such as position=10,5.
+   *
+   * @throws Error if either coordinate is not a number
+   */
+  private coordinates(value: unknown, name: string): { x: number; y: number } {
+    const [x, y] = String(value).split(',');
+    return { x: this.toNumber(x, name), y: this.toNumber(y, name) };
+  }
+
+  /**
+   * Reads the cookie a set_cookie command sets. Without a domain it is set
+   * for the origin of the current page, which must have been navigated to.
+   *
+   * @throws Error if there is neither a domain nor a page URL to derive one from
+   */
+  private cookieParam(command: OxtestCommand, page: Page): CookieInit {
+    const cookie: CookieInit = {
+      name: String(command.params.name),
+      value: String(command.params.value),
+      ...(command.params.expires !== undefined && {
+        expires: this.toNumber(command.params.expires, 'expires'),
+      }),
+    };
+    const cookiePath = String(command.params.path ?? '/');
+    if (command.params.domain !== undefined) {
+      return { ...cookie, domain: String(command.params.domain), path: cookiePath };
+    }
+    if (!/^https?:/.test(page.url())) {
+      throw new Error('set_cookie needs a domain before the first navigate');
+    }
+    return { ...cookie, url: new URL(cookiePath, page.url()).href };
+  }
+
+  /**
+   * Resolves the url of an http step against the current page.
+   *
+   * @throws Error if the url is relative and no page has been navigated to
+   */
+  private httpUrl(url: string, page: Page): string {
+    if (/^https?:\/\//.test(url)) {
+      return url;
+    }
+    if (!/^https?:/.test(page.url())) {
+      throw new Error(`http needs an absolute url before the first navigate, got "${url}"`);
+    }
+    return new URL(url, page.url()).href;
+  }
+
+  /**
+   * Reads the optional timeout parameter of a command.
+   */
+  private timeoutParam(command: OxtestCommand, fallback: number): number {
+    return command.params.timeout !== undefined
+      ? this.toNumber(command.params.timeout, 'timeout')
+      : fallback;
+  }
+
+  /**
+   * Converts a numeric command parameter, which the parser delivers as a string.
+   *
+   * @throws Error if the parameter is missing or not a number
+   */
+  private toNumber(value: unknown, name: string): number {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Parameter ${name} must be a number, got "${String(value)}"`);
+    }
+    return parsed;
   }
 
   /**
@@ -329,6 +1275,9 @@ export class PlaywrightExecutor {
       },
       triedFallbacks,
       error: error.message,
+      ...(error instanceof AmbiguousSelectorError && {
+        matches: { count: error.count, candidates: [...error.candidates] },
+      }),
       pageURL: page.url(),
       pageHTML,
       action: command.type,
@@ -369,14 +1318,23 @@ export class PlaywrightExecutor {
       }));
 
     // Create a new SelectorSpec with refined selector
+    // Keep the scope: the refined selector replaces only the strategy and value
     const refinedSelector = new SelectorSpec(
       refined.primary.strategy as SelectorStrategy,
       refined.primary.value,
-      validatedFallbacks
+      validatedFallbacks,
+      undefined,
+      command.selector?.scope
     );
 
     // Create a new command with refined selector
-    return new OxtestCommand(command.type, command.params, refinedSelector);
+    return new OxtestCommand(
+      command.type,
+      command.params,
+      refinedSelector,
+      command.range,
+      command.filePath
+    );
   }
 
   /**
@@ -385,10 +1343,22 @@ export class PlaywrightExecutor {
   private getElementDescription(command: OxtestCommand): string {
     switch (command.type) {
       case 'click':
+      case 'doubleClick':
+      case 'rightClick':
         return 'clickable element (button, link, or interactive element)';
       case 'fill':
       case 'type':
+      case 'clear':
         return 'input field or text area';
+      case 'check':
+      case 'uncheck':
+      case 'assertChecked':
+      case 'assertUnchecked':
+        return 'checkbox or radio button';
+      case 'selectOption':
+        return 'select dropdown';
+      case 'assertValue':
+        return `form field with value "${command.params.value}"`;
       case 'hover':
         return 'hoverable element';
       case 'waitForSelector':
@@ -0,0 +1,62 @@
+/**
+ * When to take page screenshots during a test run.
+ */
+export type ScreenshotMode = 'off' | 'on-failure' | 'every-step';
+
+export const VALID_SCREENSHOT_MODES: readonly ScreenshotMode[] = [
+  'off',
+  'on-failure',
+  'every-step',
+];
+
+/**
+ * What to record while a test runs in a browser context. Files are
+ * written to `dir`, named after `name` (e.g. checkout-row-2-trace.zip).
+ */
+export interface RecordingOptions {
+  readonly dir: string;
+  readonly name: string;
+  readonly screenshot?: ScreenshotMode;
+  /** Record a video of the page */
+  readonly video?: boolean;
+  /** Record a Playwright trace, viewable with `npx playwright show-trace` */
+  readonly trace?: boolean;
+  /** Record the network traffic to a HAR file */
+  readonly har?: boolean;
+}
+
+/**
+ * A file recorded for a whole run, such as its trace or video.
+ */
+export interface RecordedFile {
+  readonly name: string;
+  readonly path: string;
+  readonly contentType: string;
+}
+
+/**
+ * A screenshot taken after a step, with the command the step ran.
+ */
+export interface StepScreenshot {
+  readonly path: string;
+  /** 1-based number of the step in the context */
+  readonly step: number;
+  readonly command: string;
+}
+
+/**
+ * Everything recorded while a browser context was open.
+ */
+export interface RecordedArtifacts {
+  /** Step screenshots, in the order the steps ran */
+  readonly screenshots: StepScreenshot[];
+  readonly files: RecordedFile[];
+}
+
+/**
+ * Reads the screenshot mode from the environment (see .env.example):
+ * SCREENSHOT_ON_FAILURE=true turns on screenshots of failed steps.
+ */
+export function screenshotModeFromEnv(env: NodeJS.ProcessEnv = process.env): ScreenshotMode {
+  return env.SCREENSHOT_ON_FAILURE === 'true' ? 'on-failure' : 'off';
+}
@@ -11,19 +11,87 @@ export class OxtestPromptBuilder {
 
 Oxtest Language Syntax:
 - navigate url=<URL>
-- click <selector>
-- type <selector> value=<text>
+- go_back
+- go_forward
+- reload
+- click <selector> (optionally modifiers=Shift,Control and position=<x>,<y>)
+- double_click <selector>
+- right_click <selector>
+- type <selector> value=<text> (optionally delay=<ms> between keys, for editors that react to each key)
+- fill <selector> value=<text>
+- clear <selector>
+- check <selector>
+- uncheck <selector>
+- select_option <selector> value=<option value>
 - hover <selector>
-- keypress key=<key>
+- focus <selector>
+- press <selector> key=<key>
+- press key=<keys> (without a selector, to the focused element, e.g., press key=Control+A)
+- drag from=<selector> to=<selector> (e.g., drag from=text="Task 1" to=css=.column-done)
+- scroll_into_view <selector>
+- scroll by=<x>,<y> (mouse wheel in pixels, e.g., scroll by=0,500; add a selector to scroll inside an element)
 - wait timeout=<ms>
 - wait_navigation timeout=<ms>
 - wait_for <selector> timeout=<ms>
 - assert_exists <selector>
 - assert_not_exists <selector>
 - assert_visible <selector>
+- assert_hidden <selector>
 - assert_text <selector> value=<expected>
 - assert_value <selector> value=<expected>
+- assert_enabled <selector>
+- assert_disabled <selector>
+- assert_checked <selector>
+- assert_unchecked <selector>
 - assert_url pattern=<regex>
+- assert_title value=<expected>
+- store_text <selector> as=<name>
+- store_value <selector> as=<name>
+- store_attribute <selector> attribute=<attr> as=<name>
+
+Files:
+- upload <selector> file=<path> (several files separated by commas, e.g., upload css=input[type=file] file=a.pdf,b.pdf)
+- expect_download as=<name> (after the step that starts a download; stores the saved file's path)
+- assert_download name=<glob> size_gt=<bytes> (e.g., assert_download name=report-*.pdf size_gt=1000)
+
+Tabs and Frames (payment forms often live in iframes or popups):
+- switch_frame <selector> (e.g., switch_frame css=iframe[name="card-fields"]; later commands act inside the iframe)
+- switch_frame main (back to the page itself)
+- expect_popup as=<name> (after the step that opens a popup or tab; switches to it)
+- switch_tab index=<n> or switch_tab name=<name> (e.g., switch_tab index=0 returns to the first tab)
+- close_tab (closes the current tab and returns to the one that opened it)
+
+Dialogs (alert, confirm, prompt; unanswered dialogs are dismissed):
+- accept_dialog text=<answer> (BEFORE the step that opens the dialog; text only for prompts)
+- dismiss_dialog (BEFORE the step that opens the dialog)
+- assert_dialog message=<text> (after it, e.g., assert_dialog message="Are you sure you want to delete?")
+
+Cookies and Storage (consent banners, feature flags and A/B buckets are often set this way):
+- set_cookie name=<name> value=<value> (for the current page; add domain=<domain> to set it before navigating)
+- clear_cookies (or clear_cookies name=<name> for one cookie)
+- assert_cookie name=<name> value=<value> (without value, only checks that the cookie exists)
+- set_local_storage key=<key> value=<value> (e.g., set_local_storage key=consent value=accepted, then reload)
+- assert_local_storage key=<key> value=<value>
+- clear_storage (clears localStorage and sessionStorage)
+
+API Requests (to create or check test data without long UI flows; they share the browser's cookies):
+- http method=<method> url=<url> json=<json> as=<name> (url relative to the current page, e.g., http method=POST url=/api/products json='{"name":"Blue T-Shirt"}')
+- http method=POST url=<url> json_file=<path> (body from a JSON file instead of json)
+- assert_http status=<code> (checks the latest http response)
+- assert_http json_path=<path> exists / value=<expected> / as=<name> (e.g., assert_http status=201 json_path=$.id as=productId, then navigate url=/products/\${productId})
+
+Network (only when the task asks to fake backend responses or check requests):
+- mock_route url=<glob> status=<code> body=<text> (or body_file=<path> instead of body)
+- block_route url=<glob> (e.g., block_route url=**/*.png)
+- delay_route url=<glob> ms=<milliseconds>
+- unroute url=<glob> (without url, removes all of them)
+- assert_request url=<glob> method=<method> body_contains=<text> (e.g., assert_request url=**/api/order method=POST)
+- assert_response url=<glob> status=<code>
+- wait_response url=<glob> status=<code>
+
+Variables:
+- Values captured with store_* can be reused as \${name} in any parameter or selector
+  (e.g., store_text css=.order-id as=orderId, then assert_text css=.confirmation value=\${orderId})
 
 Selector Strategies:
 - css=<selector> (e.g., css=button.submit)
@@ -31,9 +99,19 @@ Selector Strategies:
 - text="<text>" (e.g., text="Login")
 - placeholder="<text>" (e.g., placeholder="Enter email")
 - label="<text>" (e.g., label="Email")
+- alt="<text>" (e.g., alt="Company logo")
+- title="<text>" (e.g., title="Close dialog")
 - role=<role> (e.g., role=button)
+- role=<role>[name="<accessible name>"] (e.g., role=button[name="Sign in"], add [exact] for an exact match)
+- role=<role>[level=<n>] / role=<role>[checked=true|false] (e.g., role=heading[level=2])
 - testid=<id> (e.g., testid=submit-btn)
 
+Narrowing Selectors (when several elements match; a selector matching more than one element fails in strict mode):
+- Chain with >> to search inside another element (e.g., click css=.row >> text="Add to cart")
+- hasText="<text>" keeps elements containing the text (e.g., click css=.row hasText="Blue T-Shirt")
+- has=<selector> keeps elements containing a match (e.g., click css=.card has=css=.sale-badge)
+- nth=<n> picks a match by zero-based index, -1 for the last (e.g., click css=.result nth=2)
+
 Fallback Selectors:
 - click text="Login" fallback=css=button[type="submit"]
 
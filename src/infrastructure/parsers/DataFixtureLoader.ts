@@ -0,0 +1,176 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'yaml';
+
+/**
+ * One row of a data fixture: column name to value.
+ */
+export type DataRow = Readonly<Record<string, string>>;
+
+/**
+ * Thrown when a data fixture cannot be read or has the wrong shape.
+ */
+export class DataFixtureError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string
+  ) {
+    super(`${filePath}: ${message}`);
+    this.name = 'DataFixtureError';
+    Object.setPrototypeOf(this, DataFixtureError.prototype);
+  }
+}
+
+/**
+ * Loads the rows a data-driven test runs with, from CSV (first line is the
+ * header), or from JSON or YAML holding a list of objects.
+ */
+export class DataFixtureLoader {
+  /**
+   * Reads a fixture file; the format follows the extension.
+   *
+   * @param filePath Path to a .csv, .json, .yaml or .yml file
+   * @returns At least one row
+   * @throws DataFixtureError if the file cannot be read or parsed
+   */
+  public async loadFile(filePath: string): Promise<DataRow[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new DataFixtureError(`Cannot read data file: ${(error as Error).message}`, filePath);
+    }
+
+    const extension = path.extname(filePath).toLowerCase();
+    try {
+      switch (extension) {
+        case '.csv':
+          return this.requireRows(this.parseCsv(content), filePath);
+        case '.json':
+          return this.requireRows(this.toRows(JSON.parse(content)), filePath);
+        case '.yaml':
+        case '.yml':
+          return this.requireRows(this.toRows(yaml.parse(content)), filePath);
+        default:
+          throw new Error(`Unsupported data file type: ${extension || '(none)'}`);
+      }
+    } catch (error) {
+      if (error instanceof DataFixtureError) {
+        throw error;
+      }
+      throw new DataFixtureError((error as Error).message, filePath);
+    }
+  }
+
+  /**
+   * Parses CSV with a header line. Fields may be quoted with ", doubling
+   * quotes inside; blank lines are skipped.
+   */
+  public parseCsv(content: string): DataRow[] {
+    const records = this.csvRecords(content.replace(/^\uFEFF/, ''));
+    if (records.length === 0) {
+      return [];
+    }
+
+    const [header, ...rows] = records;
+    if (header.some(column => column.trim() === '')) {
+      throw new Error('CSV header has an empty column name');
+    }
+
+    return rows.map((values, index) => {
+      if (values.length !== header.length) {
+        throw new Error(
+          `CSV row ${index + 1} has ${values.length} values, expected ${header.length}`
+        );
+      }
+      return Object.fromEntries(header.map((column, i) => [column.trim(), values[i]]));
+    });
+  }
+
+  /**
+   * Converts parsed JSON or YAML into rows. Values that are not strings
+   * are written as JSON, so numbers and booleans keep their text.
+   */
+  public toRows(data: unknown): DataRow[] {
+    if (!Array.isArray(data)) {
+      throw new Error('Data must be a list of objects');
+    }
+
+    return data.map((item, index) => {
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        throw new Error(`Row ${index + 1} must be an object`);
+      }
+      return Object.fromEntries(
+        Object.entries(item as Record<string, unknown>).map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value : value === null ? '' : JSON.stringify(value),
+        ])
+      );
+    });
+  }
+
+  private requireRows(rows: DataRow[], filePath: string): DataRow[] {
+    if (rows.length === 0) {
+      throw new DataFixtureError('Data file has no rows', filePath);
+    }
+    return rows;
+  }
+
+  /**
+   * Splits CSV content into records of fields.
+   */
+  private csvRecords(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    let i = 0;
+
+    const endRecord = (): void => {
+      record.push(field);
+      if (record.length > 1 || record[0] !== '') {
+        records.push(record);
+      }
+      record = [];
+      field = '';
+    };
+
+    while (i < content.length) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        endRecord();
+      } else {
+        field += char;
+      }
+      i++;
+    }
+
+    if (quoted) {
+      throw new Error('CSV has an unterminated quoted field');
+    }
+    if (field !== '' || record.length > 0) {
+      endRecord();
+    }
+
+    return records;
+  }
+}
@@ -1,9 +1,48 @@
-import { OxtestCommand } from '../../domain/entities/OxtestCommand';
-import { SelectorSpec } from '../../domain/entities/SelectorSpec';
-import { CommandType, isValidCommandType } from '../../domain/enums/CommandType';
+import { OxtestCommand, VARIABLE_NAME_PATTERN } from '../../domain/entities/OxtestCommand';
+import { SelectorScope, SelectorSpec } from '../../domain/entities/SelectorSpec';
+import {
+  COMMAND_DOCS,
+  CommandType,
+  isCaptureCommand,
+  isValidCommandType,
+} from '../../domain/enums/CommandType';
 import { SelectorStrategy } from '../../domain/enums/SelectorStrategy';
+import { parseJsonPath } from '../executors/JsonPath';
+import { DiagnosticCode, SourceRange } from '../../domain/interfaces/OxtestDiagnostic';
+import { stepPolicyFromParams } from '../../domain/interfaces/StepPolicy';
 import { Token } from './OxtestTokenizer';
 
+/**
+ * Keys that can be held while clicking (modifiers=Shift,Control).
+ */
+const CLICK_MODIFIERS = ['Alt', 'Control', 'ControlOrMeta', 'Meta', 'Shift'];
+
+/**
+ * Matches `<x>,<y>` pairs such as position=10,5 and by=0,500.
+ */
+const COORDINATES_PATTERN = /^-?\d+,-?\d+$/;
+
+/**
+ * Methods an http step can send.
+ */
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/**
+ * Syntax error with a diagnostic code, so the error-tolerant parse mode
+ * can report it without matching on the message.
+ */
+export class OxtestSyntaxError extends Error {
+  constructor(
+    public readonly code: DiagnosticCode,
+    public readonly detail: string,
+    message: string = detail
+  ) {
+    super(message);
+    this.name = 'OxtestSyntaxError';
+    Object.setPrototypeOf(this, OxtestSyntaxError.prototype);
+  }
+}
+
 /**
  * Parses tokenized Oxtest commands into domain OxtestCommand entities.
  */
@@ -13,73 +52,168 @@ export class OxtestCommandParser {
    *
    * @param tokens Array of tokens from tokenizer
    * @param lineNumber Line number for error messages
+   * @param range Source range to record on the command
+   * @param filePath File to record on the command, when parsing a file
    * @returns Parsed OxtestCommand entity
-   * @throws Error if parsing fails or validation fails
+   * @throws OxtestSyntaxError if parsing fails or validation fails
    */
-  public parse(tokens: Token[], lineNumber: number): OxtestCommand {
+  public parse(
+    tokens: Token[],
+    lineNumber: number,
+    range?: SourceRange,
+    filePath?: string
+  ): OxtestCommand {
     if (tokens.length === 0) {
-      throw new Error(`Line ${lineNumber}: No tokens to parse`);
+      throw new OxtestSyntaxError(
+        'syntax-error',
+        'No tokens to parse',
+        `Line ${lineNumber}: No tokens to parse`
+      );
     }
 
     const commandToken = tokens[0];
     if (commandToken.type !== 'COMMAND') {
-      throw new Error(`Line ${lineNumber}: Expected command token`);
+      throw new OxtestSyntaxError(
+        'syntax-error',
+        'Expected command token',
+        `Line ${lineNumber}: Expected command token`
+      );
     }
 
     const commandName = commandToken.value!;
     if (!isValidCommandType(commandName as CommandType)) {
-      throw new Error(`Unknown command: ${commandName} at line ${lineNumber}`);
+      throw new OxtestSyntaxError(
+        'unknown-command',
+        `Unknown command: ${commandName}`,
+        `Unknown command: ${commandName} at line ${lineNumber}`
+      );
     }
 
     const selectorToken = tokens.find(t => t.type === 'SELECTOR');
     const paramTokens = tokens.filter(t => t.type === 'PARAM');
 
-    const selector = selectorToken ? this.buildSelector(selectorToken) : undefined;
     const params = this.buildParams(paramTokens);
+    let selector = selectorToken
+      ? this.buildSelector(
+          selectorToken,
+          this.takeScopeParams(params, COMMAND_DOCS[commandName as CommandType].params)
+        )
+      : undefined;
+    if (commandName === 'drag') {
+      selector = this.takeDragSource(params, selector, lineNumber);
+    }
 
     this.validateCommand(commandName as CommandType, selector, params, lineNumber);
 
-    return new OxtestCommand(commandName as CommandType, params, selector);
+    return new OxtestCommand(commandName as CommandType, params, selector, range, filePath);
   }
 
   /**
-   * Builds a SelectorSpec from a selector token (with fallbacks).
+   * Builds a SelectorSpec from a selector token, with its fallbacks and the
+   * selectors it is chained to.
+   *
+   * @param token Selector token
+   * @param scope Filters and index for the selector (see takeScopeParams)
    */
-  private buildSelector(token: Token): SelectorSpec {
-    const strategy = token.strategy! as SelectorStrategy;
-    const value = token.value!;
-
-    let spec = new SelectorSpec(strategy, value);
-
-    // Build fallback chain
-    if (token.fallback) {
-      const fallbackSpec = this.buildSelector(token.fallback);
-      spec = new SelectorSpec(strategy, value, [
-        {
-          strategy: fallbackSpec.strategy,
-          value: fallbackSpec.value,
-        },
-      ]);
-
-      // Add nested fallbacks if any
-      if (fallbackSpec.fallbacks && fallbackSpec.fallbacks.length > 0) {
-        spec = new SelectorSpec(strategy, value, [
-          {
-            strategy: fallbackSpec.strategy,
-            value: fallbackSpec.value,
-          },
-          ...fallbackSpec.fallbacks,
-        ]);
+  public buildSelector(token: Token, scope: SelectorScope = {}): SelectorSpec {
+    const fallbacks: { strategy: SelectorStrategy; value: string }[] = [];
+    for (let fallback = token.fallback; fallback; fallback = fallback.fallback) {
+      fallbacks.push({ strategy: fallback.strategy as SelectorStrategy, value: fallback.value! });
+    }
+
+    return new SelectorSpec(
+      token.strategy as SelectorStrategy,
+      token.value!,
+      fallbacks,
+      undefined,
+      {
+        ...scope,
+        ...(token.parent && { parent: this.buildSelector(token.parent) }),
+      }
+    );
+  }
+
+  /**
+   * Moves the parameters that narrow a selector out of params:
+   * `hasText=<text>`, `has=<strategy>=<value>` and `nth=<n>` (or `index=<n>`).
+   * Keys the command documents as its own, like select_option's index, stay.
+   *
+   * @param params Command parameters; the selector parameters are removed
+   * @param own Parameter keys that belong to the command
+   * @returns Scope for the command's selector
+   */
+  public takeScopeParams(
+    params: Record<string, string>,
+    own: readonly string[] = []
+  ): SelectorScope {
+    const take = (key: string): string | undefined => {
+      const value = own.includes(key) ? undefined : params[key];
+      if (value !== undefined) {
+        delete params[key];
+      }
+      return value;
+    };
+
+    const hasText = take('hasText');
+    const has = take('has');
+    const index = take('index');
+    const nth = take('nth') ?? index;
+
+    const scope: { -readonly [K in keyof SelectorScope]: SelectorScope[K] } = {};
+    if (hasText !== undefined) {
+      scope.hasText = hasText;
+    }
+    if (has !== undefined) {
+      const spec = SelectorSpec.parse(has);
+      if (!spec) {
+        throw new Error(`has must be a selector such as has=css=.price, got "${has}"`);
+      }
+      scope.has = spec;
+    }
+    if (nth !== undefined) {
+      if (!/^-?\d+$/.test(nth)) {
+        throw new Error(`nth must be an integer, got "${nth}"`);
       }
+      scope.nth = Number(nth);
     }
+    return scope;
+  }
 
-    return spec;
+  /**
+   * Turns the from parameter of drag into the command's selector, so the
+   * element dragged is located like any other. The target stays in `to`.
+   *
+   * @param params Command parameters; from is removed
+   * @param selector Selector written without from, e.g. `drag css=.card to=…`
+   */
+  private takeDragSource(
+    params: Record<string, string>,
+    selector: SelectorSpec | undefined,
+    line: number
+  ): SelectorSpec | undefined {
+    const from = params.from;
+    if (from === undefined) {
+      return selector;
+    }
+    delete params.from;
+    if (selector) {
+      throw this.validationError('syntax-error', 'drag takes from or a selector, not both', line);
+    }
+    const source = SelectorSpec.parse(from);
+    if (!source) {
+      throw this.validationError(
+        'syntax-error',
+        `from must be a selector such as from=css=.card, got "${from}"`,
+        line
+      );
+    }
+    return source;
   }
 
   /**
    * Builds command parameters from param tokens.
    */
-  private buildParams(tokens: Token[]): Record<string, string> {
+  public buildParams(tokens: Token[]): Record<string, string> {
     const params: Record<string, string> = {};
     for (const token of tokens) {
       if (token.key) {
@@ -101,25 +235,361 @@ export class OxtestCommandParser {
     // Commands that require selectors
     const needsSelector: CommandType[] = [
       'click',
+      'doubleClick',
+      'rightClick',
       'fill',
+      'type',
+      'check',
+      'uncheck',
+      'selectOption',
       'hover',
+      'focus',
+      'blur',
+      'clear',
       'assertVisible',
+      'assertHidden',
       'assertText',
       'assertValue',
+      'assertEnabled',
+      'assertDisabled',
+      'assertChecked',
+      'assertUnchecked',
+      'storeText',
+      'storeValue',
+      'storeAttribute',
       'waitForSelector',
+      'upload',
+      'scrollIntoView',
     ];
 
     if (needsSelector.includes(command) && !selector) {
-      throw new Error(`Line ${line}: ${command} requires a selector`);
+      throw this.validationError('missing-selector', `${command} requires a selector`, line);
     }
 
     // Validate required parameters
     if (command === 'navigate' && !params.url) {
-      throw new Error(`Line ${line}: Missing required parameter: url`);
+      throw this.validationError('missing-parameter', 'Missing required parameter: url', line);
     }
 
     if (command === 'fill' && !params.value) {
-      throw new Error(`Line ${line}: Missing required parameter: value for fill command`);
+      throw this.validationError(
+        'missing-parameter',
+        'Missing required parameter: value for fill command',
+        line
+      );
+    }
+
+    if (isCaptureCommand(command) && !params.as) {
+      throw this.validationError(
+        'missing-parameter',
+        `Missing required parameter: as for ${command} command`,
+        line
+      );
+    }
+
+    if (command === 'switchFrame') {
+      if (params.frame !== undefined && params.frame !== 'main') {
+        throw this.validationError(
+          'syntax-error',
+          `Unknown frame: ${params.frame}. Use a selector for an iframe, or main`,
+          line
+        );
+      }
+      if (!selector && params.frame === undefined) {
+        throw this.validationError(
+          'missing-selector',
+          'switchFrame requires a selector for an iframe, or main',
+          line
+        );
+      }
+    }
+
+    if (command === 'switchTab' && (params.index === undefined) === (params.name === undefined)) {
+      throw this.validationError(
+        'missing-parameter',
+        'switchTab requires either index or name',
+        line
+      );
+    }
+
+    if (command === 'upload' && !params.file) {
+      throw this.validationError(
+        'missing-parameter',
+        'Missing required parameter: file for upload',
+        line
+      );
+    }
+
+    if (command === 'drag') {
+      if (!selector) {
+        throw this.validationError(
+          'missing-parameter',
+          'Missing required parameter: from for drag',
+          line
+        );
+      }
+      if (params.to === undefined) {
+        throw this.validationError(
+          'missing-parameter',
+          'Missing required parameter: to for drag',
+          line
+        );
+      }
+      if (!SelectorSpec.parse(params.to)) {
+        throw this.validationError(
+          'syntax-error',
+          `to must be a selector such as to=css=.column, got "${params.to}"`,
+          line
+        );
+      }
+    }
+
+    if (command === 'scroll' && !COORDINATES_PATTERN.test(params.by ?? '')) {
+      throw this.validationError(
+        'missing-parameter',
+        'scroll requires by=<x>,<y> in pixels, e.g. by=0,500',
+        line
+      );
+    }
+
+    if (params.position !== undefined && !COORDINATES_PATTERN.test(params.position)) {
+      throw this.validationError(
+        'syntax-error',
+        `position must be <x>,<y>, e.g. position=10,5, got "${params.position}"`,
+        line
+      );
     }
+
+    const unknownModifier = params.modifiers
+      ?.split(',')
+      .map(modifier => modifier.trim())
+      .find(modifier => !CLICK_MODIFIERS.includes(modifier));
+    if (unknownModifier !== undefined) {
+      throw this.validationError(
+        'syntax-error',
+        `Unknown modifier: ${unknownModifier}. Expected one of: ${CLICK_MODIFIERS.join(', ')}`,
+        line
+      );
+    }
+
+    // Values read from variables can only be checked when the command runs
+    try {
+      stepPolicyFromParams(
+        Object.fromEntries(Object.entries(params).filter(([, value]) => !value.includes('${')))
+      );
+    } catch (error) {
+      throw this.validationError('syntax-error', (error as Error).message, line);
+    }
+
+    if (command === 'assertDialog' && params.message === undefined) {
+      throw this.validationError(
+        'missing-parameter',
+        'Missing required parameter: message for assertDialog',
+        line
+      );
+    }
+
+    if (command === 'storeAttribute' && !params.attribute) {
+      throw this.validationError(
+        'missing-parameter',
+        'Missing required parameter: attribute for storeAttribute',
+        line
+      );
+    }
+
+    if ((command === 'setCookie' || command === 'assertCookie') && !params.name) {
+      throw this.validationError(
+        'missing-parameter',
+        `Missing required parameter: name for ${command}`,
+        line
+      );
+    }
+
+    if ((command === 'setLocalStorage' || command === 'assertLocalStorage') && !params.key) {
+      throw this.validationError(
+        'missing-parameter',
+        `Missing required parameter: key for ${command}`,
+        line
+      );
+    }
+
+    if ((command === 'setCookie' || command === 'setLocalStorage') && params.value === undefined) {
+      throw this.validationError(
+        'missing-parameter',
+        `Missing required parameter: value for ${command}`,
+        line
+      );
+    }
+
+    if (command === 'setViewport' && (!params.width || !params.height)) {
+      throw this.validationError(
+        'missing-parameter',
+        'Missing required parameters: width and height for setViewport',
+        line
+      );
+    }
+
+    const urlCommands: CommandType[] = [
+      'http',
+      'mockRoute',
+      'blockRoute',
+      'delayRoute',
+      'assertRequest',
+      'assertResponse',
+      'waitResponse',
+    ];
+    if (urlCommands.includes(command) && !params.url) {
+      throw this.validationError(
+        'missing-parameter',
+        `Missing required parameter: url for ${command}`,
+        line
+      );
+    }
+
+    if (command === 'delayRoute' && !params.ms) {
+      throw this.validationError(
+        'missing-parameter',
+        'Missing required parameter: ms for delayRoute',
+        line
+      );
+    }
+
+    if (command === 'mockRoute' && params.body !== undefined && params.body_file !== undefined) {
+      throw this.validationError(
+        'syntax-error',
+        'mockRoute takes body or body_file, not both',
+        line
+      );
+    }
+
+    if (command === 'http') {
+      this.validateHttp(params, line);
+    }
+
+    if (command === 'assertHttp') {
+      this.validateAssertHttp(params, line);
+    }
+
+    if (
+      (command === 'http' || command === 'assertHttp') &&
+      params.as !== undefined &&
+      !VARIABLE_NAME_PATTERN.test(params.as)
+    ) {
+      throw this.validationError(
+        'syntax-error',
+        `as must be a variable name (letters, digits, underscore), got "${params.as}"`,
+        line
+      );
+    }
+  }
+
+  /**
+   * Checks the method and body of an http step. Values read from variables
+   * can only be checked when the step runs.
+   */
+  private validateHttp(params: Record<string, string>, line: number): void {
+    const method = params.method;
+    if (
+      method !== undefined &&
+      !method.includes('${') &&
+      !HTTP_METHODS.includes(method.toUpperCase())
+    ) {
+      throw this.validationError(
+        'syntax-error',
+        `method must be one of: ${HTTP_METHODS.join(', ')}, got "${method}"`,
+        line
+      );
+    }
+
+    const bodies = ['json', 'json_file', 'body'].filter(key => params[key] !== undefined);
+    if (bodies.length > 1) {
+      throw this.validationError(
+        'syntax-error',
+        `http takes one of json, json_file or body, got ${bodies.join(' and ')}`,
+        line
+      );
+    }
+
+    for (const key of ['json', 'headers']) {
+      const value = params[key];
+      if (value === undefined || value.includes('${')) {
+        continue;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        throw this.validationError('syntax-error', `${key} must be valid JSON`, line);
+      }
+      if (key === 'headers' && (parsed === null || typeof parsed !== 'object')) {
+        throw this.validationError(
+          'syntax-error',
+          'headers must be a JSON object, e.g. headers=\'{"X-Api-Key":"${API_KEY}"}\'',
+          line
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks that an assert_http step has something to assert, and that the
+   * parts of the body it names are valid JSON paths.
+   */
+  private validateAssertHttp(params: Record<string, string>, line: number): void {
+    if (params.status === undefined && params.json_path === undefined) {
+      throw this.validationError(
+        'missing-parameter',
+        'assertHttp requires status or json_path',
+        line
+      );
+    }
+
+    if (params.status !== undefined && !/^\d{3}$/.test(params.status)) {
+      throw this.validationError(
+        'syntax-error',
+        `status must be an HTTP status code, got "${params.status}"`,
+        line
+      );
+    }
+
+    if (params.json_path === undefined) {
+      const orphan = ['value', 'exists', 'as'].find(key => params[key] !== undefined);
+      if (orphan) {
+        throw this.validationError(
+          'missing-parameter',
+          `${orphan} needs a json_path to apply to`,
+          line
+        );
+      }
+      return;
+    }
+
+    try {
+      parseJsonPath(params.json_path);
+    } catch (error) {
+      throw this.validationError('syntax-error', (error as Error).message, line);
+    }
+
+    if (params.exists !== undefined && params.exists !== 'true' && params.exists !== 'false') {
+      throw this.validationError(
+        'syntax-error',
+        `exists must be true or false, got "${params.exists}"`,
+        line
+      );
+    }
+    if (params.exists === 'false' && (params.value !== undefined || params.as !== undefined)) {
+      throw this.validationError(
+        'syntax-error',
+        'exists=false cannot be combined with value or as',
+        line
+      );
+    }
+  }
+
+  /**
+   * Builds a validation error with the usual `Line N:` prefix.
+   */
+  private validationError(code: DiagnosticCode, detail: string, line: number): OxtestSyntaxError {
+    return new OxtestSyntaxError(code, detail, `Line ${line}: ${detail}`);
   }
 }
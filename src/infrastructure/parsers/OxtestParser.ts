@@ -1,7 +1,179 @@
 import * as fs from 'fs/promises';
+import * as path from 'path';
 import { OxtestCommand } from '../../domain/entities/OxtestCommand';
-import { OxtestTokenizer } from './OxtestTokenizer';
-import { OxtestCommandParser } from './OxtestCommandParser';
+import {
+  BlockCondition,
+  CallBlock,
+  ConditionType,
+  ForEachBlock,
+  IfBlock,
+  OxtestNode,
+  Procedure,
+  RepeatBlock,
+  isBlock,
+  parseListValue,
+} from '../../domain/entities/OxtestBlock';
+import { SelectorSpec } from '../../domain/entities/SelectorSpec';
+import {
+  DialogPolicy,
+  TaskMetadata,
+  VALID_DIALOG_POLICIES,
+} from '../../domain/interfaces/TaskMetadata';
+import { STEP_POLICY_PARAMS, stepPolicyFromParams } from '../../domain/interfaces/StepPolicy';
+import {
+  DiagnosticCode,
+  OxtestDiagnostic,
+  SourceRange,
+} from '../../domain/interfaces/OxtestDiagnostic';
+import { LineScan, PositionedToken, Token, OxtestTokenizer } from './OxtestTokenizer';
+import { OxtestCommandParser, OxtestSyntaxError } from './OxtestCommandParser';
+
+/**
+ * Keywords that open, split or close a control flow block,
+ * or that only make sense in a tree (includes, procedures).
+ */
+const BLOCK_KEYWORDS = [
+  'if',
+  'else',
+  'end',
+  'repeat',
+  'forEach',
+  'within',
+  'include',
+  'define',
+  'call',
+];
+
+/**
+ * Keywords that open a block closed by `end`.
+ */
+const OPENING_KEYWORDS = ['if', 'repeat', 'forEach', 'within', 'define'];
+
+/**
+ * Diagnostic code for errors on block lines that carry no code of their own.
+ */
+const KEYWORD_CODES: Record<string, DiagnosticCode> = {
+  if: 'invalid-block',
+  else: 'invalid-block',
+  end: 'invalid-block',
+  repeat: 'invalid-block',
+  forEach: 'invalid-block',
+  within: 'invalid-block',
+  define: 'invalid-block',
+  call: 'invalid-call',
+  include: 'include-error',
+};
+
+/**
+ * Number of words after the keyword that a line consumes as raw text
+ * (condition, procedure name, path) rather than as tokens.
+ */
+const RAW_WORDS: Record<string, number> = {
+  if: 1,
+  call: 1,
+  define: Infinity,
+  include: Infinity,
+};
+
+/**
+ * Metadata headers a file may declare before its first command.
+ */
+const METADATA_HEADERS = [
+  'tags',
+  'timeout',
+  'retries',
+  'priority',
+  'viewport',
+  'owner',
+  'data',
+  'auth',
+  'dialogs',
+  'step',
+];
+
+/**
+ * Matches `@name value` metadata header lines.
+ */
+const HEADER_PATTERN = /^\s*@(\S*)\s*(.*?)\s*$/;
+
+/**
+ * Matches `include <path>` lines; the path may be quoted.
+ */
+const INCLUDE_PATTERN = /^\s*include\s+(['"]?)(.+?)\1\s*$/;
+
+/**
+ * Matches the signature of `define name(param, ...)`.
+ */
+const DEFINE_PATTERN = /^(\S+?)\s*(?:\(([^)]*)\))?$/;
+
+/**
+ * Thrown when a file-based parse fails. Points at the file and line
+ * where the problem is, which may be an included file.
+ */
+export class OxtestParseError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+    public readonly lineNumber: number
+  ) {
+    super(`${filePath}: Line ${lineNumber}: ${message}`);
+    this.name = 'OxtestParseError';
+    Object.setPrototypeOf(this, OxtestParseError.prototype);
+  }
+}
+
+/**
+ * Result of an error-tolerant parse.
+ */
+export interface OxtestParseResult {
+  /** Everything that parsed; lines with errors are left out */
+  readonly nodes: readonly OxtestNode[];
+
+  /** Metadata declared by `@name value` headers */
+  readonly metadata: Partial<TaskMetadata>;
+
+  /** Every problem found, in source order per file */
+  readonly diagnostics: readonly OxtestDiagnostic[];
+}
+
+/**
+ * A parsed test file: its metadata headers and its commands and blocks.
+ */
+export interface OxtestDocument {
+  readonly metadata: Partial<TaskMetadata>;
+  readonly nodes: readonly OxtestNode[];
+}
+
+/**
+ * A block whose end line has not been reached yet.
+ * Closing a define registers a procedure and yields no node;
+ * closing a within yields its scoped body.
+ */
+interface OpenBlock {
+  readonly keyword: string;
+  readonly lineNumber: number;
+  readonly body: OxtestNode[];
+  elseBody?: OxtestNode[];
+  close(body: OxtestNode[], elseBody?: OxtestNode[]): readonly OxtestNode[];
+}
+
+/**
+ * State shared by every file of one parse.
+ */
+interface ParseScope {
+  /** File being parsed, absent for plain content */
+  readonly filePath?: string;
+  /** Contents of included files, keyed by absolute path */
+  readonly files: ReadonlyMap<string, string>;
+  /** Procedures defined so far, with the file:line that defined them */
+  readonly procedures: Map<string, { procedure: Procedure; origin: string }>;
+  /** Files being parsed, outermost first, to detect include cycles */
+  readonly chain: readonly string[];
+  /** Collects problems instead of throwing, in error-tolerant mode */
+  readonly diagnostics?: OxtestDiagnostic[];
+  /** Metadata headers of the root file */
+  readonly metadata: { -readonly [K in keyof TaskMetadata]?: TaskMetadata[K] };
+}
 
 /**
  * Parses complete .ox.test files into arrays of OxtestCommand entities.
@@ -24,21 +196,132 @@ export class OxtestParser {
    *
    * @param filePath Path to the .ox.test file
    * @returns Array of parsed OxtestCommand entities
-   * @throws Error if file cannot be read or parsing fails
+   * @throws OxtestParseError pointing at the file and line of a syntax error
+   * @throws Error if file cannot be read
    */
   public async parseFile(filePath: string): Promise<readonly OxtestCommand[]> {
+    let content: string;
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return this.parseContent(content);
+      content = await fs.readFile(filePath, 'utf-8');
     } catch (error) {
-      const err = error as NodeJS.ErrnoException;
-      if (err.code === 'ENOENT') {
-        throw new Error(`File not found: ${filePath}`);
-      } else if (err.code === 'EACCES') {
-        throw new Error(`Permission denied: ${filePath}`);
-      }
-      throw new Error(`Failed to read file ${filePath}: ${err.message}`);
+      throw this.toFileError(error, filePath);
+    }
+    return this.parseCommands(content, this.createScope(filePath));
+  }
+
+  /**
+   * Parses an .ox.test file that may contain control flow blocks,
+   * includes and procedures.
+   *
+   * @param filePath Path to the .ox.test file
+   * @returns Tree of commands and blocks
+   * @throws OxtestParseError pointing at the file and line of a syntax error
+   * @throws Error if file cannot be read
+   */
+  public async parseFileTree(filePath: string): Promise<readonly OxtestNode[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw this.toFileError(error, filePath);
     }
+    return this.parseSourceTree(content, filePath);
+  }
+
+  /**
+   * Parses Oxtest content that belongs to a file, so that includes
+   * resolve relative to that file.
+   *
+   * @param content The Oxtest file content
+   * @param filePath Path the content was (or will be) saved to
+   * @returns Tree of commands and blocks
+   * @throws OxtestParseError pointing at the file and line of a syntax error
+   */
+  public async parseSourceTree(content: string, filePath: string): Promise<readonly OxtestNode[]> {
+    return (await this.parseSourceDocument(content, filePath)).nodes;
+  }
+
+  /**
+   * Parses an .ox.test file together with its metadata headers
+   * (`@tags`, `@timeout`, `@retries`, `@priority`, `@viewport`, `@owner`).
+   *
+   * @param filePath Path to the .ox.test file
+   * @returns Metadata and tree of commands and blocks
+   * @throws OxtestParseError pointing at the file and line of a syntax error
+   * @throws Error if file cannot be read
+   */
+  public async parseDocument(filePath: string): Promise<OxtestDocument> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw this.toFileError(error, filePath);
+    }
+    return this.parseSourceDocument(content, filePath);
+  }
+
+  /**
+   * Parses Oxtest content that belongs to a file together with its
+   * metadata headers.
+   *
+   * @param content The Oxtest file content
+   * @param filePath Path the content was (or will be) saved to
+   * @returns Metadata and tree of commands and blocks
+   * @throws OxtestParseError pointing at the file and line of a syntax error
+   */
+  public async parseSourceDocument(content: string, filePath: string): Promise<OxtestDocument> {
+    const files = new Map<string, string>();
+    await this.loadIncludes(filePath, content, [], files, false);
+    const scope = this.createScope(filePath, files);
+    const nodes = this.buildTree(content, scope);
+    return { metadata: scope.metadata, nodes };
+  }
+
+  /**
+   * Parses Oxtest content without stopping at the first problem.
+   * Lines with errors are skipped; unknown tokens are reported as warnings.
+   *
+   * @param content The Oxtest file content
+   * @returns Parsed tree and every diagnostic
+   */
+  public parseWithDiagnostics(content: string): OxtestParseResult {
+    const diagnostics: OxtestDiagnostic[] = [];
+    const scope = this.createScope(undefined, new Map(), diagnostics);
+    const nodes = this.buildTree(content, scope);
+    return { nodes, metadata: scope.metadata, diagnostics };
+  }
+
+  /**
+   * Parses Oxtest content that belongs to a file without stopping at the
+   * first problem. Includes resolve relative to the file; problems in
+   * included files carry their filePath.
+   *
+   * @param content The Oxtest file content
+   * @param filePath Path the content was (or will be) saved to
+   * @returns Parsed tree and every diagnostic
+   */
+  public async parseSourceWithDiagnostics(
+    content: string,
+    filePath: string
+  ): Promise<OxtestParseResult> {
+    const files = new Map<string, string>();
+    const diagnostics: OxtestDiagnostic[] = [];
+    await this.loadIncludes(filePath, content, [], files, true);
+    const scope = this.createScope(filePath, files, diagnostics);
+    const nodes = this.buildTree(content, scope);
+    return { nodes, metadata: scope.metadata, diagnostics };
+  }
+
+  /**
+   * Returns the file an include line points to, or undefined if the line
+   * is not an include.
+   *
+   * @param line The source line
+   * @param fromFile Path of the file containing the line
+   */
+  public resolveIncludeLine(line: string, fromFile: string): string | undefined {
+    const match = INCLUDE_PATTERN.exec(this.stripComment(line, this.tokenizer.scan(line)));
+    return match ? this.resolveInclude(fromFile, match[2]) : undefined;
   }
 
   /**
@@ -49,6 +332,13 @@ export class OxtestParser {
    * @throws Error if parsing fails (with line numbers)
    */
   public parseContent(content: string): readonly OxtestCommand[] {
+    return this.parseCommands(content, this.createScope());
+  }
+
+  /**
+   * Parses content into a flat command list.
+   */
+  private parseCommands(content: string, scope: ParseScope): readonly OxtestCommand[] {
     const lines = content.split('\n');
     const commands: OxtestCommand[] = [];
 
@@ -57,25 +347,869 @@ export class OxtestParser {
       const lineNumber = i + 1;
 
       try {
-        const tokens = this.tokenizer.tokenize(line);
+        const scan = this.tokenizer.scan(line);
+        const tokens = this.knownTokens(scan);
 
         // Skip empty lines and comments
         if (tokens.length === 0) {
           continue;
         }
 
-        const command = this.commandParser.parse(tokens, lineNumber);
+        if (tokens[0].value!.startsWith('@')) {
+          this.parseHeader(this.stripComment(line, scan), commands.length > 0, scope);
+          continue;
+        }
+
+        if (BLOCK_KEYWORDS.includes(tokens[0].value!)) {
+          throw new Error(
+            `Control flow keyword "${line.trim().split(/\s+/)[0]}" is not allowed in a flat command list`
+          );
+        }
+
+        const command = this.commandParser.parse(
+          tokens,
+          lineNumber,
+          this.tokenRange(lineNumber, scan.tokens[0], scan.tokens[scan.tokens.length - 1]),
+          scope.filePath
+        );
         commands.push(command);
       } catch (error) {
-        const err = error as Error;
-        // Check if error already has line number
-        if (err.message.includes(`Line ${lineNumber}`)) {
-          throw err;
-        }
-        throw new Error(`Line ${lineNumber}: ${err.message}`);
+        throw this.toLineError(error as Error, lineNumber, scope);
       }
     }
 
     return Object.freeze(commands);
   }
+
+  /**
+   * Parses Oxtest content into a tree of commands and control flow blocks.
+   *
+   * Supported blocks (each closed by `end`):
+   * - `if visible|hidden|exists <selector>` / `if url pattern=<regex>`, optional `else`
+   * - `repeat times=<n>`
+   * - `for_each list=<variable> as=<name>` / `for_each values="a,b" as=<name>`
+   * - `within <selector>`, which scopes the selectors inside it
+   * - `define name(param, ...)`, invoked with `call name param=<value> ...`
+   *
+   * `include <path>` needs a file to resolve against; use parseFileTree.
+   *
+   * @param content The Oxtest file content
+   * @returns Tree of commands and blocks
+   * @throws Error if parsing fails (with line numbers)
+   */
+  public parseContentTree(content: string): readonly OxtestNode[] {
+    return this.buildTree(content, this.createScope());
+  }
+
+  /**
+   * Parses Oxtest content together with its metadata headers.
+   *
+   * @param content The Oxtest file content
+   * @returns Metadata and tree of commands and blocks
+   * @throws Error if parsing fails (with line numbers)
+   */
+  public parseContentDocument(content: string): OxtestDocument {
+    const scope = this.createScope();
+    const nodes = this.buildTree(content, scope);
+    return { metadata: scope.metadata, nodes };
+  }
+
+  /**
+   * Creates the shared state for a new parse.
+   */
+  private createScope(
+    filePath?: string,
+    files: ReadonlyMap<string, string> = new Map(),
+    diagnostics?: OxtestDiagnostic[]
+  ): ParseScope {
+    return {
+      filePath,
+      files,
+      procedures: new Map(),
+      chain: filePath !== undefined ? [filePath] : [],
+      diagnostics,
+      metadata: {},
+    };
+  }
+
+  /**
+   * Builds the tree for one file (or plain content) of a parse.
+   */
+  private buildTree(content: string, scope: ParseScope): readonly OxtestNode[] {
+    const lines = content.split('\n');
+    const root: OxtestNode[] = [];
+    const stack: OpenBlock[] = [];
+
+    const currentBody = (): OxtestNode[] => {
+      const top = stack[stack.length - 1];
+      return top ? (top.elseBody ?? top.body) : root;
+    };
+    let started = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const lineNumber = i + 1;
+
+      const scan = this.tokenizer.scan(line);
+      const tokens = this.knownTokens(scan);
+
+      // Skip empty lines and comments
+      if (tokens.length === 0) {
+        continue;
+      }
+
+      const keyword = tokens[0].value!;
+      const code = this.stripComment(line, scan);
+
+      try {
+        if (keyword.startsWith('@')) {
+          this.parseHeader(code, started, scope);
+          continue;
+        }
+        started = true;
+
+        if (scope.diagnostics) {
+          scope.diagnostics.push(...this.lintLine(scan, lineNumber, scope));
+        }
+
+        switch (keyword) {
+          case 'if':
+            stack.push(this.openIf(code.trim().slice(2), lineNumber));
+            break;
+          case 'repeat':
+            stack.push(this.openRepeat(tokens, lineNumber));
+            break;
+          case 'forEach':
+            stack.push(this.openForEach(tokens, lineNumber));
+            break;
+          case 'within':
+            stack.push(this.openWithin(tokens, lineNumber));
+            break;
+          case 'define':
+            if (stack.length > 0) {
+              throw new Error('define is only allowed at the top level');
+            }
+            stack.push(this.openDefine(code.trim().slice(6), lineNumber, scope));
+            break;
+          case 'call':
+            if (stack.some(block => block.keyword === 'within')) {
+              throw new Error('call is not allowed inside within');
+            }
+            currentBody().push(this.parseCall(code.trim().slice(4), scope));
+            break;
+          case 'include':
+            currentBody().push(...this.parseInclude(code, scope));
+            break;
+          case 'else': {
+            const top = stack[stack.length - 1];
+            if (!top || top.keyword !== 'if') {
+              throw new OxtestSyntaxError('unmatched-block', 'else without matching if');
+            }
+            if (top.elseBody) {
+              throw new Error(`Duplicate else for if block opened at line ${top.lineNumber}`);
+            }
+            top.elseBody = [];
+            break;
+          }
+          case 'end': {
+            const block = stack.pop();
+            if (!block) {
+              throw new OxtestSyntaxError('unmatched-block', 'end without matching block');
+            }
+            currentBody().push(...block.close(block.body, block.elseBody));
+            break;
+          }
+          default:
+            currentBody().push(
+              this.commandParser.parse(
+                tokens,
+                lineNumber,
+                this.tokenRange(lineNumber, scan.tokens[0], scan.tokens[scan.tokens.length - 1]),
+                scope.filePath
+              )
+            );
+        }
+      } catch (error) {
+        if (!scope.diagnostics) {
+          throw this.toLineError(error as Error, lineNumber, scope);
+        }
+        scope.diagnostics.push(
+          this.toDiagnostic(error as Error, keyword, scan, line, lineNumber, scope)
+        );
+
+        // Keep a stand-in for a block that failed to open, so its end still matches
+        if (
+          OPENING_KEYWORDS.includes(keyword) &&
+          stack[stack.length - 1]?.lineNumber !== lineNumber
+        ) {
+          stack.push({ keyword, lineNumber, body: [], close: () => [] });
+        }
+      }
+    }
+
+    while (stack.length > 0) {
+      const unclosed = stack.pop()!;
+      const message = `Unclosed ${unclosed.keyword} block (missing end)`;
+      if (!scope.diagnostics) {
+        throw this.toLineError(new Error(message), unclosed.lineNumber, scope);
+      }
+
+      scope.diagnostics.push({
+        severity: 'error',
+        code: 'unclosed-block',
+        message,
+        range: this.lineRange(lines[unclosed.lineNumber - 1], unclosed.lineNumber),
+        filePath: scope.filePath,
+      });
+
+      // Close it anyway so the tree keeps the commands it contains
+      try {
+        currentBody().push(...unclosed.close(unclosed.body, unclosed.elseBody));
+      } catch {
+        // Already reported when the block was opened
+      }
+    }
+
+    return Object.freeze(root);
+  }
+
+  /**
+   * Reads a `@name value` metadata header into the scope.
+   *
+   * @param line Header line without trailing comment
+   * @param afterCommands Whether a command or block came before the header
+   * @param scope Parse scope receiving the metadata
+   */
+  private parseHeader(line: string, afterCommands: boolean, scope: ParseScope): void {
+    const fail = (detail: string): never => {
+      throw new OxtestSyntaxError('invalid-metadata', detail);
+    };
+
+    const [, name, value] = HEADER_PATTERN.exec(line)!;
+    if (scope.chain.length > 1) {
+      fail('Metadata headers are not allowed in included files');
+    }
+    if (afterCommands) {
+      fail('Metadata headers must come before the first command');
+    }
+    if (!METADATA_HEADERS.includes(name)) {
+      fail(
+        `Unknown metadata header: @${name}. Expected one of: ${METADATA_HEADERS.map(h => `@${h}`).join(', ')}`
+      );
+    }
+    if (scope.metadata[name as keyof TaskMetadata] !== undefined) {
+      fail(`Duplicate metadata header: @${name}`);
+    }
+    if (value === '') {
+      fail(`@${name} requires a value`);
+    }
+
+    const integer = (min: number, description: string): number => {
+      const parsed = Number(value);
+      if (!/^-?\d+$/.test(value) || parsed < min) {
+        fail(`@${name} must be ${description}, got "${value}"`);
+      }
+      return parsed;
+    };
+
+    switch (name) {
+      case 'tags':
+        scope.metadata.tags = value.split(/[\s,]+/).filter(tag => tag !== '');
+        break;
+      case 'timeout':
+        scope.metadata.timeout = integer(1, 'a positive number of milliseconds');
+        break;
+      case 'retries':
+        scope.metadata.retries = integer(0, 'a non-negative integer');
+        break;
+      case 'priority':
+        scope.metadata.priority = integer(-Infinity, 'an integer');
+        break;
+      case 'viewport': {
+        const match = /^(\d+)x(\d+)$/.exec(value);
+        if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+          fail(`@viewport must be <width>x<height>, e.g. 1280x720, got "${value}"`);
+        }
+        scope.metadata.viewport = { width: Number(match![1]), height: Number(match![2]) };
+        break;
+      }
+      case 'owner':
+        scope.metadata.owner = value;
+        break;
+      case 'data': {
+        const file = /^(['"])(.*)\1$/.exec(value)?.[2] ?? value;
+        if (!/\.(csv|json|ya?ml)$/i.test(file)) {
+          fail(`@data must be a .csv, .json, .yaml or .yml file, got "${value}"`);
+        }
+        scope.metadata.data = file;
+        break;
+      }
+      case 'auth': {
+        const file = /^(['"])(.*)\1$/.exec(value)?.[2] ?? value;
+        if (!file.endsWith('.ox.test')) {
+          fail(`@auth must be an .ox.test file, got "${value}"`);
+        }
+        scope.metadata.auth = file;
+        break;
+      }
+      case 'dialogs':
+        if (!VALID_DIALOG_POLICIES.includes(value as DialogPolicy)) {
+          fail(`@dialogs must be accept or dismiss, got "${value}"`);
+        }
+        scope.metadata.dialogs = value as DialogPolicy;
+        break;
+      case 'step': {
+        const params: Record<string, string> = {};
+        for (const setting of value.split(/\s+/)) {
+          const [key, ...rest] = setting.split('=');
+          if (!STEP_POLICY_PARAMS.includes(key) || rest.length === 0) {
+            fail(
+              `@step takes ${STEP_POLICY_PARAMS.map(p => `${p}=`).join(', ')}, got "${setting}"`
+            );
+          }
+          params[key] = rest.join('=');
+        }
+        try {
+          scope.metadata.step = stepPolicyFromParams(params);
+        } catch (error) {
+          fail(`@step ${(error as Error).message}`);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Returns the line without its trailing `# comment`.
+   */
+  private stripComment(line: string, scan: LineScan): string {
+    return scan.comment === undefined ? line : line.slice(0, scan.comment);
+  }
+
+  /**
+   * Returns the tokens the parser acts on, leaving out UNKNOWN ones.
+   */
+  private knownTokens(scan: LineScan): Token[] {
+    return scan.tokens.filter(token => token.type !== 'UNKNOWN');
+  }
+
+  /**
+   * Finds problems on a line that do not stop it from parsing:
+   * unrecognised tokens, ignored selectors, repeated parameters and
+   * unterminated quotes.
+   */
+  private lintLine(scan: LineScan, lineNumber: number, scope: ParseScope): OxtestDiagnostic[] {
+    const diagnostics: OxtestDiagnostic[] = [];
+    const warn = (code: DiagnosticCode, message: string, token: PositionedToken): void => {
+      const range = this.tokenRange(lineNumber, token);
+      diagnostics.push({
+        severity: 'warning',
+        code,
+        message,
+        range,
+        filePath: scope.filePath,
+        fix: { description: 'Remove it', range, replacement: '' },
+      });
+    };
+
+    const [command, ...rest] = scan.tokens;
+    let rawWords = RAW_WORDS[command.value!] ?? 0;
+    let selectorSeen = false;
+    const paramsSeen = new Set<string>();
+
+    for (const token of rest) {
+      if (token.type === 'UNKNOWN') {
+        if (rawWords > 0) {
+          rawWords--;
+        } else {
+          warn('unknown-token', `Unrecognised token "${token.value}" is ignored`, token);
+        }
+      } else if (token.type === 'SELECTOR') {
+        if (selectorSeen) {
+          warn(
+            'extra-selector',
+            'Only the first selector is used; add alternatives with fallback',
+            token
+          );
+        }
+        selectorSeen = true;
+      } else if (token.type === 'PARAM') {
+        if (paramsSeen.has(token.key!)) {
+          warn(
+            'duplicate-parameter',
+            `Parameter ${token.key} is given more than once; the last value is used`,
+            token
+          );
+        }
+        paramsSeen.add(token.key!);
+      }
+    }
+
+    if (scan.unclosedQuote !== undefined) {
+      const last = scan.tokens[scan.tokens.length - 1];
+      const end: SourceRange = {
+        line: lineNumber,
+        column: last.end + 1,
+        endLine: lineNumber,
+        endColumn: last.end + 1,
+      };
+      diagnostics.push({
+        severity: 'warning',
+        code: 'unterminated-quote',
+        message: 'Unterminated quote; the value runs to the end of the line',
+        range: {
+          line: lineNumber,
+          column: scan.unclosedQuote + 1,
+          endLine: lineNumber,
+          endColumn: last.end + 1,
+        },
+        filePath: scope.filePath,
+        fix: { description: 'Close the quote', range: end, replacement: '"' },
+      });
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Converts an error on a line into a diagnostic.
+   * Unknown commands get a fix when a known command is spelled similarly.
+   */
+  private toDiagnostic(
+    err: Error,
+    keyword: string,
+    scan: LineScan,
+    line: string,
+    lineNumber: number,
+    scope: ParseScope
+  ): OxtestDiagnostic {
+    const filePath = err instanceof OxtestParseError ? err.filePath : scope.filePath;
+    const code =
+      err instanceof OxtestSyntaxError ? err.code : (KEYWORD_CODES[keyword] ?? 'syntax-error');
+    let message =
+      err instanceof OxtestSyntaxError ? err.detail : err.message.replace(/^Line \d+: /, '');
+    let range = this.lineRange(line, lineNumber);
+    let fix: OxtestDiagnostic['fix'];
+
+    if (code === 'unknown-command') {
+      const commandToken = scan.tokens[0];
+      range = this.tokenRange(lineNumber, commandToken);
+      const suggestion = this.suggestCommand(line.slice(commandToken.start, commandToken.end));
+      if (suggestion) {
+        message += `. Did you mean ${suggestion}?`;
+        fix = { description: `Replace with ${suggestion}`, range, replacement: suggestion };
+      }
+    }
+
+    return { severity: 'error', code, message, range, filePath, fix };
+  }
+
+  /**
+   * Finds the known command closest to a misspelled one, if any is close enough.
+   */
+  private suggestCommand(word: string): string | undefined {
+    const candidates = [
+      ...this.tokenizer.knownCommandNames(),
+      ...BLOCK_KEYWORDS.filter(k => k !== 'forEach'),
+      'for_each',
+    ];
+    const maxDistance = Math.max(1, Math.floor(word.length / 3));
+
+    let best: string | undefined;
+    let bestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+      const distance = editDistance(word.toLowerCase(), candidate.toLowerCase());
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Range from the start of one token to the end of another (1-based columns).
+   */
+  private tokenRange(
+    lineNumber: number,
+    first: PositionedToken,
+    last: PositionedToken = first
+  ): SourceRange {
+    return {
+      line: lineNumber,
+      column: first.start + 1,
+      endLine: lineNumber,
+      endColumn: last.end + 1,
+    };
+  }
+
+  /**
+   * Range of a whole line without surrounding whitespace.
+   */
+  private lineRange(line: string, lineNumber: number): SourceRange {
+    return {
+      line: lineNumber,
+      column: line.length - line.trimStart().length + 1,
+      endLine: lineNumber,
+      endColumn: line.trimEnd().length + 1,
+    };
+  }
+
+  /**
+   * Adds the line (and file, when known) to an error.
+   * Errors from included files already point at their own file.
+   */
+  private toLineError(err: Error, lineNumber: number, scope: ParseScope): Error {
+    if (err instanceof OxtestParseError) {
+      return err;
+    }
+    if (scope.filePath !== undefined) {
+      return new OxtestParseError(
+        err.message.replace(/^Line \d+: /, ''),
+        scope.filePath,
+        lineNumber
+      );
+    }
+    if (err.message.includes(`Line ${lineNumber}`)) {
+      return err;
+    }
+    return new Error(`Line ${lineNumber}: ${err.message}`);
+  }
+
+  /**
+   * Reads every file reachable through include lines, depth first.
+   * Fails on the include line that closes a cycle.
+   */
+  private async loadIncludes(
+    filePath: string,
+    content: string,
+    chain: string[],
+    files: Map<string, string>,
+    tolerant: boolean
+  ): Promise<void> {
+    files.set(path.resolve(filePath), content);
+    const currentChain = [...chain, filePath];
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = INCLUDE_PATTERN.exec(
+        this.stripComment(lines[i], this.tokenizer.scan(lines[i]))
+      );
+      if (!match) {
+        continue;
+      }
+
+      const includePath = this.resolveInclude(filePath, match[2]);
+      const resolved = path.resolve(includePath);
+
+      // In tolerant mode, buildTree reports cycles and missing files on the include line
+      if (currentChain.some(p => path.resolve(p) === resolved)) {
+        if (tolerant) {
+          continue;
+        }
+        throw new OxtestParseError(
+          `Circular include: ${[...currentChain, includePath].join(' -> ')}`,
+          filePath,
+          i + 1
+        );
+      }
+
+      // Already loaded through another include: its includes are known acyclic
+      if (files.has(resolved)) {
+        continue;
+      }
+
+      let included: string;
+      try {
+        included = await fs.readFile(includePath, 'utf-8');
+      } catch (error) {
+        if (tolerant) {
+          continue;
+        }
+        const err = error as NodeJS.ErrnoException;
+        throw new OxtestParseError(
+          err.code === 'ENOENT'
+            ? `Included file not found: ${includePath}`
+            : `Cannot read included file ${includePath}: ${err.message}`,
+          filePath,
+          i + 1
+        );
+      }
+
+      await this.loadIncludes(includePath, included, currentChain, files, tolerant);
+    }
+  }
+
+  /**
+   * Resolves an include target relative to the including file.
+   */
+  private resolveInclude(fromFile: string, target: string): string {
+    return path.isAbsolute(target) ? target : path.join(path.dirname(fromFile), target);
+  }
+
+  /**
+   * Parses an included file in place of its include line.
+   * The included file shares the procedures of the including one.
+   */
+  private parseInclude(line: string, scope: ParseScope): readonly OxtestNode[] {
+    const match = INCLUDE_PATTERN.exec(line);
+    if (!match) {
+      throw new Error('include requires a file path');
+    }
+    if (scope.filePath === undefined) {
+      throw new Error('include is only supported when parsing a file');
+    }
+
+    const includePath = this.resolveInclude(scope.filePath, match[2]);
+    const resolved = path.resolve(includePath);
+    if (scope.chain.some(p => path.resolve(p) === resolved)) {
+      throw new Error(`Circular include: ${[...scope.chain, includePath].join(' -> ')}`);
+    }
+
+    const content = scope.files.get(resolved);
+    if (content === undefined) {
+      throw new Error(`Included file not found: ${includePath}`);
+    }
+
+    return this.buildTree(content, {
+      ...scope,
+      filePath: includePath,
+      chain: [...scope.chain, includePath],
+    });
+  }
+
+  /**
+   * Opens a procedure definition: `define name(param, ...)`.
+   * Defining the same procedure twice is an error, unless it is the same
+   * definition reached again through another include.
+   */
+  private openDefine(signature: string, lineNumber: number, scope: ParseScope): OpenBlock {
+    const match = DEFINE_PATTERN.exec(signature.trim());
+    if (!match) {
+      throw new Error('define requires a procedure name, e.g. define login(user, pass)');
+    }
+
+    const name = match[1];
+    const params = (match[2] ?? '')
+      .split(',')
+      .map(param => param.trim())
+      .filter(param => param !== '');
+    const origin = `${scope.filePath ?? ''}:${lineNumber}`;
+
+    // Validate the signature now rather than at end
+    new Procedure(name, params, []);
+
+    const existing = scope.procedures.get(name);
+    if (existing && existing.origin !== origin) {
+      throw new Error(`Procedure ${name} is already defined at ${existing.origin}`);
+    }
+
+    return {
+      keyword: 'define',
+      lineNumber,
+      body: [],
+      close: body => {
+        if (!existing) {
+          scope.procedures.set(name, { procedure: new Procedure(name, params, body), origin });
+        }
+        return [];
+      },
+    };
+  }
+
+  /**
+   * Parses a procedure call from the text following the `call` keyword.
+   * Procedures must be defined (or included) before they are called.
+   */
+  private parseCall(callText: string, scope: ParseScope): CallBlock {
+    const name = callText.trim().split(/\s+/)[0];
+    if (!name) {
+      throw new Error('call requires a procedure name');
+    }
+
+    const defined = scope.procedures.get(name);
+    if (!defined) {
+      throw new OxtestSyntaxError('unknown-procedure', `Unknown procedure: ${name}`);
+    }
+
+    const tokens = this.tokenizer.tokenize(callText);
+    const args = this.commandParser.buildParams(tokens.filter(t => t.type === 'PARAM'));
+    return new CallBlock(defined.procedure, args);
+  }
+
+  /**
+   * Opens an if block from the text following the `if` keyword.
+   */
+  private openIf(conditionText: string, lineNumber: number): OpenBlock {
+    const tokens = this.tokenizer.tokenize(conditionText);
+    if (tokens.length === 0) {
+      throw new Error('if requires a condition (visible, hidden, exists or url)');
+    }
+
+    const selectorToken = tokens.find(t => t.type === 'SELECTOR');
+    const params = this.commandParser.buildParams(tokens.filter(t => t.type === 'PARAM'));
+    const condition = new BlockCondition(
+      tokens[0].value as ConditionType,
+      selectorToken
+        ? this.commandParser.buildSelector(
+            selectorToken,
+            this.commandParser.takeScopeParams(params, ['pattern'])
+          )
+        : undefined,
+      params.pattern
+    );
+
+    return {
+      keyword: 'if',
+      lineNumber,
+      body: [],
+      close: (body, elseBody) => [new IfBlock(condition, body, elseBody)],
+    };
+  }
+
+  /**
+   * Opens a repeat block: `repeat times=<n>`.
+   */
+  private openRepeat(tokens: Token[], lineNumber: number): OpenBlock {
+    const params = this.commandParser.buildParams(tokens.filter(t => t.type === 'PARAM'));
+    if (params.times === undefined) {
+      throw new Error('repeat requires a times parameter');
+    }
+
+    const times = Number(params.times);
+    if (!Number.isInteger(times) || times < 0) {
+      throw new Error(`repeat times must be a non-negative integer, got "${params.times}"`);
+    }
+
+    return {
+      keyword: 'repeat',
+      lineNumber,
+      body: [],
+      close: body => [new RepeatBlock(times, body)],
+    };
+  }
+
+  /**
+   * Opens a for_each block: `for_each list=<variable> as=<name>`
+   * or `for_each values="a,b,c" as=<name>`.
+   */
+  private openForEach(tokens: Token[], lineNumber: number): OpenBlock {
+    const params = this.commandParser.buildParams(tokens.filter(t => t.type === 'PARAM'));
+    if (!params.as) {
+      throw new Error('for_each requires an as parameter');
+    }
+    if (!params.list && params.values === undefined) {
+      throw new Error('for_each requires a list or values parameter');
+    }
+
+    const source = {
+      listVariable: params.list,
+      values: params.values !== undefined ? parseListValue(params.values) : undefined,
+    };
+
+    return {
+      keyword: 'for_each',
+      lineNumber,
+      body: [],
+      close: body => [new ForEachBlock(params.as, source, body)],
+    };
+  }
+
+  /**
+   * Opens a within block: `within <selector>`. Commands and conditions in
+   * the block search inside the element the selector finds. The block
+   * leaves no node of its own: closing it scopes every selector in its body.
+   */
+  private openWithin(tokens: Token[], lineNumber: number): OpenBlock {
+    const selectorToken = tokens.find(t => t.type === 'SELECTOR');
+    if (!selectorToken) {
+      throw new OxtestSyntaxError('missing-selector', 'within requires a selector');
+    }
+
+    const params = this.commandParser.buildParams(tokens.filter(t => t.type === 'PARAM'));
+    const container = this.commandParser.buildSelector(
+      selectorToken,
+      this.commandParser.takeScopeParams(params)
+    );
+
+    return {
+      keyword: 'within',
+      lineNumber,
+      body: [],
+      close: body => this.scopeNodes(body, container),
+    };
+  }
+
+  /**
+   * Copies nodes with every selector searching inside the container.
+   * Procedure bodies are shared between calls, so calls cannot be scoped.
+   */
+  private scopeNodes(nodes: readonly OxtestNode[], container: SelectorSpec): OxtestNode[] {
+    return nodes.map(node => {
+      if (!isBlock(node)) {
+        return new OxtestCommand(
+          node.type,
+          node.params,
+          node.selector?.within(container),
+          node.range,
+          node.filePath
+        );
+      }
+
+      switch (node.kind) {
+        case 'if':
+          return new IfBlock(
+            new BlockCondition(
+              node.condition.type,
+              node.condition.selector?.within(container),
+              node.condition.pattern
+            ),
+            this.scopeNodes(node.thenBody, container),
+            this.scopeNodes(node.elseBody, container)
+          );
+        case 'repeat':
+          return new RepeatBlock(node.times, this.scopeNodes(node.body, container));
+        case 'forEach':
+          return new ForEachBlock(
+            node.itemVariable,
+            { listVariable: node.listVariable, values: node.values && [...node.values] },
+            this.scopeNodes(node.body, container)
+          );
+        case 'call':
+          throw new Error('call is not allowed inside within');
+      }
+    });
+  }
+
+  /**
+   * Converts a filesystem error into a user-facing error.
+   */
+  private toFileError(error: unknown, filePath: string): Error {
+    if (error instanceof OxtestParseError) {
+      return error;
+    }
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === 'ENOENT') {
+      return new Error(`File not found: ${filePath}`);
+    } else if (err.code === 'EACCES') {
+      return new Error(`Permission denied: ${filePath}`);
+    }
+    return new Error(`Failed to read file ${filePath}: ${err.message}`);
+  }
+}
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
 }
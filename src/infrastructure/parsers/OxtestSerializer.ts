@@ -0,0 +1,525 @@
+import { OxtestCommand } from '../../domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../domain/entities/SelectorSpec';
+import {
+  BlockCondition,
+  IfBlock,
+  OxtestNode,
+  Procedure,
+  collectBlocks,
+  isBlock,
+} from '../../domain/entities/OxtestBlock';
+import { TaskMetadata } from '../../domain/interfaces/TaskMetadata';
+import { stepPolicyToParams } from '../../domain/interfaces/StepPolicy';
+import { OxtestTokenizer, PositionedToken, Token } from './OxtestTokenizer';
+
+/**
+ * Indentation per block level.
+ */
+const INDENT = '  ';
+
+/**
+ * Keywords that open a block closed by `end`.
+ */
+const OPENING_KEYWORDS = ['if', 'repeat', 'forEach', 'within', 'define'];
+
+/**
+ * Matches `include <path>` lines; the path may be quoted.
+ */
+const INCLUDE_PATTERN = /^\s*include\s+(['"]?)(.+?)\1\s*$/;
+
+/**
+ * Matches `define name(param, ...)` signatures.
+ */
+const DEFINE_PATTERN = /^\s*define\s+(\S+?)\s*(?:\(([^)]*)\))?\s*$/;
+
+/**
+ * Writes canonical OXTest source.
+ *
+ * Output always parses back to the same commands: every fallback selector
+ * is kept, and values are quoted and escaped whenever the tokenizer would
+ * otherwise split them or strip characters from them.
+ */
+export class OxtestSerializer {
+  private readonly tokenizer = new OxtestTokenizer();
+
+  /**
+   * Serializes a single command to one line.
+   *
+   * @throws Error if the selector is scoped by a parent with filters, which
+   *   only a within block can express; use serialize for those
+   */
+  public serializeCommand(command: OxtestCommand): string {
+    const parts: string[] = [command.type];
+
+    if (command.selector) {
+      if (this.splitSelector(command.selector).containers.length > 0) {
+        throw new Error(
+          `Cannot write ${command.type} on one line: its selector needs a within block`
+        );
+      }
+      parts.push(this.serializeSelector(command.selector), ...this.scopeParams(command.selector));
+    }
+
+    for (const [key, value] of Object.entries(command.params)) {
+      if (value !== undefined && value !== null) {
+        parts.push(`${key}=${this.quote(String(value))}`);
+      }
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * Serializes a parsed tree. Procedures used by calls are written as
+   * define blocks ahead of the nodes, dependencies first; included files
+   * are not restored, since parsing inlines them.
+   *
+   * @param nodes Commands and blocks to write
+   * @param metadata Metadata to write as headers at the top
+   * @returns Source ending with a newline
+   */
+  public serialize(nodes: readonly OxtestNode[], metadata: Partial<TaskMetadata> = {}): string {
+    const sections: string[][] = [this.serializeMetadata(metadata)];
+    sections.push(
+      ...this.usedProcedures(nodes).map(procedure => [
+        this.defineLine(procedure.name, [...procedure.params]),
+        ...this.serializeNodes(procedure.body, 1),
+        'end',
+      ])
+    );
+    sections.push(this.serializeNodes(nodes, 0));
+
+    return (
+      sections
+        .filter(lines => lines.length > 0)
+        .map(lines => lines.join('\n'))
+        .join('\n\n') + '\n'
+    );
+  }
+
+  /**
+   * Rewrites the given commands in place in their source, leaving every
+   * other line, comment and the indentation untouched.
+   *
+   * @param content Source the commands were parsed from
+   * @param commands Commands to write back; each needs a single-line source range
+   * @returns Updated source
+   * @throws Error if a command has no usable source range
+   */
+  public update(content: string, commands: readonly OxtestCommand[]): string {
+    const lines = content.split('\n');
+
+    const ordered = [...commands].sort(
+      (a, b) =>
+        (b.range?.line ?? 0) - (a.range?.line ?? 0) ||
+        (b.range?.column ?? 0) - (a.range?.column ?? 0)
+    );
+    for (const command of ordered) {
+      const range = command.range;
+      if (!range || range.line !== range.endLine || range.line > lines.length) {
+        throw new Error(`Cannot update ${command.type}: it has no single-line source range`);
+      }
+
+      const line = lines[range.line - 1];
+      lines[range.line - 1] =
+        line.slice(0, range.column - 1) +
+        this.serializeCommand(command) +
+        line.slice(range.endColumn - 1);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Formats source canonically: indents blocks, normalises command names,
+   * quoting and spacing, and collapses blank lines. Comments stay where they
+   * are. Lines with errors are reformatted token by token, so formatting
+   * never changes what a line means.
+   *
+   * @param content OXTest source
+   * @returns Formatted source ending with a newline
+   */
+  public format(content: string): string {
+    const output: string[] = [];
+    let depth = 0;
+
+    for (const line of content.split('\n')) {
+      const trimmed = line.trim();
+      if (trimmed === '') {
+        if (output.length > 0 && output[output.length - 1] !== '') {
+          output.push('');
+        }
+        continue;
+      }
+
+      if (trimmed.startsWith('#')) {
+        output.push(INDENT.repeat(depth) + trimmed);
+        continue;
+      }
+
+      const scan = this.tokenizer.scan(line);
+      const keyword = scan.tokens[0].value!;
+      const code = this.formatCode(line, scan.tokens, scan.comment);
+      const comment = scan.comment !== undefined ? `  ${line.slice(scan.comment).trim()}` : '';
+
+      const level = keyword === 'end' || keyword === 'else' ? Math.max(depth - 1, 0) : depth;
+      output.push(INDENT.repeat(level) + code + comment);
+
+      if (OPENING_KEYWORDS.includes(keyword)) {
+        depth++;
+      } else if (keyword === 'end') {
+        depth = Math.max(depth - 1, 0);
+      }
+    }
+
+    while (output.length > 0 && output[output.length - 1] === '') {
+      output.pop();
+    }
+
+    return output.length > 0 ? output.join('\n') + '\n' : '';
+  }
+
+  /**
+   * Formats the code part of a line from its tokens.
+   */
+  private formatCode(line: string, tokens: PositionedToken[], comment?: number): string {
+    const code = comment !== undefined ? line.slice(0, comment) : line;
+    const keyword = tokens[0].value!;
+
+    if (keyword === 'define') {
+      const match = DEFINE_PATTERN.exec(code);
+      if (match) {
+        return this.defineLine(match[1], this.splitParams(match[2]));
+      }
+      return code.trim();
+    }
+
+    if (keyword === 'include') {
+      const match = INCLUDE_PATTERN.exec(code);
+      return match ? `include ${this.quote(match[2], true)}` : code.trim();
+    }
+
+    return tokens
+      .map((token, index) => {
+        if (index === 0) {
+          return keyword === 'forEach' ? 'for_each' : keyword;
+        }
+        return this.formatToken(token);
+      })
+      .join(' ');
+  }
+
+  private formatToken(token: Token): string {
+    switch (token.type) {
+      case 'SELECTOR': {
+        const parts = [`${token.strategy}=${this.quote(token.value!)}`];
+        if (token.parent) {
+          parts.unshift(this.formatToken(token.parent), '>>');
+        }
+        for (let fallback = token.fallback; fallback; fallback = fallback.fallback) {
+          parts.push(`fallback ${fallback.strategy}=${this.quote(fallback.value!)}`);
+        }
+        return parts.join(' ');
+      }
+      case 'PARAM':
+        return `${token.key}=${this.quote(token.value!)}`;
+      default:
+        return this.quote(token.value!, true);
+    }
+  }
+
+  /**
+   * Writes the metadata headers the parser understands.
+   */
+  private serializeMetadata(metadata: Partial<TaskMetadata>): string[] {
+    const headers: string[] = [];
+    if (metadata.tags && metadata.tags.length > 0) {
+      headers.push(`@tags ${metadata.tags.join(', ')}`);
+    }
+    if (metadata.timeout !== undefined) {
+      headers.push(`@timeout ${metadata.timeout}`);
+    }
+    if (metadata.retries !== undefined) {
+      headers.push(`@retries ${metadata.retries}`);
+    }
+    if (metadata.priority !== undefined) {
+      headers.push(`@priority ${metadata.priority}`);
+    }
+    if (metadata.viewport) {
+      headers.push(`@viewport ${metadata.viewport.width}x${metadata.viewport.height}`);
+    }
+    if (metadata.owner) {
+      headers.push(`@owner ${metadata.owner}`);
+    }
+    if (metadata.data) {
+      headers.push(`@data ${this.quote(metadata.data, true)}`);
+    }
+    if (metadata.auth) {
+      headers.push(`@auth ${this.quote(metadata.auth, true)}`);
+    }
+    if (metadata.dialogs) {
+      headers.push(`@dialogs ${metadata.dialogs}`);
+    }
+    if (metadata.step) {
+      const settings = Object.entries(stepPolicyToParams(metadata.step));
+      if (settings.length > 0) {
+        headers.push(`@step ${settings.map(([key, value]) => `${key}=${value}`).join(' ')}`);
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * @param open Containers of the within blocks the nodes are written in
+   */
+  private serializeNodes(
+    nodes: readonly OxtestNode[],
+    depth: number,
+    open: readonly SelectorSpec[] = []
+  ): string[] {
+    const lines: string[] = [];
+
+    // Consecutive nodes that need the same within blocks share them;
+    // commands without a selector fit in any
+    let index = 0;
+    while (index < nodes.length) {
+      const first = this.unscope(nodes[index], open);
+      const containers = first.containers ?? [];
+      const group = [first.node];
+      for (index++; index < nodes.length; index++) {
+        const next = this.unscope(nodes[index], open);
+        if (next.containers && !this.sameSelectors(next.containers, containers)) {
+          break;
+        }
+        group.push(next.node);
+      }
+
+      containers.forEach((container, level) => {
+        lines.push(INDENT.repeat(depth + level) + this.withinLine(container));
+      });
+      lines.push(
+        ...this.serializeUnscoped(group, depth + containers.length, [...open, ...containers])
+      );
+      containers.forEach((_, level) => {
+        lines.push(`${INDENT.repeat(depth + containers.length - 1 - level)}end`);
+      });
+    }
+
+    return lines;
+  }
+
+  private serializeUnscoped(
+    nodes: readonly OxtestNode[],
+    depth: number,
+    open: readonly SelectorSpec[]
+  ): string[] {
+    const indent = INDENT.repeat(depth);
+    const lines: string[] = [];
+
+    for (const node of nodes) {
+      if (!isBlock(node)) {
+        lines.push(indent + this.serializeCommand(node));
+        continue;
+      }
+
+      switch (node.kind) {
+        case 'if':
+          lines.push(`${indent}if ${this.serializeCondition(node.condition)}`);
+          lines.push(...this.serializeNodes(node.thenBody, depth + 1, open));
+          if (node.elseBody.length > 0) {
+            lines.push(`${indent}else`, ...this.serializeNodes(node.elseBody, depth + 1, open));
+          }
+          lines.push(`${indent}end`);
+          break;
+        case 'repeat':
+          lines.push(`${indent}repeat times=${node.times}`);
+          lines.push(...this.serializeNodes(node.body, depth + 1, open), `${indent}end`);
+          break;
+        case 'forEach': {
+          const source = node.listVariable
+            ? `list=${node.listVariable}`
+            : `values=${this.quote(this.listValue(node.values ?? []))}`;
+          lines.push(`${indent}for_each ${source} as=${node.itemVariable}`);
+          lines.push(...this.serializeNodes(node.body, depth + 1, open), `${indent}end`);
+          break;
+        }
+        case 'call': {
+          const args = Object.entries(node.args).map(
+            ([key, value]) => `${key}=${this.quote(value)}`
+          );
+          lines.push([`${indent}call`, node.procedure.name, ...args].join(' '));
+          break;
+        }
+      }
+    }
+
+    return lines;
+  }
+
+  private serializeCondition(condition: BlockCondition): string {
+    return condition.type === 'url'
+      ? `url pattern=${this.quote(condition.pattern!)}`
+      : [
+          condition.type,
+          this.serializeSelector(condition.selector!),
+          ...this.scopeParams(condition.selector!),
+        ].join(' ');
+  }
+
+  /**
+   * Writes a selector with its fallbacks, chained to its parents with >>.
+   * Parents must have no filters or index (see unscope).
+   */
+  private serializeSelector(selector: SelectorSpec): string {
+    return [
+      ...(selector.scope.parent ? [this.serializeSelector(selector.scope.parent), '>>'] : []),
+      `${selector.strategy}=${this.quote(selector.value)}`,
+      ...selector.fallbacks.map(f => `fallback ${f.strategy}=${this.quote(f.value)}`),
+    ].join(' ');
+  }
+
+  /**
+   * Parameters for the filters and index of a selector.
+   */
+  private scopeParams(selector: SelectorSpec): string[] {
+    const { hasText, has, nth } = selector.scope;
+    return [
+      ...(hasText !== undefined ? [`hasText=${this.quote(hasText)}`] : []),
+      ...(has ? [`has=${this.quote(`${has.strategy}=${has.value}`)}`] : []),
+      ...(nth !== undefined ? [`nth=${nth}`] : []),
+    ];
+  }
+
+  /**
+   * A parent with filters or an index cannot be chained with >>, so it is
+   * written as a within block around the node instead. Returns the
+   * containers the node needs beyond the open ones, outermost first
+   * (undefined for a command without selector), and the node scoped by
+   * the rest.
+   */
+  private unscope(
+    node: OxtestNode,
+    open: readonly SelectorSpec[]
+  ): { containers?: SelectorSpec[]; node: OxtestNode } {
+    const split = (
+      selector: SelectorSpec
+    ): { containers: SelectorSpec[]; inline: SelectorSpec } => {
+      const { containers, inline } = this.splitSelector(selector);
+      if (!this.sameSelectors(containers.slice(0, open.length), open)) {
+        throw new Error(`Cannot write ${selector.toString()}: it is outside its within block`);
+      }
+      return { containers: containers.slice(open.length), inline };
+    };
+
+    if (!isBlock(node)) {
+      if (!node.selector) {
+        return { node };
+      }
+      const { containers, inline } = split(node.selector);
+      return {
+        containers,
+        node: new OxtestCommand(node.type, node.params, inline, node.range, node.filePath),
+      };
+    }
+
+    if (node.kind === 'if' && node.condition.selector) {
+      const { containers, inline } = split(node.condition.selector);
+      const condition = new BlockCondition(node.condition.type, inline, node.condition.pattern);
+      return {
+        containers,
+        node: new IfBlock(condition, [...node.thenBody], [...node.elseBody]),
+      };
+    }
+
+    return { containers: [], node };
+  }
+
+  private splitSelector(selector: SelectorSpec): {
+    containers: SelectorSpec[];
+    inline: SelectorSpec;
+  } {
+    const parent = selector.scope.parent;
+    if (!parent) {
+      return { containers: [], inline: selector };
+    }
+
+    const split = this.splitSelector(parent);
+    const { hasText, has, nth } = split.inline.scope;
+    const filtered = hasText !== undefined || has !== undefined || nth !== undefined;
+    return {
+      containers: filtered ? [...split.containers, split.inline] : split.containers,
+      inline: new SelectorSpec(
+        selector.strategy,
+        selector.value,
+        [...selector.fallbacks],
+        selector.metadata,
+        { ...selector.scope, parent: filtered ? undefined : split.inline }
+      ),
+    };
+  }
+
+  private withinLine(container: SelectorSpec): string {
+    return ['within', this.serializeSelector(container), ...this.scopeParams(container)].join(' ');
+  }
+
+  private sameSelectors(a: readonly SelectorSpec[], b: readonly SelectorSpec[]): boolean {
+    return (
+      a.length === b.length &&
+      a.every((selector, i) => this.withinLine(selector) === this.withinLine(b[i]))
+    );
+  }
+
+  /**
+   * Writes a list so parseListValue reads it back unchanged: comma-separated
+   * when that is unambiguous, JSON otherwise.
+   */
+  private listValue(values: readonly string[]): string {
+    const plain = values.join(',');
+    const ambiguous =
+      plain.startsWith('[') ||
+      values.some(value => value === '' || value.includes(',') || value !== value.trim());
+    return ambiguous ? JSON.stringify(values) : plain;
+  }
+
+  private defineLine(name: string, params: string[]): string {
+    return params.length > 0 ? `define ${name}(${params.join(', ')})` : `define ${name}`;
+  }
+
+  private splitParams(list?: string): string[] {
+    return (list ?? '')
+      .split(',')
+      .map(param => param.trim())
+      .filter(param => param !== '');
+  }
+
+  /**
+   * Procedures reachable from the nodes, each after the procedures it calls.
+   */
+  private usedProcedures(nodes: readonly OxtestNode[]): Procedure[] {
+    const ordered: Procedure[] = [];
+    const visit = (from: readonly OxtestNode[]): void => {
+      for (const block of collectBlocks(from)) {
+        if (block.kind === 'call' && !ordered.includes(block.procedure)) {
+          visit(block.procedure.body);
+          if (!ordered.includes(block.procedure)) {
+            ordered.push(block.procedure);
+          }
+        }
+      }
+    };
+    visit(nodes);
+    return ordered;
+  }
+
+  /**
+   * Quotes a value when the tokenizer would split it or strip characters
+   * from it: empty values, whitespace, quotes and backslashes. A standalone
+   * word is also quoted when it starts with #, which would begin a comment.
+   */
+  private quote(value: string, standalone = false): string {
+    if (value !== '' && !/[\s"'\\]/.test(value) && !(standalone && value.startsWith('#'))) {
+      return value;
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
@@ -1,7 +1,10 @@
+import { VALID_COMMAND_TYPES } from '../../domain/enums/CommandType';
+
 /**
  * Token types for Oxtest language parsing.
+ * UNKNOWN tokens are only reported by scan(); tokenize() drops them.
  */
-export type TokenType = 'COMMAND' | 'SELECTOR' | 'PARAM';
+export type TokenType = 'COMMAND' | 'SELECTOR' | 'PARAM' | 'UNKNOWN';
 
 /**
  * Represents a token in the Oxtest language.
@@ -12,6 +15,90 @@ export interface Token {
   readonly key?: string;
   readonly strategy?: string;
   readonly fallback?: Token;
+  /** Selector this one is chained to with `>>`, searched first */
+  readonly parent?: Token;
+}
+
+/**
+ * A token with its position in the line (0-based offsets, end exclusive).
+ * The range covers any fallback selectors attached to the token.
+ */
+export interface PositionedToken extends Token {
+  readonly start: number;
+  readonly end: number;
+}
+
+/**
+ * Result of scanning a line with positions.
+ */
+export interface LineScan {
+  readonly tokens: PositionedToken[];
+  /** Offset of a quote that is never closed, if any */
+  readonly unclosedQuote?: number;
+  /** Offset of a trailing `# comment`, if any */
+  readonly comment?: number;
+}
+
+/**
+ * Map of snake_case to camelCase command names
+ */
+const COMMAND_ALIASES: Record<string, string> = {
+  assert_exists: 'assertVisible', // assert_exists checks if visible
+  assert_not_exists: 'assertHidden', // assert_not_exists checks if hidden
+  assert_visible: 'assertVisible',
+  assert_hidden: 'assertHidden',
+  assert_text: 'assertText',
+  assert_value: 'assertValue',
+  assert_enabled: 'assertEnabled',
+  assert_disabled: 'assertDisabled',
+  assert_checked: 'assertChecked',
+  assert_unchecked: 'assertUnchecked',
+  assert_url: 'assertUrl',
+  assert_title: 'assertTitle',
+  assert_request: 'assertRequest',
+  assert_response: 'assertResponse',
+  assert_download: 'assertDownload',
+  assert_dialog: 'assertDialog',
+  assert_cookie: 'assertCookie',
+  assert_local_storage: 'assertLocalStorage',
+  assert_http: 'assertHttp',
+  expect_download: 'expectDownload',
+  wait_for: 'waitForSelector',
+  wait_navigation: 'wait', // wait_navigation maps to wait
+  go_back: 'goBack',
+  go_forward: 'goForward',
+  select_option: 'selectOption',
+  double_click: 'doubleClick',
+  right_click: 'rightClick',
+  scroll_into_view: 'scrollIntoView',
+  set_viewport: 'setViewport',
+  switch_frame: 'switchFrame',
+  expect_popup: 'expectPopup',
+  switch_tab: 'switchTab',
+  close_tab: 'closeTab',
+  accept_dialog: 'acceptDialog',
+  dismiss_dialog: 'dismissDialog',
+  set_cookie: 'setCookie',
+  clear_cookies: 'clearCookies',
+  set_local_storage: 'setLocalStorage',
+  clear_storage: 'clearStorage',
+  store_text: 'storeText',
+  store_value: 'storeValue',
+  store_attribute: 'storeAttribute',
+  mock_route: 'mockRoute',
+  block_route: 'blockRoute',
+  delay_route: 'delayRoute',
+  wait_response: 'waitResponse',
+  for_each: 'forEach',
+};
+
+/**
+ * A whitespace-separated part of a line with its position.
+ */
+interface LinePart {
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
 }
 
 /**
@@ -22,6 +109,7 @@ export interface Token {
  * - Selector strategies (css, xpath, text, etc.)
  * - Parameters (key=value pairs)
  * - Fallback selectors
+ * - Chained selectors (css=.row >> text=Buy)
  * - Quoted values with spaces
  * - Comments and empty lines
  */
@@ -32,6 +120,8 @@ export class OxtestTokenizer {
     'text',
     'placeholder',
     'label',
+    'alt',
+    'title',
     'role',
     'testid',
   ];
@@ -43,54 +133,123 @@ export class OxtestTokenizer {
    * @returns Array of tokens (empty for comments/blank lines)
    */
   public tokenize(line: string): Token[] {
+    return this.scan(line)
+      .tokens.filter(token => token.type !== 'UNKNOWN')
+      .map(({ start: _start, end: _end, ...token }) => token);
+  }
+
+  /**
+   * Tokenizes a single line, keeping token positions and reporting
+   * unrecognised parts as UNKNOWN tokens instead of skipping them.
+   *
+   * @param line The line to scan
+   * @returns Positioned tokens (empty for comments/blank lines)
+   */
+  public scan(line: string): LineScan {
     const trimmed = line.trim();
 
     // Skip empty lines and comments
     if (!trimmed || trimmed.startsWith('#')) {
-      return [];
+      return { tokens: [] };
     }
 
-    const tokens: Token[] = [];
-    const parts = this.splitLine(trimmed);
+    const offset = line.length - line.trimStart().length;
+    const { parts, unclosedQuote, comment } = this.splitLine(trimmed);
+    const texts = parts.map(part => part.text);
+    const at = (token: Token, first: number, last: number): PositionedToken => ({
+      ...token,
+      start: parts[first].start + offset,
+      end: parts[last].end + offset,
+    });
 
     // First part is always the command (normalize snake_case to camelCase)
-    const commandName = this.normalizeCommandName(parts[0]);
-    tokens.push({ type: 'COMMAND', value: commandName });
+    const commandName = this.normalizeCommandName(texts[0]);
+    const tokens: PositionedToken[] = [at({ type: 'COMMAND', value: commandName }, 0, 0)];
 
     // Process remaining parts
     let i = 1;
     while (i < parts.length) {
-      const part = parts[i];
+      const part = texts[i];
+
+      if (commandName === 'acceptDialog' && part.startsWith('text=')) {
+        // The prompt answer, not a text selector: dialogs have no element
+        tokens.push(at(this.parseParam(part), i, i));
+        i++;
+      } else if (this.isSelectorToken(part)) {
+        const first = i;
+        const parsed = this.parseSelector(texts, i);
+        let token = parsed.token;
+        i += parsed.consumed;
 
-      if (this.isSelectorToken(part)) {
-        const { token, consumed } = this.parseSelector(parts, i);
-        tokens.push(token);
-        i += consumed;
+        // Chained selectors: css=.row >> text=Buy
+        while (texts[i] === '>>' && i + 1 < texts.length && this.isSelectorToken(texts[i + 1])) {
+          const child = this.parseSelector(texts, i + 1);
+          token = { ...child.token, parent: token };
+          i += 1 + child.consumed;
+        }
+        tokens.push(at(token, first, i - 1));
       } else if (this.isParamToken(part)) {
-        tokens.push(this.parseParam(part));
+        tokens.push(at(this.parseParam(part), i, i));
+        i++;
+      } else if (commandName === 'switchFrame' && part === 'main') {
+        // `switch_frame main` is short for `switch_frame frame=main`
+        tokens.push(at({ type: 'PARAM', key: 'frame', value: 'main' }, i, i));
+        i++;
+      } else if (commandName === 'assertHttp' && part === 'exists') {
+        // `assert_http json_path=$.id exists` is short for exists=true
+        tokens.push(at({ type: 'PARAM', key: 'exists', value: 'true' }, i, i));
         i++;
       } else {
-        // Unknown token, skip
+        tokens.push(at({ type: 'UNKNOWN', value: part }, i, i));
         i++;
       }
     }
 
-    return tokens;
+    return {
+      tokens,
+      unclosedQuote: unclosedQuote === undefined ? undefined : unclosedQuote + offset,
+      comment: comment === undefined ? undefined : comment + offset,
+    };
+  }
+
+  /**
+   * Returns every command spelling the tokenizer accepts:
+   * canonical camelCase names and snake_case aliases.
+   */
+  public knownCommandNames(): string[] {
+    return [...Object.keys(COMMAND_ALIASES), ...VALID_COMMAND_TYPES];
   }
 
   /**
    * Splits a line into parts, respecting quoted strings.
+   * An unquoted part starting with # begins a trailing comment.
    */
-  private splitLine(line: string): string[] {
-    const parts: string[] = [];
+  private splitLine(line: string): {
+    parts: LinePart[];
+    unclosedQuote?: number;
+    comment?: number;
+  } {
+    const parts: LinePart[] = [];
     let current = '';
+    let currentStart = -1;
     let inQuotes = false;
     let quoteChar = '';
+    let quoteStart = 0;
     let escaped = false;
 
     for (let i = 0; i < line.length; i++) {
       const char = line[i];
 
+      if (char === '#' && currentStart < 0 && !inQuotes && !escaped) {
+        return { parts, comment: i };
+      }
+
+      if (char !== ' ' || inQuotes || escaped) {
+        if (currentStart < 0) {
+          currentStart = i;
+        }
+      }
+
       if (escaped) {
         current += char;
         escaped = false;
@@ -106,6 +265,7 @@ export class OxtestTokenizer {
         if (!inQuotes) {
           inQuotes = true;
           quoteChar = char;
+          quoteStart = i;
         } else if (char === quoteChar) {
           inQuotes = false;
           quoteChar = '';
@@ -116,9 +276,12 @@ export class OxtestTokenizer {
       }
 
       if (char === ' ' && !inQuotes) {
-        if (current) {
-          parts.push(current);
+        if (currentStart >= 0) {
+          if (current) {
+            parts.push({ text: current, start: currentStart, end: i });
+          }
           current = '';
+          currentStart = -1;
         }
       } else {
         current += char;
@@ -126,10 +289,10 @@ export class OxtestTokenizer {
     }
 
     if (current) {
-      parts.push(current);
+      parts.push({ text: current, start: currentStart, end: line.length });
     }
 
-    return parts;
+    return { parts, unclosedQuote: inQuotes ? quoteStart : undefined };
   }
 
   /**
@@ -219,29 +382,7 @@ export class OxtestTokenizer {
    * Normalizes command names from snake_case to camelCase.
    * Examples: assert_exists -> assertExists, wait_for -> waitForSelector
    */
-  private normalizeCommandName(command: string): string {
-    // Map of snake_case to camelCase command names
-    const commandMap: Record<string, string> = {
-      assert_exists: 'assertVisible', // assert_exists checks if visible
-      assert_not_exists: 'assertHidden', // assert_not_exists checks if hidden
-      assert_visible: 'assertVisible',
-      assert_hidden: 'assertHidden',
-      assert_text: 'assertText',
-      assert_value: 'assertValue',
-      assert_enabled: 'assertEnabled',
-      assert_disabled: 'assertDisabled',
-      assert_checked: 'assertChecked',
-      assert_unchecked: 'assertUnchecked',
-      assert_url: 'assertUrl',
-      assert_title: 'assertTitle',
-      wait_for: 'waitForSelector',
-      wait_navigation: 'wait', // wait_navigation maps to wait
-      go_back: 'goBack',
-      go_forward: 'goForward',
-      select_option: 'selectOption',
-      set_viewport: 'setViewport',
-    };
-
-    return commandMap[command] || command;
+  public normalizeCommandName(command: string): string {
+    return COMMAND_ALIASES[command] || command;
   }
 }
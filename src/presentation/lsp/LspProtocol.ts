@@ -0,0 +1,92 @@
+/**
+ * The subset of the Language Server Protocol used by the OXTest language server.
+ * Positions are 0-based, as in the protocol; OXTest source ranges are 1-based.
+ *
+ * @see https://microsoft.github.io/language-server-protocol/specifications/specification-current/
+ */
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+/**
+ * Diagnostic severities (Error = 1, Warning = 2).
+ */
+export type LspDiagnosticSeverity = 1 | 2 | 3 | 4;
+
+export interface LspDiagnostic {
+  range: Range;
+  severity: LspDiagnosticSeverity;
+  code: string;
+  source: string;
+  message: string;
+  /** Quick fix carried along so codeAction can offer it */
+  data?: { title: string; edit: TextEdit };
+}
+
+/**
+ * Completion item kinds used by the server.
+ */
+export const CompletionItemKind = {
+  Function: 3,
+  Property: 10,
+  Value: 12,
+  Keyword: 14,
+} as const;
+
+export interface CompletionItem {
+  label: string;
+  kind: number;
+  detail?: string;
+  insertText?: string;
+}
+
+export interface Hover {
+  contents: { kind: 'markdown'; value: string };
+  range?: Range;
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: LspDiagnostic[];
+  edit: { changes: Record<string, TextEdit[]> };
+}
+
+/**
+ * A JSON-RPC 2.0 message: request, response or notification.
+ */
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * JSON-RPC and LSP error codes.
+ */
+export const ErrorCodes = {
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+  InvalidRequest: -32600,
+} as const;
@@ -0,0 +1,347 @@
+/**
+ * OxtestLanguageServer - Language Server Protocol over stdio for .ox.test files
+ *
+ * Speaks JSON-RPC with Content-Length framing. Documents are synced in full;
+ * diagnostics are published on open and on every change.
+ */
+
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { OxtestDiagnostic, SourceRange } from '../../domain/interfaces/OxtestDiagnostic';
+import { OxtestLanguageService } from './OxtestLanguageService';
+import {
+  CodeAction,
+  ErrorCodes,
+  JsonRpcMessage,
+  LspDiagnostic,
+  Position,
+  Range,
+} from './LspProtocol';
+
+const HEADER_SEPARATOR = '\r\n\r\n';
+
+interface TextDocumentParams {
+  textDocument: { uri: string; text?: string };
+}
+
+interface TextDocumentPositionParams extends TextDocumentParams {
+  position: Position;
+}
+
+interface DidChangeParams extends TextDocumentParams {
+  contentChanges: { text: string }[];
+}
+
+interface CodeActionParams extends TextDocumentParams {
+  context: { diagnostics: LspDiagnostic[] };
+}
+
+/**
+ * Error returned to the client as a JSON-RPC error response.
+ */
+class ResponseError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ResponseError';
+    Object.setPrototypeOf(this, ResponseError.prototype);
+  }
+}
+
+/**
+ * Stdio language server for OXTest.
+ */
+export class OxtestLanguageServer {
+  private readonly documents = new Map<string, string>();
+  /** Included files each document last published diagnostics to */
+  private readonly relatedUris = new Map<string, Set<string>>();
+  private buffer = Buffer.alloc(0);
+  private output?: Writable;
+  private initialized = false;
+  private shutdownRequested = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * @param service Language features
+   * @param onExit Called with the exit code when the client sends exit
+   */
+  constructor(
+    private readonly service: OxtestLanguageService = new OxtestLanguageService(),
+    private readonly onExit: (code: number) => void = code => process.exit(code)
+  ) {}
+
+  /**
+   * Starts serving requests read from input, writing responses to output.
+   */
+  public listen(input: Readable, output: Writable): void {
+    this.output = output;
+    input.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+  }
+
+  /**
+   * Resolves once every message received so far has been handled.
+   */
+  public async idle(): Promise<void> {
+    await this.pending;
+  }
+
+  /**
+   * Handles one message and returns the response for requests.
+   * Messages are handled in order, so document changes apply before
+   * the requests that follow them.
+   */
+  public handleMessage(message: JsonRpcMessage): Promise<JsonRpcMessage | undefined> {
+    const handled = this.pending.then(() => this.dispatch(message));
+    this.pending = handled.then(
+      () => undefined,
+      () => undefined
+    );
+    return handled;
+  }
+
+  /**
+   * Extracts complete messages from the buffer and handles them.
+   */
+  private drain(): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR);
+      if (headerEnd < 0) {
+        return;
+      }
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        // Skip a malformed header rather than stalling the stream
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_SEPARATOR.length);
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) {
+        return;
+      }
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      let message: JsonRpcMessage;
+      try {
+        message = JSON.parse(body) as JsonRpcMessage;
+      } catch {
+        continue;
+      }
+
+      void this.handleMessage(message).then(response => {
+        if (response) {
+          this.send(response);
+        }
+      });
+    }
+  }
+
+  private async dispatch(message: JsonRpcMessage): Promise<JsonRpcMessage | undefined> {
+    const isRequest = message.id !== undefined && message.id !== null;
+    try {
+      const result = await this.route(message.method ?? '', message.params, isRequest);
+      return isRequest ? { jsonrpc: '2.0', id: message.id, result: result ?? null } : undefined;
+    } catch (error) {
+      if (!isRequest) {
+        return undefined;
+      }
+      const code = error instanceof ResponseError ? error.code : ErrorCodes.InternalError;
+      return { jsonrpc: '2.0', id: message.id, error: { code, message: (error as Error).message } };
+    }
+  }
+
+  private async route(method: string, params: unknown, isRequest: boolean): Promise<unknown> {
+    if (method === 'initialize') {
+      this.initialized = true;
+      return {
+        capabilities: {
+          textDocumentSync: 1,
+          completionProvider: { triggerCharacters: [' '] },
+          hoverProvider: true,
+          definitionProvider: true,
+          codeActionProvider: { codeActionKinds: ['quickfix'] },
+        },
+        serverInfo: { name: 'oxtest-language-server' },
+      };
+    }
+
+    if (method === 'exit') {
+      this.onExit(this.shutdownRequested ? 0 : 1);
+      return undefined;
+    }
+
+    if (!this.initialized) {
+      throw new ResponseError(ErrorCodes.ServerNotInitialized, 'Server not initialized');
+    }
+
+    if (this.shutdownRequested && isRequest) {
+      throw new ResponseError(ErrorCodes.InvalidRequest, 'Server is shutting down');
+    }
+
+    switch (method) {
+      case 'initialized':
+        return undefined;
+
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as TextDocumentParams;
+        this.documents.set(textDocument.uri, textDocument.text ?? '');
+        await this.publishDiagnostics(textDocument.uri);
+        return undefined;
+      }
+
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as DidChangeParams;
+        const latest = contentChanges[contentChanges.length - 1];
+        if (latest) {
+          this.documents.set(textDocument.uri, latest.text);
+        }
+        await this.publishDiagnostics(textDocument.uri);
+        return undefined;
+      }
+
+      case 'textDocument/didClose': {
+        const { textDocument } = params as TextDocumentParams;
+        this.documents.delete(textDocument.uri);
+        for (const uri of [textDocument.uri, ...(this.relatedUris.get(textDocument.uri) ?? [])]) {
+          this.notify('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+        }
+        this.relatedUris.delete(textDocument.uri);
+        return undefined;
+      }
+
+      case 'textDocument/completion': {
+        const { textDocument, position } = params as TextDocumentPositionParams;
+        return this.service.complete(this.text(textDocument.uri), position);
+      }
+
+      case 'textDocument/hover': {
+        const { textDocument, position } = params as TextDocumentPositionParams;
+        return this.service.hover(this.text(textDocument.uri), position);
+      }
+
+      case 'textDocument/definition': {
+        const { textDocument, position } = params as TextDocumentPositionParams;
+        const filePath = this.toFilePath(textDocument.uri);
+        const target =
+          filePath && this.service.definition(this.text(textDocument.uri), position, filePath);
+        if (!target) {
+          return null;
+        }
+        const start = { line: 0, character: 0 };
+        return { uri: pathToFileURL(path.resolve(target)).href, range: { start, end: start } };
+      }
+
+      case 'textDocument/codeAction': {
+        const { textDocument, context } = params as CodeActionParams;
+        return context.diagnostics
+          .filter(diagnostic => diagnostic.data)
+          .map(
+            (diagnostic): CodeAction => ({
+              title: diagnostic.data!.title,
+              kind: 'quickfix',
+              diagnostics: [diagnostic],
+              edit: { changes: { [textDocument.uri]: [diagnostic.data!.edit] } },
+            })
+          );
+      }
+
+      default:
+        if (isRequest) {
+          throw new ResponseError(ErrorCodes.MethodNotFound, `Unhandled method: ${method}`);
+        }
+        return undefined;
+    }
+  }
+
+  /**
+   * Parses a document and publishes its diagnostics, plus those of the
+   * files it includes.
+   */
+  private async publishDiagnostics(uri: string): Promise<void> {
+    const filePath = this.toFilePath(uri);
+    const diagnostics = await this.service.diagnose(this.text(uri), filePath);
+
+    const byUri = new Map<string, LspDiagnostic[]>([[uri, []]]);
+    for (const diagnostic of diagnostics) {
+      const target =
+        diagnostic.filePath && diagnostic.filePath !== filePath
+          ? pathToFileURL(path.resolve(diagnostic.filePath)).href
+          : uri;
+      if (!byUri.has(target)) {
+        byUri.set(target, []);
+      }
+      byUri.get(target)!.push(this.toLspDiagnostic(diagnostic));
+    }
+
+    // Clear included files that no longer have problems
+    const related = new Set([...byUri.keys()].filter(target => target !== uri));
+    for (const previous of this.relatedUris.get(uri) ?? []) {
+      if (!related.has(previous)) {
+        byUri.set(previous, []);
+      }
+    }
+    this.relatedUris.set(uri, related);
+
+    for (const [target, items] of byUri) {
+      this.notify('textDocument/publishDiagnostics', { uri: target, diagnostics: items });
+    }
+  }
+
+  private toLspDiagnostic(diagnostic: OxtestDiagnostic): LspDiagnostic {
+    return {
+      range: this.toLspRange(diagnostic.range),
+      severity: diagnostic.severity === 'error' ? 1 : 2,
+      code: diagnostic.code,
+      source: 'oxtest',
+      message: diagnostic.message,
+      data: diagnostic.fix && {
+        title: diagnostic.fix.description,
+        edit: { range: this.toLspRange(diagnostic.fix.range), newText: diagnostic.fix.replacement },
+      },
+    };
+  }
+
+  private toLspRange(range: SourceRange): Range {
+    return {
+      start: { line: range.line - 1, character: range.column - 1 },
+      end: { line: range.endLine - 1, character: range.endColumn - 1 },
+    };
+  }
+
+  private toFilePath(uri: string): string | undefined {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+  }
+
+  private text(uri: string): string {
+    return this.documents.get(uri) ?? '';
+  }
+
+  private notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (!this.output) {
+      return;
+    }
+    const body = JSON.stringify(message);
+    this.output.write(
+      `Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_SEPARATOR}${body}`
+    );
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * OxtestLanguageService - Editor features for .ox.test files
+ *
+ * Transport-independent: works on document text and positions, so the
+ * language server and tests can share it.
+ */
+
+import { OXTestValidator } from '../../application/services/OXTestValidator';
+import { COMMAND_DOCS, CommandType, isValidCommandType } from '../../domain/enums/CommandType';
+import { VALID_SELECTOR_STRATEGIES } from '../../domain/enums/SelectorStrategy';
+import { VALID_CONDITION_TYPES } from '../../domain/entities/OxtestBlock';
+import { OxtestDiagnostic } from '../../domain/interfaces/OxtestDiagnostic';
+import { STEP_POLICY_PARAMS } from '../../domain/interfaces/StepPolicy';
+import { OxtestParser } from '../../infrastructure/parsers/OxtestParser';
+import { OxtestTokenizer } from '../../infrastructure/parsers/OxtestTokenizer';
+import { CompletionItem, CompletionItemKind, Hover, Position } from './LspProtocol';
+
+/**
+ * Block keywords and metadata headers with their descriptions and the
+ * parameter keys they take.
+ */
+const KEYWORD_DOCS: Record<string, { summary: string; params: readonly string[] }> = {
+  if: {
+    summary: 'Run the following lines when a condition holds: `if visible css=.banner`.',
+    params: ['pattern'],
+  },
+  else: { summary: 'Lines to run when the if condition does not hold.', params: [] },
+  end: {
+    summary: 'Close the innermost if, repeat, for_each, within or define block.',
+    params: [],
+  },
+  repeat: { summary: 'Run the following lines a fixed number of times.', params: ['times'] },
+  for_each: {
+    summary: 'Run the following lines once per list item.',
+    params: ['list', 'values', 'as'],
+  },
+  within: {
+    summary:
+      'Search for the elements of the following lines inside one element: `within css=.row hasText=Blue`.',
+    params: ['hasText', 'has', 'nth'],
+  },
+  define: { summary: 'Declare a procedure: `define login(user, pass)`.', params: [] },
+  call: { summary: 'Run a procedure: `call login user=admin`.', params: [] },
+  include: { summary: 'Inline another .ox.test file, relative to this one.', params: [] },
+  '@tags': {
+    summary: 'Header: tags to select the test by, e.g. `@tags smoke, checkout`.',
+    params: [],
+  },
+  '@timeout': { summary: 'Header: time limit for the whole test in milliseconds.', params: [] },
+  '@retries': { summary: 'Header: how many times to rerun the test after a failure.', params: [] },
+  '@priority': { summary: 'Header: tests with a higher priority run first.', params: [] },
+  '@viewport': {
+    summary: 'Header: viewport size to run with, e.g. `@viewport 1280x720`.',
+    params: [],
+  },
+  '@owner': { summary: 'Header: team or person responsible for the test.', params: [] },
+  '@auth': {
+    summary: 'Header: start from the session a login flow saved, e.g. `@auth login.ox.test`.',
+    params: [],
+  },
+  '@dialogs': {
+    summary:
+      'Header: answer dialogs no accept_dialog or dismiss_dialog step answers: `@dialogs accept` or `dismiss` (the default).',
+    params: [],
+  },
+  '@step': {
+    summary:
+      "Header: how steps wait and retry, e.g. `@step timeout=5000 retries=3 retry_delay=500 backoff=2 wait_for=visible`; a command's own `timeout=`, `retries=` and `wait_for=` override it.",
+    params: STEP_POLICY_PARAMS,
+  },
+  '@data': {
+    summary:
+      'Header: run the test once per row of a CSV, JSON or YAML file; columns become variables.',
+    params: [],
+  },
+};
+
+/**
+ * Parameters that narrow the selector of any command or condition.
+ */
+const SELECTOR_PARAMS = ['hasText', 'has', 'nth'];
+
+/**
+ * Matches the name of a procedure declaration.
+ */
+const DEFINE_NAME_PATTERN = /^\s*define\s+([A-Za-z_][A-Za-z0-9_]*)/;
+
+/**
+ * Provides completion, hover, diagnostics and include resolution.
+ */
+export class OxtestLanguageService {
+  constructor(
+    private readonly parser: OxtestParser = new OxtestParser(),
+    private readonly tokenizer: OxtestTokenizer = new OxtestTokenizer(),
+    private readonly validator: OXTestValidator = new OXTestValidator()
+  ) {}
+
+  /**
+   * Parses and validates a document and returns every problem found.
+   *
+   * @param text Document content
+   * @param filePath Path of the document, needed to resolve includes
+   */
+  public async diagnose(text: string, filePath?: string): Promise<readonly OxtestDiagnostic[]> {
+    const result = filePath
+      ? await this.parser.parseSourceWithDiagnostics(text, filePath)
+      : this.parser.parseWithDiagnostics(text);
+    return [...result.diagnostics, ...this.validator.check(result.nodes, result.metadata)];
+  }
+
+  /**
+   * Completes the word before the cursor: command names and keywords at the
+   * start of a line; selector strategies and parameter keys after a command.
+   */
+  public complete(text: string, position: Position): CompletionItem[] {
+    const line = text.split('\n')[position.line] ?? '';
+    const before = line.slice(0, position.character).trimStart();
+    if (before.startsWith('#')) {
+      return [];
+    }
+
+    const words = before.split(/\s+/);
+    if (words.length === 1) {
+      return this.completeCommands();
+    }
+
+    const current = words[words.length - 1];
+    if (current.includes('=')) {
+      return [];
+    }
+
+    const keyword = words[0];
+    if (keyword === 'call' && words.length === 2) {
+      return this.procedureNames(text).map(name => ({
+        label: name,
+        kind: CompletionItemKind.Function,
+        detail: 'procedure',
+      }));
+    }
+    if (keyword === 'if' && words.length === 2) {
+      return VALID_CONDITION_TYPES.map(type => ({
+        label: type,
+        kind: CompletionItemKind.Keyword,
+        detail: 'condition',
+      }));
+    }
+
+    const keywordDoc = KEYWORD_DOCS[keyword];
+    const command = this.tokenizer.normalizeCommandName(keyword);
+    const doc = isValidCommandType(command) ? COMMAND_DOCS[command] : undefined;
+    if (!doc && !keywordDoc) {
+      return [];
+    }
+
+    const items: CompletionItem[] = [];
+    const takesSelector = doc
+      ? doc.selector
+      : keyword === 'within' || (keyword === 'if' && words[1] !== 'url');
+    if (takesSelector) {
+      for (const strategy of VALID_SELECTOR_STRATEGIES) {
+        items.push({
+          label: `${strategy}=`,
+          kind: CompletionItemKind.Value,
+          detail: 'selector strategy',
+        });
+      }
+      items.push({
+        label: 'fallback',
+        kind: CompletionItemKind.Keyword,
+        detail: 'fallback selector',
+      });
+    }
+
+    const used = new Set(words.filter(w => w.includes('=')).map(w => w.split('=')[0]));
+    const params = new Set([
+      ...(doc ?? keywordDoc).params,
+      ...(takesSelector ? SELECTOR_PARAMS : []),
+      ...(doc && takesSelector ? STEP_POLICY_PARAMS : []),
+    ]);
+    for (const key of params) {
+      if (!used.has(key)) {
+        items.push({ label: `${key}=`, kind: CompletionItemKind.Property, detail: 'parameter' });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Describes the command or keyword under the cursor.
+   */
+  public hover(text: string, position: Position): Hover | null {
+    const line = text.split('\n')[position.line] ?? '';
+    const start = line.length - line.trimStart().length;
+    const match = /^\S+/.exec(line.slice(start));
+    if (!match || line.trimStart().startsWith('#')) {
+      return null;
+    }
+
+    const end = start + match[0].length;
+    if (position.character < start || position.character > end) {
+      return null;
+    }
+
+    const value = this.describe(match[0]);
+    if (!value) {
+      return null;
+    }
+
+    return {
+      contents: { kind: 'markdown', value },
+      range: {
+        start: { line: position.line, character: start },
+        end: { line: position.line, character: end },
+      },
+    };
+  }
+
+  /**
+   * Returns the file an include line at the given position points to.
+   *
+   * @param text Document content
+   * @param position Cursor position
+   * @param filePath Path of the document
+   */
+  public definition(text: string, position: Position, filePath: string): string | undefined {
+    const line = text.split('\n')[position.line] ?? '';
+    return this.parser.resolveIncludeLine(line, filePath);
+  }
+
+  private completeCommands(): CompletionItem[] {
+    const items: CompletionItem[] = this.tokenizer.knownCommandNames().map(name => {
+      const command = this.tokenizer.normalizeCommandName(name) as CommandType;
+      return {
+        label: name,
+        kind: CompletionItemKind.Function,
+        detail: COMMAND_DOCS[command]?.summary,
+      };
+    });
+
+    for (const [keyword, doc] of Object.entries(KEYWORD_DOCS)) {
+      items.push({ label: keyword, kind: CompletionItemKind.Keyword, detail: doc.summary });
+    }
+
+    return items;
+  }
+
+  private describe(word: string): string | undefined {
+    const keywordDoc = KEYWORD_DOCS[word];
+    if (keywordDoc) {
+      return `**${word}**\n\n${keywordDoc.summary}`;
+    }
+
+    const command = this.tokenizer.normalizeCommandName(word);
+    if (!isValidCommandType(command)) {
+      return undefined;
+    }
+
+    const doc = COMMAND_DOCS[command];
+    const aliases = this.tokenizer
+      .knownCommandNames()
+      .filter(name => name !== command && this.tokenizer.normalizeCommandName(name) === command);
+    const lines = [`**${command}**`, '', doc.summary, ''];
+    if (aliases.length > 0) {
+      lines.push(`Aliases: ${aliases.map(a => `\`${a}\``).join(', ')}`, '');
+    }
+    lines.push(`Selector: ${doc.selector ? 'required' : 'none'}`);
+    if (doc.params.length > 0) {
+      lines.push('', `Parameters: ${doc.params.map(p => `\`${p}\``).join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  private procedureNames(text: string): string[] {
+    return text
+      .split('\n')
+      .map(line => DEFINE_NAME_PATTERN.exec(line)?.[1])
+      .filter((name): name is string => name !== undefined);
+  }
+}
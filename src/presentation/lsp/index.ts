@@ -0,0 +1,7 @@
+/**
+ * Language server module - editor support for .ox.test files
+ */
+
+export * from './LspProtocol';
+export { OxtestLanguageService } from './OxtestLanguageService';
+export { OxtestLanguageServer } from './OxtestLanguageServer';
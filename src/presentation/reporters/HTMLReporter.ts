@@ -1,5 +1,6 @@
 import { IReporter, ExecutionReport, SubtaskReport } from './IReporter';
 import { TaskStatus } from '../../domain/enums/TaskStatus';
+import { StepPolicy, stepPolicyToParams } from '../../domain/interfaces/StepPolicy';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -453,10 +454,27 @@ export class HTMLReporter implements IReporter {
         <span>Success Rate</span>
         <span>${this.calculateSuccessRate(report)}%</span>
       </div>
+      ${report.policy ? this.generatePolicy(report.policy) : ''}
     </div>
   </section>`;
   }
 
+  /**
+   * Generate the summary item listing the step policy
+   *
+   * @param policy - Step policy the test ran with
+   * @returns HTML string for the summary item
+   */
+  private generatePolicy(policy: StepPolicy): string {
+    const settings = Object.entries(stepPolicyToParams(policy))
+      .map(([name, value]) => `${name}=${value}`)
+      .join(' ');
+    return `<div class="summary-item">
+        <span>Step Policy</span>
+        <span>${this.escapeHtml(settings)}</span>
+      </div>`;
+  }
+
   /**
    * Generate subtasks section
    *
@@ -549,6 +567,36 @@ export class HTMLReporter implements IReporter {
       </div>`);
     }
 
+    // Add step screenshots section if present, each labeled with its step
+    if (subtask.stepScreenshots && subtask.stepScreenshots.length > 0) {
+      const stepsHtml = subtask.stepScreenshots
+        .map(
+          screenshot =>
+            `<a href="${this.escapeHtml(screenshot.path)}" class="screenshot" target="_blank">Step ${screenshot.step}: ${this.escapeHtml(screenshot.command)}</a>`
+        )
+        .join('');
+
+      sections.push(`<div class="detail-section">
+        <div class="detail-label">Step Screenshots (${subtask.stepScreenshots.length}):</div>
+        <div class="screenshots">${stepsHtml}</div>
+      </div>`);
+    }
+
+    // Add attachments section if present
+    if (subtask.attachments && subtask.attachments.length > 0) {
+      const attachmentsHtml = subtask.attachments
+        .map(
+          attachment =>
+            `<a href="${this.escapeHtml(attachment.path)}" class="screenshot" target="_blank">${this.escapeHtml(attachment.name)}: ${this.escapeHtml(attachment.path)}</a>`
+        )
+        .join('');
+
+      sections.push(`<div class="detail-section">
+        <div class="detail-label">Attachments (${subtask.attachments.length}):</div>
+        <div class="screenshots">${attachmentsHtml}</div>
+      </div>`);
+    }
+
     return sections.join('\n');
   }
 
@@ -1,4 +1,27 @@
 import { TaskStatus } from '../../domain/enums/TaskStatus';
+import { StepPolicy } from '../../domain/interfaces/StepPolicy';
+
+/**
+ * A file recorded during a subtask, such as a HAR file
+ */
+export interface ReportAttachment {
+  readonly name: string;
+  /** Path relative to the report */
+  readonly path: string;
+  readonly contentType: string;
+}
+
+/**
+ * A screenshot taken after a step of a subtask
+ */
+export interface ReportScreenshot {
+  /** Path relative to the report */
+  readonly path: string;
+  /** 1-based number of the step */
+  readonly step: number;
+  /** The command the step ran */
+  readonly command: string;
+}
 
 /**
  * Report for a single subtask execution
@@ -12,6 +35,12 @@ export interface SubtaskReport {
   readonly output?: string;
   readonly screenshots?: ReadonlyArray<string>;
   readonly timestamp?: Date;
+  /** Data row the subtask ran with, for data-driven tests */
+  readonly parameters?: Readonly<Record<string, string>>;
+  /** Screenshots taken after steps, linked to the command each step ran */
+  readonly stepScreenshots?: ReadonlyArray<ReportScreenshot>;
+  /** Files recorded while the subtask ran */
+  readonly attachments?: ReadonlyArray<ReportAttachment>;
 }
 
 /**
@@ -28,6 +57,8 @@ export interface ExecutionReport {
   readonly blocked: number;
   readonly subtaskReports: ReadonlyArray<SubtaskReport>;
   readonly success: boolean;
+  /** Step policy the test ran with */
+  readonly policy?: StepPolicy;
 }
 
 /**
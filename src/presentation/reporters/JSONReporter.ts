@@ -34,6 +34,7 @@ export class JSONReporter implements IReporter {
       failed: report.failed,
       blocked: report.blocked,
       success: report.success,
+      ...(report.policy && { policy: report.policy }),
       subtaskReports: report.subtaskReports.map(this.convertSubtaskReport),
     };
 
@@ -94,6 +95,18 @@ export class JSONReporter implements IReporter {
       result.timestamp = subtask.timestamp.toISOString();
     }
 
+    if (subtask.parameters !== undefined) {
+      result.parameters = subtask.parameters;
+    }
+
+    if (subtask.stepScreenshots !== undefined && subtask.stepScreenshots.length > 0) {
+      result.stepScreenshots = subtask.stepScreenshots;
+    }
+
+    if (subtask.attachments !== undefined && subtask.attachments.length > 0) {
+      result.attachments = subtask.attachments;
+    }
+
     return result;
   }
 }
@@ -1,5 +1,6 @@
 import { IReporter, ExecutionReport, SubtaskReport } from './IReporter';
 import { TaskStatus } from '../../domain/enums/TaskStatus';
+import { stepPolicyToParams } from '../../domain/interfaces/StepPolicy';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -42,6 +43,15 @@ export class JUnitReporter implements IReporter {
         `timestamp="${timestamp}">`
     );
 
+    // Step policy the suite ran with
+    if (report.policy) {
+      lines.push('  <properties>');
+      for (const [name, value] of Object.entries(stepPolicyToParams(report.policy))) {
+        lines.push(`    <property name="step.${name}" value="${this.escapeXml(value)}" />`);
+      }
+      lines.push('  </properties>');
+    }
+
     // Testcase elements
     for (const subtask of report.subtaskReports) {
       lines.push(this.generateTestCase(subtask, report.testName));
@@ -94,13 +104,34 @@ export class JUnitReporter implements IReporter {
     const isSkipped =
       subtask.status === TaskStatus.Blocked || subtask.status === TaskStatus.Pending;
 
-    if (!isFailed && !isSkipped) {
+    const parameters = Object.entries(subtask.parameters ?? {});
+    const attachments: { path: string; label?: string }[] = [
+      ...(subtask.screenshots ?? []).map(screenshot => ({ path: screenshot })),
+      ...(subtask.stepScreenshots ?? []).map(s => ({
+        path: s.path,
+        label: `Step ${s.step}: ${s.command}`,
+      })),
+      ...(subtask.attachments ?? []).map(a => ({ path: a.path })),
+    ];
+
+    if (!isFailed && !isSkipped && parameters.length === 0 && attachments.length === 0) {
       // Simple self-closing tag for successful tests
       lines.push(`${testcaseAttrs} />`);
     } else {
-      // Open tag for failed or skipped tests
+      // Open tag for failed, skipped, data-driven or tests with attachments
       lines.push(`${testcaseAttrs}>`);
 
+      // Data row the test case ran with
+      if (parameters.length > 0) {
+        lines.push('    <properties>');
+        for (const [name, value] of parameters) {
+          lines.push(
+            `      <property name="${this.escapeXml(name)}" value="${this.escapeXml(value)}" />`
+          );
+        }
+        lines.push('    </properties>');
+      }
+
       if (isFailed) {
         // Add failure element
         const errorMessage = subtask.error || 'Test failed';
@@ -115,6 +146,19 @@ export class JUnitReporter implements IReporter {
         lines.push('    </skipped>');
       }
 
+      // Attachments in the format of the Jenkins JUnit attachments plugin;
+      // step screenshots follow a line naming their step
+      if (attachments.length > 0) {
+        lines.push('    <system-out>');
+        for (const attachment of attachments) {
+          if (attachment.label !== undefined) {
+            lines.push(this.escapeXml(attachment.label));
+          }
+          lines.push(`[[ATTACHMENT|${this.escapeXml(attachment.path)}]]`);
+        }
+        lines.push('    </system-out>');
+      }
+
       // Close testcase
       lines.push('  </testcase>');
     }
@@ -2,7 +2,7 @@
  * Reporters module - exports all available reporters
  */
 
-export { IReporter, ExecutionReport, SubtaskReport } from './IReporter';
+export { IReporter, ExecutionReport, SubtaskReport, ReportAttachment } from './IReporter';
 export { JSONReporter } from './JSONReporter';
 export { ConsoleReporter } from './ConsoleReporter';
 export { JUnitReporter } from './JUnitReporter';
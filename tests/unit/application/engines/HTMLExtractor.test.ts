@@ -1,5 +1,6 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
 import { HTMLExtractor } from '../../../../src/application/engines/HTMLExtractor';
+import { PageScope } from '../../../../src/infrastructure/executors/PageScope';
 
 describe('HTMLExtractor', () => {
   let browser: Browser;
@@ -254,6 +255,26 @@ describe('HTMLExtractor', () => {
     });
   });
 
+  describe('Frames', () => {
+    it('should extract from the frame a scope switched to', async () => {
+      await page.setContent(`
+        <h1>Checkout</h1>
+        <iframe srcdoc="<input placeholder='Card number' />"></iframe>
+      `);
+      const scope = new PageScope(context, page);
+      const scoped = new HTMLExtractor(scope);
+
+      await scope.switchFrame(page.locator('iframe'));
+      const frameHTML = await scoped.extractSimplified();
+      scope.switchToMainFrame();
+      const pageHTML = await scoped.extractSimplified();
+
+      expect(frameHTML).toContain('Card number');
+      expect(frameHTML).not.toContain('Checkout');
+      expect(pageHTML).toContain('Checkout');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle empty page', async () => {
       await page.setContent('');
@@ -69,6 +69,15 @@ describe('ExecutionContextManager', () => {
 
       expect(original.variables).toEqual({});
     });
+
+    it('should remove variable', () => {
+      manager.setVariable('a', '1');
+      manager.setVariable('b', '2');
+      manager.removeVariable('a');
+
+      expect(manager.getVariable('a')).toBeUndefined();
+      expect(manager.getContext().variables).toEqual({ b: '2' });
+    });
   });
 
   describe('Cookie Management', () => {
@@ -2,6 +2,7 @@ import { ReportAdapter } from '../../../../src/application/orchestrators/ReportA
 import { Subtask } from '../../../../src/domain/entities/Subtask';
 import { OxtestCommand } from '../../../../src/domain/entities/OxtestCommand';
 import { TaskStatus } from '../../../../src/domain/enums/TaskStatus';
+import { DEFAULT_STEP_POLICY } from '../../../../src/domain/interfaces/StepPolicy';
 import {
   TaskExecutionResult,
   SubtaskExecutionResult,
@@ -272,6 +273,84 @@ describe('ReportAdapter', () => {
       expect(report.success).toBe(true);
     });
 
+    it('should attach the data row each subtask ran with', () => {
+      const commands = [new OxtestCommand('navigate', { url: 'https://example.com' })];
+      const row1 = new Subtask('row-1', 'login [row 1: user=admin]', commands);
+      const row2 = new Subtask('row-2', 'login [row 2: user=guest]', commands);
+      row1.markInProgress();
+      row1.markCompleted({ success: true });
+      row2.markInProgress();
+      row2.markFailed(new Error('Login failed'));
+
+      const report = ReportAdapter.subtasksToExecutionReport(
+        'login',
+        [row1, row2],
+        new Date('2025-11-14T10:00:00Z'),
+        new Date('2025-11-14T10:00:05Z'),
+        [{ user: 'admin' }, { user: 'guest' }]
+      );
+
+      expect(report.subtaskReports.map(sr => sr.parameters)).toEqual([
+        { user: 'admin' },
+        { user: 'guest' },
+      ]);
+      expect(report.passed).toBe(1);
+      expect(report.failed).toBe(1);
+    });
+
+    it('should link the step screenshots and files each subtask recorded', () => {
+      const subtask = new Subtask('main', 'checkout', [
+        new OxtestCommand('navigate', { url: 'https://example.com' }),
+      ]);
+      const har = { name: 'HAR', path: 'artifacts/checkout.har', contentType: 'application/json' };
+      const screenshot = {
+        path: 'artifacts/checkout-step-1-navigate.png',
+        step: 1,
+        command: 'navigate(url=https://example.com)',
+      };
+
+      const report = ReportAdapter.subtasksToExecutionReport(
+        'checkout',
+        [subtask, subtask],
+        new Date('2025-11-14T10:00:00Z'),
+        new Date('2025-11-14T10:00:05Z'),
+        undefined,
+        [
+          { stepScreenshots: [screenshot], attachments: [har] },
+          { stepScreenshots: [], attachments: [] },
+        ]
+      );
+
+      expect(report.subtaskReports[0].stepScreenshots).toEqual([screenshot]);
+      expect(report.subtaskReports[0].attachments).toEqual([har]);
+      expect(report.subtaskReports[1]).not.toHaveProperty('stepScreenshots');
+      expect(report.subtaskReports[1]).not.toHaveProperty('attachments');
+    });
+
+    it('should record the step policy the test ran with', () => {
+      const subtask = new Subtask('main', 'checkout', [
+        new OxtestCommand('navigate', { url: 'https://example.com' }),
+      ]);
+      const policy = { ...DEFAULT_STEP_POLICY, retries: 0, waitFor: 'visible' as const };
+      const start = new Date('2025-11-14T10:00:00Z');
+      const end = new Date('2025-11-14T10:00:05Z');
+
+      expect(
+        ReportAdapter.subtasksToExecutionReport(
+          'checkout',
+          [subtask],
+          start,
+          end,
+          undefined,
+          [],
+          policy
+        ).policy
+      ).toEqual(policy);
+      expect(
+        ReportAdapter.subtasksToExecutionReport('checkout', [subtask], start, end)
+      ).not.toHaveProperty('policy');
+    });
+
     it('should mark report as failed if any subtask failed', () => {
       const commands = [new OxtestCommand('navigate', { url: 'https://example.com' })];
 
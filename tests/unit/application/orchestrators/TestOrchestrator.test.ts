@@ -8,6 +8,14 @@ import { Subtask } from '../../../../src/domain/entities/Subtask';
 import { Task } from '../../../../src/domain/entities/Task';
 import { OxtestCommand } from '../../../../src/domain/entities/OxtestCommand';
 import { SelectorSpec } from '../../../../src/domain/entities/SelectorSpec';
+import {
+  BlockCondition,
+  CallBlock,
+  ForEachBlock,
+  IfBlock,
+  Procedure,
+  RepeatBlock,
+} from '../../../../src/domain/entities/OxtestBlock';
 
 describe('TestOrchestrator', () => {
   let orchestrator: TestOrchestrator;
@@ -18,6 +26,7 @@ describe('TestOrchestrator', () => {
     // Create mock executor
     mockExecutor = {
       execute: jest.fn(),
+      evaluateCondition: jest.fn(),
       initialize: jest.fn(),
       close: jest.fn(),
       getPage: jest.fn(),
@@ -131,6 +140,26 @@ describe('TestOrchestrator', () => {
       expect(result.success).toBe(true);
       expect(result.duration).toBeGreaterThanOrEqual(0);
     });
+
+    it('should stop starting commands once the timeout has passed', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      mockExecutor.execute.mockImplementation(async () => {
+        now.mockReturnValue(1600);
+        return { success: true, duration: 600 };
+      });
+
+      const subtask = new Subtask('sub-1', 'Test', [
+        new OxtestCommand('click', {}, new SelectorSpec('css', '.a')),
+        new OxtestCommand('click', {}, new SelectorSpec('css', '.b')),
+      ]);
+
+      const result = await orchestrator.executeSubtask(subtask, 500);
+      now.mockRestore();
+
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Timed out after 500ms');
+    });
   });
 
   describe('executeTask', () => {
@@ -308,5 +337,216 @@ describe('TestOrchestrator', () => {
       const context = orchestrator.getContext();
       expect(context.variables['lastUrl']).toBe('https://shop.dev');
     });
+
+    it('should store variables captured by the executor', async () => {
+      mockExecutor.execute.mockResolvedValue({
+        success: true,
+        duration: 100,
+        variables: { orderId: 'A-1001' },
+      });
+
+      const subtask = new Subtask('sub-1', 'Capture', [
+        new OxtestCommand('storeText', { as: 'orderId' }, new SelectorSpec('css', '.order-id')),
+      ]);
+
+      await orchestrator.executeSubtask(subtask);
+
+      expect(orchestrator.getContext().variables['orderId']).toBe('A-1001');
+    });
+
+    it('should interpolate captured variables into later commands', async () => {
+      mockExecutor.execute
+        .mockResolvedValueOnce({ success: true, duration: 100, variables: { orderId: 'A-1001' } })
+        .mockResolvedValue({ success: true, duration: 100 });
+
+      const subtask = new Subtask('sub-1', 'Checkout', [
+        new OxtestCommand('storeText', { as: 'orderId' }, new SelectorSpec('css', '.order-id')),
+        new OxtestCommand(
+          'assertText',
+          { value: 'Order ${orderId}' },
+          new SelectorSpec('css', '[data-order="${orderId}"]')
+        ),
+      ]);
+
+      const result = await orchestrator.executeSubtask(subtask);
+
+      expect(result.success).toBe(true);
+      const executed = mockExecutor.execute.mock.calls[1][0] as OxtestCommand;
+      expect(executed.params.value).toBe('Order A-1001');
+      expect(executed.selector?.value).toBe('[data-order="A-1001"]');
+    });
+
+    it('should sync the browser cookies after each step, failed ones included', async () => {
+      const consent = { name: 'consent', value: 'accepted', domain: 'shop.dev', path: '/' };
+      mockExecutor.execute
+        .mockResolvedValueOnce({ success: true, duration: 100, cookies: [consent] })
+        .mockResolvedValue({
+          success: false,
+          error: 'Element not found',
+          duration: 100,
+          cookies: [],
+        });
+
+      await orchestrator.executeSubtask(
+        new Subtask('sub-1', 'Consent', [
+          new OxtestCommand('click', {}, new SelectorSpec('text', 'Accept all')),
+        ])
+      );
+      const accepted = orchestrator.getContext().cookies;
+      await orchestrator.executeSubtask(
+        new Subtask('sub-2', 'Logout', [
+          new OxtestCommand('click', {}, new SelectorSpec('text', 'Log out')),
+        ])
+      );
+
+      expect(accepted).toEqual([consent]);
+      expect(orchestrator.getContext().cookies).toEqual([]);
+    });
+
+    it('should fail the subtask when a variable is undefined', async () => {
+      mockExecutor.execute.mockResolvedValue({ success: true, duration: 100 });
+
+      const subtask = new Subtask('sub-1', 'Test', [
+        new OxtestCommand('navigate', { url: 'https://shop.dev/orders/${missingVar}' }),
+      ]);
+
+      const result = await orchestrator.executeSubtask(subtask);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Undefined variable: ${missingVar}');
+      expect(mockExecutor.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('control flow blocks', () => {
+    const click = (value: string): OxtestCommand =>
+      new OxtestCommand('click', {}, new SelectorSpec('css', value));
+
+    beforeEach(() => {
+      mockExecutor.execute.mockResolvedValue({ success: true, duration: 10 });
+    });
+
+    it('should run the then branch when the condition holds', async () => {
+      mockExecutor.evaluateCondition.mockResolvedValue(true);
+      const block = new IfBlock(
+        new BlockCondition('visible', new SelectorSpec('css', '.cookie-banner')),
+        [click('.accept')],
+        [click('.skip')]
+      );
+
+      const result = await orchestrator.executeSubtask(
+        Subtask.fromNodes('sub-1', 'Consent', [block])
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.commandsExecuted).toBe(1);
+      expect(mockExecutor.execute.mock.calls[0][0].selector?.value).toBe('.accept');
+    });
+
+    it('should run the else branch when the condition does not hold', async () => {
+      mockExecutor.evaluateCondition.mockResolvedValue(false);
+      const block = new IfBlock(
+        new BlockCondition('visible', new SelectorSpec('css', '.cookie-banner')),
+        [click('.accept')],
+        [click('.skip')]
+      );
+
+      await orchestrator.executeSubtask(Subtask.fromNodes('sub-1', 'Consent', [block]));
+
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(mockExecutor.execute.mock.calls[0][0].selector?.value).toBe('.skip');
+    });
+
+    it('should interpolate variables in conditions', async () => {
+      mockExecutor.evaluateCondition.mockResolvedValue(false);
+      contextManager.setVariable('variant', 'b');
+      const block = new IfBlock(new BlockCondition('url', undefined, '/variant-${variant}'), [
+        click('.a'),
+      ]);
+
+      await orchestrator.executeSubtask(Subtask.fromNodes('sub-1', 'A/B', [block]));
+
+      expect(mockExecutor.evaluateCondition.mock.calls[0][0].pattern).toBe('/variant-b');
+    });
+
+    it('should repeat the body and count every executed command', async () => {
+      const block = new RepeatBlock(3, [click('.next')]);
+
+      const result = await orchestrator.executeSubtask(
+        Subtask.fromNodes('sub-1', 'Paginate', [block])
+      );
+
+      expect(result.commandsExecuted).toBe(3);
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should iterate over a list variable and bind each item', async () => {
+      contextManager.setVariable('products', '["shoes", "socks"]');
+      const block = new ForEachBlock('product', { listVariable: 'products' }, [
+        new OxtestCommand('fill', { value: '${product}' }, new SelectorSpec('css', '#search')),
+      ]);
+
+      const result = await orchestrator.executeSubtask(
+        Subtask.fromNodes('sub-1', 'Search', [block])
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockExecutor.execute.mock.calls.map(call => call[0].params.value)).toEqual([
+        'shoes',
+        'socks',
+      ]);
+      expect(orchestrator.getContext().variables['product']).toBe('socks');
+    });
+
+    it('should stop at the first failing command inside a loop', async () => {
+      mockExecutor.execute
+        .mockResolvedValueOnce({ success: true, duration: 10 })
+        .mockResolvedValueOnce({ success: false, duration: 10, error: 'Element not found' });
+      const subtask = Subtask.fromNodes('sub-1', 'Loop', [new RepeatBlock(5, [click('.next')])]);
+
+      const result = await orchestrator.executeSubtaskWithStateTracking(subtask);
+
+      expect(result.success).toBe(false);
+      expect(result.commandsExecuted).toBe(2);
+      expect(result.error).toBe('Element not found');
+      expect(subtask.result?.metadata?.failedCommand).toBe('click');
+    });
+
+    it('should bind call arguments to procedure parameters', async () => {
+      contextManager.setVariable('admin', 'root');
+      contextManager.setVariable('user', 'outer');
+      const login = new Procedure(
+        'login',
+        ['user'],
+        [new OxtestCommand('fill', { value: '${user}' }, new SelectorSpec('css', '#user'))]
+      );
+
+      const result = await orchestrator.executeSubtask(
+        Subtask.fromNodes('sub-1', 'Login', [new CallBlock(login, { user: '${admin}' })])
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockExecutor.execute.mock.calls[0][0].params.value).toBe('root');
+      expect(orchestrator.getContext().variables['user']).toBe('outer');
+    });
+
+    it('should unbind parameters that were not set before the call', async () => {
+      const login = new Procedure('login', ['user'], [click('.a')]);
+
+      await orchestrator.executeSubtask(
+        Subtask.fromNodes('sub-1', 'Login', [new CallBlock(login, { user: 'admin' })])
+      );
+
+      expect(orchestrator.getContext().variables).not.toHaveProperty('user');
+    });
+
+    it('should fail when the list variable is undefined', async () => {
+      const block = new ForEachBlock('item', { listVariable: 'missingList' }, [click('.a')]);
+
+      const result = await orchestrator.executeSubtask(Subtask.fromNodes('sub-1', 'Loop', [block]));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Undefined variable: ${missingList}');
+    });
   });
 });
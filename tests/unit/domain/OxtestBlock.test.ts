@@ -0,0 +1,126 @@
+import {
+  BlockCondition,
+  CallBlock,
+  ForEachBlock,
+  IfBlock,
+  Procedure,
+  RepeatBlock,
+  collectBlocks,
+  flattenCommands,
+  isBlock,
+  parseListValue,
+} from '../../../src/domain/entities/OxtestBlock';
+import { OxtestCommand } from '../../../src/domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../../src/domain/entities/SelectorSpec';
+import { Subtask } from '../../../src/domain/entities/Subtask';
+
+describe('OxtestBlock', () => {
+  const click = (value: string): OxtestCommand =>
+    new OxtestCommand('click', {}, new SelectorSpec('css', value));
+
+  describe('BlockCondition', () => {
+    it('should require a selector for element conditions', () => {
+      expect(() => new BlockCondition('visible')).toThrow('visible condition requires a selector');
+    });
+
+    it('should require a pattern for url conditions', () => {
+      expect(() => new BlockCondition('url')).toThrow('url condition requires a pattern parameter');
+    });
+
+    it('should reject unknown condition types', () => {
+      expect(() => new BlockCondition('blinking' as any, new SelectorSpec('css', 'a'))).toThrow(
+        'Invalid condition: blinking'
+      );
+    });
+
+    it('should describe itself', () => {
+      expect(new BlockCondition('exists', new SelectorSpec('css', '.promo')).toString()).toBe(
+        'exists(css:.promo)'
+      );
+      expect(new BlockCondition('url', undefined, '/cart').toString()).toBe('url(/cart)');
+    });
+  });
+
+  describe('blocks', () => {
+    it('should reject negative or fractional repeat counts', () => {
+      expect(() => new RepeatBlock(-1, [])).toThrow('non-negative integer');
+      expect(() => new RepeatBlock(1.5, [])).toThrow('non-negative integer');
+    });
+
+    it('should require a list source for for_each', () => {
+      expect(() => new ForEachBlock('item', {}, [])).toThrow(
+        'for_each requires a list or values parameter'
+      );
+    });
+
+    it('should distinguish blocks from commands', () => {
+      expect(isBlock(click('a'))).toBe(false);
+      expect(isBlock(new RepeatBlock(1, []))).toBe(true);
+    });
+  });
+
+  describe('flattenCommands', () => {
+    it('should collect commands from every branch in source order', () => {
+      const tree = [
+        click('.first'),
+        new IfBlock(
+          new BlockCondition('visible', new SelectorSpec('css', '.banner')),
+          [click('.then')],
+          [new RepeatBlock(2, [click('.else')])]
+        ),
+        new ForEachBlock('item', { values: ['a'] }, [click('.loop')]),
+      ];
+
+      expect(flattenCommands(tree).map(c => c.selector?.value)).toEqual([
+        '.first',
+        '.then',
+        '.else',
+        '.loop',
+      ]);
+    });
+  });
+
+  describe('procedures', () => {
+    it('should validate procedure and parameter names', () => {
+      expect(() => new Procedure('log-in', [], [])).toThrow('Invalid procedure name: log-in');
+      expect(() => new Procedure('login', ['user name'], [])).toThrow(
+        'Invalid parameter name in login: user name'
+      );
+      expect(() => new Procedure('login', ['user', 'user'], [])).toThrow(
+        'Duplicate parameter name in login'
+      );
+    });
+
+    it('should include procedure bodies when flattening calls', () => {
+      const login = new Procedure('login', [], [click('.submit')]);
+      const tree = [new CallBlock(login, {}), new RepeatBlock(1, [new CallBlock(login, {})])];
+
+      expect(flattenCommands(tree)).toHaveLength(2);
+      expect(collectBlocks(tree).map(b => b.kind)).toEqual(['call', 'repeat', 'call']);
+    });
+  });
+
+  describe('parseListValue', () => {
+    it('should parse JSON arrays', () => {
+      expect(parseListValue('["a", 2]')).toEqual(['a', '2']);
+    });
+
+    it('should split comma-separated strings', () => {
+      expect(parseListValue(' a, b ,c ')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should return an empty list for empty strings', () => {
+      expect(parseListValue('  ')).toEqual([]);
+    });
+  });
+
+  describe('Subtask.fromNodes', () => {
+    it('should keep the tree and expose all commands', () => {
+      const subtask = Subtask.fromNodes('main', 'Loop', [new RepeatBlock(3, [click('.next')])]);
+
+      expect(subtask.nodes).toHaveLength(1);
+      expect(subtask.getCommandCount()).toBe(1);
+      expect(subtask.clone().nodes[0]).toBeInstanceOf(RepeatBlock);
+    });
+  });
+});
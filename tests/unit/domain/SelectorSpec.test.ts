@@ -1,4 +1,4 @@
-import { SelectorSpec } from '../../../src/domain/entities/SelectorSpec';
+import { SelectorSpec, parseRoleSelector } from '../../../src/domain/entities/SelectorSpec';
 import { SelectorStrategy } from '../../../src/domain/enums/SelectorStrategy';
 
 describe('SelectorSpec', () => {
@@ -52,6 +52,15 @@ describe('SelectorSpec', () => {
         'Invalid selector strategy'
       );
     });
+
+    it('should reject a non-integer nth and an empty hasText', () => {
+      expect(() => new SelectorSpec('css', '.row', [], undefined, { nth: 1.5 })).toThrow(
+        'nth must be an integer, got 1.5'
+      );
+      expect(() => new SelectorSpec('css', '.row', [], undefined, { hasText: '' })).toThrow(
+        'hasText cannot be empty'
+      );
+    });
   });
 
   describe('toPlaywrightSelector', () => {
@@ -79,6 +88,84 @@ describe('SelectorSpec', () => {
       const spec = new SelectorSpec('testid', 'submit-btn');
       expect(spec.toPlaywrightSelector()).toBe('[data-testid="submit-btn"]');
     });
+
+    it('should convert role options to Playwright attributes', () => {
+      const spec = new SelectorSpec('role', 'button[name=Sign in][exact]');
+      expect(spec.toPlaywrightSelector()).toBe('role=button[name="Sign in"s]');
+    });
+
+    it('should convert label, alt and title selectors', () => {
+      expect(new SelectorSpec('label', 'Email').toPlaywrightSelector()).toBe(
+        'internal:label="Email"i'
+      );
+      expect(new SelectorSpec('alt', 'Logo').toPlaywrightSelector()).toBe('[alt="Logo"]');
+      expect(new SelectorSpec('title', 'Close').toPlaywrightSelector()).toBe('[title="Close"]');
+    });
+
+    it('should chain the parent and append filters', () => {
+      const spec = new SelectorSpec('text', 'Buy', [], undefined, {
+        parent: new SelectorSpec('css', '.row', [], undefined, { hasText: 'Blue T-Shirt' }),
+        has: new SelectorSpec('testid', 'price'),
+        nth: -1,
+      });
+
+      expect(spec.toPlaywrightSelector()).toBe(
+        '.row >> internal:has-text="Blue T-Shirt"i >> text=Buy >> ' +
+          'internal:has="[data-testid=\\"price\\"]" >> nth=-1'
+      );
+    });
+  });
+
+  describe('within', () => {
+    it('should place the outermost parent inside the given selector', () => {
+      const inner = new SelectorSpec('text', 'Buy', [], undefined, {
+        parent: new SelectorSpec('css', '.actions'),
+        nth: 0,
+      });
+
+      const scoped = inner.within(new SelectorSpec('css', '.row'));
+
+      expect(scoped.toString()).toBe('css:.row >> css:.actions >> text:Buy');
+      expect(scoped.scope.nth).toBe(0);
+      expect(inner.scope.parent?.scope.parent).toBeUndefined();
+    });
+  });
+
+  describe('parse', () => {
+    it('should read a selector written as a parameter value', () => {
+      const spec = SelectorSpec.parse('css=[data-col=done]');
+
+      expect(spec?.strategy).toBe('css');
+      expect(spec?.value).toBe('[data-col=done]');
+    });
+
+    it.each(['.done', 'column=done', 'css'])('should return undefined for %p', text => {
+      expect(SelectorSpec.parse(text)).toBeUndefined();
+    });
+  });
+
+  describe('parseRoleSelector', () => {
+    it('should read the role and its options', () => {
+      expect(parseRoleSelector('button')).toEqual({ role: 'button' });
+      expect(parseRoleSelector('button[name="Say \\"hi\\""][exact=false]')).toEqual({
+        role: 'button',
+        name: 'Say "hi"',
+        exact: false,
+      });
+      expect(parseRoleSelector('heading [level=2]')).toEqual({ role: 'heading', level: 2 });
+      expect(parseRoleSelector('checkbox[checked]')).toEqual({ role: 'checkbox', checked: true });
+    });
+
+    it.each([
+      ['button[pressed]', 'Unknown role option: pressed'],
+      ['heading[level=top]', 'Role option level must be a positive integer'],
+      ['checkbox[checked=maybe]', 'Role option checked must be true or false'],
+      ['button[name=]', 'Role option name requires a value'],
+      ['button[name=a', 'Invalid role selector'],
+      ['[name=a]', 'Role selector has no role'],
+    ])('should reject %p', (value, message) => {
+      expect(() => new SelectorSpec('role', value)).toThrow(message);
+    });
   });
 
   describe('equals', () => {
@@ -99,9 +186,28 @@ describe('SelectorSpec', () => {
       const spec2 = new SelectorSpec('css', '.submit');
       expect(spec1.equals(spec2)).toBe(false);
     });
+
+    it('should return false for different scopes', () => {
+      const spec1 = new SelectorSpec('css', '.button', [], undefined, { nth: 0 });
+      const spec2 = new SelectorSpec('css', '.button', [], undefined, { nth: 1 });
+      expect(spec1.equals(spec2)).toBe(false);
+      expect(spec1.equals(new SelectorSpec('css', '.button'))).toBe(false);
+    });
   });
 
   describe('clone', () => {
+    it('should copy the scope', () => {
+      const spec = new SelectorSpec('text', 'Buy', [], undefined, {
+        parent: new SelectorSpec('css', '.row'),
+        hasText: 'Blue',
+      });
+
+      const clone = spec.clone();
+
+      expect(clone.equals(spec)).toBe(true);
+      expect(clone.scope.parent).not.toBe(spec.scope.parent);
+    });
+
     it('should create a deep copy of the selector', () => {
       const fallbacks = [{ strategy: 'text' as SelectorStrategy, value: 'Submit' }];
       const spec = new SelectorSpec('css', '.button', fallbacks, { confidence: 0.9 });
@@ -0,0 +1,71 @@
+import {
+  DEFAULT_STEP_POLICY,
+  resolveStepPolicy,
+  retryPause,
+  stepPolicyFromEnv,
+  stepPolicyFromParams,
+  stepPolicyToParams,
+} from '../../../src/domain/interfaces/StepPolicy';
+
+describe('StepPolicy', () => {
+  describe('stepPolicyFromParams', () => {
+    it('should read policy settings and ignore other parameters', () => {
+      expect(
+        stepPolicyFromParams({
+          timeout: 5000,
+          retries: '0',
+          retry_delay: '250',
+          backoff: '1.5',
+          wait_for: 'stable',
+          url: '/checkout',
+          nth: undefined,
+        })
+      ).toEqual({ timeout: 5000, retries: 0, retryDelay: 250, backoff: 1.5, waitFor: 'stable' });
+    });
+
+    it.each([
+      [{ timeout: '2s' }, 'timeout must be a non-negative integer, got "2s"'],
+      [{ retry_delay: '' }, 'retry_delay must be a non-negative integer, got ""'],
+      [{ backoff: '0' }, 'backoff must be a number of at least 1, got "0"'],
+      [{ wait_for: 'ready' }, 'wait_for must be one of: attached, visible, stable, enabled'],
+    ])('should reject %p', (params, message) => {
+      expect(() => stepPolicyFromParams(params)).toThrow(message);
+    });
+
+    it('should write settings back as parameters', () => {
+      const params = stepPolicyToParams({ retryDelay: 500, waitFor: 'enabled' });
+
+      expect(params).toEqual({ retry_delay: '500', wait_for: 'enabled' });
+      expect(stepPolicyFromParams(params)).toEqual({ retryDelay: 500, waitFor: 'enabled' });
+    });
+  });
+
+  describe('stepPolicyFromEnv', () => {
+    it('should read the STEP_ variables that are set', () => {
+      expect(
+        stepPolicyFromEnv({ STEP_RETRIES: '5', STEP_WAIT_FOR: 'visible', TIMEOUT: '1' })
+      ).toEqual({ retries: 5, waitFor: 'visible' });
+    });
+
+    it('should name the variable of an invalid setting', () => {
+      expect(() => stepPolicyFromEnv({ STEP_RETRY_DELAY: 'soon' })).toThrow(
+        'STEP_RETRY_DELAY must be a non-negative integer, got "soon"'
+      );
+    });
+  });
+
+  it('should let later layers override earlier ones', () => {
+    expect(
+      resolveStepPolicy(DEFAULT_STEP_POLICY, { timeout: 5000, retries: 0 }, undefined, {
+        retries: 3,
+      })
+    ).toEqual({ ...DEFAULT_STEP_POLICY, timeout: 5000, retries: 3 });
+  });
+
+  it('should grow the pause between retries by the backoff factor', () => {
+    const policy = { ...DEFAULT_STEP_POLICY, retryDelay: 100, backoff: 2 };
+
+    expect([1, 2, 3].map(retry => retryPause(policy, retry))).toEqual([100, 200, 400]);
+    expect(retryPause(DEFAULT_STEP_POLICY, 3)).toBe(1000);
+  });
+});
@@ -0,0 +1,126 @@
+import { chromium, firefox, webkit } from 'playwright';
+import {
+  browserOptionsFromEnv,
+  contextOptions,
+  launchBrowser,
+  validateBrowserOptions,
+} from '../../../../src/infrastructure/executors/BrowserLauncher';
+
+jest.mock('playwright', () => ({
+  chromium: { launch: jest.fn() },
+  firefox: { launch: jest.fn() },
+  webkit: { launch: jest.fn() },
+  devices: {
+    'iPhone 13': {
+      viewport: { width: 390, height: 664 },
+      userAgent: 'Mozilla/5.0 (iPhone)',
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: true,
+      defaultBrowserType: 'webkit',
+    },
+  },
+}));
+
+describe('BrowserLauncher', () => {
+  let browser: any;
+
+  beforeEach(() => {
+    browser = { newContext: jest.fn().mockResolvedValue({}) };
+    for (const type of [chromium, firefox, webkit]) {
+      (type.launch as jest.Mock).mockReset().mockResolvedValue(browser);
+    }
+  });
+
+  describe('browserOptionsFromEnv', () => {
+    it('should read the browser settings from the environment', () => {
+      expect(
+        browserOptionsFromEnv({
+          BROWSER: 'firefox',
+          HEADLESS: 'false',
+          SLOW_MO: '250',
+          BROWSER_PROXY: 'http://proxy.local:3128',
+          BROWSER_ARGS: '--disable-gpu  --lang=de-DE',
+          BROWSER_EXECUTABLE_PATH: '/usr/bin/firefox',
+          DEVICE: 'iPhone 13',
+        })
+      ).toEqual({
+        browser: 'firefox',
+        headed: true,
+        slowMo: 250,
+        proxy: 'http://proxy.local:3128',
+        args: ['--disable-gpu', '--lang=de-DE'],
+        executablePath: '/usr/bin/firefox',
+        device: 'iPhone 13',
+      });
+    });
+
+    it('should leave out unset variables', () => {
+      expect(browserOptionsFromEnv({ HEADLESS: 'true' })).toEqual({ headed: false });
+    });
+  });
+
+  describe('validateBrowserOptions', () => {
+    it.each([
+      [{ browser: 'safari' }, 'Unknown browser: safari. Must be one of: chromium, firefox, webkit'],
+      [{ slowMo: -1 }, 'slowMo must be a non-negative number of milliseconds, got -1'],
+      [{ slowMo: NaN }, 'slowMo must be a non-negative number of milliseconds, got NaN'],
+      [{ device: 'Nokia 3310' }, 'Unknown device: Nokia 3310'],
+    ])('should reject %p', (options, message) => {
+      expect(() => validateBrowserOptions(options as any)).toThrow(message);
+    });
+  });
+
+  describe('contextOptions', () => {
+    it('should start contexts from a storage state file', () => {
+      expect(contextOptions({ storageState: '.auth/login.json' })).toEqual({
+        storageState: '.auth/login.json',
+      });
+    });
+  });
+
+  describe('launchBrowser', () => {
+    it('should launch headless chromium by default', async () => {
+      await launchBrowser();
+
+      expect(chromium.launch).toHaveBeenCalledWith({ headless: true });
+      expect(browser.newContext).toHaveBeenCalledWith({});
+    });
+
+    it('should pass launch options to the chosen engine', async () => {
+      await launchBrowser({
+        browser: 'firefox',
+        headed: true,
+        slowMo: 100,
+        proxy: 'http://proxy.local:3128',
+        args: ['--kiosk'],
+        executablePath: '/opt/firefox',
+      });
+
+      expect(chromium.launch).not.toHaveBeenCalled();
+      expect(firefox.launch).toHaveBeenCalledWith({
+        headless: false,
+        slowMo: 100,
+        proxy: { server: 'http://proxy.local:3128' },
+        args: ['--kiosk'],
+        executablePath: '/opt/firefox',
+      });
+    });
+
+    it("should emulate a device in the device's engine unless one is chosen", async () => {
+      await launchBrowser({ device: 'iPhone 13' });
+      await launchBrowser({ device: 'iPhone 13', browser: 'chromium' });
+
+      expect(webkit.launch).toHaveBeenCalledTimes(1);
+      expect(chromium.launch).toHaveBeenCalledTimes(1);
+      expect(browser.newContext).toHaveBeenCalledWith(contextOptions({ device: 'iPhone 13' }));
+      expect(contextOptions({ device: 'iPhone 13' })).toEqual({
+        viewport: { width: 390, height: 664 },
+        userAgent: 'Mozilla/5.0 (iPhone)',
+        deviceScaleFactor: 3,
+        isMobile: true,
+        hasTouch: true,
+      });
+    });
+  });
+});
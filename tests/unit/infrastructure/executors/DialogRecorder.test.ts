@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+import { DialogRecorder } from '../../../../src/infrastructure/executors/DialogRecorder';
+
+describe('DialogRecorder', () => {
+  let recorder: DialogRecorder;
+  let context: EventEmitter;
+
+  /** Opens a Playwright-like dialog and waits for it to be answered */
+  async function openDialog(message: string, type = 'confirm'): Promise<any> {
+    const dialog = {
+      type: () => type,
+      message: () => message,
+      accept: jest.fn().mockResolvedValue(undefined),
+      dismiss: jest.fn().mockResolvedValue(undefined),
+    };
+    context.emit('dialog', dialog);
+    await new Promise(resolve => setImmediate(resolve));
+    return dialog;
+  }
+
+  beforeEach(() => {
+    recorder = new DialogRecorder();
+    context = new EventEmitter();
+    recorder.attach(context as any);
+  });
+
+  it('should answer dialogs in the order the answers were queued', async () => {
+    recorder.respondToNext({ accept: true, text: 'Bob' });
+    recorder.respondToNext({ accept: false });
+
+    const prompt = await openDialog('Your name?', 'prompt');
+    const confirm = await openDialog('Delete?');
+
+    expect(prompt.accept).toHaveBeenCalledWith('Bob');
+    expect(confirm.dismiss).toHaveBeenCalled();
+    expect(recorder.dialogs).toEqual([
+      { type: 'prompt', message: 'Your name?', accepted: true },
+      { type: 'confirm', message: 'Delete?', accepted: false },
+    ]);
+  });
+
+  it('should answer dialogs without a queued answer by the policy', async () => {
+    const dismissed = await openDialog('Leave site?', 'beforeunload');
+    context = new EventEmitter();
+    recorder.attach(context as any, 'accept');
+    const accepted = await openDialog('Leave site?', 'beforeunload');
+
+    expect(dismissed.dismiss).toHaveBeenCalled();
+    expect(accepted.accept).toHaveBeenCalled();
+    expect(recorder.dialogs).toHaveLength(1);
+  });
+
+  it('should wait for a dialog with the message', async () => {
+    const expectation = recorder.expectDialog('Saved', 1000);
+    setTimeout(() => void openDialog('Saved', 'alert'), 10);
+
+    await expect(expectation).resolves.toEqual({
+      type: 'alert',
+      message: 'Saved',
+      accepted: false,
+    });
+  });
+
+  it('should list the dialogs seen when none has the message', async () => {
+    await openDialog('Delete 2 items?');
+
+    await expect(recorder.expectDialog('Delete 3 items?', 20)).rejects.toThrow(
+      'No dialog with message "Delete 3 items?" within 20ms (got confirm "Delete 2 items?")'
+    );
+  });
+
+  it('should not fail when the page closes before the dialog is answered', async () => {
+    context.emit('dialog', {
+      type: () => 'alert',
+      message: () => 'Bye',
+      accept: jest.fn(),
+      dismiss: jest.fn().mockRejectedValue(new Error('Target page has been closed')),
+    });
+
+    await expect(recorder.expectDialog('Bye', 0)).resolves.toMatchObject({ message: 'Bye' });
+  });
+});
@@ -0,0 +1,98 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DownloadRecorder } from '../../../../src/infrastructure/executors/DownloadRecorder';
+
+describe('DownloadRecorder', () => {
+  let recorder: DownloadRecorder;
+  let page: EventEmitter;
+  let tmp: string;
+
+  /** Emits a Playwright-like download whose file has the given content */
+  async function download(name: string, content: string): Promise<void> {
+    const tempFile = path.join(tmp, `playwright-${name}`);
+    await fs.writeFile(tempFile, content);
+    page.emit('download', {
+      suggestedFilename: () => name,
+      path: async () => tempFile,
+      saveAs: async (target: string) => {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.copyFile(tempFile, target);
+      },
+      failure: async () => null,
+    });
+  }
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'e2e-downloads-'));
+    recorder = new DownloadRecorder();
+    page = new EventEmitter();
+    recorder.attach(page as any);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmp, { recursive: true, force: true });
+  });
+
+  it('should hand out downloads in the order they started', async () => {
+    await download('a.csv', 'a');
+    await download('b.pdf', 'bbb');
+
+    await expect(recorder.expectDownload(0)).resolves.toEqual({
+      name: 'a.csv',
+      path: path.join(tmp, 'playwright-a.csv'),
+      size: 1,
+    });
+    await expect(recorder.expectDownload(0)).resolves.toMatchObject({ name: 'b.pdf', size: 3 });
+    await expect(recorder.expectDownload(20)).rejects.toThrow('No download started within 20ms');
+  });
+
+  it('should wait for a download that starts after the step', async () => {
+    const expectation = recorder.expectDownload(1000);
+    setTimeout(() => void download('report.pdf', 'pdf'), 10);
+
+    await expect(expectation).resolves.toMatchObject({ name: 'report.pdf' });
+  });
+
+  it('should save downloads to the given directory', async () => {
+    const dir = path.join(tmp, 'artifacts', 'export-downloads');
+    page = new EventEmitter();
+    recorder.attach(page as any, dir);
+    await download('report.pdf', 'pdf');
+
+    const saved = await recorder.expectDownload(0);
+
+    expect(saved.path).toBe(path.join(dir, 'report.pdf'));
+    await expect(fs.readFile(saved.path, 'utf8')).resolves.toBe('pdf');
+    expect(recorder.downloads).toEqual([saved]);
+  });
+
+  it('should find downloads by name glob and size', async () => {
+    await download('report-2024.pdf', '0123456789');
+    await recorder.expectDownload(0);
+
+    await expect(
+      recorder.expectDownloadMatching({ name: 'report-*.pdf', sizeGreaterThan: 5 }, 0)
+    ).resolves.toMatchObject({ name: 'report-2024.pdf' });
+    await expect(
+      recorder.expectDownloadMatching({ name: 'report-*.pdf', sizeGreaterThan: 10 }, 0)
+    ).rejects.toThrow(
+      'No download named report-*.pdf larger than 10 bytes within 0ms (got report-2024.pdf, 10 bytes)'
+    );
+  });
+
+  it('should report a failed download', async () => {
+    page.emit('download', {
+      suggestedFilename: () => 'report.pdf',
+      path: async () => {
+        throw new Error('Download failed');
+      },
+      failure: async () => 'canceled',
+    });
+
+    await expect(recorder.expectDownload(0)).rejects.toThrow(
+      'Download of report.pdf failed: canceled'
+    );
+  });
+});
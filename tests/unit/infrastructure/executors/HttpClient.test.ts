@@ -0,0 +1,167 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { APIRequestContext, request } from 'playwright';
+import { HttpClient } from '../../../../src/infrastructure/executors/HttpClient';
+
+/**
+ * A stand-in for the shop's API: POST /api/products creates a product from
+ * its JSON body and sets a session cookie; GET /api/whoami echoes the cookie.
+ */
+function createApi(): http.Server {
+  return http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method === 'POST' && req.url === '/api/products') {
+        res.statusCode = 201;
+        res.setHeader('Set-Cookie', 'session=abc; Path=/');
+        res.end(
+          JSON.stringify({
+            id: 7,
+            product: JSON.parse(body),
+            contentType: req.headers['content-type'],
+            apiKey: req.headers['x-api-key'] ?? null,
+          })
+        );
+      } else if (req.url === '/api/whoami') {
+        res.end(JSON.stringify({ cookie: req.headers.cookie ?? null }));
+      } else {
+        res.statusCode = 404;
+        res.setHeader('Content-Type', 'text/plain');
+        res.end('Not found');
+      }
+    });
+  });
+}
+
+describe('HttpClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let context: APIRequestContext;
+  let client: HttpClient;
+
+  beforeAll(async () => {
+    server = createApi();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    context = await request.newContext();
+    client = new HttpClient();
+    client.attach(context);
+  });
+
+  afterEach(async () => {
+    await context.dispose();
+  });
+
+  it('should send JSON bodies with headers and keep the response', async () => {
+    const response = await client.send({
+      method: 'POST',
+      url: `${baseUrl}/api/products`,
+      headers: '{"X-Api-Key":"secret"}',
+      json: '{"name":"Blue T-Shirt"}',
+    });
+
+    expect(response.status).toBe(201);
+    expect(JSON.parse(response.body)).toEqual({
+      id: 7,
+      product: { name: 'Blue T-Shirt' },
+      contentType: 'application/json',
+      apiKey: 'secret',
+    });
+    expect(client.lastResponse).toBe(response);
+  });
+
+  it('should read the JSON body from a file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-client-test-'));
+    const file = path.join(dir, 'product.json');
+    await fs.writeFile(file, '{"name":"Red Cap"}');
+
+    try {
+      const response = await client.send({
+        method: 'POST',
+        url: `${baseUrl}/api/products`,
+        jsonFile: file,
+      });
+
+      expect(JSON.parse(response.body).product).toEqual({ name: 'Red Cap' });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep the cookies responses set for later requests', async () => {
+    await client.send({ method: 'POST', url: `${baseUrl}/api/products`, json: '{}' });
+    const response = await client.send({ method: 'GET', url: `${baseUrl}/api/whoami` });
+
+    expect(JSON.parse(response.body)).toEqual({ cookie: 'session=abc' });
+  });
+
+  it('should reject invalid JSON before sending', async () => {
+    await expect(
+      client.send({ method: 'POST', url: `${baseUrl}/api/products`, json: '{name}' })
+    ).rejects.toThrow('Invalid JSON in json:');
+    expect(client.lastResponse).toBeUndefined();
+  });
+
+  describe('expectResponse', () => {
+    beforeEach(async () => {
+      await client.send({
+        method: 'POST',
+        url: `${baseUrl}/api/products`,
+        json: '{"name":"Blue T-Shirt","sizes":["M","L"]}',
+      });
+    });
+
+    it('should check the status and return the value at the JSON path', () => {
+      expect(client.expectResponse({ status: 201, jsonPath: '$.id' })).toBe('7');
+      expect(client.expectResponse({ jsonPath: '$.product.sizes' })).toBe('["M","L"]');
+      expect(client.expectResponse({ jsonPath: '$.product.name', value: 'Blue T-Shirt' })).toBe(
+        'Blue T-Shirt'
+      );
+      expect(client.expectResponse({ jsonPath: '$.error', exists: false })).toBeUndefined();
+    });
+
+    it('should describe the check that failed', () => {
+      const request = `POST ${baseUrl}/api/products`;
+
+      expect(() => client.expectResponse({ status: 200 })).toThrow(
+        `Expected status 200, got 201 for ${request}`
+      );
+      expect(() => client.expectResponse({ jsonPath: '$.price' })).toThrow(
+        `$.price not found in the response of ${request}`
+      );
+      expect(() => client.expectResponse({ jsonPath: '$.product.name', value: 'Red' })).toThrow(
+        'Expected $.product.name to be "Red", got "Blue T-Shirt"'
+      );
+      expect(() => client.expectResponse({ jsonPath: '$.id', exists: false })).toThrow(
+        `Expected $.id to be absent, got 7 for ${request}`
+      );
+    });
+
+    it('should fail on a body that is not JSON', async () => {
+      await client.send({ method: 'GET', url: `${baseUrl}/missing` });
+
+      expect(client.expectResponse({ status: 404 })).toBeUndefined();
+      expect(() => client.expectResponse({ jsonPath: '$.id' })).toThrow(
+        `Response of GET ${baseUrl}/missing is not JSON`
+      );
+    });
+  });
+
+  it('should need a response to assert on', () => {
+    expect(() => client.expectResponse({ status: 200 })).toThrow(
+      'No http response to assert on; run an http step first'
+    );
+  });
+});
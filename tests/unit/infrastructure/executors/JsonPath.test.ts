@@ -0,0 +1,37 @@
+import { parseJsonPath, readJsonPath } from '../../../../src/infrastructure/executors/JsonPath';
+
+describe('JsonPath', () => {
+  describe('parseJsonPath', () => {
+    it('should split keys, indexes and quoted keys', () => {
+      expect(parseJsonPath('$.items[0].id')).toEqual(['items', 0, 'id']);
+      expect(parseJsonPath(`$['order id']["total"]`)).toEqual(['order id', 'total']);
+      expect(parseJsonPath('$')).toEqual([]);
+    });
+
+    it.each([
+      ['id', 'JSON path must start with $, got "id"'],
+      ['$.items[first]', 'Invalid JSON path "$.items[first]" at "[first]"'],
+      ['$..id', 'Invalid JSON path "$..id" at "..id"'],
+    ])('should reject %p', (path, message) => {
+      expect(() => parseJsonPath(path)).toThrow(message);
+    });
+  });
+
+  describe('readJsonPath', () => {
+    const product = { id: 7, name: 'Blue T-Shirt', tags: ['sale'], discount: null };
+
+    it('should read the value a path points to', () => {
+      expect(readJsonPath(product, '$.id')).toEqual({ found: true, value: 7 });
+      expect(readJsonPath(product, '$.tags[0]')).toEqual({ found: true, value: 'sale' });
+      expect(readJsonPath(product, '$.discount')).toEqual({ found: true, value: null });
+      expect(readJsonPath(product, '$')).toEqual({ found: true, value: product });
+    });
+
+    it('should tell when a path does not exist', () => {
+      expect(readJsonPath(product, '$.price')).toEqual({ found: false });
+      expect(readJsonPath(product, '$.tags[1]')).toEqual({ found: false });
+      expect(readJsonPath(product, '$.name.first')).toEqual({ found: false });
+      expect(readJsonPath(product, '$.discount.amount')).toEqual({ found: false });
+    });
+  });
+});
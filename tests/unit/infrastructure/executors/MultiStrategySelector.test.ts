@@ -1,5 +1,9 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { MultiStrategySelector } from '../../../../src/infrastructure/executors/MultiStrategySelector';
+import {
+  AmbiguousSelectorError,
+  MultiStrategySelector,
+  strictModeFromEnv,
+} from '../../../../src/infrastructure/executors/MultiStrategySelector';
 import { SelectorSpec } from '../../../../src/domain/entities/SelectorSpec';
 
 describe('MultiStrategySelector', () => {
@@ -164,6 +168,147 @@ describe('MultiStrategySelector', () => {
 
       expect(element).toBeDefined();
     });
+
+    it('should find element by role and accessible name', async () => {
+      await page.setContent('<button>Cancel</button><button>Sign in</button>');
+
+      const spec = new SelectorSpec('role', 'button[name="sign in"]');
+      const element = await selector.locate(page, spec);
+
+      expect(await element.textContent()).toBe('Sign in');
+    });
+
+    it('should respect exact and level options', async () => {
+      await page.setContent('<h1>Cart</h1><h2>Cart total</h2>');
+
+      const spec = new SelectorSpec('role', 'heading[name=Cart total][exact][level=2]');
+      const element = await selector.locate(page, spec);
+
+      expect(await element.textContent()).toBe('Cart total');
+    });
+  });
+
+  describe('Label, Alt and Title Selector Strategies', () => {
+    it('should find input by label', async () => {
+      await page.setContent('<label for="email">Email</label><input id="email" />');
+
+      const element = await selector.locate(page, new SelectorSpec('label', 'Email'));
+
+      expect(await element.getAttribute('id')).toBe('email');
+    });
+
+    it('should find image by alt text and element by title', async () => {
+      await page.setContent('<img alt="Company logo" /><span title="Close dialog">x</span>');
+
+      expect(
+        await (
+          await selector.locate(page, new SelectorSpec('alt', 'Company logo'))
+        ).getAttribute('alt')
+      ).toBe('Company logo');
+      expect(
+        await (await selector.locate(page, new SelectorSpec('title', 'Close dialog'))).textContent()
+      ).toBe('x');
+    });
+  });
+
+  describe('Scoped Selectors', () => {
+    const rows = `
+      <div class="row"><span>Red T-Shirt</span><button>Buy</button></div>
+      <div class="row"><span>Blue T-Shirt</span><em class="sale">Sale</em><button>Buy</button></div>
+    `;
+
+    it('should search inside a parent filtered by text', async () => {
+      await page.setContent(rows);
+
+      const spec = new SelectorSpec('role', 'button[name=Buy]', [], undefined, {
+        parent: new SelectorSpec('css', '.row', [], undefined, { hasText: 'Blue' }),
+      });
+      const element = await selector.locate(page, spec);
+
+      expect(await element.evaluate(el => el.parentElement?.textContent)).toContain('Blue');
+    });
+
+    it('should filter by a descendant and pick a match by index', async () => {
+      await page.setContent(rows);
+
+      const withSale = await selector.locate(
+        page,
+        new SelectorSpec('css', '.row', [], undefined, { has: new SelectorSpec('css', '.sale') })
+      );
+      const last = await selector.locate(
+        page,
+        new SelectorSpec('css', '.row span', [], undefined, { nth: -1 })
+      );
+
+      expect(await withSale.textContent()).toContain('Blue T-Shirt');
+      expect(await last.textContent()).toBe('Blue T-Shirt');
+    });
+  });
+
+  describe('Strict Mode', () => {
+    const products = `
+      <button class="add-to-cart" data-testid="add-1">Add to cart</button>
+      <button class="add-to-cart" data-testid="add-2">Add to cart</button>
+      <button class="add-to-cart" data-testid="add-3">Add to cart</button>
+    `;
+
+    it('should use the first match when strict mode is off', async () => {
+      await page.setContent(products);
+
+      const element = await selector.locate(page, new SelectorSpec('text', 'Add to cart'));
+
+      expect(await element.getAttribute('data-testid')).toBe('add-1');
+    });
+
+    it('should fail with the match count and the candidates', async () => {
+      await page.setContent(products);
+      selector.setStrictMode('fail');
+
+      const error = await selector
+        .locate(page, new SelectorSpec('text', 'Add to cart'))
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(AmbiguousSelectorError);
+      expect(error.count).toBe(3);
+      expect(error.candidates[0]).toBe('button.add-to-cart[data-testid="add-1"] "Add to cart"');
+      expect(error.message).toContain(
+        'Selector text=Add to cart matches 3 elements; make it unique or pick one with nth='
+      );
+    });
+
+    it('should warn and use the first match in warn mode', async () => {
+      await page.setContent(products);
+      selector.setStrictMode('warn');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const element = await selector.locate(page, new SelectorSpec('text', 'Add to cart'));
+
+      expect(await element.getAttribute('data-testid')).toBe('add-1');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('matches 3 elements'));
+      warn.mockRestore();
+    });
+
+    it('should accept unique selectors and selectors that pick a match', async () => {
+      await page.setContent(products);
+      selector.setStrictMode('fail');
+
+      const unique = await selector.locate(page, new SelectorSpec('testid', 'add-2'));
+      const picked = await selector.locate(
+        page,
+        new SelectorSpec('text', 'Add to cart', [], undefined, { nth: 1 })
+      );
+
+      expect(await unique.getAttribute('data-testid')).toBe('add-2');
+      expect(await picked.getAttribute('data-testid')).toBe('add-2');
+    });
+
+    it('should read the mode from STRICT_SELECTORS', () => {
+      expect(strictModeFromEnv({})).toBe('off');
+      expect(strictModeFromEnv({ STRICT_SELECTORS: 'fail' })).toBe('fail');
+      expect(() => strictModeFromEnv({ STRICT_SELECTORS: 'strict' })).toThrow(
+        'Unknown STRICT_SELECTORS mode: strict'
+      );
+    });
   });
 
   describe('Test ID Selector Strategy', () => {
@@ -216,6 +361,23 @@ describe('MultiStrategySelector', () => {
       expect(text).toBe('Submit');
     });
 
+    it('should tell which fallback found the element', async () => {
+      await page.setContent('<button id="submit-button">Submit</button>');
+
+      const fallback = await selector.resolve(
+        page,
+        new SelectorSpec('css', 'button.nonexistent', [
+          { strategy: 'text', value: 'Nonexistent' },
+          { strategy: 'css', value: '#submit-button' },
+        ])
+      );
+      const primary = await selector.resolve(page, new SelectorSpec('css', '#submit-button'));
+
+      expect(fallback.fallback).toBe(2);
+      expect(fallback.duration).toBeGreaterThanOrEqual(0);
+      expect(primary.fallback).toBeUndefined();
+    });
+
     it('should work with primary strategy if it succeeds', async () => {
       await page.setContent('<button class="primary">Submit</button>');
 
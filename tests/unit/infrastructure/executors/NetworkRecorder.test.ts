@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import {
+  NetworkRecorder,
+  globToRegExp,
+} from '../../../../src/infrastructure/executors/NetworkRecorder';
+
+/** Emits Playwright-like request and response events */
+function sendRequest(page: EventEmitter, url: string, method = 'GET', body?: string): any {
+  const request = { url: () => url, method: () => method, postData: () => body ?? null };
+  page.emit('request', request);
+  return request;
+}
+
+function receiveResponse(page: EventEmitter, url: string, status: number, method = 'GET'): void {
+  page.emit('response', {
+    url: () => url,
+    status: () => status,
+    request: () => ({ method: () => method }),
+  });
+}
+
+describe('globToRegExp', () => {
+  it.each([
+    ['**/api/cart', 'https://shop.dev/api/cart', true],
+    ['**/api/cart', 'https://shop.dev/api/cart/items', false],
+    ['**/*.png', 'https://cdn.shop.dev/img/logo.png', true],
+    ['https://shop.dev/*', 'https://shop.dev/api/cart', false],
+    ['**/*.{png,jpg}', 'https://shop.dev/a.jpg', true],
+    ['**/search?q=*', 'https://shop.dev/search?q=shoes', true],
+    ['**/search?q=*', 'https://shop.dev/searchxq=shoes', false],
+  ])('should match %s against %s: %p', (glob, url, expected) => {
+    expect(globToRegExp(glob).test(url)).toBe(expected);
+  });
+});
+
+describe('NetworkRecorder', () => {
+  let recorder: NetworkRecorder;
+  let page: EventEmitter;
+
+  beforeEach(() => {
+    recorder = new NetworkRecorder();
+    page = new EventEmitter();
+    recorder.attach(page as any);
+  });
+
+  it('should find a request sent before the assertion', async () => {
+    sendRequest(page, 'https://shop.dev/api/order', 'POST', '{"sku":"TS-1"}');
+
+    await expect(
+      recorder.expectRequest({ url: '**/api/order', method: 'post', bodyContains: 'sku' }, 0)
+    ).resolves.toEqual({
+      url: 'https://shop.dev/api/order',
+      method: 'POST',
+      body: '{"sku":"TS-1"}',
+    });
+  });
+
+  it('should wait for a request sent after the assertion started', async () => {
+    const expectation = recorder.expectRequest({ url: '**/api/track' }, 1000);
+    setTimeout(() => sendRequest(page, 'https://shop.dev/api/track'), 10);
+
+    await expect(expectation).resolves.toMatchObject({ url: 'https://shop.dev/api/track' });
+  });
+
+  it('should describe the missing request', async () => {
+    sendRequest(page, 'https://shop.dev/api/order', 'GET');
+
+    await expect(
+      recorder.expectRequest({ url: '**/api/order', method: 'POST', bodyContains: 'sku' }, 20)
+    ).rejects.toThrow(
+      'No POST request matching **/api/order with a body containing "sku" within 20ms'
+    );
+  });
+
+  it('should report the statuses of responses that did not match', async () => {
+    receiveResponse(page, 'https://shop.dev/api/pay', 500);
+
+    await expect(recorder.expectResponse({ url: '**/api/pay', status: 201 }, 0)).rejects.toThrow(
+      'No response matching **/api/pay with status 201 within 0ms (got 500)'
+    );
+    await expect(recorder.expectResponse({ url: '**/api/pay' }, 0)).resolves.toEqual({
+      url: 'https://shop.dev/api/pay',
+      method: 'GET',
+      status: 500,
+    });
+  });
+
+  it('should forget the traffic of the previous page', async () => {
+    sendRequest(page, 'https://shop.dev/api/order');
+    recorder.attach(new EventEmitter() as any);
+
+    await expect(recorder.expectRequest({ url: '**/api/order' }, 0)).rejects.toThrow(
+      'No request matching **/api/order'
+    );
+  });
+});
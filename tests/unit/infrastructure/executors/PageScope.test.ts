@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import { PageScope } from '../../../../src/infrastructure/executors/PageScope';
+
+/** A Playwright-like page that can be closed */
+function createPage(opener: any = null): any {
+  const page: any = {
+    closed: false,
+    isClosed: () => page.closed,
+    opener: jest.fn().mockResolvedValue(opener),
+    close: jest.fn(async () => {
+      page.closed = true;
+    }),
+    bringToFront: jest.fn().mockResolvedValue(undefined),
+    waitForLoadState: jest.fn().mockResolvedValue(undefined),
+  };
+  return page;
+}
+
+describe('PageScope', () => {
+  let context: EventEmitter;
+  let first: any;
+  let scope: PageScope;
+
+  beforeEach(() => {
+    context = new EventEmitter();
+    first = createPage();
+    scope = new PageScope(context as any, first);
+  });
+
+  it('should switch into an iframe and back to the page', async () => {
+    const frame = { name: 'card' };
+    const iframe: any = {
+      elementHandle: jest.fn().mockResolvedValue({ contentFrame: async () => frame }),
+    };
+
+    await scope.switchFrame(iframe);
+    expect(scope.frame).toBe(frame);
+
+    scope.switchToMainFrame();
+    expect(scope.frame).toBeUndefined();
+  });
+
+  it('should reject elements that are not iframes', async () => {
+    const div: any = {
+      elementHandle: jest.fn().mockResolvedValue({ contentFrame: async () => null }),
+    };
+
+    await expect(scope.switchFrame(div)).rejects.toThrow('switchFrame requires an iframe element');
+  });
+
+  it('should switch to a popup opened before the step and name it', async () => {
+    const popup = createPage(first);
+    context.emit('page', popup);
+
+    await expect(scope.expectPopup(0, 'paypal')).resolves.toBe(popup);
+    expect(scope.page).toBe(popup);
+    expect(popup.waitForLoadState).toHaveBeenCalledWith('domcontentloaded', { timeout: 0 });
+
+    await scope.switchTab({ index: 0 });
+    expect(scope.page).toBe(first);
+    await scope.switchTab({ name: 'paypal' });
+    expect(scope.page).toBe(popup);
+  });
+
+  it('should wait for a popup that opens after the step started', async () => {
+    const popup = createPage(first);
+    const expectation = scope.expectPopup(1000);
+    setTimeout(() => context.emit('page', popup), 10);
+
+    await expect(expectation).resolves.toBe(popup);
+    await expect(scope.expectPopup(20)).rejects.toThrow('No popup opened within 20ms');
+  });
+
+  it('should leave the frame when switching tabs', async () => {
+    const iframe: any = {
+      elementHandle: jest.fn().mockResolvedValue({ contentFrame: async () => ({}) }),
+    };
+    context.emit('page', createPage(first));
+    await scope.switchFrame(iframe);
+
+    await scope.expectPopup(0);
+
+    expect(scope.frame).toBeUndefined();
+  });
+
+  it('should describe missing tabs', async () => {
+    await expect(scope.switchTab({ index: 2 })).rejects.toThrow('No tab at index 2 (1 open)');
+    await expect(scope.switchTab({ name: 'paypal' })).rejects.toThrow('No open tab named paypal');
+  });
+
+  it('should close a popup and return to its opener', async () => {
+    const other = createPage();
+    const popup = createPage(first);
+    context.emit('page', other);
+    context.emit('page', popup);
+    await scope.expectPopup(0);
+    await scope.expectPopup(0);
+
+    await scope.closeTab();
+
+    expect(popup.close).toHaveBeenCalled();
+    expect(scope.page).toBe(first);
+    expect(scope.tabs).toEqual([first, other]);
+  });
+
+  it('should not close the last tab', async () => {
+    await expect(scope.closeTab()).rejects.toThrow('Cannot close the last open tab');
+    expect(first.close).not.toHaveBeenCalled();
+  });
+});
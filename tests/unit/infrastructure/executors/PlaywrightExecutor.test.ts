@@ -0,0 +1,1350 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import { PlaywrightExecutor } from '../../../../src/infrastructure/executors/PlaywrightExecutor';
+import { OxtestCommand } from '../../../../src/domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../../../src/domain/entities/SelectorSpec';
+import { BlockCondition } from '../../../../src/domain/entities/OxtestBlock';
+import { VALID_COMMAND_TYPES } from '../../../../src/domain/enums/CommandType';
+import { DEFAULT_STEP_POLICY } from '../../../../src/domain/interfaces/StepPolicy';
+import { VariableInterpolator } from '../../../../src/application/services/VariableInterpolator';
+
+jest.mock('playwright', () => ({
+  chromium: { launch: jest.fn() },
+}));
+
+/**
+ * Builds a mock Locator whose first() returns itself, so that
+ * MultiStrategySelector.locate() resolves to the same object.
+ */
+function createMockLocator(): any {
+  const locator: any = {
+    waitFor: jest.fn().mockResolvedValue(undefined),
+    click: jest.fn().mockResolvedValue(undefined),
+    dblclick: jest.fn().mockResolvedValue(undefined),
+    fill: jest.fn().mockResolvedValue(undefined),
+    type: jest.fn().mockResolvedValue(undefined),
+    pressSequentially: jest.fn().mockResolvedValue(undefined),
+    press: jest.fn().mockResolvedValue(undefined),
+    check: jest.fn().mockResolvedValue(undefined),
+    uncheck: jest.fn().mockResolvedValue(undefined),
+    selectOption: jest.fn().mockResolvedValue([]),
+    hover: jest.fn().mockResolvedValue(undefined),
+    focus: jest.fn().mockResolvedValue(undefined),
+    blur: jest.fn().mockResolvedValue(undefined),
+    clear: jest.fn().mockResolvedValue(undefined),
+    setInputFiles: jest.fn().mockResolvedValue(undefined),
+    dragTo: jest.fn().mockResolvedValue(undefined),
+    scrollIntoViewIfNeeded: jest.fn().mockResolvedValue(undefined),
+    textContent: jest.fn().mockResolvedValue(''),
+    inputValue: jest.fn().mockResolvedValue(''),
+    isVisible: jest.fn().mockResolvedValue(true),
+    isEnabled: jest.fn().mockResolvedValue(true),
+    isDisabled: jest.fn().mockResolvedValue(false),
+    isChecked: jest.fn().mockResolvedValue(false),
+    getAttribute: jest.fn().mockResolvedValue(null),
+    screenshot: jest.fn().mockResolvedValue(Buffer.from('')),
+  };
+  locator.first = jest.fn().mockReturnValue(locator);
+  return locator;
+}
+
+function createMockPage(locator: any): any {
+  return {
+    goto: jest.fn().mockResolvedValue(null),
+    goBack: jest.fn().mockResolvedValue(null),
+    goForward: jest.fn().mockResolvedValue(null),
+    reload: jest.fn().mockResolvedValue(null),
+    url: jest.fn().mockReturnValue('https://shop.dev/'),
+    title: jest.fn().mockResolvedValue(''),
+    waitForTimeout: jest.fn().mockResolvedValue(undefined),
+    screenshot: jest.fn().mockResolvedValue(Buffer.from('')),
+    setViewportSize: jest.fn().mockResolvedValue(undefined),
+    keyboard: { press: jest.fn().mockResolvedValue(undefined) },
+    mouse: { wheel: jest.fn().mockResolvedValue(undefined) },
+    on: jest.fn(),
+    video: jest.fn().mockReturnValue(null),
+    locator: jest.fn().mockReturnValue(locator),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('PlaywrightExecutor', () => {
+  let executor: PlaywrightExecutor;
+  let page: any;
+  let locator: any;
+  let browser: any;
+  let context: any;
+  const css = (value: string): SelectorSpec => new SelectorSpec('css', value);
+
+  beforeEach(async () => {
+    locator = createMockLocator();
+    page = createMockPage(locator);
+    context = {
+      newPage: jest.fn().mockResolvedValue(page),
+      storageState: jest.fn().mockResolvedValue({ cookies: [], origins: [] }),
+      cookies: jest.fn().mockResolvedValue([]),
+      addCookies: jest.fn().mockResolvedValue(undefined),
+      clearCookies: jest.fn().mockResolvedValue(undefined),
+      route: jest.fn().mockResolvedValue(undefined),
+      unroute: jest.fn().mockResolvedValue(undefined),
+      unrouteAll: jest.fn().mockResolvedValue(undefined),
+      request: { fetch: jest.fn() },
+      tracing: {
+        start: jest.fn().mockResolvedValue(undefined),
+        stop: jest.fn().mockResolvedValue(undefined),
+      },
+      on: jest.fn(),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    browser = {
+      newContext: jest.fn().mockResolvedValue(context),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    (chromium.launch as jest.Mock).mockResolvedValue(browser);
+
+    executor = new PlaywrightExecutor();
+    await executor.initialize();
+  });
+
+  afterEach(async () => {
+    await executor.close();
+  });
+
+  it('should throw if executed before initialize', async () => {
+    const uninitialized = new PlaywrightExecutor();
+    await expect(
+      uninitialized.execute(new OxtestCommand('navigate', { url: 'https://shop.dev' }))
+    ).rejects.toThrow('Executor not initialized');
+  });
+
+  describe('browser contexts', () => {
+    it('should replace the context with a fresh one', async () => {
+      const freshPage = createMockPage(locator);
+      const fresh = { ...context, newPage: jest.fn().mockResolvedValue(freshPage) };
+      browser.newContext.mockResolvedValueOnce(fresh);
+
+      await executor.newContext();
+      await executor.execute(new OxtestCommand('navigate', { url: 'https://shop.dev' }));
+
+      expect(context.close).toHaveBeenCalled();
+      expect(browser.newContext).toHaveBeenLastCalledWith({});
+      expect(freshPage.goto).toHaveBeenCalledWith('https://shop.dev');
+      expect(page.goto).not.toHaveBeenCalled();
+    });
+
+    it('should start a context from a storage state file', async () => {
+      await executor.newContext('.auth/login.json');
+
+      expect(browser.newContext).toHaveBeenLastCalledWith({ storageState: '.auth/login.json' });
+    });
+
+    it('should save the storage state of the current context', async () => {
+      await executor.saveStorageState('.auth/login.json');
+
+      expect(context.storageState).toHaveBeenCalledWith({ path: '.auth/login.json' });
+    });
+
+    it('should throw if a context is requested before initialize', async () => {
+      await expect(new PlaywrightExecutor().newContext()).rejects.toThrow(
+        'Executor not initialized'
+      );
+    });
+  });
+
+  describe('recording', () => {
+    let dir: string;
+    const artifact = (file: string): string => path.join(dir, file);
+    const navigate = new OxtestCommand('navigate', { url: 'https://shop.dev' });
+    const click = new OxtestCommand('click', {}, css('.buy'));
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'e2e-recording-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should record a HAR file when asked and write it on closeContext', async () => {
+      await executor.newContext(undefined, { dir, name: 'checkout', har: true });
+      const artifacts = await executor.closeContext();
+
+      expect(browser.newContext).toHaveBeenLastCalledWith({
+        recordHar: { path: artifact('checkout.har') },
+      });
+      expect(context.close).toHaveBeenCalledTimes(2);
+      expect(artifacts.files).toEqual([
+        { name: 'HAR', path: artifact('checkout.har'), contentType: 'application/json' },
+      ]);
+      await expect(executor.execute(navigate)).rejects.toThrow('Executor not initialized');
+    });
+
+    it('should screenshot every step when asked', async () => {
+      await executor.newContext(undefined, { dir, name: 'checkout', screenshot: 'every-step' });
+      await executor.execute(navigate);
+      await executor.execute(click);
+      const artifacts = await executor.closeContext();
+
+      expect(page.screenshot).toHaveBeenCalledWith({
+        path: artifact('checkout-step-1-navigate.png'),
+      });
+      expect(artifacts.screenshots).toEqual([
+        {
+          path: artifact('checkout-step-1-navigate.png'),
+          step: 1,
+          command: 'navigate(url=https://shop.dev)',
+        },
+        { path: artifact('checkout-step-2-click.png'), step: 2, command: 'click(css:.buy)' },
+      ]);
+    });
+
+    it('should screenshot only failed steps on failure', async () => {
+      locator.click.mockRejectedValue(new Error('Element is detached'));
+
+      await executor.newContext(undefined, { dir, name: 'checkout', screenshot: 'on-failure' });
+      await executor.execute(navigate);
+      const result = await executor.execute(click);
+      const artifacts = await executor.closeContext();
+
+      expect(result.success).toBe(false);
+      expect(artifacts.screenshots).toEqual([
+        { path: artifact('checkout-step-2-click.png'), step: 2, command: 'click(css:.buy)' },
+      ]);
+    });
+
+    it('should not fail a step whose screenshot fails', async () => {
+      page.screenshot.mockRejectedValue(new Error('Target closed'));
+
+      await executor.newContext(undefined, { dir, name: 'checkout', screenshot: 'every-step' });
+      const result = await executor.execute(navigate);
+
+      expect(result.success).toBe(true);
+      expect((await executor.closeContext()).screenshots).toEqual([]);
+    });
+
+    it('should save the trace and the video under the test name', async () => {
+      const video = {
+        saveAs: jest.fn().mockResolvedValue(undefined),
+        delete: jest.fn().mockResolvedValue(undefined),
+      };
+      page.video.mockReturnValue(video);
+
+      await executor.newContext(undefined, { dir, name: 'checkout', trace: true, video: true });
+      const artifacts = await executor.closeContext();
+
+      expect(browser.newContext).toHaveBeenLastCalledWith({ recordVideo: { dir } });
+      expect(context.tracing.start).toHaveBeenCalledWith({ screenshots: true, snapshots: true });
+      expect(context.tracing.stop).toHaveBeenCalledWith({ path: artifact('checkout-trace.zip') });
+      expect(video.saveAs).toHaveBeenCalledWith(artifact('checkout.webm'));
+      expect(video.delete).toHaveBeenCalled();
+      expect(artifacts.files.map(file => file.name)).toEqual(['Trace', 'Video']);
+    });
+
+    it('should start the next context without the previous recordings', async () => {
+      await executor.newContext(undefined, { dir, name: 'checkout', screenshot: 'every-step' });
+      await executor.execute(navigate);
+      await executor.newContext();
+      await executor.execute(navigate);
+
+      expect(await executor.closeContext()).toEqual({ screenshots: [], files: [] });
+    });
+  });
+
+  describe('navigation', () => {
+    it('should navigate to url', async () => {
+      const result = await executor.execute(
+        new OxtestCommand('navigate', { url: 'https://shop.dev' })
+      );
+      expect(result.success).toBe(true);
+      expect(page.goto).toHaveBeenCalledWith('https://shop.dev');
+    });
+
+    it('should go back', async () => {
+      expect((await executor.execute(new OxtestCommand('goBack', {}))).success).toBe(true);
+      expect(page.goBack).toHaveBeenCalled();
+    });
+
+    it('should go forward', async () => {
+      expect((await executor.execute(new OxtestCommand('goForward', {}))).success).toBe(true);
+      expect(page.goForward).toHaveBeenCalled();
+    });
+
+    it('should reload', async () => {
+      expect((await executor.execute(new OxtestCommand('reload', {}))).success).toBe(true);
+      expect(page.reload).toHaveBeenCalled();
+    });
+  });
+
+  describe('interaction', () => {
+    it('should click', async () => {
+      await executor.execute(new OxtestCommand('click', {}, css('button')));
+      expect(page.locator).toHaveBeenCalledWith('button');
+      expect(locator.click).toHaveBeenCalled();
+    });
+
+    it('should fill', async () => {
+      await executor.execute(new OxtestCommand('fill', { value: 'admin' }, css('input')));
+      expect(locator.fill).toHaveBeenCalledWith('admin');
+    });
+
+    it('should type', async () => {
+      await executor.execute(new OxtestCommand('type', { value: 'hello' }, css('input')));
+      expect(locator.type).toHaveBeenCalledWith('hello');
+    });
+
+    it('should press key, defaulting to Enter', async () => {
+      await executor.execute(new OxtestCommand('press', { key: 'Tab' }, css('input')));
+      await executor.execute(new OxtestCommand('press', {}, css('input')));
+      expect(locator.press).toHaveBeenNthCalledWith(1, 'Tab');
+      expect(locator.press).toHaveBeenNthCalledWith(2, 'Enter');
+    });
+
+    it('should click with modifiers at a position, double-click and right-click', async () => {
+      await executor.execute(
+        new OxtestCommand('click', { modifiers: 'Shift, Control', position: '10,5' }, css('.row'))
+      );
+      await executor.execute(new OxtestCommand('doubleClick', {}, css('.title')));
+      await executor.execute(new OxtestCommand('rightClick', {}, css('.card')));
+
+      expect(locator.click).toHaveBeenNthCalledWith(1, {
+        modifiers: ['Shift', 'Control'],
+        position: { x: 10, y: 5 },
+      });
+      expect(locator.dblclick).toHaveBeenCalledWith({});
+      expect(locator.click).toHaveBeenNthCalledWith(2, { button: 'right' });
+    });
+
+    it('should type key by key with a delay', async () => {
+      await executor.execute(
+        new OxtestCommand('type', { value: 'hello', delay: '50' }, css('.editor'))
+      );
+      expect(locator.pressSequentially).toHaveBeenCalledWith('hello', { delay: 50 });
+    });
+
+    it('should press keys on the page without a selector', async () => {
+      await executor.execute(new OxtestCommand('press', { key: 'Control+A' }));
+      expect(page.keyboard.press).toHaveBeenCalledWith('Control+A');
+      expect(locator.press).not.toHaveBeenCalled();
+    });
+
+    it('should drag an element onto another', async () => {
+      await executor.execute(new OxtestCommand('drag', { to: 'css=.column-done' }, css('.card')));
+
+      expect(page.locator).toHaveBeenCalledWith('.card');
+      expect(page.locator).toHaveBeenCalledWith('.column-done');
+      expect(locator.dragTo).toHaveBeenCalledWith(locator);
+    });
+
+    it('should scroll an element into view and scroll with the wheel', async () => {
+      await executor.execute(new OxtestCommand('scrollIntoView', {}, css('footer')));
+      await executor.execute(new OxtestCommand('scroll', { by: '0,500' }));
+      await executor.execute(new OxtestCommand('scroll', { by: '0,-200' }, css('.list')));
+
+      expect(locator.scrollIntoViewIfNeeded).toHaveBeenCalled();
+      expect(page.mouse.wheel).toHaveBeenNthCalledWith(1, 0, 500);
+      expect(locator.hover).toHaveBeenCalled();
+      expect(page.mouse.wheel).toHaveBeenNthCalledWith(2, 0, -200);
+    });
+
+    it('should check and uncheck', async () => {
+      await executor.execute(new OxtestCommand('check', {}, css('#terms')));
+      await executor.execute(new OxtestCommand('uncheck', {}, css('#terms')));
+      expect(locator.check).toHaveBeenCalled();
+      expect(locator.uncheck).toHaveBeenCalled();
+    });
+
+    it('should select option by value', async () => {
+      await executor.execute(new OxtestCommand('selectOption', { value: 'DE' }, css('select')));
+      expect(locator.selectOption).toHaveBeenCalledWith('DE');
+    });
+
+    it('should select option by index', async () => {
+      await executor.execute(new OxtestCommand('selectOption', { index: '2' }, css('select')));
+      expect(locator.selectOption).toHaveBeenCalledWith({ index: 2 });
+    });
+
+    it('should fail selectOption without value or index', async () => {
+      const result = await executor.execute(new OxtestCommand('selectOption', {}, css('select')));
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('requires a value or index');
+    });
+
+    it('should hover, focus, blur and clear', async () => {
+      await executor.execute(new OxtestCommand('hover', {}, css('.menu')));
+      await executor.execute(new OxtestCommand('focus', {}, css('input')));
+      await executor.execute(new OxtestCommand('blur', {}, css('input')));
+      await executor.execute(new OxtestCommand('clear', {}, css('input')));
+      expect(locator.hover).toHaveBeenCalled();
+      expect(locator.focus).toHaveBeenCalled();
+      expect(locator.blur).toHaveBeenCalled();
+      expect(locator.clear).toHaveBeenCalled();
+    });
+  });
+
+  describe('assertions', () => {
+    it('should assert visible', async () => {
+      await executor.execute(new OxtestCommand('assertVisible', {}, css('.ok')));
+      expect(locator.waitFor).toHaveBeenCalledWith({ state: 'visible' });
+    });
+
+    it('should assert hidden', async () => {
+      const result = await executor.execute(new OxtestCommand('assertHidden', {}, css('.modal')));
+      expect(result.success).toBe(true);
+      expect(locator.waitFor).toHaveBeenCalledWith({ state: 'hidden' });
+    });
+
+    it('should treat a missing element as hidden', async () => {
+      locator.waitFor.mockRejectedValue(new Error('Timeout'));
+      const result = await executor.execute(new OxtestCommand('assertHidden', {}, css('.modal')));
+      expect(result.success).toBe(true);
+    });
+
+    it('should assert text', async () => {
+      locator.textContent.mockResolvedValue('Welcome');
+      const ok = await executor.execute(
+        new OxtestCommand('assertText', { value: 'Welcome' }, css('h1'))
+      );
+      const bad = await executor.execute(
+        new OxtestCommand('assertText', { value: 'Goodbye' }, css('h1'))
+      );
+      expect(ok.success).toBe(true);
+      expect(bad.success).toBe(false);
+      expect(bad.error).toContain('Expected text "Goodbye", got "Welcome"');
+    });
+
+    it('should assert value', async () => {
+      locator.inputValue.mockResolvedValue('admin');
+      const ok = await executor.execute(
+        new OxtestCommand('assertValue', { value: 'admin' }, css('input'))
+      );
+      const bad = await executor.execute(
+        new OxtestCommand('assertValue', { value: 'root' }, css('input'))
+      );
+      expect(ok.success).toBe(true);
+      expect(bad.error).toContain('Expected value "root", got "admin"');
+    });
+
+    it('should assert enabled and disabled', async () => {
+      expect(
+        (await executor.execute(new OxtestCommand('assertEnabled', {}, css('b')))).success
+      ).toBe(true);
+      const disabled = await executor.execute(new OxtestCommand('assertDisabled', {}, css('b')));
+      expect(disabled.success).toBe(false);
+      expect(disabled.error).toContain('to be disabled');
+    });
+
+    it('should assert checked and unchecked', async () => {
+      locator.isChecked.mockResolvedValue(true);
+      const checked = await executor.execute(new OxtestCommand('assertChecked', {}, css('#c')));
+      const unchecked = await executor.execute(new OxtestCommand('assertUnchecked', {}, css('#c')));
+      expect(checked.success).toBe(true);
+      expect(unchecked.success).toBe(false);
+      expect(unchecked.error).toContain('to be unchecked');
+    });
+
+    it('should assert url against pattern', async () => {
+      const ok = await executor.execute(new OxtestCommand('assertUrl', { pattern: 'shop\\.dev' }));
+      const bad = await executor.execute(new OxtestCommand('assertUrl', { pattern: '/checkout' }));
+      expect(ok.success).toBe(true);
+      expect(bad.error).toContain('does not match pattern');
+    });
+
+    it('should assert title by value or pattern', async () => {
+      page.title.mockResolvedValue('Shop - Cart');
+      const exact = await executor.execute(
+        new OxtestCommand('assertTitle', { value: 'Shop - Cart' })
+      );
+      const pattern = await executor.execute(
+        new OxtestCommand('assertTitle', { pattern: 'Cart$' })
+      );
+      const bad = await executor.execute(new OxtestCommand('assertTitle', { value: 'Home' }));
+      const missing = await executor.execute(new OxtestCommand('assertTitle', {}));
+      expect(exact.success).toBe(true);
+      expect(pattern.success).toBe(true);
+      expect(bad.error).toContain('Expected title "Home", got "Shop - Cart"');
+      expect(missing.error).toContain('requires a value or pattern');
+    });
+  });
+
+  describe('variables', () => {
+    it('should capture trimmed text', async () => {
+      locator.textContent.mockResolvedValue('  A-1001 \n');
+      const result = await executor.execute(
+        new OxtestCommand('storeText', { as: 'orderId' }, css('.order-id'))
+      );
+      expect(result.success).toBe(true);
+      expect(result.variables).toEqual({ orderId: 'A-1001' });
+    });
+
+    it('should capture input value', async () => {
+      locator.inputValue.mockResolvedValue('42');
+      const result = await executor.execute(
+        new OxtestCommand('storeValue', { as: 'qty' }, css('input.qty'))
+      );
+      expect(result.variables).toEqual({ qty: '42' });
+    });
+
+    it('should capture attribute', async () => {
+      locator.getAttribute.mockResolvedValue('/orders/7');
+      const result = await executor.execute(
+        new OxtestCommand('storeAttribute', { as: 'link', attribute: 'href' }, css('a.order'))
+      );
+      expect(locator.getAttribute).toHaveBeenCalledWith('href');
+      expect(result.variables).toEqual({ link: '/orders/7' });
+    });
+
+    it('should fail when the attribute is missing', async () => {
+      const result = await executor.execute(
+        new OxtestCommand('storeAttribute', { as: 'link', attribute: 'href' }, css('a.order'))
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Attribute "href" not found');
+    });
+
+    it('should not report variables for other commands', async () => {
+      const result = await executor.execute(new OxtestCommand('click', {}, css('button')));
+      expect(result.variables).toBeUndefined();
+    });
+  });
+
+  describe('utility', () => {
+    it('should wait for timeout', async () => {
+      await executor.execute(new OxtestCommand('wait', { timeout: 250 }));
+      expect(page.waitForTimeout).toHaveBeenCalledWith(250);
+    });
+
+    it('should wait for selector', async () => {
+      await executor.execute(new OxtestCommand('waitForSelector', {}, css('.loaded')));
+      expect(locator.waitFor).toHaveBeenCalledWith({ timeout: 2000, state: 'attached' });
+    });
+
+    it('should take a page screenshot', async () => {
+      await executor.execute(
+        new OxtestCommand('screenshot', { path: 'shot.png', fullPage: 'true' })
+      );
+      expect(page.screenshot).toHaveBeenCalledWith({ path: 'shot.png', fullPage: true });
+    });
+
+    it('should take an element screenshot', async () => {
+      await executor.execute(new OxtestCommand('screenshot', { path: 'el.png' }, css('.card')));
+      expect(locator.screenshot).toHaveBeenCalledWith({ path: 'el.png' });
+    });
+
+    it('should set viewport', async () => {
+      await executor.execute(new OxtestCommand('setViewport', { width: '1280', height: '720' }));
+      expect(page.setViewportSize).toHaveBeenCalledWith({ width: 1280, height: 720 });
+    });
+
+    it('should reject non-numeric viewport size', async () => {
+      const result = await executor.execute(
+        new OxtestCommand('setViewport', { width: 'wide', height: '720' })
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Parameter width must be a number');
+    });
+  });
+
+  describe('tabs and frames', () => {
+    const navigate = new OxtestCommand('navigate', { url: 'https://shop.dev' });
+
+    /** Opens a tab in the context, as a click on a popup link would */
+    const openTab = (opened: any): void => {
+      const [, onPage] = context.on.mock.calls.find(([event]: [string]) => event === 'page');
+      onPage(opened);
+    };
+
+    it('should locate elements inside the iframe switched to, until switching back', async () => {
+      const frameLocator = createMockLocator();
+      const frame = { locator: jest.fn().mockReturnValue(frameLocator) };
+      locator.elementHandle = jest.fn().mockResolvedValue({ contentFrame: async () => frame });
+
+      await executor.execute(new OxtestCommand('switchFrame', {}, css('iframe#card')));
+      await executor.execute(new OxtestCommand('click', {}, css('.pay')));
+      await executor.execute(new OxtestCommand('switchFrame', { frame: 'main' }));
+      await executor.execute(new OxtestCommand('click', {}, css('.back')));
+
+      expect(frame.locator).toHaveBeenCalledWith('.pay');
+      expect(frameLocator.click).toHaveBeenCalledTimes(1);
+      expect(page.locator).toHaveBeenLastCalledWith('.back');
+    });
+
+    it('should run commands in a popup and return to its opener on close_tab', async () => {
+      const popup = {
+        ...createMockPage(locator),
+        isClosed: () => false,
+        opener: jest.fn().mockResolvedValue(page),
+        waitForLoadState: jest.fn().mockResolvedValue(undefined),
+      };
+      page.isClosed = () => false;
+      openTab(popup);
+
+      const result = await executor.execute(new OxtestCommand('expectPopup', { as: 'paypal' }));
+      await executor.execute(navigate);
+      await executor.execute(new OxtestCommand('closeTab', {}));
+      await executor.execute(navigate);
+
+      expect(result.success).toBe(true);
+      expect(popup.goto).toHaveBeenCalledTimes(1);
+      expect(popup.close).toHaveBeenCalled();
+      expect(page.goto).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail switch_tab for a tab that is not open', async () => {
+      page.isClosed = () => false;
+
+      const result = await executor.execute(new OxtestCommand('switchTab', { index: '1' }));
+
+      expect(result.error).toBe('No tab at index 1 (1 open)');
+    });
+  });
+
+  describe('strict mode', () => {
+    const candidates = ['button.add-to-cart "Add to cart"', 'button.add-to-cart "Add to cart"'];
+
+    beforeEach(() => {
+      locator.count = jest.fn().mockResolvedValue(14);
+      locator.evaluateAll = jest.fn().mockResolvedValue(candidates);
+      locator.nth = jest.fn().mockReturnValue(locator);
+    });
+
+    it('should fail a step whose selector matches several elements', async () => {
+      executor.setStrictMode('fail');
+
+      const result = await executor.execute(new OxtestCommand('click', {}, css('.add-to-cart')));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Selector css=.add-to-cart matches 14 elements');
+      expect(result.error).toContain('1) button.add-to-cart "Add to cart"');
+      expect(result.error).toContain('and 12 more');
+      expect(locator.click).not.toHaveBeenCalled();
+    });
+
+    it('should only warn about ambiguous selectors in warn mode', async () => {
+      executor.setStrictMode('warn');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await executor.execute(new OxtestCommand('click', {}, css('.add-to-cart')));
+
+      expect(result.success).toBe(true);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('matches 14 elements'));
+      warn.mockRestore();
+    });
+
+    it('should not check selectors that pick a match with nth', async () => {
+      executor.setStrictMode('fail');
+
+      const result = await executor.execute(
+        new OxtestCommand(
+          'click',
+          {},
+          new SelectorSpec('css', '.add-to-cart', [], undefined, { nth: 3 })
+        )
+      );
+
+      expect(result.success).toBe(true);
+      expect(locator.count).not.toHaveBeenCalled();
+    });
+
+    it('should ask selector refinement for a selector matching one of the candidates', async () => {
+      const llm = {
+        generate: jest.fn().mockResolvedValue({
+          content: JSON.stringify({
+            primary: { strategy: 'css', value: '.product:has-text("Blue") .add-to-cart' },
+            fallbacks: [],
+            confidence: 0.9,
+            reasoning: 'Scoped to the product',
+          }),
+        }),
+        streamGenerate: jest.fn(),
+      };
+      page.evaluate = jest
+        .fn()
+        .mockResolvedValue('<button class="add-to-cart">Add to cart</button>');
+      locator.count.mockResolvedValueOnce(14).mockResolvedValue(1);
+      const refining = new PlaywrightExecutor(false, llm);
+      await refining.initialize();
+      refining.setStrictMode('fail');
+
+      const result = await refining.execute(
+        new OxtestCommand('click', { retries: '0' }, css('.add-to-cart'))
+      );
+      await refining.close();
+
+      expect(result.success).toBe(true);
+      expect(result.refinedCommand?.selector?.value).toBe('.product:has-text("Blue") .add-to-cart');
+      const [prompt] = llm.generate.mock.calls[0];
+      expect(prompt).toContain('the selector matches 14 elements, the first of them:');
+      expect(prompt).toContain('  2. button.add-to-cart "Add to cart"');
+    });
+  });
+
+  describe('selector resolutions', () => {
+    const buy = new SelectorSpec('css', '.buy', [{ strategy: 'css', value: '[data-buy]' }]);
+
+    it('should record which entry of the selector chain found the element', async () => {
+      await executor.execute(new OxtestCommand('click', {}, buy));
+      locator.waitFor.mockRejectedValueOnce(new Error('Timeout'));
+      await executor.execute(new OxtestCommand('hover', {}, buy));
+      await executor.execute(new OxtestCommand('navigate', { url: '/cart' }));
+
+      expect(executor.selectorResolutions).toEqual([
+        {
+          command: 'click',
+          selector: 'css=.buy',
+          fallbacks: ['css=[data-buy]'],
+          outcome: 'primary',
+          duration: expect.any(Number),
+        },
+        {
+          command: 'hover',
+          selector: 'css=.buy',
+          fallbacks: ['css=[data-buy]'],
+          outcome: 'fallback',
+          fallback: 1,
+          duration: expect.any(Number),
+        },
+      ]);
+    });
+
+    it('should record selectors with variables as written', async () => {
+      const interpolator = new VariableInterpolator({});
+      const add = new OxtestCommand(
+        'click',
+        {},
+        new SelectorSpec('css', '[data-sku="${sku}"]', [{ strategy: 'text', value: '${name}' }])
+      );
+
+      for (const [sku, name] of [
+        ['A1', 'Shirt'],
+        ['B2', 'Socks'],
+      ]) {
+        await executor.execute(interpolator.interpolate(add, { sku, name }));
+      }
+
+      expect(locator.click).toHaveBeenCalledTimes(2);
+      expect(executor.selectorResolutions.map(r => [r.selector, r.fallbacks])).toEqual([
+        ['css=[data-sku="${sku}"]', ['text=${name}']],
+        ['css=[data-sku="${sku}"]', ['text=${name}']],
+      ]);
+    });
+
+    it('should record selectors that found nothing until the next context', async () => {
+      locator.waitFor.mockRejectedValue(new Error('Timeout'));
+
+      await executor.execute(new OxtestCommand('click', { retries: '0' }, buy));
+
+      expect(executor.selectorResolutions.map(r => r.outcome)).toEqual(['failed']);
+      await executor.newContext();
+      expect(executor.selectorResolutions).toEqual([]);
+    });
+  });
+
+  describe('step policy', () => {
+    it('should retry as often as the command says, backing off between attempts', async () => {
+      locator.click.mockRejectedValue(new Error('Element is detached'));
+      executor.setStepPolicy({ ...DEFAULT_STEP_POLICY, retryDelay: 100, backoff: 2 });
+
+      const result = await executor.execute(new OxtestCommand('click', { retries: '3' }, css('a')));
+
+      expect(result.success).toBe(false);
+      expect(locator.click).toHaveBeenCalledTimes(4);
+      expect(page.waitForTimeout.mock.calls).toEqual([[100], [200], [400]]);
+    });
+
+    it('should wait as long as the command says for its element', async () => {
+      executor.setStepPolicy({ ...DEFAULT_STEP_POLICY, timeout: 5000, waitFor: 'visible' });
+
+      await executor.execute(new OxtestCommand('click', {}, css('a')));
+      await executor.execute(new OxtestCommand('click', { timeout: 100 }, css('a')));
+      await executor.execute(new OxtestCommand('assertText', { value: '' }, css('h1')));
+
+      expect(locator.waitFor.mock.calls).toEqual([
+        [{ timeout: 5000, state: 'visible' }],
+        [{ timeout: 100, state: 'visible' }],
+        [{ timeout: 5000, state: 'attached' }],
+      ]);
+    });
+
+    it('should wait for an element to become enabled', async () => {
+      locator.isEnabled.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+      const result = await executor.execute(
+        new OxtestCommand('click', { wait_for: 'enabled' }, css('button'))
+      );
+
+      expect(result.success).toBe(true);
+      expect(locator.waitFor).toHaveBeenCalledWith({ timeout: 2000, state: 'visible' });
+      expect(locator.isEnabled).toHaveBeenCalledTimes(2);
+    });
+
+    it('should say which state an element did not reach', async () => {
+      locator.isEnabled.mockResolvedValue(false);
+
+      const result = await executor.execute(
+        new OxtestCommand('click', { wait_for: 'enabled', timeout: 0, retries: '0' }, css('button'))
+      );
+
+      expect(result.error).toBe(
+        'Element not found with selector: css=button (waited 0ms for it to be enabled)'
+      );
+    });
+  });
+
+  describe('dialogs', () => {
+    /** Opens a Playwright-like dialog in the context */
+    const openDialog = (message: string): any => {
+      const dialog = {
+        type: () => 'confirm',
+        message: () => message,
+        accept: jest.fn().mockResolvedValue(undefined),
+        dismiss: jest.fn().mockResolvedValue(undefined),
+      };
+      // The listener of the latest context
+      const [, onDialog] = context.on.mock.calls
+        .filter(([event]: [string]) => event === 'dialog')
+        .pop();
+      onDialog(dialog);
+      return dialog;
+    };
+
+    it('should answer the next dialog as the step before it asked and assert its message', async () => {
+      await executor.execute(new OxtestCommand('acceptDialog', { text: 'Bob' }));
+      const dialog = openDialog('Are you sure you want to delete?');
+
+      const asserted = await executor.execute(
+        new OxtestCommand('assertDialog', { message: 'Are you sure you want to delete?' })
+      );
+
+      expect(dialog.accept).toHaveBeenCalledWith('Bob');
+      expect(asserted.success).toBe(true);
+    });
+
+    it('should dismiss dialogs no step answers unless the test accepts them', async () => {
+      const dismissed = openDialog('Leave site?');
+      await executor.newContext(undefined, undefined, 'accept');
+      const accepted = openDialog('Leave site?');
+
+      expect(dismissed.dismiss).toHaveBeenCalled();
+      expect(accepted.accept).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should list the dialogs seen when the message does not match', async () => {
+      await executor.execute(new OxtestCommand('dismissDialog', {}));
+      openDialog('Delete 2 items?');
+
+      const result = await executor.execute(
+        new OxtestCommand('assertDialog', { message: 'Delete 3 items?', timeout: 0 })
+      );
+
+      expect(result.error).toBe(
+        'No dialog with message "Delete 3 items?" within 0ms (got confirm "Delete 2 items?")'
+      );
+    });
+  });
+
+  describe('cookies and storage', () => {
+    const consent = {
+      name: 'consent',
+      value: 'accepted',
+      domain: 'shop.dev',
+      path: '/',
+      expires: -1,
+      httpOnly: false,
+      secure: true,
+      sameSite: 'Lax',
+    };
+
+    it('should set cookies for the current page or a domain', async () => {
+      await executor.execute(new OxtestCommand('setCookie', { name: 'ab', value: 'b' }));
+      await executor.execute(
+        new OxtestCommand('setCookie', {
+          name: 'consent',
+          value: 'accepted',
+          domain: '.shop.dev',
+          expires: '1893456000',
+        })
+      );
+
+      expect(context.addCookies.mock.calls).toEqual([
+        [[{ name: 'ab', value: 'b', url: 'https://shop.dev/' }]],
+        [
+          [
+            {
+              name: 'consent',
+              value: 'accepted',
+              domain: '.shop.dev',
+              path: '/',
+              expires: 1893456000,
+            },
+          ],
+        ],
+      ]);
+    });
+
+    it('should need a domain before the first navigate', async () => {
+      page.url.mockReturnValue('about:blank');
+
+      const result = await executor.execute(
+        new OxtestCommand('setCookie', { name: 'ab', value: 'b' })
+      );
+
+      expect(result.error).toBe('set_cookie needs a domain before the first navigate');
+    });
+
+    it('should return a failed result when the context closes during a step', async () => {
+      locator.click.mockRejectedValue(new Error('Target page, context or browser has been closed'));
+      context.cookies.mockRejectedValue(
+        new Error('Target page, context or browser has been closed')
+      );
+
+      const result = await executor.execute(
+        new OxtestCommand('click', { retries: '0' }, css('.logout'))
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Target page, context or browser has been closed');
+      expect(result.cookies).toBeUndefined();
+    });
+
+    it('should assert cookies by name and value', async () => {
+      context.cookies.mockResolvedValue([consent]);
+
+      const matched = await executor.execute(
+        new OxtestCommand('assertCookie', { name: 'consent', value: 'accepted' })
+      );
+      const wrong = await executor.execute(
+        new OxtestCommand('assertCookie', { name: 'consent', value: 'rejected' })
+      );
+      const missing = await executor.execute(new OxtestCommand('assertCookie', { name: 'ab' }));
+
+      expect(matched.success).toBe(true);
+      expect(wrong.error).toBe('Expected cookie "consent" to be "rejected", got "accepted"');
+      expect(missing.error).toBe('Expected cookie "ab", but it is not set');
+    });
+
+    it('should clear all cookies or those with a name', async () => {
+      await executor.execute(new OxtestCommand('clearCookies', {}));
+      await executor.execute(new OxtestCommand('clearCookies', { name: 'consent' }));
+
+      expect(context.clearCookies.mock.calls).toEqual([[undefined], [{ name: 'consent' }]]);
+    });
+
+    it('should report the cookies after each step', async () => {
+      context.cookies.mockResolvedValue([consent]);
+
+      const result = await executor.execute(new OxtestCommand('reload', {}));
+
+      expect(result.cookies).toEqual([
+        {
+          name: 'consent',
+          value: 'accepted',
+          domain: 'shop.dev',
+          path: '/',
+          httpOnly: false,
+          secure: true,
+          sameSite: 'Lax',
+        },
+      ]);
+    });
+
+    it('should set and assert localStorage in the page', async () => {
+      page.evaluate = jest.fn().mockResolvedValueOnce(undefined).mockResolvedValue('b');
+
+      await executor.execute(new OxtestCommand('setLocalStorage', { key: 'ab', value: 'b' }));
+      const matched = await executor.execute(
+        new OxtestCommand('assertLocalStorage', { key: 'ab', value: 'b' })
+      );
+      const wrong = await executor.execute(
+        new OxtestCommand('assertLocalStorage', { key: 'ab', value: 'a' })
+      );
+
+      expect(page.evaluate.mock.calls[0][1]).toEqual(['ab', 'b']);
+      expect(matched.success).toBe(true);
+      expect(wrong.error).toBe('Expected localStorage "ab" to be "a", got "b"');
+    });
+
+    it('should fail for a localStorage key that is not set', async () => {
+      page.evaluate = jest.fn().mockResolvedValue(null);
+
+      const result = await executor.execute(
+        new OxtestCommand('assertLocalStorage', { key: 'consent' })
+      );
+
+      expect(result.error).toBe('Expected localStorage key "consent", but it is not set');
+    });
+  });
+
+  describe('api requests', () => {
+    /** A Playwright-like APIResponse */
+    const apiResponse = (status: number, body: string, url: string): any => ({
+      status: () => status,
+      text: jest.fn().mockResolvedValue(body),
+      url: () => url,
+    });
+
+    it('should send requests relative to the page and store the response body', async () => {
+      context.request.fetch.mockResolvedValue(
+        apiResponse(201, '{"id":7}', 'https://shop.dev/api/products')
+      );
+
+      const result = await executor.execute(
+        new OxtestCommand('http', {
+          method: 'post',
+          url: '/api/products',
+          json: '{"name":"Blue T-Shirt"}',
+          as: 'product',
+        })
+      );
+
+      expect(context.request.fetch).toHaveBeenCalledWith('https://shop.dev/api/products', {
+        method: 'POST',
+        headers: undefined,
+        data: { name: 'Blue T-Shirt' },
+        timeout: 30000,
+      });
+      expect(result.variables).toEqual({ product: '{"id":7}' });
+    });
+
+    it('should read json_file relative to the .ox.test file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'e2e-http-'));
+      await fs.mkdir(path.join(dir, 'fixtures'));
+      await fs.writeFile(path.join(dir, 'fixtures', 'user.json'), '{"name":"Ada"}');
+      context.request.fetch.mockResolvedValue(apiResponse(201, '{}', 'https://shop.dev/api/users'));
+
+      const result = await executor.execute(
+        new OxtestCommand(
+          'http',
+          { method: 'POST', url: '/api/users', json_file: 'fixtures/user.json' },
+          undefined,
+          undefined,
+          path.join(dir, 'signup.ox.test')
+        )
+      );
+      await fs.rm(dir, { recursive: true, force: true });
+
+      expect(result.success).toBe(true);
+      expect(context.request.fetch).toHaveBeenCalledWith(
+        'https://shop.dev/api/users',
+        expect.objectContaining({ data: { name: 'Ada' } })
+      );
+    });
+
+    it('should assert on the latest response and store a part of it', async () => {
+      context.request.fetch.mockResolvedValue(
+        apiResponse(201, '{"id":7}', 'https://shop.dev/api/products')
+      );
+      await executor.execute(new OxtestCommand('http', { method: 'POST', url: '/api/products' }));
+
+      const stored = await executor.execute(
+        new OxtestCommand('assertHttp', { status: '201', json_path: '$.id', as: 'productId' })
+      );
+      const failed = await executor.execute(
+        new OxtestCommand('assertHttp', { status: '200', retries: '0' })
+      );
+
+      expect(stored.variables).toEqual({ productId: '7' });
+      expect(failed.error).toBe(
+        'Expected status 200, got 201 for POST https://shop.dev/api/products'
+      );
+    });
+
+    it('should send a request that changes data once unless it sets retries', async () => {
+      context.request.fetch.mockRejectedValue(new Error('Request timed out'));
+
+      const post = await executor.execute(
+        new OxtestCommand('http', { method: 'POST', url: '/api/orders' })
+      );
+      const retried = await executor.execute(
+        new OxtestCommand('http', { method: 'PUT', url: '/api/orders/1', retries: '1' })
+      );
+      const get = await executor.execute(new OxtestCommand('http', { url: '/api/orders' }));
+
+      expect(post.success).toBe(false);
+      expect(retried.success).toBe(false);
+      expect(get.success).toBe(false);
+      const sent = context.request.fetch.mock.calls.map(
+        ([url, { method }]: [string, { method: string }]) => `${method} ${url}`
+      );
+      expect(sent).toEqual([
+        'POST https://shop.dev/api/orders',
+        'PUT https://shop.dev/api/orders/1',
+        'PUT https://shop.dev/api/orders/1',
+        ...Array(DEFAULT_STEP_POLICY.retries + 1).fill('GET https://shop.dev/api/orders'),
+      ]);
+    });
+
+    it('should need an absolute url before the first navigate', async () => {
+      page.url.mockReturnValue('about:blank');
+
+      const result = await executor.execute(
+        new OxtestCommand('http', { url: '/api/products', retries: '0' })
+      );
+
+      expect(result.error).toBe(
+        'http needs an absolute url before the first navigate, got "/api/products"'
+      );
+      expect(context.request.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should forget the response when a new context starts', async () => {
+      context.request.fetch.mockResolvedValue(apiResponse(200, '{}', 'https://shop.dev/api'));
+      await executor.execute(new OxtestCommand('http', { url: 'https://shop.dev/api' }));
+
+      await executor.newContext();
+      const result = await executor.execute(
+        new OxtestCommand('assertHttp', { status: '200', retries: '0' })
+      );
+
+      expect(result.error).toBe('No http response to assert on; run an http step first');
+    });
+  });
+
+  describe('files', () => {
+    it('should upload the listed files', async () => {
+      const result = await executor.execute(
+        new OxtestCommand('upload', { file: 'a.pdf, b.pdf' }, css('input[type=file]'))
+      );
+
+      expect(result.success).toBe(true);
+      expect(locator.setInputFiles).toHaveBeenCalledWith(['a.pdf', 'b.pdf']);
+    });
+
+    it('should upload files relative to the .ox.test file', async () => {
+      await executor.execute(
+        new OxtestCommand(
+          'upload',
+          { file: 'fixtures/cv.pdf, /tmp/photo.png' },
+          css('input[type=file]'),
+          undefined,
+          path.join('suites', 'apply.ox.test')
+        )
+      );
+
+      expect(locator.setInputFiles).toHaveBeenCalledWith([
+        path.join('suites', 'fixtures', 'cv.pdf'),
+        '/tmp/photo.png',
+      ]);
+    });
+
+    it('should store the path of the next download and assert on it', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'e2e-download-'));
+      const file = path.join(dir, 'report.pdf');
+      await fs.writeFile(file, 'report');
+      const [, onDownload] = page.on.mock.calls.find(([event]: [string]) => event === 'download');
+      onDownload({ suggestedFilename: () => 'report.pdf', path: async () => file });
+
+      const stored = await executor.execute(new OxtestCommand('expectDownload', { as: 'report' }));
+      const asserted = await executor.execute(
+        new OxtestCommand('assertDownload', { name: '*.pdf', size_gt: '100', timeout: 0 })
+      );
+      await fs.rm(dir, { recursive: true, force: true });
+
+      expect(stored.variables).toEqual({ report: file });
+      expect(asserted.success).toBe(false);
+      expect(asserted.error).toBe(
+        'No download named *.pdf larger than 100 bytes within 0ms (got report.pdf, 6 bytes)'
+      );
+    });
+  });
+
+  describe('network', () => {
+    const createRoute = (): any => ({
+      fulfill: jest.fn().mockResolvedValue(undefined),
+      abort: jest.fn().mockResolvedValue(undefined),
+      fallback: jest.fn().mockResolvedValue(undefined),
+    });
+
+    /** Runs the handler of the last context.route call against a mock route */
+    const handleRequest = async (): Promise<any> => {
+      const route = createRoute();
+      await context.route.mock.calls.at(-1)[1](route);
+      return route;
+    };
+
+    it('should fulfill matching requests with a mocked response', async () => {
+      const result = await executor.execute(
+        new OxtestCommand('mockRoute', {
+          url: '**/api/pay',
+          status: '500',
+          body: '{"error":"declined"}',
+          content_type: 'application/json',
+        })
+      );
+
+      expect(result.success).toBe(true);
+      expect(context.route.mock.calls[0][0]).toBe('**/api/pay');
+      expect((await handleRequest()).fulfill).toHaveBeenCalledWith({
+        status: 500,
+        contentType: 'application/json',
+        body: '{"error":"declined"}',
+      });
+    });
+
+    it('should answer with a body file and status 200 by default', async () => {
+      await executor.execute(
+        new OxtestCommand('mockRoute', { url: '**/api/cart', body_file: 'fixtures/cart.json' })
+      );
+
+      expect((await handleRequest()).fulfill).toHaveBeenCalledWith({
+        status: 200,
+        contentType: undefined,
+        path: 'fixtures/cart.json',
+      });
+    });
+
+    it('should read body files relative to the .ox.test file', async () => {
+      await executor.execute(
+        new OxtestCommand(
+          'mockRoute',
+          { url: '**/api/cart', body_file: 'fixtures/cart.json' },
+          undefined,
+          undefined,
+          path.join('suites', 'checkout', 'cart.ox.test')
+        )
+      );
+
+      expect((await handleRequest()).fulfill).toHaveBeenCalledWith(
+        expect.objectContaining({ path: path.join('suites', 'checkout', 'fixtures', 'cart.json') })
+      );
+    });
+
+    it('should abort blocked requests', async () => {
+      await executor.execute(new OxtestCommand('blockRoute', { url: '**/*.png' }));
+
+      expect((await handleRequest()).abort).toHaveBeenCalled();
+    });
+
+    it('should pass delayed requests on after the delay', async () => {
+      await executor.execute(new OxtestCommand('delayRoute', { url: '**/api', ms: 5 }));
+
+      const started = Date.now();
+      const route = await handleRequest();
+
+      expect(route.fallback).toHaveBeenCalled();
+      expect(Date.now() - started).toBeGreaterThanOrEqual(4);
+    });
+
+    it('should remove routes for a url or all of them', async () => {
+      await executor.execute(new OxtestCommand('unroute', { url: '**/api/pay' }));
+      await executor.execute(new OxtestCommand('unroute', {}));
+
+      expect(context.unroute).toHaveBeenCalledWith('**/api/pay');
+      expect(context.unrouteAll).toHaveBeenCalledWith({ behavior: 'ignoreErrors' });
+    });
+
+    it('should assert on requests and responses the page recorded', async () => {
+      const listeners = Object.fromEntries(page.on.mock.calls);
+      listeners.request({
+        url: () => 'https://shop.dev/api/order',
+        method: () => 'POST',
+        postData: () => '{"sku":"TS-1"}',
+      });
+      listeners.response({
+        url: () => 'https://shop.dev/api/order',
+        status: () => 201,
+        request: () => ({ method: () => 'POST' }),
+      });
+
+      const request = await executor.execute(
+        new OxtestCommand('assertRequest', {
+          url: '**/api/order',
+          method: 'POST',
+          body_contains: 'sku',
+        })
+      );
+      const response = await executor.execute(
+        new OxtestCommand('waitResponse', { url: '**/api/order', status: '201' })
+      );
+      const missing = await executor.execute(
+        new OxtestCommand('assertResponse', { url: '**/api/pay', timeout: 0 })
+      );
+
+      expect(request.success).toBe(true);
+      expect(response.success).toBe(true);
+      expect(missing.error).toBe('No response matching **/api/pay within 0ms');
+    });
+
+    it('should reject a non-numeric status', async () => {
+      const result = await executor.execute(
+        new OxtestCommand('mockRoute', { url: '**/api', status: 'error' })
+      );
+
+      expect(result.error).toBe('Parameter status must be a number, got "error"');
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('should evaluate visible and hidden against the element', async () => {
+      locator.isVisible.mockResolvedValue(false);
+
+      expect(await executor.evaluateCondition(new BlockCondition('visible', css('.b')))).toBe(
+        false
+      );
+      expect(await executor.evaluateCondition(new BlockCondition('hidden', css('.b')))).toBe(true);
+    });
+
+    it('should treat a missing element as not visible and not existing', async () => {
+      locator.waitFor.mockRejectedValue(new Error('Timeout'));
+
+      expect(await executor.evaluateCondition(new BlockCondition('visible', css('.b')))).toBe(
+        false
+      );
+      expect(await executor.evaluateCondition(new BlockCondition('exists', css('.b')))).toBe(false);
+      expect(await executor.evaluateCondition(new BlockCondition('hidden', css('.b')))).toBe(true);
+    });
+
+    it('should match url patterns against the current page', async () => {
+      page.url.mockReturnValue('https://shop.dev/variant-b/cart');
+
+      expect(
+        await executor.evaluateCondition(new BlockCondition('url', undefined, 'variant-b'))
+      ).toBe(true);
+      expect(
+        await executor.evaluateCondition(new BlockCondition('url', undefined, '^https://other'))
+      ).toBe(false);
+    });
+  });
+
+  it('should support every declared command type', async () => {
+    const params: Record<string, Record<string, string>> = {
+      navigate: { url: 'https://shop.dev' },
+      fill: { value: 'x' },
+      selectOption: { value: 'x' },
+      assertTitle: { value: '' },
+      setViewport: { width: '800', height: '600' },
+      storeText: { as: 'v' },
+      storeValue: { as: 'v' },
+      storeAttribute: { as: 'v', attribute: 'id' },
+      mockRoute: { url: '**/api' },
+      blockRoute: { url: '**/api' },
+      delayRoute: { url: '**/api', ms: '0' },
+      assertRequest: { url: '**/api', timeout: '0' },
+      assertResponse: { url: '**/api', timeout: '0' },
+      waitResponse: { url: '**/api', timeout: '0' },
+      upload: { file: 'a.pdf' },
+      expectDownload: { as: 'v', timeout: '0' },
+      assertDownload: { timeout: '0' },
+      switchFrame: { frame: 'main' },
+      expectPopup: { timeout: '0' },
+      switchTab: { index: '0' },
+      drag: { to: 'css=.target' },
+      scroll: { by: '0,100' },
+      assertDialog: { message: 'x', timeout: '0' },
+      setCookie: { name: 'x', value: 'y' },
+      assertCookie: { name: 'x' },
+      setLocalStorage: { key: 'x', value: 'y' },
+      assertLocalStorage: { key: 'x' },
+      http: { url: '/api' },
+      assertHttp: { status: '200' },
+    };
+
+    for (const type of VALID_COMMAND_TYPES) {
+      const result = await executor.execute(
+        new OxtestCommand(type, params[type] ?? {}, css('.target'))
+      );
+      expect(result.error ?? '').not.toContain('Unsupported command type');
+    }
+  });
+});
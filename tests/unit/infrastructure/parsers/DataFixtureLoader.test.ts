@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DataFixtureError,
+  DataFixtureLoader,
+} from '../../../../src/infrastructure/parsers/DataFixtureLoader';
+
+describe('DataFixtureLoader', () => {
+  let loader: DataFixtureLoader;
+  let tempDir: string;
+
+  const write = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(tempDir, name);
+    await fs.writeFile(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    loader = new DataFixtureLoader();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-fixture-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseCsv', () => {
+    it('should read rows keyed by the header', () => {
+      expect(loader.parseCsv('user,locale\r\nadmin,de\n\nguest,en\n')).toEqual([
+        { user: 'admin', locale: 'de' },
+        { user: 'guest', locale: 'en' },
+      ]);
+    });
+
+    it('should read quoted fields with commas, quotes and line breaks', () => {
+      expect(loader.parseCsv('name,note\n"Doe, Jane","says ""hi""\ntwice"')).toEqual([
+        { name: 'Doe, Jane', note: 'says "hi"\ntwice' },
+      ]);
+    });
+
+    it.each([
+      ['a,b\n1', 'CSV row 1 has 1 values, expected 2'],
+      ['a,,b\n1,2,3', 'CSV header has an empty column name'],
+      ['a\n"open', 'CSV has an unterminated quoted field'],
+    ])('should reject %p', (content, message) => {
+      expect(() => loader.parseCsv(content)).toThrow(message);
+    });
+  });
+
+  describe('loadFile', () => {
+    it('should load JSON and YAML lists of objects', async () => {
+      const json = await write('users.json', '[{"user": "admin", "age": 42, "vip": true}]');
+      const yaml = await write('users.yml', '- user: guest\n  note: null\n');
+
+      expect(await loader.loadFile(json)).toEqual([{ user: 'admin', age: '42', vip: 'true' }]);
+      expect(await loader.loadFile(yaml)).toEqual([{ user: 'guest', note: '' }]);
+    });
+
+    it('should load CSV by extension', async () => {
+      const csv = await write('users.CSV', 'user\nadmin\n');
+
+      expect(await loader.loadFile(csv)).toEqual([{ user: 'admin' }]);
+    });
+
+    it.each([
+      ['empty.csv', 'user\n', 'Data file has no rows'],
+      ['object.json', '{"user": "admin"}', 'Data must be a list of objects'],
+      ['scalars.yaml', '- admin\n', 'Row 1 must be an object'],
+      ['users.txt', 'user\nadmin', 'Unsupported data file type: .txt'],
+    ])('should reject %s', async (name, content, message) => {
+      const filePath = await write(name, content);
+
+      const error = await loader.loadFile(filePath).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(DataFixtureError);
+      expect((error as DataFixtureError).message).toBe(`${filePath}: ${message}`);
+    });
+
+    it('should report files that cannot be read', async () => {
+      await expect(loader.loadFile(path.join(tempDir, 'missing.csv'))).rejects.toThrow(
+        /missing\.csv: Cannot read data file/
+      );
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { OxtestCommandParser } from '../../../../src/infrastructure/parsers/OxtestCommandParser';
+import {
+  OxtestCommandParser,
+  OxtestSyntaxError,
+} from '../../../../src/infrastructure/parsers/OxtestCommandParser';
 import { Token } from '../../../../src/infrastructure/parsers/OxtestTokenizer';
 
 describe('OxtestCommandParser', () => {
@@ -182,4 +185,422 @@ describe('OxtestCommandParser', () => {
       expect(command.params?.timeout).toBe('3000');
     });
   });
+
+  describe('selector scope', () => {
+    it('should move hasText, has and nth into the selector scope', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'click' },
+          {
+            type: 'SELECTOR',
+            strategy: 'text',
+            value: 'Buy',
+            parent: { type: 'SELECTOR', strategy: 'css', value: '.row' },
+          },
+          { type: 'PARAM', key: 'hasText', value: 'Blue' },
+          { type: 'PARAM', key: 'has', value: 'css=.price' },
+          { type: 'PARAM', key: 'index', value: '-1' },
+        ],
+        1
+      );
+
+      expect(command.params).toEqual({});
+      expect(command.selector?.scope.parent?.toString()).toBe('css:.row');
+      expect(command.selector?.scope.hasText).toBe('Blue');
+      expect(command.selector?.scope.has?.toString()).toBe('css:.price');
+      expect(command.selector?.scope.nth).toBe(-1);
+    });
+
+    it('should keep parameters the command declares itself', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'selectOption' },
+          { type: 'SELECTOR', strategy: 'css', value: 'select' },
+          { type: 'PARAM', key: 'index', value: '2' },
+        ],
+        1
+      );
+
+      expect(command.params?.index).toBe('2');
+      expect(command.selector?.scope.nth).toBeUndefined();
+    });
+
+    it.each([
+      ['nth', 'first', 'nth must be an integer, got "first"'],
+      ['has', '.price', 'has must be a selector such as has=css=.price, got ".price"'],
+    ])('should reject %s=%s', (key, value, message) => {
+      expect(() =>
+        parser.parse(
+          [
+            { type: 'COMMAND', value: 'click' },
+            { type: 'SELECTOR', strategy: 'css', value: '.row' },
+            { type: 'PARAM', key, value },
+          ],
+          1
+        )
+      ).toThrow(message);
+    });
+  });
+
+  describe('network commands', () => {
+    it('should parse route parameters', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'mockRoute' },
+          { type: 'PARAM', key: 'url', value: '**/api/cart' },
+          { type: 'PARAM', key: 'status', value: '500' },
+          { type: 'PARAM', key: 'body_file', value: 'fixtures/cart.json' },
+        ],
+        1
+      );
+
+      expect(command.params).toEqual({
+        url: '**/api/cart',
+        status: '500',
+        body_file: 'fixtures/cart.json',
+      });
+    });
+
+    it('should allow unroute without a url', () => {
+      expect(parser.parse([{ type: 'COMMAND', value: 'unroute' }], 1).params).toEqual({});
+    });
+
+    it.each([
+      [[], 'blockRoute', 'Missing required parameter: url for blockRoute'],
+      [[], 'assertResponse', 'Missing required parameter: url for assertResponse'],
+      [
+        [{ type: 'PARAM', key: 'url', value: '**/api' }],
+        'delayRoute',
+        'Missing required parameter: ms for delayRoute',
+      ],
+      [
+        [
+          { type: 'PARAM', key: 'url', value: '**/api' },
+          { type: 'PARAM', key: 'body', value: '{}' },
+          { type: 'PARAM', key: 'body_file', value: 'a.json' },
+        ],
+        'mockRoute',
+        'mockRoute takes body or body_file, not both',
+      ],
+    ] as [Token[], string, string][])('should reject %p for %s', (params, command, message) => {
+      expect(() => parser.parse([{ type: 'COMMAND', value: command }, ...params], 1)).toThrow(
+        message
+      );
+    });
+  });
+
+  describe('file commands', () => {
+    it('should parse an upload of several files', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'upload' },
+          { type: 'SELECTOR', strategy: 'css', value: 'input[type=file]' },
+          { type: 'PARAM', key: 'file', value: 'a.pdf,b.pdf' },
+        ],
+        1
+      );
+
+      expect(command.params).toEqual({ file: 'a.pdf,b.pdf' });
+    });
+
+    it('should capture a download without a selector', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'expectDownload' },
+          { type: 'PARAM', key: 'as', value: 'report' },
+        ],
+        1
+      );
+
+      expect(command.isCaptureCommand()).toBe(true);
+      expect(command.selector).toBeUndefined();
+    });
+
+    it.each([
+      [[], 'upload', 'upload requires a selector'],
+      [
+        [{ type: 'SELECTOR', strategy: 'css', value: 'input' }],
+        'upload',
+        'Missing required parameter: file for upload',
+      ],
+      [[], 'expectDownload', 'Missing required parameter: as for expectDownload command'],
+    ] as [Token[], string, string][])('should reject %p for %s', (params, command, message) => {
+      expect(() => parser.parse([{ type: 'COMMAND', value: command }, ...params], 1)).toThrow(
+        message
+      );
+    });
+  });
+
+  describe('tab and frame commands', () => {
+    it('should switch to the main frame without a selector', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'switchFrame' },
+          { type: 'PARAM', key: 'frame', value: 'main' },
+        ],
+        1
+      );
+
+      expect(command.params).toEqual({ frame: 'main' });
+    });
+
+    it.each([
+      [[], 'switchFrame', 'switchFrame requires a selector for an iframe, or main'],
+      [
+        [{ type: 'PARAM', key: 'frame', value: 'top' }],
+        'switchFrame',
+        'Unknown frame: top. Use a selector for an iframe, or main',
+      ],
+      [[], 'switchTab', 'switchTab requires either index or name'],
+      [
+        [
+          { type: 'PARAM', key: 'index', value: '1' },
+          { type: 'PARAM', key: 'name', value: 'checkout' },
+        ],
+        'switchTab',
+        'switchTab requires either index or name',
+      ],
+    ] as [Token[], string, string][])('should reject %p for %s', (params, command, message) => {
+      expect(() => parser.parse([{ type: 'COMMAND', value: command }, ...params], 1)).toThrow(
+        message
+      );
+    });
+  });
+
+  describe('pointer and keyboard commands', () => {
+    it('should press keys without a selector', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'press' },
+          { type: 'PARAM', key: 'key', value: 'Control+A' },
+        ],
+        1
+      );
+
+      expect(command.selector).toBeUndefined();
+      expect(command.params).toEqual({ key: 'Control+A' });
+    });
+
+    it('should make the from selector of drag the command selector', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'drag' },
+          { type: 'PARAM', key: 'from', value: 'text=Task 1' },
+          { type: 'PARAM', key: 'to', value: 'css=.column-done' },
+        ],
+        1
+      );
+
+      expect(command.selector?.strategy).toBe('text');
+      expect(command.selector?.value).toBe('Task 1');
+      expect(command.params).toEqual({ to: 'css=.column-done' });
+    });
+
+    it.each([
+      [
+        [{ type: 'PARAM', key: 'to', value: 'css=.done' }],
+        'drag',
+        'Missing required parameter: from for drag',
+      ],
+      [
+        [
+          { type: 'PARAM', key: 'from', value: 'css=.card' },
+          { type: 'PARAM', key: 'to', value: '.done' },
+        ],
+        'drag',
+        'to must be a selector such as to=css=.column, got ".done"',
+      ],
+      [
+        [
+          { type: 'SELECTOR', strategy: 'css', value: '.card' },
+          { type: 'PARAM', key: 'from', value: 'css=.card' },
+        ],
+        'drag',
+        'drag takes from or a selector, not both',
+      ],
+      [[{ type: 'PARAM', key: 'by', value: '500' }], 'scroll', 'scroll requires by=<x>,<y>'],
+      [
+        [
+          { type: 'SELECTOR', strategy: 'css', value: '.row' },
+          { type: 'PARAM', key: 'modifiers', value: 'Shift,Ctrl' },
+        ],
+        'click',
+        'Unknown modifier: Ctrl. Expected one of: Alt, Control, ControlOrMeta, Meta, Shift',
+      ],
+      [
+        [
+          { type: 'SELECTOR', strategy: 'css', value: '.row' },
+          { type: 'PARAM', key: 'position', value: 'top' },
+        ],
+        'doubleClick',
+        'position must be <x>,<y>, e.g. position=10,5, got "top"',
+      ],
+    ] as [Token[], string, string][])('should reject %p for %s', (params, command, message) => {
+      expect(() => parser.parse([{ type: 'COMMAND', value: command }, ...params], 1)).toThrow(
+        message
+      );
+    });
+  });
+
+  describe('dialog commands', () => {
+    it('should accept a dialog with the text to answer a prompt with', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'acceptDialog' },
+          { type: 'PARAM', key: 'text', value: 'Bob' },
+        ],
+        1
+      );
+
+      expect(command.type).toBe('acceptDialog');
+      expect(command.params).toEqual({ text: 'Bob' });
+    });
+
+    it('should require the message of assertDialog', () => {
+      expect(() => parser.parse([{ type: 'COMMAND', value: 'assertDialog' }], 3)).toThrow(
+        'Line 3: Missing required parameter: message for assertDialog'
+      );
+    });
+  });
+
+  describe('step policy parameters', () => {
+    it('should keep per-command timeout, retries and wait_for', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'click' },
+          { type: 'SELECTOR', strategy: 'css', value: '.pay' },
+          { type: 'PARAM', key: 'timeout', value: '10000' },
+          { type: 'PARAM', key: 'retries', value: '0' },
+          { type: 'PARAM', key: 'wait_for', value: 'enabled' },
+        ],
+        1
+      );
+
+      expect(command.params).toEqual({ timeout: '10000', retries: '0', wait_for: 'enabled' });
+    });
+
+    it.each([
+      ['retries', '-1', 'retries must be a non-negative integer, got "-1"'],
+      ['wait_for', 'clickable', 'wait_for must be one of: attached, visible, stable, enabled'],
+      ['backoff', '0.5', 'backoff must be a number of at least 1, got "0.5"'],
+    ])('should reject %s=%s', (key, value, message) => {
+      expect(() =>
+        parser.parse(
+          [
+            { type: 'COMMAND', value: 'click' },
+            { type: 'SELECTOR', strategy: 'css', value: '.pay' },
+            { type: 'PARAM', key, value },
+          ],
+          2
+        )
+      ).toThrow(`Line 2: ${message}`);
+    });
+
+    it('should leave settings read from variables to the run', () => {
+      expect(() =>
+        parser.parse(
+          [
+            { type: 'COMMAND', value: 'wait' },
+            { type: 'PARAM', key: 'timeout', value: '${delay}' },
+          ],
+          1
+        )
+      ).not.toThrow();
+    });
+  });
+
+  describe('cookie and storage commands', () => {
+    it('should set a cookie with an empty value', () => {
+      const command = parser.parse(
+        [
+          { type: 'COMMAND', value: 'setCookie' },
+          { type: 'PARAM', key: 'name', value: 'consent' },
+          { type: 'PARAM', key: 'value', value: '' },
+        ],
+        1
+      );
+
+      expect(command.params).toEqual({ name: 'consent', value: '' });
+    });
+
+    it.each([
+      [[{ type: 'PARAM', key: 'value', value: 'x' }], 'setCookie', 'name'],
+      [[{ type: 'PARAM', key: 'name', value: 'consent' }], 'setCookie', 'value'],
+      [[], 'assertCookie', 'name'],
+      [[{ type: 'PARAM', key: 'key', value: 'consent' }], 'setLocalStorage', 'value'],
+      [[], 'assertLocalStorage', 'key'],
+    ] as const)('should require the parameters of %#', (params, command, missing) => {
+      expect(() => parser.parse([{ type: 'COMMAND', value: command }, ...params], 2)).toThrow(
+        `Line 2: Missing required parameter: ${missing} for ${command}`
+      );
+    });
+  });
+
+  describe('api request commands', () => {
+    const http = (params: Record<string, string>, command = 'http'): Token[] => [
+      { type: 'COMMAND', value: command },
+      ...Object.entries(params).map(([key, value]) => ({ type: 'PARAM' as const, key, value })),
+    ];
+
+    it('should accept a request with a JSON body read from a variable', () => {
+      const command = parser.parse(
+        http({ method: 'post', url: '/api/users', json: '{"name":"${NAME}"}', as: 'user' }),
+        1
+      );
+
+      expect(command.type).toBe('http');
+      expect(command.params.as).toBe('user');
+    });
+
+    it.each([
+      [{ method: 'POST' }, 'Missing required parameter: url for http'],
+      [{ url: '/api', method: 'FETCH' }, 'method must be one of: GET, POST, PUT, PATCH'],
+      [{ url: '/api', json: '{}', body: 'x' }, 'http takes one of json, json_file or body'],
+      [{ url: '/api', json: '{name}' }, 'json must be valid JSON'],
+      [{ url: '/api', headers: '"token"' }, 'headers must be a JSON object'],
+      [{ url: '/api', as: 'new-user' }, 'as must be a variable name'],
+    ])('should reject http with %p', (params, message) => {
+      expect(() => parser.parse(http(params), 2)).toThrow(`Line 2: ${message}`);
+    });
+
+    it('should accept assertions on the status and the JSON body', () => {
+      const command = parser.parse(
+        http({ status: '201', json_path: "$.items[0]['id']", exists: 'true' }, 'assertHttp'),
+        1
+      );
+
+      expect(command.params).toEqual({
+        status: '201',
+        json_path: "$.items[0]['id']",
+        exists: 'true',
+      });
+    });
+
+    it.each([
+      [{}, 'assertHttp requires status or json_path'],
+      [{ status: 'ok' }, 'status must be an HTTP status code, got "ok"'],
+      [{ status: '200', value: '7' }, 'value needs a json_path to apply to'],
+      [{ json_path: 'id' }, 'JSON path must start with $, got "id"'],
+      [{ json_path: '$.id', exists: 'yes' }, 'exists must be true or false, got "yes"'],
+      [{ json_path: '$.id', exists: 'false', as: 'id' }, 'exists=false cannot be combined'],
+    ])('should reject assertHttp with %p', (params, message) => {
+      expect(() => parser.parse(http(params, 'assertHttp'), 2)).toThrow(`Line 2: ${message}`);
+    });
+  });
+
+  describe('error codes', () => {
+    it('should tag errors with a diagnostic code', () => {
+      let error: OxtestSyntaxError | undefined;
+      try {
+        parser.parse([{ type: 'COMMAND', value: 'click' }], 4);
+      } catch (e) {
+        error = e as OxtestSyntaxError;
+      }
+
+      expect(error).toBeInstanceOf(OxtestSyntaxError);
+      expect(error?.code).toBe('missing-selector');
+      expect(error?.message).toMatch(/^Line 4: /);
+      expect(error?.detail).not.toMatch(/^Line/);
+    });
+  });
 });
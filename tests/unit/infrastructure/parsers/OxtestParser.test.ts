@@ -1,4 +1,14 @@
-import { OxtestParser } from '../../../../src/infrastructure/parsers/OxtestParser';
+import {
+  OxtestParser,
+  OxtestParseError,
+} from '../../../../src/infrastructure/parsers/OxtestParser';
+import { OxtestCommand } from '../../../../src/domain/entities/OxtestCommand';
+import {
+  CallBlock,
+  ForEachBlock,
+  IfBlock,
+  RepeatBlock,
+} from '../../../../src/domain/entities/OxtestBlock';
 import * as fs from 'fs/promises';
 
 jest.mock('fs/promises');
@@ -80,6 +90,531 @@ click css=button.submit
 
       expect(Object.isFrozen(commands)).toBe(true);
     });
+
+    it('should parse value capture commands and keep ${} references', () => {
+      const oxtest = `
+store_text css=.order-id as=orderId
+store_attribute css=a.invoice attribute=href as=invoiceUrl
+assert_text css=.confirmation value="Order \${orderId} confirmed"
+`;
+
+      const commands = parser.parseContent(oxtest);
+
+      expect(commands[0].type).toBe('storeText');
+      expect(commands[0].params.as).toBe('orderId');
+      expect(commands[1].type).toBe('storeAttribute');
+      expect(commands[1].params.attribute).toBe('href');
+      expect(commands[2].params.value).toBe('Order ${orderId} confirmed');
+    });
+
+    it('should require as= for capture commands', () => {
+      expect(() => parser.parseContent('store_value css=input')).toThrow(
+        /Line 1.*Missing required parameter: as/
+      );
+    });
+  });
+
+  describe('parseContentTree', () => {
+    it('should build if/else blocks', () => {
+      const oxtest = `
+navigate url=https://shop.dev
+if visible css=.cookie-banner
+  click text="Accept"
+else
+  assert_hidden css=.overlay
+end
+click css=.checkout
+`;
+
+      const nodes = parser.parseContentTree(oxtest);
+
+      expect(nodes).toHaveLength(3);
+      const block = nodes[1] as IfBlock;
+      expect(block.kind).toBe('if');
+      expect(block.condition.type).toBe('visible');
+      expect(block.condition.selector?.value).toBe('.cookie-banner');
+      expect(block.thenBody).toHaveLength(1);
+      expect((block.thenBody[0] as OxtestCommand).type).toBe('click');
+      expect((block.elseBody[0] as OxtestCommand).type).toBe('assertHidden');
+    });
+
+    it('should parse url conditions', () => {
+      const nodes = parser.parseContentTree('if url pattern=.*/variant-b\nclick css=a\nend');
+
+      const block = nodes[0] as IfBlock;
+      expect(block.condition.type).toBe('url');
+      expect(block.condition.pattern).toBe('.*/variant-b');
+    });
+
+    it('should build nested repeat and for_each blocks', () => {
+      const oxtest = `
+for_each values="red, blue" as=color
+  repeat times=2
+    click css=.add-\${color}
+  end
+end
+for_each list=products as=product
+  fill css=#search value=\${product}
+end
+`;
+
+      const nodes = parser.parseContentTree(oxtest);
+
+      const outer = nodes[0] as ForEachBlock;
+      expect(outer.kind).toBe('forEach');
+      expect(outer.itemVariable).toBe('color');
+      expect(outer.values).toEqual(['red', 'blue']);
+      const inner = outer.body[0] as RepeatBlock;
+      expect(inner.kind).toBe('repeat');
+      expect(inner.times).toBe(2);
+      expect(inner.body).toHaveLength(1);
+      expect((nodes[1] as ForEachBlock).listVariable).toBe('products');
+    });
+
+    it('should return plain commands for content without blocks', () => {
+      const nodes = parser.parseContentTree('navigate url=https://shop.dev\nclick css=button');
+
+      expect(nodes).toHaveLength(2);
+      expect(nodes.every(node => node instanceof OxtestCommand)).toBe(true);
+    });
+
+    it('should report unclosed blocks at their opening line', () => {
+      expect(() => parser.parseContentTree('navigate url=/\nrepeat times=2\nclick css=a')).toThrow(
+        'Line 2: Unclosed repeat block (missing end)'
+      );
+    });
+
+    it('should reject stray end and else', () => {
+      expect(() => parser.parseContentTree('click css=a\nend')).toThrow(
+        'Line 2: end without matching block'
+      );
+      expect(() => parser.parseContentTree('repeat times=1\nelse\nend')).toThrow(
+        'Line 2: else without matching if'
+      );
+    });
+
+    it('should validate block parameters', () => {
+      expect(() => parser.parseContentTree('if blinking css=a\nend')).toThrow(
+        /Line 1: Invalid condition: blinking/
+      );
+      expect(() => parser.parseContentTree('if visible\nend')).toThrow(
+        'Line 1: visible condition requires a selector'
+      );
+      expect(() => parser.parseContentTree('repeat times=many\nend')).toThrow(
+        'Line 1: repeat times must be a non-negative integer'
+      );
+      expect(() => parser.parseContentTree('for_each list=items\nend')).toThrow(
+        'Line 1: for_each requires an as parameter'
+      );
+    });
+
+    it('should keep line numbers for command errors inside blocks', () => {
+      expect(() => parser.parseContentTree('repeat times=2\n  click\nend')).toThrow(/Line 2/);
+    });
+  });
+
+  describe('within blocks', () => {
+    it('should scope the selectors inside the block', () => {
+      const oxtest = `
+within css=.row hasText="Blue T-Shirt"
+  click role=button[name=Buy]
+  if visible css=.sale
+    assert_text css=.price value=\$10
+  end
+  navigate url=/cart
+end
+`;
+
+      const nodes = parser.parseContentTree(oxtest);
+
+      expect(nodes).toHaveLength(3);
+      const click = nodes[0] as OxtestCommand;
+      expect(click.selector?.toString()).toBe('css:.row >> role:button[name=Buy]');
+      expect(click.selector?.scope.parent?.scope.hasText).toBe('Blue T-Shirt');
+      const block = nodes[1] as IfBlock;
+      expect(block.condition.selector?.toString()).toBe('css:.row >> css:.sale');
+      expect((block.thenBody[0] as OxtestCommand).selector?.toString()).toBe(
+        'css:.row >> css:.price'
+      );
+      expect((nodes[2] as OxtestCommand).selector).toBeUndefined();
+    });
+
+    it('should nest within blocks', () => {
+      const nodes = parser.parseContentTree(
+        'within css=.cart\nwithin css=.row nth=1\nclick text=Remove\nend\nend'
+      );
+
+      const click = nodes[0] as OxtestCommand;
+      expect(click.selector?.toString()).toBe('css:.cart >> css:.row >> text:Remove');
+      expect(click.selector?.scope.parent?.scope.nth).toBe(1);
+    });
+
+    it('should require a selector and reject call inside the block', () => {
+      expect(() => parser.parseContentTree('within hasText=Blue\nend')).toThrow(
+        'Line 1: within requires a selector'
+      );
+      expect(() =>
+        parser.parseContentTree('define open()\nclick css=a\nend\nwithin css=.row\ncall open\nend')
+      ).toThrow('Line 5: call is not allowed inside within');
+    });
+  });
+
+  describe('procedures', () => {
+    it('should parse define and call', () => {
+      const oxtest = `
+define login(user, pass)
+  fill css=#user value=\${user}
+  fill css=#pass value=\${pass}
+  click css=button[type=submit]
+end
+call login user=\${ADMIN} pass="s3cret pw"
+`;
+
+      const nodes = parser.parseContentTree(oxtest);
+
+      expect(nodes).toHaveLength(1);
+      const call = nodes[0] as CallBlock;
+      expect(call.kind).toBe('call');
+      expect(call.procedure.name).toBe('login');
+      expect(call.procedure.params).toEqual(['user', 'pass']);
+      expect(call.procedure.body).toHaveLength(3);
+      expect(call.args).toEqual({ user: '\${ADMIN}', pass: 's3cret pw' });
+    });
+
+    it('should allow procedures without parameters', () => {
+      const nodes = parser.parseContentTree('define logout\nclick css=.logout\nend\ncall logout');
+
+      expect((nodes[0] as CallBlock).procedure.params).toEqual([]);
+    });
+
+    it('should reject calls to unknown procedures and bad arguments', () => {
+      expect(() => parser.parseContentTree('call login user=a')).toThrow(
+        'Line 1: Unknown procedure: login'
+      );
+      const define = 'define login(user, pass)\nclick css=a\nend\n';
+      expect(() => parser.parseContentTree(`${define}call login user=a`)).toThrow(
+        'Line 4: Missing argument for login: pass'
+      );
+      expect(() => parser.parseContentTree(`${define}call login user=a pass=b x=c`)).toThrow(
+        'Line 4: Unknown argument for login: x'
+      );
+    });
+
+    it('should reject nested and duplicate definitions', () => {
+      expect(() => parser.parseContentTree('repeat times=1\ndefine a\nend\nend')).toThrow(
+        'Line 2: define is only allowed at the top level'
+      );
+      expect(() => parser.parseContentTree('define a\nclick css=x\nend\ndefine a\nend')).toThrow(
+        'Line 4: Procedure a is already defined at :1'
+      );
+    });
+  });
+
+  describe('includes', () => {
+    const files: Record<string, string> = {};
+
+    beforeEach(() => {
+      for (const key of Object.keys(files)) {
+        delete files[key];
+      }
+      mockFs.readFile.mockImplementation((async (filePath: string) => {
+        if (files[filePath] === undefined) {
+          const error = new Error(`ENOENT: ${filePath}`) as NodeJS.ErrnoException;
+          error.code = 'ENOENT';
+          throw error;
+        }
+        return files[filePath];
+      }) as any);
+    });
+
+    it('should inline included files relative to the including file', async () => {
+      files['suites/checkout.ox.test'] = 'include ../common/login.ox.test\ncall login user=admin';
+      files['common/login.ox.test'] =
+        '# shared steps\nnavigate url=https://shop.dev/login\ndefine login(user)\nfill css=#user value=\${user}\nend';
+
+      const nodes = await parser.parseFileTree('suites/checkout.ox.test');
+
+      expect(nodes).toHaveLength(2);
+      expect((nodes[0] as OxtestCommand).type).toBe('navigate');
+      expect((nodes[1] as CallBlock).procedure.name).toBe('login');
+    });
+
+    it('should record the file each command was written in', async () => {
+      files['suites/checkout.ox.test'] = 'include ../common/seed.ox.test\nclick css=.buy';
+      files['common/seed.ox.test'] = 'http method=POST url=/api/users json_file=user.json';
+
+      const nodes = await parser.parseFileTree('suites/checkout.ox.test');
+
+      expect((nodes as OxtestCommand[]).map(command => command.filePath)).toEqual([
+        'common/seed.ox.test',
+        'suites/checkout.ox.test',
+      ]);
+    });
+
+    it('should not allow metadata headers in included files', async () => {
+      files['main.ox.test'] = '@tags smoke\ninclude login.ox.test';
+      files['login.ox.test'] = '@tags auth\nclick css=a';
+
+      await expect(parser.parseDocument('main.ox.test')).rejects.toThrow(
+        'Metadata headers are not allowed in included files'
+      );
+    });
+
+    it('should allow the same file to be reached through several includes', async () => {
+      files['main.ox.test'] = 'include a.ox.test\ninclude b.ox.test\ncall shared';
+      files['a.ox.test'] = 'include shared.ox.test';
+      files['b.ox.test'] = 'include shared.ox.test';
+      files['shared.ox.test'] = 'define shared\nclick css=.ok\nend';
+
+      const nodes = await parser.parseFileTree('main.ox.test');
+
+      expect(nodes).toHaveLength(1);
+    });
+
+    it('should report include cycles at the include line', async () => {
+      files['a.ox.test'] = 'click css=x\ninclude b.ox.test';
+      files['b.ox.test'] = 'include a.ox.test';
+
+      await expect(parser.parseFileTree('a.ox.test')).rejects.toThrow(
+        'b.ox.test: Line 1: Circular include: a.ox.test -> b.ox.test -> a.ox.test'
+      );
+    });
+
+    it('should report syntax errors in the included file', async () => {
+      files['main.ox.test'] = 'navigate url=/\ninclude steps.ox.test';
+      files['steps.ox.test'] = 'click css=a\n\nfrobnicate css=b';
+
+      const error = await parser.parseFileTree('main.ox.test').catch(e => e);
+
+      expect(error).toBeInstanceOf(OxtestParseError);
+      expect(error.filePath).toBe('steps.ox.test');
+      expect(error.lineNumber).toBe(3);
+    });
+
+    it('should report missing included files', async () => {
+      files['main.ox.test'] = 'include missing.ox.test';
+
+      await expect(parser.parseFileTree('main.ox.test')).rejects.toThrow(
+        'main.ox.test: Line 1: Included file not found: missing.ox.test'
+      );
+    });
+
+    it('should reject includes when parsing plain content', () => {
+      expect(() => parser.parseContentTree('include a.ox.test')).toThrow(
+        'Line 1: include is only supported when parsing a file'
+      );
+    });
+
+    it('should report include problems as diagnostics', async () => {
+      files['main.ox.test'] = 'include missing.ox.test\ninclude a.ox.test\nnavigate url=/';
+      files['a.ox.test'] = 'include main.ox.test\nfrobnicate css=b';
+
+      const result = await parser.parseSourceWithDiagnostics(files['main.ox.test'], 'main.ox.test');
+
+      expect(result.nodes).toHaveLength(1);
+      expect(result.diagnostics.map(d => [d.code, d.filePath, d.range.line])).toEqual([
+        ['include-error', 'main.ox.test', 1],
+        ['include-error', 'a.ox.test', 1],
+        ['unknown-command', 'a.ox.test', 2],
+      ]);
+      expect(result.diagnostics[1].message).toBe(
+        'Circular include: main.ox.test -> a.ox.test -> main.ox.test'
+      );
+    });
+  });
+
+  describe('parseWithDiagnostics', () => {
+    it('should report every error in one pass and keep the valid lines', () => {
+      const result = parser.parseWithDiagnostics(
+        'navigate url=/\nclick\nfill css=#q\nclick css=.ok'
+      );
+
+      expect(result.nodes).toHaveLength(2);
+      expect(result.diagnostics.map(d => [d.severity, d.code, d.range.line])).toEqual([
+        ['error', 'missing-selector', 2],
+        ['error', 'missing-parameter', 3],
+      ]);
+      expect(result.diagnostics[0].message).not.toMatch(/^Line/);
+    });
+
+    it('should suggest a fix for misspelled commands', () => {
+      const result = parser.parseWithDiagnostics('  clik css=.btn');
+
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'error',
+          code: 'unknown-command',
+          message: 'Unknown command: clik. Did you mean click?',
+          range: { line: 1, column: 3, endLine: 1, endColumn: 7 },
+          filePath: undefined,
+          fix: {
+            description: 'Replace with click',
+            range: { line: 1, column: 3, endLine: 1, endColumn: 7 },
+            replacement: 'click',
+          },
+        },
+      ]);
+    });
+
+    it('should warn about tokens that would otherwise be dropped', () => {
+      const result = parser.parseWithDiagnostics(
+        'click css=.a oops\nfill css=#q value=a value=b\nclick css=.a xpath=//b\ntype css=#q value="hi'
+      );
+
+      expect(result.nodes).toHaveLength(4);
+      expect(result.diagnostics.map(d => [d.severity, d.code, d.range.line])).toEqual([
+        ['warning', 'unknown-token', 1],
+        ['warning', 'duplicate-parameter', 2],
+        ['warning', 'extra-selector', 3],
+        ['warning', 'unterminated-quote', 4],
+      ]);
+      expect(result.diagnostics[0].range).toEqual({
+        line: 1,
+        column: 14,
+        endLine: 1,
+        endColumn: 18,
+      });
+      expect(result.diagnostics[3].fix?.replacement).toBe('"');
+    });
+
+    it('should not warn about condition and procedure words', () => {
+      const result = parser.parseWithDiagnostics(
+        'define login(user)\nclick css=a\nend\nif visible css=a\ncall login user=x\nend'
+      );
+
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should keep block structure when a block line fails', () => {
+      const result = parser.parseWithDiagnostics(
+        'repeat times=-1\nclick css=a\nend\nif visible css=.b\nclick css=.c\nend\nend'
+      );
+
+      expect(result.nodes).toHaveLength(1);
+      expect(result.nodes[0]).toBeInstanceOf(IfBlock);
+      expect(result.diagnostics.map(d => [d.code, d.range.line])).toEqual([
+        ['invalid-block', 1],
+        ['unmatched-block', 7],
+      ]);
+    });
+
+    it('should report unclosed blocks and keep their commands', () => {
+      const result = parser.parseWithDiagnostics('click css=a\nrepeat times=2\nclick css=b');
+
+      expect(result.nodes).toHaveLength(2);
+      expect(result.nodes[1]).toBeInstanceOf(RepeatBlock);
+      expect(result.diagnostics).toHaveLength(1);
+      expect(result.diagnostics[0]).toMatchObject({
+        code: 'unclosed-block',
+        message: 'Unclosed repeat block (missing end)',
+        range: { line: 2, column: 1, endColumn: 15 },
+      });
+    });
+
+    it('should report unknown procedures', () => {
+      const result = parser.parseWithDiagnostics('call login');
+
+      expect(result.diagnostics[0].code).toBe('unknown-procedure');
+    });
+  });
+
+  describe('metadata headers', () => {
+    it('should read headers into task metadata', async () => {
+      mockFs.readFile.mockResolvedValue(
+        [
+          '# Checkout happy path',
+          '@tags smoke, checkout',
+          '@timeout 60000',
+          '@retries 2',
+          '@priority 5',
+          '@viewport 1280x720',
+          '@owner payments-team',
+          '@data "fixtures/users.csv"',
+          '@auth login.ox.test',
+          '@dialogs accept',
+          '@step timeout=5000 retries=3 retry_delay=500 backoff=2 wait_for=visible',
+          '',
+          'navigate url=/checkout',
+        ].join('\n')
+      );
+
+      const document = await parser.parseDocument('./checkout.ox.test');
+
+      expect(document.metadata).toEqual({
+        tags: ['smoke', 'checkout'],
+        timeout: 60000,
+        retries: 2,
+        priority: 5,
+        viewport: { width: 1280, height: 720 },
+        owner: 'payments-team',
+        data: 'fixtures/users.csv',
+        auth: 'login.ox.test',
+        dialogs: 'accept',
+        step: { timeout: 5000, retries: 3, retryDelay: 500, backoff: 2, waitFor: 'visible' },
+      });
+      expect(document.nodes).toHaveLength(1);
+    });
+
+    it('should ignore headers when parsing commands', () => {
+      const commands = parser.parseContent('@tags smoke\nclick css=.btn');
+
+      expect(commands).toHaveLength(1);
+    });
+
+    it.each([
+      ['@colour red', 'Unknown metadata header: @colour'],
+      ['@timeout soon', '@timeout must be a positive number of milliseconds'],
+      ['@retries -1', '@retries must be a non-negative integer'],
+      ['@viewport 1280', '@viewport must be <width>x<height>'],
+      ['@owner', '@owner requires a value'],
+      ['@data users.txt', '@data must be a .csv, .json, .yaml or .yml file'],
+      ['@auth login.json', '@auth must be an .ox.test file'],
+      ['@dialogs ignore', '@dialogs must be accept or dismiss'],
+      [
+        '@step delay=100',
+        '@step takes timeout=, retries=, retry_delay=, backoff=, wait_for=, got "delay=100"',
+      ],
+      ['@step retries=many', '@step retries must be a non-negative integer, got "many"'],
+      ['@tags a\n@tags b', 'Duplicate metadata header: @tags'],
+      ['click css=a\n@tags smoke', 'Metadata headers must come before the first command'],
+    ])('should reject %p', (content, message) => {
+      expect(() => parser.parseContentTree(content)).toThrow(message);
+    });
+
+    it('should report header problems as diagnostics', () => {
+      const result = parser.parseWithDiagnostics('@priority high\n@tags smoke\nclick css=a');
+
+      expect(result.metadata).toEqual({ tags: ['smoke'] });
+      expect(result.nodes).toHaveLength(1);
+      expect(result.diagnostics.map(d => [d.code, d.range.line])).toEqual([
+        ['invalid-metadata', 1],
+      ]);
+    });
+  });
+
+  describe('source ranges', () => {
+    it('should attach the source range to every command', () => {
+      const commands = parser.parseContent('navigate url=/\n\n    click css=.btn timeout=500');
+
+      expect(commands[0].range).toEqual({ line: 1, column: 1, endLine: 1, endColumn: 15 });
+      expect(commands[1].range).toEqual({ line: 3, column: 5, endLine: 3, endColumn: 31 });
+    });
+
+    it('should attach ranges to commands inside blocks', () => {
+      const nodes = parser.parseContentTree('repeat times=1\n  click css=a\nend');
+
+      expect((nodes[0] as RepeatBlock).body[0]).toMatchObject({
+        range: { line: 2, column: 3 },
+      });
+    });
+  });
+
+  describe('parseContent with blocks', () => {
+    it('should reject control flow keywords in a flat command list', () => {
+      expect(() => parser.parseContent('repeat times=2\nclick css=a\nend')).toThrow(
+        'Line 1: Control flow keyword "repeat" is not allowed in a flat command list'
+      );
+    });
   });
 
   describe('parseFile', () => {
@@ -110,5 +645,21 @@ click css=button.submit
 
       await expect(parser.parseFile('./test.ox.test')).rejects.toThrow('Permission denied');
     });
+
+    it('should point syntax errors at the file and line', async () => {
+      mockFs.readFile.mockResolvedValue('navigate url=/\nclick');
+
+      await expect(parser.parseFile('./test.ox.test')).rejects.toThrow(
+        /^\.\/test\.ox\.test: Line 2: /
+      );
+    });
+
+    it('should parse a block tree from filesystem', async () => {
+      mockFs.readFile.mockResolvedValue('repeat times=3\nclick css=.next\nend');
+
+      const nodes = await parser.parseFileTree('./test.ox.test');
+
+      expect((nodes[0] as RepeatBlock).times).toBe(3);
+    });
   });
 });
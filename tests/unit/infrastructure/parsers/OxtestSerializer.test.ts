@@ -0,0 +1,289 @@
+import { OxtestSerializer } from '../../../../src/infrastructure/parsers/OxtestSerializer';
+import { OxtestParser } from '../../../../src/infrastructure/parsers/OxtestParser';
+import { OxtestCommand } from '../../../../src/domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../../../src/domain/entities/SelectorSpec';
+import {
+  BlockCondition,
+  CallBlock,
+  ForEachBlock,
+  IfBlock,
+  OxtestNode,
+  Procedure,
+  RepeatBlock,
+} from '../../../../src/domain/entities/OxtestBlock';
+
+describe('OxtestSerializer', () => {
+  let serializer: OxtestSerializer;
+  let parser: OxtestParser;
+
+  // Ranges depend on layout, so compare everything else
+  const withoutRanges = (nodes: readonly OxtestNode[]): unknown =>
+    JSON.parse(JSON.stringify(nodes, (key, value) => (key === 'range' ? undefined : value)));
+
+  beforeEach(() => {
+    serializer = new OxtestSerializer();
+    parser = new OxtestParser();
+  });
+
+  describe('serializeCommand', () => {
+    it('should keep every fallback selector', () => {
+      const command = new OxtestCommand(
+        'click',
+        {},
+        new SelectorSpec('css', '.login', [
+          { strategy: 'text', value: 'Log in' },
+          { strategy: 'testid', value: 'login' },
+        ])
+      );
+
+      const line = serializer.serializeCommand(command);
+
+      expect(line).toBe('click css=.login fallback text="Log in" fallback testid=login');
+      expect(parser.parseContent(line)[0].selector).toEqual(command.selector);
+    });
+
+    it('should quote and escape values the tokenizer would otherwise change', () => {
+      const values = ['two words', 'say "hi"', "it's", 'back\\slash', '', 'a=b', '#fff', '${x}'];
+
+      for (const value of values) {
+        const command = new OxtestCommand('assertText', { value }, new SelectorSpec('css', 'h1'));
+        const [parsed] = parser.parseContent(serializer.serializeCommand(command));
+
+        expect(parsed.params.value).toBe(value);
+      }
+      expect(
+        serializer.serializeCommand(
+          new OxtestCommand('fill', { value: 'a=b' }, new SelectorSpec('css', '#q'))
+        )
+      ).toBe('fill css=#q value=a=b');
+    });
+
+    it('should round-trip selectors with quotes', () => {
+      const command = new OxtestCommand(
+        'click',
+        {},
+        new SelectorSpec('css', 'button[type="submit"]')
+      );
+
+      const [parsed] = parser.parseContent(serializer.serializeCommand(command));
+
+      expect(parsed.selector?.value).toBe('button[type="submit"]');
+    });
+  });
+
+  describe('serialize', () => {
+    it('should parse back to the same tree', () => {
+      const login = new Procedure(
+        'login',
+        ['user'],
+        [new OxtestCommand('fill', { value: '${user}' }, new SelectorSpec('css', '#user'))]
+      );
+      const tree: OxtestNode[] = [
+        new OxtestCommand('navigate', { url: 'https://shop.dev/?a=1&b=2' }),
+        new CallBlock(login, { user: 'admin user' }),
+        new IfBlock(
+          new BlockCondition('visible', new SelectorSpec('css', '.banner')),
+          [new OxtestCommand('click', {}, new SelectorSpec('text', 'Accept all'))],
+          [new RepeatBlock(2, [new OxtestCommand('reload', {})])]
+        ),
+        new IfBlock(new BlockCondition('url', undefined, '/cart$'), [
+          new OxtestCommand('goBack', {}),
+        ]),
+        new ForEachBlock('item', { values: ['a,b', ' c'] }, [
+          new OxtestCommand('fill', { value: '${item}' }, new SelectorSpec('css', '#q')),
+        ]),
+        new ForEachBlock('sku', { listVariable: 'skus' }, []),
+      ];
+
+      const source = serializer.serialize(tree);
+
+      expect(source).toContain('define login(user)\n  fill css=#user value=${user}\nend\n\n');
+      expect(source).toContain('if visible css=.banner\n  click text="Accept all"\nelse\n');
+      expect(withoutRanges(parser.parseContentTree(source))).toEqual(withoutRanges(tree));
+    });
+
+    it('should define called procedures before their callers', () => {
+      const inner = new Procedure('inner', [], [new OxtestCommand('reload', {})]);
+      const outer = new Procedure('outer', [], [new CallBlock(inner, {})]);
+
+      const source = serializer.serialize([new CallBlock(outer, {})]);
+
+      expect(source.indexOf('define inner')).toBeLessThan(source.indexOf('define outer'));
+      expect(() => parser.parseContentTree(source)).not.toThrow();
+    });
+
+    it('should write metadata headers that parse back', () => {
+      const metadata = {
+        tags: ['smoke', 'checkout'],
+        timeout: 60000,
+        retries: 2,
+        priority: 5,
+        viewport: { width: 1280, height: 720 },
+        owner: 'payments-team',
+        data: 'fixtures/users and roles.yaml',
+        auth: 'flows/login.ox.test',
+        dialogs: 'accept' as const,
+        step: { timeout: 5000, waitFor: 'stable' as const },
+      };
+
+      const source = serializer.serialize([new OxtestCommand('reload', {})], metadata);
+
+      expect(source).toMatch(/^@tags smoke, checkout\n@timeout 60000\n/);
+      expect(source).toContain(
+        '@data "fixtures/users and roles.yaml"\n@auth flows/login.ox.test\n@dialogs accept\n@step timeout=5000 wait_for=stable\n\nreload\n'
+      );
+      expect(parser.parseWithDiagnostics(source).metadata).toEqual(metadata);
+    });
+  });
+
+  describe('scoped selectors', () => {
+    it('should chain parents without filters on one line', () => {
+      const command = new OxtestCommand(
+        'click',
+        {},
+        new SelectorSpec('text', 'Add to cart', [], undefined, {
+          parent: new SelectorSpec('css', '.row'),
+          nth: 0,
+        })
+      );
+
+      expect(serializer.serializeCommand(command)).toBe(
+        'click css=.row >> text="Add to cart" nth=0'
+      );
+      expect(() =>
+        serializer.serializeCommand(
+          new OxtestCommand(
+            'click',
+            {},
+            new SelectorSpec('text', 'Buy', [], undefined, {
+              parent: new SelectorSpec('css', '.row', [], undefined, { hasText: 'Blue' }),
+            })
+          )
+        )
+      ).toThrow('Cannot write click on one line: its selector needs a within block');
+    });
+
+    it('should group commands under a filtered parent into a within block', () => {
+      const source = [
+        'navigate url=/shop',
+        'within css=.row hasText="Blue T-Shirt"',
+        '  click role=button[name=Buy]',
+        '  wait timeout=100',
+        '  if visible css=.sale has=testid=badge',
+        '    click text=Details',
+        '  end',
+        'end',
+        'click css=.checkout',
+        '',
+      ].join('\n');
+      const tree = parser.parseContentTree(source);
+
+      const written = serializer.serialize(tree);
+
+      expect(written).toBe(source);
+      expect(withoutRanges(parser.parseContentTree(written))).toEqual(withoutRanges(tree));
+    });
+  });
+
+  describe('update', () => {
+    it('should rewrite the given commands in place and leave other lines alone', () => {
+      const content = [
+        '# Step: Login',
+        'navigate url=https://shop.dev',
+        '',
+        '  click css=.old  # healed below',
+        'assert_visible css=.done',
+      ].join('\n');
+      const commands = parser.parseContent(content);
+      const healed = new OxtestCommand(
+        'click',
+        {},
+        new SelectorSpec('css', '.new', [{ strategy: 'text', value: 'Sign in' }]),
+        commands[1].range
+      );
+
+      const updated = serializer.update(content, [healed]);
+
+      expect(updated).toBe(
+        [
+          '# Step: Login',
+          'navigate url=https://shop.dev',
+          '',
+          '  click css=.new fallback text="Sign in"  # healed below',
+          'assert_visible css=.done',
+        ].join('\n')
+      );
+    });
+
+    it('should reject commands without a source range', () => {
+      expect(() => serializer.update('reload', [new OxtestCommand('reload', {})])).toThrow(
+        'Cannot update reload'
+      );
+    });
+  });
+
+  describe('format', () => {
+    const messy = [
+      '',
+      '# Step: Search',
+      'navigate   url=https://shop.dev',
+      'for_each values="shoes, socks"  as=product',
+      'fill css=#search value=${product}',
+      '    # inside the loop',
+      'if  visible css=.no-results   # nothing found',
+      "assert_text css=.hint value='Try again'",
+      'else',
+      'click css=.result:first-child',
+      'end',
+      'end',
+      '',
+      '',
+      'define   login( user ,pass )',
+      'fill css=#user value=${user}',
+      'end',
+      '',
+    ].join('\n');
+
+    it('should indent blocks and normalise spacing, names and quoting', () => {
+      expect(serializer.format(messy)).toBe(
+        [
+          '# Step: Search',
+          'navigate url=https://shop.dev',
+          'for_each values="shoes, socks" as=product',
+          '  fill css=#search value=${product}',
+          '  # inside the loop',
+          '  if visible css=.no-results  # nothing found',
+          '    assertText css=.hint value="Try again"',
+          '  else',
+          '    click css=.result:first-child',
+          '  end',
+          'end',
+          '',
+          'define login(user, pass)',
+          '  fill css=#user value=${user}',
+          'end',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should be idempotent and keep the meaning', () => {
+      const formatted = serializer.format(messy);
+
+      expect(serializer.format(formatted)).toBe(formatted);
+      expect(withoutRanges(parser.parseContentTree(formatted))).toEqual(
+        withoutRanges(parser.parseContentTree(messy))
+      );
+    });
+
+    it('should indent within blocks and keep chained selectors', () => {
+      expect(serializer.format('within  css=.row nth=1\nclick css=.a >>  text=Buy\nend')).toBe(
+        'within css=.row nth=1\n  click css=.a >> text=Buy\nend\n'
+      );
+    });
+
+    it('should keep lines it cannot parse', () => {
+      expect(serializer.format('clik   css=a  extra\nend')).toBe('clik css=a extra\nend\n');
+    });
+  });
+});
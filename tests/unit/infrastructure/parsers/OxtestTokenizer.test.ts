@@ -101,7 +101,17 @@ describe('OxtestTokenizer', () => {
     });
 
     it('should tokenize all selector strategies', () => {
-      const strategies = ['css', 'xpath', 'text', 'placeholder', 'label', 'role', 'testid'];
+      const strategies = [
+        'css',
+        'xpath',
+        'text',
+        'placeholder',
+        'label',
+        'alt',
+        'title',
+        'role',
+        'testid',
+      ];
 
       strategies.forEach(strategy => {
         const line = `click ${strategy}=value`;
@@ -184,6 +194,30 @@ describe('OxtestTokenizer', () => {
       expect(selectorToken?.value).toBe('button');
     });
 
+    it('should keep role options with a quoted accessible name together', () => {
+      const tokens = tokenizer.tokenize('click role=button[name="Sign in"][exact] timeout=500');
+
+      expect(tokens[1]).toEqual({
+        type: 'SELECTOR',
+        strategy: 'role',
+        value: 'button[name=Sign in][exact]',
+      });
+      expect(tokens[2].key).toBe('timeout');
+    });
+
+    it('should chain selectors joined by >>', () => {
+      const tokens = tokenizer.tokenize('click css=.row >> text="Blue T-Shirt" nth=0');
+
+      expect(tokens).toHaveLength(3);
+      expect(tokens[1]).toEqual({
+        type: 'SELECTOR',
+        strategy: 'text',
+        value: 'Blue T-Shirt',
+        parent: { type: 'SELECTOR', strategy: 'css', value: '.row' },
+      });
+      expect(tokens[2]).toEqual({ type: 'PARAM', key: 'nth', value: '0' });
+    });
+
     it('should handle testid selector', () => {
       const line = 'click testid=submit-btn';
       const tokens = tokenizer.tokenize(line);
@@ -192,5 +226,83 @@ describe('OxtestTokenizer', () => {
       expect(selectorToken?.strategy).toBe('testid');
       expect(selectorToken?.value).toBe('submit-btn');
     });
+
+    it('should read switch_frame main as the frame parameter', () => {
+      expect(tokenizer.tokenize('switch_frame main')).toEqual([
+        { type: 'COMMAND', value: 'switchFrame' },
+        { type: 'PARAM', key: 'frame', value: 'main' },
+      ]);
+      expect(tokenizer.scan('click main').tokens[1].type).toBe('UNKNOWN');
+    });
+
+    it('should map the cookie and storage commands', () => {
+      expect(
+        [
+          'set_cookie',
+          'clear_cookies',
+          'assert_cookie',
+          'set_local_storage',
+          'assert_local_storage',
+          'clear_storage',
+        ].map(name => tokenizer.tokenize(name)[0].value)
+      ).toEqual([
+        'setCookie',
+        'clearCookies',
+        'assertCookie',
+        'setLocalStorage',
+        'assertLocalStorage',
+        'clearStorage',
+      ]);
+    });
+
+    it('should read a bare exists of assert_http as a flag', () => {
+      expect(tokenizer.tokenize('assert_http status=201 json_path=$.id exists')).toEqual([
+        { type: 'COMMAND', value: 'assertHttp' },
+        { type: 'PARAM', key: 'status', value: '201' },
+        { type: 'PARAM', key: 'json_path', value: '$.id' },
+        { type: 'PARAM', key: 'exists', value: 'true' },
+      ]);
+    });
+
+    it('should read the text of accept_dialog as the prompt answer', () => {
+      expect(tokenizer.tokenize('accept_dialog text="Bob Smith"')).toEqual([
+        { type: 'COMMAND', value: 'acceptDialog' },
+        { type: 'PARAM', key: 'text', value: 'Bob Smith' },
+      ]);
+    });
+  });
+
+  describe('scan', () => {
+    it('should keep unknown tokens with their positions', () => {
+      const scan = tokenizer.scan('  click css=.btn oops');
+
+      expect(scan.tokens.map(t => [t.type, t.start, t.end])).toEqual([
+        ['COMMAND', 2, 7],
+        ['SELECTOR', 8, 16],
+        ['UNKNOWN', 17, 21],
+      ]);
+      expect(scan.unclosedQuote).toBeUndefined();
+    });
+
+    it('should report where an unterminated quote starts', () => {
+      const scan = tokenizer.scan('type css=input value="hello');
+
+      expect(scan.unclosedQuote).toBe(21);
+    });
+
+    it('should stop at a trailing comment', () => {
+      const scan = tokenizer.scan('click css=button  # Inline comment');
+
+      expect(scan.tokens.map(t => t.type)).toEqual(['COMMAND', 'SELECTOR']);
+      expect(scan.comment).toBe(18);
+      expect(tokenizer.scan('click text="# not a comment"').comment).toBeUndefined();
+    });
+
+    it('should leave tokenize output without unknown tokens', () => {
+      expect(tokenizer.tokenize('click css=.btn oops')).toEqual([
+        { type: 'COMMAND', value: 'click' },
+        { type: 'SELECTOR', strategy: 'css', value: '.btn' },
+      ]);
+    });
   });
 });
@@ -0,0 +1,181 @@
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { JsonRpcMessage } from '../../../../src/presentation/lsp/LspProtocol';
+import { OxtestLanguageServer } from '../../../../src/presentation/lsp/OxtestLanguageServer';
+
+describe('OxtestLanguageServer', () => {
+  const uri = pathToFileURL('/project/tests/checkout.ox.test').href;
+  let server: OxtestLanguageServer;
+  let input: PassThrough;
+  let output: PassThrough;
+  let exitCode: number | undefined;
+  let received: string;
+
+  const send = (message: object): void => {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+  };
+
+  const messages = async (): Promise<JsonRpcMessage[]> => {
+    // Let stream events fire before waiting for the queue
+    await new Promise(resolve => setImmediate(resolve));
+    await server.idle();
+    return received
+      .split(/Content-Length: \d+\r\n\r\n/)
+      .filter(Boolean)
+      .map(body => JSON.parse(body) as JsonRpcMessage);
+  };
+
+  beforeEach(() => {
+    exitCode = undefined;
+    received = '';
+    input = new PassThrough();
+    output = new PassThrough();
+    output.on('data', chunk => (received += chunk.toString()));
+    server = new OxtestLanguageServer(undefined, code => (exitCode = code));
+    server.listen(input, output);
+  });
+
+  it('should answer initialize with its capabilities', async () => {
+    send({ id: 1, method: 'initialize', params: { capabilities: {} } });
+
+    const [response] = await messages();
+
+    expect(response.id).toBe(1);
+    expect((response.result as any).capabilities).toMatchObject({
+      textDocumentSync: 1,
+      hoverProvider: true,
+      definitionProvider: true,
+    });
+  });
+
+  it('should reject requests before initialize', async () => {
+    send({ id: 1, method: 'textDocument/hover', params: {} });
+
+    const [response] = await messages();
+
+    expect(response.error?.code).toBe(-32002);
+  });
+
+  it('should handle messages split across chunks', async () => {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'initialize', params: {} });
+    const framed = `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+    input.write(framed.slice(0, 10));
+    input.write(framed.slice(10));
+
+    const [response] = await messages();
+
+    expect(response.id).toBe(7);
+  });
+
+  describe('after initialize', () => {
+    beforeEach(async () => {
+      send({ id: 0, method: 'initialize', params: {} });
+      send({ method: 'initialized', params: {} });
+      await messages();
+      received = '';
+    });
+
+    it('should publish diagnostics on open and change', async () => {
+      send({
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, text: 'navigate url=/\nclik css=a' } },
+      });
+      send({
+        method: 'textDocument/didChange',
+        params: { textDocument: { uri }, contentChanges: [{ text: 'navigate url=/' }] },
+      });
+
+      const [opened, changed] = await messages();
+
+      expect(opened.method).toBe('textDocument/publishDiagnostics');
+      expect((opened.params as any).diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'unknown-command',
+          severity: 1,
+          source: 'oxtest',
+          range: { start: { line: 1, character: 0 }, end: { line: 1, character: 4 } },
+        }),
+      ]);
+      expect((changed.params as any).diagnostics).toEqual([]);
+    });
+
+    it('should turn diagnostic fixes into quick fixes', async () => {
+      send({
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, text: 'clik css=a' } },
+      });
+      const [published] = await messages();
+      received = '';
+
+      send({
+        id: 2,
+        method: 'textDocument/codeAction',
+        params: {
+          textDocument: { uri },
+          context: { diagnostics: (published.params as any).diagnostics },
+        },
+      });
+      const [response] = await messages();
+
+      expect(response.result).toEqual([
+        expect.objectContaining({
+          title: 'Replace with click',
+          edit: {
+            changes: {
+              [uri]: [
+                {
+                  range: { start: { line: 0, character: 0 }, end: { line: 0, character: 4 } },
+                  newText: 'click',
+                },
+              ],
+            },
+          },
+        }),
+      ]);
+    });
+
+    it('should answer completion, hover and definition for open documents', async () => {
+      send({
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, text: 'include steps/login.ox.test\nclick ' } },
+      });
+      send({
+        id: 3,
+        method: 'textDocument/completion',
+        params: { textDocument: { uri }, position: { line: 1, character: 6 } },
+      });
+      send({
+        id: 4,
+        method: 'textDocument/hover',
+        params: { textDocument: { uri }, position: { line: 1, character: 2 } },
+      });
+      send({
+        id: 5,
+        method: 'textDocument/definition',
+        params: { textDocument: { uri }, position: { line: 0, character: 12 } },
+      });
+
+      const responses = (await messages()).filter(m => m.id !== undefined);
+
+      expect((responses[0].result as any[]).map(i => i.label)).toContain('css=');
+      expect((responses[1].result as any).contents.value).toContain('**click**');
+      expect(responses[2].result).toEqual({
+        uri: pathToFileURL('/project/tests/steps/login.ox.test').href,
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+      });
+    });
+
+    it('should report unknown requests and exit cleanly after shutdown', async () => {
+      send({ id: 8, method: 'workspace/symbol', params: {} });
+      send({ id: 9, method: 'shutdown' });
+      send({ method: 'exit' });
+
+      const [unknown, shutdown] = await messages();
+
+      expect(unknown.error?.code).toBe(-32601);
+      expect(shutdown.result).toBeNull();
+      expect(exitCode).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import * as path from 'path';
+import { OxtestLanguageService } from '../../../../src/presentation/lsp/OxtestLanguageService';
+import { OXTestValidator } from '../../../../src/application/services/OXTestValidator';
+
+describe('OxtestLanguageService', () => {
+  let service: OxtestLanguageService;
+
+  beforeEach(() => {
+    service = new OxtestLanguageService();
+  });
+
+  describe('complete', () => {
+    it('should offer commands, aliases and keywords at the start of a line', () => {
+      const labels = service.complete('  ass', { line: 0, character: 5 }).map(i => i.label);
+
+      expect(labels).toContain('assertVisible');
+      expect(labels).toContain('assert_visible');
+      expect(labels).toContain('for_each');
+    });
+
+    it('should offer selector strategies and unused parameter keys after a command', () => {
+      const labels = service
+        .complete('select_option css=select value=DE ', { line: 0, character: 34 })
+        .map(i => i.label);
+
+      expect(labels).toEqual(expect.arrayContaining(['css=', 'xpath=', 'testid=', 'index=']));
+      expect(labels).not.toContain('value=');
+    });
+
+    it('should offer selector filters after within and selector commands', () => {
+      const within = service.complete('within ', { line: 0, character: 7 }).map(i => i.label);
+      const click = service
+        .complete('click css=.row nth=0 ', { line: 0, character: 21 })
+        .map(i => i.label);
+
+      expect(within).toEqual(expect.arrayContaining(['css=', 'hasText=', 'has=', 'nth=']));
+      expect(click).toEqual(expect.arrayContaining(['hasText=', 'has=']));
+      expect(click).not.toContain('nth=');
+    });
+
+    it('should offer step policy settings to element commands and the @step header', () => {
+      const click = service.complete('click css=.pay ', { line: 0, character: 15 });
+      const header = service.complete('@step retries=1 ', { line: 0, character: 16 });
+
+      expect(click.map(i => i.label)).toEqual(
+        expect.arrayContaining(['timeout=', 'retries=', 'wait_for='])
+      );
+      expect(header.map(i => i.label)).toEqual([
+        'timeout=',
+        'retry_delay=',
+        'backoff=',
+        'wait_for=',
+      ]);
+    });
+
+    it('should not offer selectors to commands that take none', () => {
+      const labels = service.complete('navigate ', { line: 0, character: 9 }).map(i => i.label);
+
+      expect(labels).toEqual(['url=']);
+    });
+
+    it('should offer conditions after if and procedures after call', () => {
+      const text = 'define login(user)\nclick css=a\nend\ncall \nif ';
+
+      expect(service.complete(text, { line: 3, character: 5 }).map(i => i.label)).toEqual([
+        'login',
+      ]);
+      expect(service.complete(text, { line: 4, character: 3 }).map(i => i.label)).toEqual([
+        'visible',
+        'hidden',
+        'exists',
+        'url',
+      ]);
+    });
+
+    it('should not complete inside values or comments', () => {
+      expect(service.complete('click css=.bt', { line: 0, character: 13 })).toEqual([]);
+      expect(service.complete('# click ', { line: 0, character: 8 })).toEqual([]);
+    });
+  });
+
+  describe('hover', () => {
+    it('should describe a command with its aliases and parameters', () => {
+      const hover = service.hover('\n  store_attribute css=a attribute=href as=x', {
+        line: 1,
+        character: 4,
+      });
+
+      expect(hover?.contents.value).toContain('**storeAttribute**');
+      expect(hover?.contents.value).toContain('`store_attribute`');
+      expect(hover?.contents.value).toContain('`attribute`, `as`');
+      expect(hover?.range).toEqual({
+        start: { line: 1, character: 2 },
+        end: { line: 1, character: 17 },
+      });
+    });
+
+    it('should describe block keywords', () => {
+      expect(service.hover('repeat times=2', { line: 0, character: 1 })?.contents.value).toContain(
+        'fixed number of times'
+      );
+    });
+
+    it('should return null outside the command word', () => {
+      expect(service.hover('click css=a', { line: 0, character: 8 })).toBeNull();
+      expect(service.hover('clack css=a', { line: 0, character: 1 })).toBeNull();
+    });
+  });
+
+  describe('diagnose', () => {
+    it('should return parser diagnostics', async () => {
+      const diagnostics = await service.diagnose('clik css=a\nfill css=b');
+
+      expect(diagnostics.map(d => d.code)).toEqual(['unknown-command', 'missing-parameter']);
+    });
+
+    it('should report variables no earlier step captures', async () => {
+      const validated = new OxtestLanguageService(
+        undefined,
+        undefined,
+        new OXTestValidator({ BASE_URL: 'https://shop.dev' })
+      );
+
+      const diagnostics = await validated.diagnose(
+        [
+          'navigate url=${BASE_URL}/cart',
+          'assert_text css=.total expected=${total}',
+          'store_text css=.total as=total',
+          'for_each values="S,M" as=size',
+          '  click text=${size}',
+          'end',
+          'fill css=#note value=${note:-none}',
+        ].join('\n')
+      );
+
+      expect(diagnostics).toEqual([
+        {
+          severity: 'warning',
+          code: 'undefined-variable',
+          message: 'Variable ${total} is not captured by an earlier step or set in the environment',
+          range: { line: 2, column: 1, endLine: 2, endColumn: 41 },
+          filePath: undefined,
+        },
+      ]);
+    });
+
+    it('should not check variables of data-driven tests', async () => {
+      const diagnostics = await service.diagnose('@data users.csv\nfill css=#user value=${name}');
+
+      expect(diagnostics).toEqual([]);
+    });
+  });
+
+  describe('definition', () => {
+    it('should resolve include lines relative to the document', () => {
+      const target = service.definition(
+        'include ../common/login.ox.test',
+        { line: 0, character: 10 },
+        '/suite/main/a.ox.test'
+      );
+
+      expect(target).toBe(path.join('/suite/common/login.ox.test'));
+    });
+
+    it('should return undefined for other lines', () => {
+      expect(
+        service.definition('click css=a', { line: 0, character: 1 }, '/a.ox.test')
+      ).toBeUndefined();
+    });
+  });
+});
@@ -222,6 +222,31 @@ describe('HTMLReporter', () => {
       expect(html).toContain('/tmp/error.png');
     });
 
+    it('should label step screenshots with their step and command', async () => {
+      const stepReport: ExecutionReport = {
+        ...mockReport,
+        subtaskReports: [
+          {
+            id: 'main',
+            description: 'checkout',
+            status: TaskStatus.Completed,
+            stepScreenshots: [
+              {
+                path: 'artifacts/checkout-step-2-click.png',
+                step: 2,
+                command: 'click(css:.buy)',
+              },
+            ],
+          },
+        ],
+      };
+      const html = await reporter.generate(stepReport);
+
+      expect(html).toContain(
+        '<a href="artifacts/checkout-step-2-click.png" class="screenshot" target="_blank">Step 2: click(css:.buy)</a>'
+      );
+    });
+
     it('should include timestamps', async () => {
       const html = await reporter.generate(mockReport);
 
@@ -1,6 +1,7 @@
 import { JSONReporter } from '../../../../src/presentation/reporters/JSONReporter';
 import { ExecutionReport, SubtaskReport } from '../../../../src/presentation/reporters/IReporter';
 import { TaskStatus } from '../../../../src/domain/enums/TaskStatus';
+import { DEFAULT_STEP_POLICY } from '../../../../src/domain/interfaces/StepPolicy';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
@@ -158,6 +159,38 @@ describe('JSONReporter', () => {
       expect(failedSubtask.screenshots).toEqual(['/tmp/error.png']);
     });
 
+    it('should label step screenshots with their step and command', async () => {
+      const stepReport: ExecutionReport = {
+        ...mockReport,
+        subtaskReports: [
+          {
+            id: 'main',
+            description: 'checkout',
+            status: TaskStatus.Completed,
+            stepScreenshots: [
+              {
+                path: 'artifacts/checkout-step-2-click.png',
+                step: 2,
+                command: 'click(css:.buy)',
+              },
+            ],
+          },
+        ],
+      };
+      const parsed = JSON.parse(await reporter.generate(stepReport));
+
+      expect(parsed.subtaskReports[0].stepScreenshots).toEqual(
+        stepReport.subtaskReports[0].stepScreenshots
+      );
+    });
+
+    it('should include the step policy if present', async () => {
+      const policy = { ...DEFAULT_STEP_POLICY, timeout: 5000 };
+
+      expect(JSON.parse(await reporter.generate({ ...mockReport, policy })).policy).toEqual(policy);
+      expect(JSON.parse(await reporter.generate(mockReport))).not.toHaveProperty('policy');
+    });
+
     it('should format JSON with proper indentation', async () => {
       const json = await reporter.generate(mockReport);
 
@@ -236,6 +236,89 @@ describe('JUnitReporter', () => {
       expect(xml).toContain('<skipped');
     });
 
+    it('should write the data row of a data-driven test case as properties', async () => {
+      const dataReport: ExecutionReport = {
+        ...mockReport,
+        subtaskReports: [
+          {
+            id: 'row-1',
+            description: 'login [row 1: user=admin, locale=de]',
+            status: TaskStatus.Completed,
+            parameters: { user: 'admin', locale: 'de' },
+          },
+        ],
+      };
+
+      const xml = await reporter.generate(dataReport);
+
+      expect(xml).toContain(
+        [
+          '    <properties>',
+          '      <property name="user" value="admin" />',
+          '      <property name="locale" value="de" />',
+          '    </properties>',
+          '  </testcase>',
+        ].join('\n')
+      );
+      expect(xml).not.toContain('<failure');
+    });
+
+    it('should write the step policy as testsuite properties', async () => {
+      const xml = await reporter.generate({
+        ...mockReport,
+        policy: { timeout: 5000, retries: 1, retryDelay: 500, backoff: 2, waitFor: 'stable' },
+      });
+
+      expect(xml).toContain(
+        [
+          '  <properties>',
+          '    <property name="step.timeout" value="5000" />',
+          '    <property name="step.retries" value="1" />',
+          '    <property name="step.retry_delay" value="500" />',
+          '    <property name="step.backoff" value="2" />',
+          '    <property name="step.wait_for" value="stable" />',
+          '  </properties>',
+          '  <testcase',
+        ].join('\n')
+      );
+    });
+
+    it('should link attachments from system-out', async () => {
+      const harReport: ExecutionReport = {
+        ...mockReport,
+        subtaskReports: [
+          {
+            id: 'main',
+            description: 'checkout',
+            status: TaskStatus.Completed,
+            stepScreenshots: [
+              {
+                path: 'artifacts/checkout-step-2-click.png',
+                step: 2,
+                command: 'click(css:.buy)',
+              },
+            ],
+            attachments: [
+              { name: 'HAR', path: 'artifacts/checkout.har', contentType: 'application/json' },
+            ],
+          },
+        ],
+      };
+
+      const xml = await reporter.generate(harReport);
+
+      expect(xml).toContain(
+        [
+          '    <system-out>',
+          'Step 2: click(css:.buy)',
+          '[[ATTACHMENT|artifacts/checkout-step-2-click.png]]',
+          '[[ATTACHMENT|artifacts/checkout.har]]',
+          '    </system-out>',
+          '  </testcase>',
+        ].join('\n')
+      );
+    });
+
     it('should format XML with proper indentation', async () => {
       const xml = await reporter.generate(mockReport);
 
@@ -0,0 +1,134 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AuthSessionService,
+  DEFAULT_AUTH_MAX_AGE,
+} from '../../../src/application/services/AuthSessionService';
+import { ExecutionContextManager } from '../../../src/application/orchestrators/ExecutionContextManager';
+import { TestOrchestrator } from '../../../src/application/orchestrators/TestOrchestrator';
+import { PlaywrightExecutor } from '../../../src/infrastructure/executors/PlaywrightExecutor';
+
+describe('AuthSessionService', () => {
+  let tempDir: string;
+  let loginFile: string;
+  let executor: jest.Mocked<PlaywrightExecutor>;
+  let service: AuthSessionService;
+
+  const writeState = async (cookies: { name: string; expires: number }[]): Promise<string> => {
+    const statePath = service.statePath(loginFile);
+    await fs.mkdir(path.dirname(statePath), { recursive: true });
+    await fs.writeFile(statePath, JSON.stringify({ cookies, origins: [] }), 'utf-8');
+    return statePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-session-test-'));
+    loginFile = path.join(tempDir, 'login.ox.test');
+    await fs.writeFile(
+      loginFile,
+      'navigate url=https://shop.dev/login\nfill css=#user value=admin\nclick text="Sign in"\n',
+      'utf-8'
+    );
+
+    executor = {
+      execute: jest.fn().mockResolvedValue({ success: true, duration: 1 }),
+      newContext: jest.fn().mockResolvedValue(undefined),
+      saveStorageState: jest.fn(async (filePath: string) => {
+        await fs.writeFile(filePath, '{"cookies": [], "origins": []}', 'utf-8');
+      }),
+    } as any;
+    const contextManager = new ExecutionContextManager();
+    service = new AuthSessionService(
+      executor,
+      new TestOrchestrator(executor, contextManager),
+      contextManager,
+      { stateDir: path.join(tempDir, '.auth') }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('storageStateFor', () => {
+    it('should run the login flow in a fresh context and save the session', async () => {
+      const statePath = await service.storageStateFor(loginFile);
+
+      expect(path.dirname(statePath)).toBe(path.join(tempDir, '.auth'));
+      expect(path.basename(statePath)).toMatch(/^login-[0-9a-f]{8}\.json$/);
+      expect(executor.newContext).toHaveBeenCalledWith();
+      expect(executor.execute).toHaveBeenCalledTimes(3);
+      expect(executor.saveStorageState).toHaveBeenCalledWith(statePath);
+    });
+
+    it('should reuse a fresh session without logging in', async () => {
+      await service.storageStateFor(loginFile);
+      await service.storageStateFor(loginFile);
+
+      expect(executor.saveStorageState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log in again when a cookie has expired', async () => {
+      await writeState([{ name: 'sid', expires: Date.now() / 1000 - 60 }]);
+
+      await service.storageStateFor(loginFile);
+
+      expect(executor.saveStorageState).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a failing login flow', async () => {
+      executor.execute.mockResolvedValueOnce({ success: false, error: 'timeout', duration: 1 });
+
+      await expect(service.storageStateFor(loginFile)).rejects.toThrow(
+        `Login flow ${loginFile} failed`
+      );
+      expect(executor.saveStorageState).not.toHaveBeenCalled();
+    });
+
+    it('should keep separate sessions for same-named flows in different folders', async () => {
+      const adminLogin = path.join(tempDir, 'admin', 'login.ox.test');
+      const shopLogin = path.join(tempDir, 'shop', 'login.ox.test');
+      for (const file of [adminLogin, shopLogin]) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, 'navigate url=https://shop.dev/login\n', 'utf-8');
+      }
+
+      const adminState = await service.storageStateFor(adminLogin);
+      const shopState = await service.storageStateFor(shopLogin);
+
+      expect(adminState).not.toBe(shopState);
+      expect(service.statePath(adminLogin)).toBe(adminState);
+      expect(executor.saveStorageState).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject login flows that use @auth themselves', async () => {
+      await fs.writeFile(loginFile, '@auth other.ox.test\n\nreload\n', 'utf-8');
+
+      await expect(service.storageStateFor(loginFile)).rejects.toThrow('cannot itself use @auth');
+    });
+  });
+
+  describe('isFresh', () => {
+    it('should treat a missing file as stale', async () => {
+      expect(await service.isFresh(path.join(tempDir, 'missing.json'))).toBe(false);
+    });
+
+    it('should accept session cookies and cookies that have not expired', async () => {
+      const statePath = await writeState([
+        { name: 'session', expires: -1 },
+        { name: 'remember', expires: Date.now() / 1000 + 3600 },
+      ]);
+
+      expect(await service.isFresh(statePath)).toBe(true);
+    });
+
+    it('should treat files older than the maximum age as stale', async () => {
+      const statePath = await writeState([]);
+
+      expect(await service.isFresh(statePath, Date.now() + DEFAULT_AUTH_MAX_AGE + 1000)).toBe(
+        false
+      );
+    });
+  });
+});
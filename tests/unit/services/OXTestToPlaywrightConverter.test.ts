@@ -0,0 +1,613 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OXTestToPlaywrightConverter } from '../../../src/application/services/OXTestToPlaywrightConverter';
+
+describe('OXTestToPlaywrightConverter', () => {
+  let converter: OXTestToPlaywrightConverter;
+  const options = { testName: 'checkout', baseURL: 'https://shop.dev' };
+
+  beforeEach(() => {
+    converter = new OXTestToPlaywrightConverter();
+  });
+
+  it('should wrap commands in a Playwright test', async () => {
+    const result = await converter.convert('navigate url=https://shop.dev', options);
+
+    expect(result.commandsConverted).toBe(1);
+    expect(result.code).toContain("import { test, expect } from '@playwright/test';");
+    expect(result.code).toContain("test('checkout', async ({ page }) => {");
+    expect(result.code).toContain("await page.goto('https://shop.dev');");
+  });
+
+  it('should convert every extended command without falling back', async () => {
+    const oxtest = `
+go_back
+go_forward
+reload
+check css=#terms
+uncheck css=#newsletter
+select_option css=select value=DE
+focus css=input
+blur css=input
+clear css=input
+assert_hidden css=.spinner
+assert_value css=input value=42
+assert_enabled css=button
+assert_disabled css=button.locked
+assert_checked css=#terms
+assert_unchecked css=#newsletter
+assert_title value=Cart
+screenshot path=cart.png
+set_viewport width=1280 height=720
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).not.toContain('Unsupported command');
+    expect(result.code).toContain("await page.locator('select').selectOption('DE');");
+    expect(result.code).toContain("await expect(page.locator('button.locked')).toBeDisabled();");
+    expect(result.code).toContain("await expect(page.locator('#newsletter')).not.toBeChecked();");
+    expect(result.code).toContain("await expect(page).toHaveTitle('Cart');");
+    expect(result.code).toContain("await page.screenshot({ path: 'cart.png', fullPage: false });");
+    expect(result.code).toContain('await page.setViewportSize({ width: 1280, height: 720 });');
+  });
+
+  it('should convert network mocks to context route handlers', async () => {
+    const oxtest = `
+mock_route url=**/api/pay status=500 body="Payment declined" content_type=text/plain
+mock_route url=**/api/cart body_file=fixtures/cart.json
+block_route url=**/*.png
+delay_route url=**/api/search ms=2000
+unroute url=**/api/pay
+unroute
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "await page.context().route('**/api/pay', route => route.fulfill({ status: 500, contentType: 'text/plain', body: 'Payment declined' }));"
+    );
+    expect(result.code).toContain(
+      "await page.context().route('**/api/cart', route => route.fulfill({ status: 200, path: 'fixtures/cart.json' }));"
+    );
+    expect(result.code).toContain(
+      "await page.context().route('**/*.png', route => route.abort());"
+    );
+    expect(result.code).toContain(
+      "await page.context().route('**/api/search', async route => { await new Promise(resolve => setTimeout(resolve, 2000)); await route.fallback(); });"
+    );
+    expect(result.code).toContain("await page.context().unroute('**/api/pay');");
+    expect(result.code).toContain("await page.context().unrouteAll({ behavior: 'ignoreErrors' });");
+  });
+
+  it('should read mocked body files relative to the .ox.test file', async () => {
+    const result = await converter.convert(
+      'mock_route url=**/api/cart body_file=fixtures/cart.json',
+      {
+        ...options,
+        sourcePath: 'suites/checkout.ox.test',
+      }
+    );
+
+    expect(result.code).toContain(
+      "await page.context().route('**/api/cart', route => route.fulfill({ status: 200, path: 'suites/fixtures/cart.json' }));"
+    );
+  });
+
+  it('should convert network assertions to polls over the recorded traffic', async () => {
+    const oxtest = `
+click text="Place order"
+assert_request url=**/api/order method=post body_contains=sku
+assert_response url=**/api/order status=201 timeout=10000
+wait_response url=**/api/confirmation
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "import { test, expect, Page, Request, Response } from '@playwright/test';"
+    );
+    expect(result.code).toContain('function trafficOf(page: Page)');
+    expect(result.code).toMatch(/trafficOf\(page\);\n\n {2}\/\/ click/);
+    expect(result.code).toContain(
+      "await expect.poll(() => trafficOf(page).requests.some(r => /^.*\\/api\\/order$/.test(r.url()) && r.method() === 'POST' && (r.postData() ?? '').includes('sku'))).toBe(true);"
+    );
+    expect(result.code).toContain(
+      'await expect.poll(() => trafficOf(page).responses.some(r => /^.*\\/api\\/order$/.test(r.url()) && r.status() === 201), { timeout: 10000 }).toBe(true);'
+    );
+    expect(result.code).toContain(
+      'await expect.poll(() => trafficOf(page).responses.some(r => /^.*\\/api\\/confirmation$/.test(r.url())), { timeout: 30000 }).toBe(true);'
+    );
+  });
+
+  it('should upload files relative to the .ox.test file', async () => {
+    const result = await converter.convert(
+      'upload css=input[type=file] file=fixtures/a.pdf,/tmp/b.pdf',
+      { ...options, sourcePath: 'suites/apply.ox.test' }
+    );
+
+    expect(result.code).toContain(
+      "await page.locator('input[type=file]').setInputFiles(['suites/fixtures/a.pdf', '/tmp/b.pdf']);"
+    );
+  });
+
+  it('should convert uploads and downloads', async () => {
+    const oxtest = `
+upload css=input[type=file] file=fixtures/a.pdf
+upload css=input[type=file] file=fixtures/a.pdf,fixtures/b.pdf
+click text="Export"
+expect_download as=report
+assert_download name=report-*.pdf size_gt=1000 timeout=10000
+assert_download
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "import { test, expect, Page, Download } from '@playwright/test';\nimport { statSync } from 'fs';"
+    );
+    expect(result.code).toContain('async function nextDownload(page: Page, timeout: number)');
+    expect(result.code).toMatch(/downloadsOf\(page\);\n\n {2}const vars/);
+    expect(result.code).toContain(
+      "await page.locator('input[type=file]').setInputFiles('fixtures/a.pdf');"
+    );
+    expect(result.code).toContain(
+      "await page.locator('input[type=file]').setInputFiles(['fixtures/a.pdf', 'fixtures/b.pdf']);"
+    );
+    expect(result.code).toContain("vars['report'] = await nextDownload(page, 30000);");
+    expect(result.code).toContain(
+      'await expect.poll(() => hasDownload(page, /^report-[^/]*\\.pdf$/, 1000), { timeout: 10000 }).toBe(true);'
+    );
+    expect(result.code).toContain(
+      'await expect.poll(() => hasDownload(page, /^/, -1)).toBe(true);'
+    );
+  });
+
+  it('should locate elements in the frame switched to', async () => {
+    const oxtest = `
+switch_frame css=iframe[name=card]
+fill placeholder="Card number" value=4242
+switch_frame main
+click text="Pay"
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "import { test, expect, Page, FrameLocator } from '@playwright/test';"
+    );
+    expect(result.code).toContain('  let frame: Page | FrameLocator = page;');
+    expect(result.code).toContain("frame = frame.locator('iframe[name=card]').contentFrame();");
+    expect(result.code).toContain("await frame.getByPlaceholder('Card number').fill('4242');");
+    expect(result.code).toContain('  frame = page;');
+    expect(result.code).toContain("await frame.getByText('Pay').click();");
+  });
+
+  it('should follow popups and tabs', async () => {
+    const oxtest = `
+click text="Pay with PayPal"
+expect_popup as=paypal
+click text="Approve"
+switch_tab index=0
+switch_tab name=paypal
+close_tab
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "import { test, expect, Page, BrowserContext } from '@playwright/test';"
+    );
+    expect(result.code).toContain('async function nextPopup(page: Page, timeout: number');
+    expect(result.code).toMatch(/popupsOf\(page\);\n\n {2}\/\/ click/);
+    expect(result.code).toContain("page = await nextPopup(page, 30000, 'paypal');");
+    expect(result.code).toContain('page = await switchTab(page, { index: 0 });');
+    expect(result.code).toContain("page = await switchTab(page, { name: 'paypal' });");
+    expect(result.code).toContain('page = await closeTab(page);');
+    expect(result.code).not.toContain('frame = page');
+  });
+
+  it('should convert pointer and keyboard interactions', async () => {
+    const oxtest = `
+click css=.row modifiers=Shift position=10,5
+double_click css=.title
+right_click css=.card modifiers=Alt
+type css=.editor value=Hello delay=50
+press key=Control+A
+drag from=text="Task 1" to=css=.column-done
+scroll_into_view css=footer
+scroll by=0,500
+scroll css=.list by=0,-200
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "await page.locator('.row').click({ modifiers: ['Shift'], position: { x: 10, y: 5 } });"
+    );
+    expect(result.code).toContain("await page.locator('.title').dblclick();");
+    expect(result.code).toContain(
+      "await page.locator('.card').click({ button: 'right', modifiers: ['Alt'] });"
+    );
+    expect(result.code).toContain(
+      "await page.locator('.editor').pressSequentially('Hello', { delay: 50 });"
+    );
+    expect(result.code).toContain("await page.keyboard.press('Control+A');");
+    expect(result.code).toContain(
+      "await page.getByText('Task 1').dragTo(page.locator('.column-done'));"
+    );
+    expect(result.code).toContain("await page.locator('footer').scrollIntoViewIfNeeded();");
+    expect(result.code).toContain('await page.mouse.wheel(0, 500);');
+    expect(result.code).toContain(
+      "await page.locator('.list').hover(); await page.mouse.wheel(0, -200);"
+    );
+  });
+
+  it("should apply a command's timeout and wait_for to its step", async () => {
+    const oxtest = `
+click css=.buy timeout=5000 wait_for=visible
+fill css=#email value=a@b.dev timeout=3000
+check css=#terms wait_for=attached
+type css=.editor value=Hello delay=50 timeout=4000
+wait_for css=.toast timeout=8000
+assert_text css=h1 value=Thanks timeout=10000
+click css=.next retries=3 wait_for=enabled
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "await page.locator('.buy').waitFor({ state: 'visible', timeout: 5000 }); await page.locator('.buy').click({ timeout: 5000 });"
+    );
+    expect(result.code).toContain(
+      "await page.locator('#email').fill('a@b.dev', { timeout: 3000 });"
+    );
+    expect(result.code).toContain(
+      "await page.locator('#terms').waitFor({ state: 'attached' }); await page.locator('#terms').check();"
+    );
+    expect(result.code).toContain(
+      "await page.locator('.editor').pressSequentially('Hello', { delay: 50, timeout: 4000 });"
+    );
+    expect(result.code).toContain(
+      "await page.locator('.toast').waitFor({ state: 'visible', timeout: 8000 });"
+    );
+    expect(result.code).toContain(
+      "await expect(page.locator('h1')).toHaveText('Thanks', { timeout: 10000 });"
+    );
+    expect(result.code).toContain("\n  await page.locator('.next').click();\n");
+  });
+
+  it('should answer dialogs before the step that opens them', async () => {
+    const oxtest = `
+dismiss_dialog
+click text="Delete"
+accept_dialog text=Bob
+click text="Rename"
+assert_dialog message="Are you sure you want to delete?" timeout=1000
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "import { test, expect, Page, BrowserContext } from '@playwright/test';"
+    );
+    expect(result.code).toContain('const answer = entry.answers.shift() ?? { accept: false };');
+    expect(result.code).toContain('  dialogsOf(page);\n');
+    expect(result.code).toMatch(/answerNextDialog\(page, false\);\n\n {2}\/\/ click/);
+    expect(result.code).toContain("answerNextDialog(page, true, 'Bob');");
+    expect(result.code).toContain(
+      "await expect.poll(() => dialogsOf(page), { timeout: 1000 }).toContain('Are you sure you want to delete?');"
+    );
+  });
+
+  it('should answer the other dialogs by the @dialogs policy', async () => {
+    const oxtest = `
+@dialogs accept
+click text="Delete"
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain('const answer = entry.answers.shift() ?? { accept: true };');
+    expect(result.code).toContain('entry.messages.push(dialog.message());');
+    expect(result.code).toContain('  dialogsOf(page);\n');
+  });
+
+  it('should convert cookie and storage commands', async () => {
+    const oxtest = `
+set_cookie name=consent value=accepted domain=.shop.dev expires=1893456000
+set_cookie name=ab value=b
+clear_cookies name=ab
+assert_cookie name=consent value=accepted
+set_local_storage key=feature value=on
+assert_local_storage key=feature
+clear_storage
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).not.toContain('Unsupported command');
+    expect(result.code).toContain(
+      "await page.context().addCookies([{ name: 'consent', value: 'accepted', domain: '.shop.dev', path: '/', expires: 1893456000 }]);"
+    );
+    expect(result.code).toContain(
+      "await page.context().addCookies([{ name: 'ab', value: 'b', url: new URL('/', page.url()).href }]);"
+    );
+    expect(result.code).toContain("await page.context().clearCookies({ name: 'ab' });");
+    expect(result.code).toContain(
+      "expect((await page.context().cookies()).find(c => c.name === 'consent')?.value).toBe('accepted');"
+    );
+    expect(result.code).toContain(
+      "await page.evaluate(([key, value]) => localStorage.setItem(key, value), ['feature', 'on']);"
+    );
+    expect(result.code).toContain(
+      "expect(await page.evaluate(key => localStorage.getItem(key), 'feature')).not.toBeNull();"
+    );
+    expect(result.code).toContain(
+      'await page.evaluate(() => { localStorage.clear(); sessionStorage.clear(); });'
+    );
+  });
+
+  it('should send api requests with the page cookies and assert on the response', async () => {
+    const oxtest = `
+http method=post url=/api/products json_file=fixtures/product.json headers='{"X-Api-Key":"\${API_KEY}"}' as=product
+assert_http status=201 json_path=$.id exists as=productId
+navigate url=https://shop.dev/products/\${productId}
+assert_http json_path=$.tags[0] value=sale
+assert_http json_path=$.error exists=false
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "import { test, expect, Page, BrowserContext } from '@playwright/test';\nimport { readFileSync } from 'fs';"
+    );
+    expect(result.code).toContain(
+      'async function sendHttp(page: Page, method: string, url: string'
+    );
+    expect(result.code).toContain(
+      "vars['product'] = await sendHttp(page, 'POST', '/api/products', { headers: JSON.parse(`{\"X-Api-Key\":\"${process.env['API_KEY']}\"}`), data: JSON.parse(readFileSync('fixtures/product.json', 'utf-8')) });"
+    );
+    expect(result.code).toContain(
+      "expect(lastHttp(page).status).toBe(201); expect(jsonAt(lastHttp(page).body, ['id'])).toBeDefined(); vars['productId'] = jsonAt(lastHttp(page).body, ['id']) ?? '';"
+    );
+    expect(result.code).toContain(
+      "await page.goto(`https://shop.dev/products/${vars['productId']}`);"
+    );
+    expect(result.code).toContain("expect(jsonAt(lastHttp(page).body, ['tags', 0])).toBe('sale');");
+    expect(result.code).toContain(
+      "expect(jsonAt(lastHttp(page).body, ['error'])).toBeUndefined();"
+    );
+  });
+
+  it('should read json_file relative to the .ox.test file', async () => {
+    const result = await converter.convert(
+      'http method=post url=/api/users json_file=fixtures/user.json',
+      { ...options, sourcePath: 'suites/signup.ox.test' }
+    );
+
+    expect(result.code).toContain(
+      "await sendHttp(page, 'POST', '/api/users', { data: JSON.parse(readFileSync('suites/fixtures/user.json', 'utf-8')) });"
+    );
+  });
+
+  it('should convert accessible locators', async () => {
+    const oxtest = `
+click role=button[name="Sign in"][exact]
+assert_visible role=heading[level=2]
+fill label=Email value=a@b.c
+click alt=Logo
+click title="Close dialog"
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "await page.getByRole('button', { name: 'Sign in', exact: true }).click();"
+    );
+    expect(result.code).toContain(
+      "await expect(page.getByRole('heading', { level: 2 })).toBeVisible();"
+    );
+    expect(result.code).toContain("await page.getByLabel('Email').fill('a@b.c');");
+    expect(result.code).toContain("await page.getByAltText('Logo').click();");
+    expect(result.code).toContain("await page.getByTitle('Close dialog').click();");
+  });
+
+  it('should convert chained, filtered and indexed locators', async () => {
+    const oxtest = `
+within css=.row hasText="Blue T-Shirt"
+  click role=button[name=Buy]
+end
+click css=.cart >> text=Remove nth=-1
+assert_visible css=.card has=testid=sale
+`;
+
+    const result = await converter.convert(oxtest, options);
+
+    expect(result.code).toContain(
+      "await page.locator('.row').filter({ hasText: 'Blue T-Shirt' }).first()" +
+        ".getByRole('button', { name: 'Buy' }).click();"
+    );
+    expect(result.code).toContain(
+      "await page.locator('.cart').first().getByText('Remove').nth(-1).click();"
+    );
+    expect(result.code).toContain(
+      "await expect(page.locator('.card').filter({ has: page.getByTestId('sale') })).toBeVisible();"
+    );
+  });
+
+  describe('variables', () => {
+    it('should declare vars and emit capture statements', async () => {
+      const oxtest = `
+store_text css=.order-id as=orderId
+store_attribute css=a.invoice attribute=href as=invoiceUrl
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.code).toContain('const vars: Record<string, string> = {};');
+      expect(result.code).toContain(
+        "vars['orderId'] = ((await page.locator('.order-id').textContent()) ?? '').trim();"
+      );
+      expect(result.code).toContain(
+        "vars['invoiceUrl'] = (await page.locator('a.invoice').getAttribute('href')) ?? '';"
+      );
+    });
+
+    it('should interpolate captured variables with template literals', async () => {
+      const oxtest = `
+store_text css=.order-id as=orderId
+assert_text css=[data-order=\${orderId}] value="Order \${orderId}"
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.code).toContain(
+        "await expect(page.locator(`[data-order=${vars['orderId']}]`)).toHaveText(`Order ${vars['orderId']}`);"
+      );
+    });
+
+    it('should read unknown variables from process.env with defaults', async () => {
+      const result = await converter.convert(
+        'navigate url=${BASE_URL:-https://shop.dev}/cart',
+        options
+      );
+
+      expect(result.code).toContain(
+        "await page.goto(`${process.env['BASE_URL'] ?? 'https://shop.dev'}/cart`);"
+      );
+      expect(result.code).not.toContain('const vars');
+    });
+  });
+
+  describe('control flow blocks', () => {
+    it('should convert if/else to a conditional on element visibility', async () => {
+      const oxtest = `
+if visible css=.cookie-banner
+  click css=.accept
+else
+  assert_hidden css=.overlay
+end
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.commandsConverted).toBe(2);
+      expect(result.code).toContain(
+        "  if (await page.locator('.cookie-banner').first().isVisible()) {"
+      );
+      expect(result.code).toContain("    await page.locator('.accept').click();");
+      expect(result.code).toContain('  } else {');
+      expect(result.code).toContain("    await expect(page.locator('.overlay')).toBeHidden();");
+    });
+
+    it('should convert exists and url conditions', async () => {
+      const oxtest = `
+if exists css=.promo
+  click css=.close
+end
+if url pattern=variant-b
+  click css=.b
+end
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.code).toContain("if ((await page.locator('.promo').count()) > 0) {");
+      expect(result.code).toContain("if (new RegExp('variant-b').test(page.url())) {");
+    });
+
+    it('should convert repeat to a counted loop', async () => {
+      const result = await converter.convert('repeat times=3\nclick css=.next\nend', options);
+
+      expect(result.code).toContain('  for (let i = 0; i < 3; i++) {');
+      expect(result.code).toContain("    await page.locator('.next').click();");
+    });
+
+    it('should convert for_each and bind the item variable', async () => {
+      const oxtest = `
+for_each values="shoes, socks" as=product
+  fill css=#search value=\${product}
+end
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.code).toContain('const vars: Record<string, string> = {};');
+      expect(result.code).toContain("  for (const item of ['shoes', 'socks']) {");
+      expect(result.code).toContain("    vars['product'] = item;");
+      expect(result.code).toContain("await page.locator('#search').fill(`${vars['product']}`);");
+      expect(result.code).not.toContain('function toList');
+    });
+
+    it('should split list variables with a helper', async () => {
+      const oxtest = `
+store_text css=.skus as=skus
+for_each list=skus as=sku
+  click css=[data-sku=\${sku}]
+end
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.code).toContain('function toList(value: string): string[] {');
+      expect(result.code).toContain("for (const item of toList(vars['skus'])) {");
+    });
+  });
+
+  describe('procedures', () => {
+    it('should emit called procedures as helper functions', async () => {
+      const oxtest = `
+define login(user, pass)
+  fill css=#user value=\${user}
+  fill css=#pass value=\${pass}
+end
+call login user=admin pass=\${ADMIN_PW}
+`;
+
+      const result = await converter.convert(oxtest, options);
+
+      expect(result.commandsConverted).toBe(2);
+      expect(result.code).toContain("import { test, expect, Page } from '@playwright/test';");
+      expect(result.code).toContain(
+        'async function login(page: Page, vars: Record<string, string>, args: Record<string, string>): Promise<void> {'
+      );
+      expect(result.code).toContain("  await page.locator('#user').fill(`${args['user']}`);");
+      expect(result.code).toContain('const vars: Record<string, string> = {};');
+      expect(result.code).toContain(
+        "  await login(page, vars, { user: 'admin', pass: `${process.env['ADMIN_PW']}` });"
+      );
+    });
+
+    it('should not emit procedures that are never called', async () => {
+      const result = await converter.convert(
+        'define unused\nclick css=a\nend\nnavigate url=/',
+        options
+      );
+
+      expect(result.code).not.toContain('function unused');
+      expect(result.code).toContain("import { test, expect } from '@playwright/test';");
+    });
+
+    it('should resolve includes relative to the source path', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oxtest-'));
+      try {
+        fs.writeFileSync(
+          path.join(dir, 'login.ox.test'),
+          'define login(user)\nfill css=#user value=\${user}\nend'
+        );
+
+        const result = await converter.convert('include login.ox.test\ncall login user=admin', {
+          ...options,
+          sourcePath: path.join(dir, 'checkout.ox.test'),
+        });
+
+        expect(result.warnings).toEqual([]);
+        expect(result.code).toContain("await login(page, vars, { user: 'admin' });");
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SELECTOR_STATS_FILE,
+  SelectorStatsService,
+} from '../../../src/application/services/SelectorStatsService';
+import { SelectorRecord } from '../../../src/domain/interfaces/SelectorResolution';
+
+describe('SelectorStatsService', () => {
+  let tempDir: string;
+  let service: SelectorStatsService;
+
+  /** A click on css=.buy with fallbacks text=Buy and testid=buy */
+  const buy = (
+    outcome: SelectorRecord['outcome'],
+    fallback?: number,
+    duration: number = 100
+  ): SelectorRecord => ({
+    test: 'checkout',
+    run: '2025-11-14T10:00:00.000Z',
+    command: 'click',
+    selector: 'css=.buy',
+    fallbacks: ['text=Buy', 'testid=buy'],
+    outcome,
+    ...(fallback !== undefined && { fallback }),
+    duration,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'selector-stats-test-'));
+    service = new SelectorStatsService(path.join(tempDir, SELECTOR_STATS_FILE));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('record and load', () => {
+    it('should append the records of each run', async () => {
+      await service.record([buy('primary')]);
+      await service.record([buy('fallback', 1), buy('failed')]);
+
+      await expect(service.load()).resolves.toEqual([
+        buy('primary'),
+        buy('fallback', 1),
+        buy('failed'),
+      ]);
+    });
+
+    it('should have no records before the first run', async () => {
+      await expect(service.load()).resolves.toEqual([]);
+    });
+
+    it('should name the line of a broken record', async () => {
+      await service.record([buy('primary')]);
+      await fs.appendFile(path.join(tempDir, SELECTOR_STATS_FILE), '{"test":\n');
+
+      await expect(service.load()).rejects.toThrow(
+        `Invalid selector record at ${path.join(tempDir, SELECTOR_STATS_FILE)}:2`
+      );
+    });
+  });
+
+  describe('summarize', () => {
+    it('should count how each entry of the chain resolved', () => {
+      const [stats] = service.summarize([
+        buy('primary', undefined, 50),
+        buy('fallback', 2, 150),
+        buy('refined', undefined, 400),
+        buy('failed', undefined, 2000),
+      ]);
+
+      expect(stats).toEqual({
+        selector: 'css=.buy',
+        fallbacks: ['text=Buy', 'testid=buy'],
+        tests: ['checkout'],
+        runs: 4,
+        primary: 1,
+        fallbackHits: [0, 1],
+        refined: 1,
+        failed: 1,
+        averageDuration: 650,
+        flaky: true,
+        alwaysFallsBack: false,
+      });
+    });
+
+    it('should flag a fallback that found the element in each of the latest runs', () => {
+      const [stats] = service.summarize([
+        buy('fallback', 2),
+        buy('fallback', 1),
+        buy('fallback', 1),
+        buy('fallback', 1),
+      ]);
+
+      expect(stats).toMatchObject({ flaky: true, alwaysFallsBack: true, promotable: 1 });
+    });
+
+    it('should not promote before enough runs or when the primary worked lately', () => {
+      const few = service.summarize([buy('fallback', 1), buy('fallback', 1)]);
+      const recovered = service.summarize([buy('fallback', 1), buy('fallback', 1), buy('primary')]);
+
+      expect(few[0]).toMatchObject({ flaky: false, alwaysFallsBack: true });
+      expect(few[0]).not.toHaveProperty('promotable');
+      expect(recovered[0]).not.toHaveProperty('promotable');
+    });
+
+    it('should keep chains with other fallbacks apart', () => {
+      const stats = service.summarize([
+        buy('primary'),
+        { ...buy('primary'), fallbacks: [], test: 'search' },
+      ]);
+
+      expect(stats.map(chain => [chain.fallbacks, chain.tests])).toEqual([
+        [['text=Buy', 'testid=buy'], ['checkout']],
+        [[], ['search']],
+      ]);
+    });
+  });
+
+  describe('promote', () => {
+    const promotable = (): ReturnType<SelectorStatsService['summarize']> =>
+      service.summarize([buy('fallback', 2), buy('fallback', 2), buy('fallback', 2)]);
+
+    it('should make the fallback the primary and keep the rest of the file', () => {
+      const source = [
+        '# Checkout',
+        'navigate url=/cart',
+        '  click css=.buy fallback text=Buy fallback testid=buy  # add it',
+        'click css=.buy',
+      ].join('\n');
+
+      const result = service.promote(source, promotable());
+
+      expect(result.promoted).toBe(1);
+      expect(result.content).toBe(
+        [
+          '# Checkout',
+          'navigate url=/cart',
+          '  click testid=buy fallback css=.buy fallback text=Buy  # add it',
+          'click css=.buy',
+        ].join('\n')
+      );
+    });
+
+    it('should promote inside within blocks and procedures once', () => {
+      const source = [
+        'define addToCart()',
+        '  within css=.product',
+        '    click css=.buy fallback text=Buy fallback testid=buy timeout=5000',
+        '  end',
+        'end',
+        'call addToCart',
+        'call addToCart',
+      ].join('\n');
+
+      const result = service.promote(source, promotable());
+
+      expect(result.promoted).toBe(1);
+      expect(result.content.split('\n')[2]).toBe(
+        '    click testid=buy fallback css=.buy fallback text=Buy timeout=5000'
+      );
+    });
+
+    it('should leave files without promotable selectors unchanged', () => {
+      const source = 'click css=.buy fallback text=Buy fallback testid=buy\n';
+
+      expect(service.promote(source, service.summarize([buy('primary')]))).toEqual({
+        content: source,
+        promoted: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  VariableInterpolator,
+  UndefinedVariableError,
+} from '../../../src/application/services/VariableInterpolator';
+import { OxtestCommand } from '../../../src/domain/entities/OxtestCommand';
+import { SelectorSpec } from '../../../src/domain/entities/SelectorSpec';
+
+describe('VariableInterpolator', () => {
+  let interpolator: VariableInterpolator;
+
+  beforeEach(() => {
+    interpolator = new VariableInterpolator({ BASE_URL: 'https://shop.dev' });
+  });
+
+  describe('interpolateString', () => {
+    it('should resolve captured variables', () => {
+      expect(interpolator.interpolateString('Order ${orderId}', { orderId: 'A-1' })).toBe(
+        'Order A-1'
+      );
+    });
+
+    it('should fall back to environment variables', () => {
+      expect(interpolator.interpolateString('${BASE_URL}/cart', {})).toBe('https://shop.dev/cart');
+    });
+
+    it('should prefer captured variables over environment variables', () => {
+      expect(interpolator.interpolateString('${BASE_URL}', { BASE_URL: 'http://local' })).toBe(
+        'http://local'
+      );
+    });
+
+    it('should use inline default when variable is missing', () => {
+      expect(interpolator.interpolateString('${LOCALE:-en}', {})).toBe('en');
+    });
+
+    it('should throw UndefinedVariableError for unknown variables', () => {
+      expect(() => interpolator.interpolateString('${nope}', {})).toThrow(UndefinedVariableError);
+      expect(() => interpolator.interpolateString('${nope}', {})).toThrow(
+        'Undefined variable: ${nope}'
+      );
+    });
+
+    it('should leave strings without references unchanged', () => {
+      expect(interpolator.interpolateString('plain $text {}', {})).toBe('plain $text {}');
+    });
+  });
+
+  describe('interpolate', () => {
+    it('should return the same command when there are no references', () => {
+      const command = new OxtestCommand('click', {}, new SelectorSpec('css', 'button'));
+      expect(interpolator.interpolate(command, {})).toBe(command);
+    });
+
+    it('should resolve params, selector and fallbacks', () => {
+      const command = new OxtestCommand(
+        'fill',
+        { value: '${user}' },
+        new SelectorSpec('css', '#${field}', [{ strategy: 'placeholder', value: '${field}' }])
+      );
+
+      const resolved = interpolator.interpolate(command, { user: 'admin', field: 'username' });
+
+      expect(resolved.params.value).toBe('admin');
+      expect(resolved.selector?.value).toBe('#username');
+      expect(resolved.selector?.fallbacks[0].value).toBe('username');
+      expect(command.params.value).toBe('${user}');
+    });
+
+    it('should keep the selector as written on the resolved command', () => {
+      const command = new OxtestCommand('click', {}, new SelectorSpec('text', '${product}'));
+
+      const once = interpolator.interpolate(command, { product: 'Shirt' });
+      const twice = interpolator.interpolate(once, { product: 'Socks' });
+
+      expect(once.writtenSelector).toBe(command.selector);
+      expect(twice.writtenSelector).toBe(command.selector);
+    });
+
+    it('should keep non-string params as they are', () => {
+      const command = new OxtestCommand('wait', { timeout: 500, note: '${BASE_URL}' });
+      const resolved = interpolator.interpolate(command, {});
+
+      expect(resolved.params.timeout).toBe(500);
+      expect(resolved.params.note).toBe('https://shop.dev');
+    });
+  });
+});